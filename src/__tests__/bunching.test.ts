@@ -0,0 +1,163 @@
+/**
+ * Bunching and Gap Detection Unit Tests
+ *
+ * Tests placing vehicles on route direction paths and reporting bunched
+ * and widely spaced vehicle pairs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRoutePaths, detectSpacingAlerts, type RoutePath } from '../analytics/bunching.js';
+import type { Route, RouteDetails, Stop, Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+// A straight east-west street, ~6.4 km long (0.001° of longitude is ~64 m)
+const LATITUDE = 54.68;
+const EAST = [
+  { latitude: LATITUDE, longitude: 25.2 },
+  { latitude: LATITUDE, longitude: 25.3 },
+];
+
+const PATHS: RoutePath[] = [
+  { route: '4G', type: 'bus', directionId: 0, headsign: 'Rytai', points: EAST },
+  { route: '4G', type: 'bus', directionId: 1, headsign: 'Vakarai', points: [...EAST].reverse() },
+];
+
+function createVehicle(id: string, longitude: number, overrides: Partial<Vehicle> = {}): Vehicle {
+  return {
+    id,
+    vehicleNumber: id,
+    route: '4G',
+    type: 'bus',
+    latitude: LATITUDE + 0.0001,
+    longitude,
+    bearing: 90,
+    speed: 20,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: new Date('2024-05-06T08:00:00Z'),
+    ...overrides,
+  };
+}
+
+// Eastbound: v1-v2 ~190 m apart, then ~1.1 km, then ~3.2 km
+const EASTBOUND = [
+  createVehicle('v3', 25.24),
+  createVehicle('v1', 25.22),
+  createVehicle('v4', 25.29),
+  createVehicle('v2', 25.223),
+];
+
+// =============================================================================
+// detectSpacingAlerts
+// =============================================================================
+
+describe('detectSpacingAlerts', () => {
+  it('reports bunched vehicles and gaps well above the median spacing', () => {
+    const alerts = detectSpacingAlerts(EASTBOUND, PATHS);
+
+    expect(alerts.map(a => [a.kind, a.follower.id, a.leader.id])).toEqual([
+      ['bunching', 'v1', 'v2'],
+      ['gap', 'v3', 'v4'],
+    ]);
+    expect(alerts[0]?.distanceMeters).toBeCloseTo(193, -1);
+    // Median of the other spacings: v1-v2 and v2-v3
+    expect(alerts[1]?.medianDistanceMeters).toBeCloseTo(644, -1);
+    expect(alerts[1]).toMatchObject({ route: '4G', type: 'bus', directionId: 0, headsign: 'Rytai' });
+  });
+
+  it('places vehicles on the direction matching their heading', () => {
+    const westbound = createVehicle('w1', 25.2235, { bearing: 270 });
+    const alerts = detectSpacingAlerts([...EASTBOUND, westbound], PATHS);
+
+    expect(alerts.some(a => a.leader.id === 'w1' || a.follower.id === 'w1')).toBe(false);
+    expect(alerts).toHaveLength(2);
+  });
+
+  it('ignores stale vehicles, other routes and vehicles at termini', () => {
+    const alerts = detectSpacingAlerts([
+      createVehicle('a', 25.25),
+      createVehicle('stale', 25.251, { isStale: true }),
+      createVehicle('other', 25.251, { route: '7' }),
+      createVehicle('trolley', 25.251, { type: 'trolleybus' }),
+      createVehicle('terminus', 25.2005),
+      createVehicle('layover', 25.2008),
+    ], PATHS);
+
+    expect(alerts).toEqual([]);
+  });
+
+  it('matches vehicles of unknown type by route name', () => {
+    const alerts = detectSpacingAlerts([
+      createVehicle('a', 25.25, { type: 'unknown' }),
+      createVehicle('b', 25.251, { type: 'unknown' }),
+    ], PATHS);
+
+    expect(alerts.map(a => a.kind)).toEqual(['bunching']);
+  });
+
+  it('reports a gap among three vehicles', () => {
+    const alerts = detectSpacingAlerts([
+      createVehicle('a', 25.22),
+      createVehicle('b', 25.235),
+      createVehicle('c', 25.29),
+    ], PATHS);
+
+    expect(alerts.map(a => [a.kind, a.follower.id, a.leader.id])).toEqual([['gap', 'b', 'c']]);
+  });
+
+  it('needs enough vehicles to judge gaps', () => {
+    const alerts = detectSpacingAlerts([createVehicle('a', 25.22), createVehicle('b', 25.29)], PATHS);
+    expect(alerts).toEqual([]);
+  });
+});
+
+// =============================================================================
+// buildRoutePaths
+// =============================================================================
+
+describe('buildRoutePaths', () => {
+  const route: Route = {
+    id: 'r1',
+    shortName: '4G',
+    longName: 'Rytai - Vakarai',
+    type: 'bus',
+    color: 'FF0000',
+    textColor: 'FFFFFF',
+  };
+  const stop = (id: string, longitude: number): Stop => ({
+    id, code: null, name: id, description: null, latitude: LATITUDE, longitude, url: null,
+  });
+
+  it('uses the shape, or the stops when there is none', () => {
+    const details: RouteDetails = {
+      route,
+      directions: [
+        {
+          directionId: 0, headsign: 'Rytai', stopIds: ['A', 'B'], stops: [stop('A', 25.2), stop('B', 25.3)],
+          shapeId: 's0', shape: EAST.map((p, i) => ({ ...p, shapeId: 's0', sequence: i + 1, distanceTraveled: null })), tripCount: 5,
+        },
+        {
+          directionId: 1, headsign: 'Vakarai', stopIds: ['B', 'A'], stops: [stop('B', 25.3), stop('A', 25.2)],
+          shapeId: null, shape: [], tripCount: 5,
+        },
+        {
+          directionId: null, headsign: 'Depo', stopIds: ['A'], stops: [stop('A', 25.2)],
+          shapeId: null, shape: [], tripCount: 1,
+        },
+      ],
+    };
+
+    const paths = buildRoutePaths([details]);
+
+    expect(paths.map(p => [p.directionId, p.points.length])).toEqual([[0, 2], [1, 2]]);
+    expect(paths[1]?.points[0]?.longitude).toBe(25.3);
+  });
+});
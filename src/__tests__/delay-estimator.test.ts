@@ -0,0 +1,173 @@
+/**
+ * Delay Estimator Unit Tests
+ *
+ * Tests estimating schedule deviation from position along a trip's shape.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseStopsContent,
+  parseTripsContent,
+  parseShapesContent,
+  parseCalendarContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import { buildTripCache } from '../enrichment/trip-profile.js';
+import { estimateVehicleDelay, estimateVehicleDelays } from '../enrichment/delay-estimator.js';
+import { getServiceDayStart, parseGtfsTime } from '../utils/time.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+// Straight east-west street; trip runs A -> B -> C at 10 minutes per stop
+const STOPS_TXT = `stop_id,stop_name,stop_lat,stop_lon
+A,Vakarai,54.9,23.90
+B,Centras,54.9,23.93
+C,Rytai,54.9,23.96`;
+
+const SHAPES_TXT = `shape_id,shape_pt_lat,shape_pt_lon,shape_pt_sequence
+east,54.9,23.90,1
+east,54.9,23.93,2
+east,54.9,23.96,3`;
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type
+r7,7,Vakarai - Rytai,3`;
+
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,shape_id
+r7,daily,east-1,Rytai,east
+r7,daily,late-night,Rytai,east`;
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+daily,1,1,1,1,1,1,1,20240101,20241231`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+east-1,08:00:00,08:00:00,A,1
+east-1,08:10:00,08:11:00,B,2
+east-1,08:20:00,08:20:00,C,3
+late-night,24:20:00,24:20:00,A,1
+late-night,24:30:00,24:30:00,B,2
+late-night,24:40:00,24:40:00,C,3`;
+
+const cache = buildTripCache(
+  buildScheduleIndex({
+    routes: parseRoutesContent(ROUTES_TXT),
+    trips: parseTripsContent(TRIPS_TXT),
+    calendar: parseCalendarContent(CALENDAR_TXT),
+    calendarDates: [],
+    stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+  }),
+  parseShapesContent(SHAPES_TXT),
+  parseStopsContent(STOPS_TXT)
+);
+
+const SERVICE_DATE = '2024-05-06';
+
+function at(time: string): Date {
+  return new Date(getServiceDayStart(SERVICE_DATE).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+function createVehicle(overrides: Partial<Vehicle> = {}): Vehicle {
+  return {
+    id: 'kaunas-1',
+    vehicleNumber: '1001',
+    route: '7',
+    type: 'bus',
+    latitude: 54.9,
+    longitude: 23.915,
+    bearing: 90,
+    speed: 25,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: 'east-1',
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: at('08:05:00'),
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// estimateVehicleDelay
+// =============================================================================
+
+describe('estimateVehicleDelay', () => {
+  it('returns zero for a vehicle on schedule', () => {
+    expect(estimateVehicleDelay(createVehicle(), cache)).toBeCloseTo(0, -1);
+  });
+
+  it('returns positive delay for a late vehicle', () => {
+    const vehicle = createVehicle({ measuredAt: at('08:08:00') });
+
+    expect(estimateVehicleDelay(vehicle, cache)).toBeCloseTo(180, -1);
+  });
+
+  it('returns negative delay for an early vehicle', () => {
+    const vehicle = createVehicle({ measuredAt: at('08:04:00') });
+
+    expect(estimateVehicleDelay(vehicle, cache)).toBeCloseTo(-60, -1);
+  });
+
+  it('interpolates from the departure after dwell time at a stop', () => {
+    // Halfway between B (departs 08:11) and C (arrives 08:20)
+    const vehicle = createVehicle({ longitude: 23.945, measuredAt: at('08:17:30') });
+
+    expect(estimateVehicleDelay(vehicle, cache)).toBeCloseTo(120, -1);
+  });
+
+  it('does not report waiting at the origin as running early', () => {
+    const vehicle = createVehicle({ longitude: 23.90, measuredAt: at('07:55:00') });
+
+    expect(estimateVehicleDelay(vehicle, cache)).toBe(0);
+  });
+
+  it('resolves overnight trips of the previous service day', () => {
+    // 24:30:00 on the service date is 00:30 on the next calendar day
+    const vehicle = createVehicle({
+      gtfsTripId: 'late-night',
+      longitude: 23.93,
+      measuredAt: at('24:32:00'),
+    });
+
+    expect(estimateVehicleDelay(vehicle, cache)).toBeCloseTo(120, -1);
+  });
+
+  it('returns null when the vehicle is off the trip path', () => {
+    const vehicle = createVehicle({ latitude: 54.95 });
+
+    expect(estimateVehicleDelay(vehicle, cache)).toBeNull();
+  });
+
+  it('returns null without a GTFS trip', () => {
+    expect(estimateVehicleDelay(createVehicle({ gtfsTripId: null }), cache)).toBeNull();
+  });
+
+  it('returns null for unknown trips', () => {
+    expect(estimateVehicleDelay(createVehicle({ gtfsTripId: 'missing' }), cache)).toBeNull();
+  });
+});
+
+// =============================================================================
+// estimateVehicleDelays
+// =============================================================================
+
+describe('estimateVehicleDelays', () => {
+  it('fills missing delays without overwriting reported ones', () => {
+    const vehicles = [
+      createVehicle({ id: 'kaunas-1', measuredAt: at('08:08:00') }),
+      createVehicle({ id: 'kaunas-2', delaySeconds: 42 }),
+      createVehicle({ id: 'kaunas-3', gtfsTripId: null }),
+    ];
+
+    const [estimated, reported, unmatched] = estimateVehicleDelays(vehicles, cache);
+
+    expect(estimated?.delaySeconds).toBeCloseTo(180, -1);
+    expect(reported?.delaySeconds).toBe(42);
+    expect(unmatched?.delaySeconds).toBeNull();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Departure Board Unit Tests
+ * 
+ * Tests stop departure queries against fixture GTFS data, including
+ * calendar exceptions and overnight (>24:00:00) stop times.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseTripsContent,
+  parseCalendarContent,
+  parseCalendarDatesContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex, type ScheduleIndex } from '../schedule/schedule-index.js';
+import { findDepartures } from '../schedule/departures.js';
+import { getServiceDayStart, parseGtfsTime, getLithuanianDate } from '../utils/time.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,4G,Centras - Pilaitė,3,FF0000,FFFFFF
+r2,N1,Naktinis,3,000000,FFFFFF`;
+
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+r1,weekday,t_morning,Pilaitė,0,s1
+r1,weekday,t_noon,Pilaitė,0,s1
+r1,weekend,t_weekend,Pilaitė,0,s1
+r2,weekday,t_night,Naktinis,0,s2
+r1,holiday,t_holiday,Pilaitė,0,s1`;
+
+// 2024-05-06 is a Monday
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+weekday,1,1,1,1,1,0,0,20240101,20241231
+weekend,0,0,0,0,0,1,1,20240101,20241231
+holiday,0,0,0,0,0,0,0,20240101,20241231`;
+
+// Tuesday 2024-05-07 treated as a holiday: weekday removed, holiday added
+const CALENDAR_DATES_TXT = `service_id,date,exception_type
+weekday,20240507,2
+holiday,20240507,1`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence,stop_headsign
+t_morning,08:00:00,08:00:00,A,1,
+t_morning,08:10:00,08:11:00,B,2,
+t_morning,08:20:00,08:20:00,C,3,
+t_noon,12:00:00,12:00:00,A,1,
+t_noon,12:10:00,12:10:00,B,2,Per centrą
+t_noon,12:20:00,12:20:00,C,3,
+t_weekend,09:00:00,09:00:00,A,1,
+t_weekend,09:10:00,09:10:00,B,2,
+t_night,24:50:00,24:50:00,A,1,
+t_night,25:05:00,25:05:00,B,2,
+t_holiday,10:00:00,10:00:00,A,1,
+t_holiday,10:10:00,10:10:00,B,2,`;
+
+function createIndex(): ScheduleIndex {
+  return buildScheduleIndex({
+    routes: parseRoutesContent(ROUTES_TXT),
+    trips: parseTripsContent(TRIPS_TXT),
+    calendar: parseCalendarContent(CALENDAR_TXT),
+    calendarDates: parseCalendarDatesContent(CALENDAR_DATES_TXT),
+    stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+  });
+}
+
+function at(serviceDate: string, time: string): Date {
+  return new Date(getServiceDayStart(serviceDate).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+// =============================================================================
+// Time Helper Tests
+// =============================================================================
+
+describe('service day helpers', () => {
+  it('should parse GTFS times past midnight', () => {
+    expect(parseGtfsTime('06:05:30')).toBe(21930);
+    expect(parseGtfsTime('25:10:00')).toBe(90600);
+    expect(parseGtfsTime('invalid')).toBeNull();
+  });
+
+  it('should resolve service day start in Lithuanian time', () => {
+    // Summer time (UTC+3)
+    expect(getServiceDayStart('2024-05-06').toISOString()).toBe('2024-05-05T21:00:00.000Z');
+    // Winter time (UTC+2)
+    expect(getServiceDayStart('2024-01-15').toISOString()).toBe('2024-01-14T22:00:00.000Z');
+  });
+
+  it('should use noon minus 12h on daylight saving transition days', () => {
+    // DST starts 2024-03-31: noon is 09:00Z, so the service day starts at 21:00Z
+    expect(getServiceDayStart('2024-03-31').toISOString()).toBe('2024-03-30T21:00:00.000Z');
+  });
+
+  it('should get the Lithuanian local date', () => {
+    expect(getLithuanianDate(new Date('2024-05-06T22:30:00Z'))).toBe('2024-05-07');
+  });
+});
+
+// =============================================================================
+// Departure Tests
+// =============================================================================
+
+describe('findDepartures', () => {
+  const index = createIndex();
+
+  it('should return weekday departures joined with route and trip', () => {
+    const departures = findDepartures(index, 'B', { from: at('2024-05-06', '07:00:00'), window: 6 * 3600 * 1000 });
+
+    expect(departures.map(d => d.tripId)).toEqual(['t_morning', 't_noon']);
+    
+    const first = departures[0]!;
+    expect(first.routeShortName).toBe('4G');
+    expect(first.type).toBe('bus');
+    expect(first.headsign).toBe('Pilaitė');
+    expect(first.serviceDate).toBe('2024-05-06');
+    expect(first.scheduledArrival.getTime()).toBe(at('2024-05-06', '08:10:00').getTime());
+    expect(first.scheduledDeparture.getTime()).toBe(at('2024-05-06', '08:11:00').getTime());
+  });
+
+  it('should prefer stop-level headsign over trip headsign', () => {
+    const departures = findDepartures(index, 'B', { from: at('2024-05-06', '11:00:00') });
+    expect(departures[0]?.headsign).toBe('Per centrą');
+  });
+
+  it('should only include weekend services on weekends', () => {
+    // 2024-05-11 is a Saturday
+    const departures = findDepartures(index, 'A', { from: at('2024-05-11', '06:00:00'), window: 12 * 3600 * 1000 });
+    expect(departures.map(d => d.tripId)).toEqual(['t_weekend']);
+  });
+
+  it('should apply calendar_dates exceptions', () => {
+    const departures = findDepartures(index, 'A', { from: at('2024-05-07', '06:00:00'), window: 12 * 3600 * 1000 });
+    expect(departures.map(d => d.tripId)).toEqual(['t_holiday']);
+  });
+
+  it('should include overnight trips from the previous service day', () => {
+    // 00:40 on Tuesday belongs to Monday's 24:50:00 trip
+    const from = new Date(getServiceDayStart('2024-05-07').getTime() + 40 * 60 * 1000);
+    const departures = findDepartures(index, 'A', { from, window: 30 * 60 * 1000 });
+
+    expect(departures).toHaveLength(1);
+    expect(departures[0]?.tripId).toBe('t_night');
+    expect(departures[0]?.serviceDate).toBe('2024-05-06');
+  });
+
+  it('should exclude terminating trips unless requested', () => {
+    const from = at('2024-05-06', '08:00:00');
+    expect(findDepartures(index, 'C', { from })).toHaveLength(0);
+    expect(findDepartures(index, 'C', { from, includeTerminating: true })).toHaveLength(1);
+  });
+
+  it('should respect limit', () => {
+    const departures = findDepartures(index, 'A', { from: at('2024-05-06', '00:00:00'), window: 24 * 3600 * 1000, limit: 1 });
+    expect(departures).toHaveLength(1);
+    expect(departures[0]?.tripId).toBe('t_morning');
+  });
+
+  it('should return empty array for unknown stop', () => {
+    expect(findDepartures(index, 'missing')).toEqual([]);
+  });
+});
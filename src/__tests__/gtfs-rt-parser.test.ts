@@ -0,0 +1,133 @@
+/**
+ * GTFS-Realtime Parser Unit Tests
+ *
+ * Tests parsing VehiclePositions protobuf feeds into normalized vehicles.
+ * Fixtures are encoded with the SDK's own encoder so tests stay offline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseGtfsRtVehiclePositions } from '../parsers/gtfs-rt.js';
+import { encodeFeedMessage, type GtfsRtFeedEntity } from '../gtfs-rt/feed.js';
+import { parseRoutesContent } from '../gtfs/parser.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const NOW_SECONDS = Math.floor(Date.now() / 1000);
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type
+r-10,10,Centras - Stotis,3
+r-t2,2,Centras - Rytai,800`;
+
+function encodeFeed(entity: GtfsRtFeedEntity[], timestamp = String(NOW_SECONDS)): Uint8Array {
+  return encodeFeedMessage({ header: { gtfsRealtimeVersion: '2.0', timestamp }, entity });
+}
+
+const BUS_ENTITY: GtfsRtFeedEntity = {
+  id: 'e1',
+  vehicle: {
+    trip: { tripId: 'trip-1', routeId: 'r-10' },
+    vehicle: { id: 'v-501', label: '501' },
+    position: { latitude: 55.7033, longitude: 21.1443, bearing: 90, speed: 10 },
+    stopId: 'S5',
+    currentStatus: 'IN_TRANSIT_TO',
+    timestamp: String(NOW_SECONDS - 20),
+  },
+};
+
+const TROLLEY_ENTITY: GtfsRtFeedEntity = {
+  id: 'e2',
+  vehicle: {
+    trip: { routeId: 'r-t2' },
+    vehicle: { id: 'v-77' },
+    position: { latitude: 55.71, longitude: 21.13 },
+    stopId: 'S9',
+    currentStatus: 'STOPPED_AT',
+  },
+};
+
+// =============================================================================
+// Test Suites
+// =============================================================================
+
+describe('GTFS-Realtime Parser', () => {
+  it('should parse vehicle positions', () => {
+    const vehicles = parseGtfsRtVehiclePositions(encodeFeed([BUS_ENTITY]), 'custom');
+
+    expect(vehicles).toHaveLength(1);
+    const v = vehicles[0]!;
+    expect(v.vehicleNumber).toBe('501');
+    expect(v.latitude).toBe(55.7033);
+    expect(v.longitude).toBe(21.1443);
+    expect(v.bearing).toBe(90);
+    expect(v.speed).toBe(36);
+    expect(v.tripId).toBe('trip-1');
+    expect(v.gtfsTripId).toBe('trip-1');
+    expect(v.nextStopId).toBe('S5');
+    expect(v.delaySeconds).toBeNull();
+    expect(v.measuredAt.getTime()).toBe((NOW_SECONDS - 20) * 1000);
+    expect(v.isStale).toBe(false);
+  });
+
+  it('should resolve route short names and types from GTFS routes', () => {
+    const routes = parseRoutesContent(ROUTES_TXT);
+    const vehicles = parseGtfsRtVehiclePositions(encodeFeed([BUS_ENTITY, TROLLEY_ENTITY]), 'custom', { routes });
+
+    expect(vehicles.map(v => [v.route, v.type])).toEqual([
+      ['10', 'bus'],
+      ['2', 'trolleybus'],
+    ]);
+    expect(vehicles[0]!.id).toBe('custom-501-10');
+  });
+
+  it('should fall back to route_id without GTFS routes', () => {
+    const vehicles = parseGtfsRtVehiclePositions(encodeFeed([TROLLEY_ENTITY]), 'custom');
+
+    expect(vehicles[0]!.route).toBe('r-t2');
+    expect(vehicles[0]!.type).toBe('unknown');
+    expect(vehicles[0]!.vehicleNumber).toBe('v-77');
+  });
+
+  it('should not report the current stop as next stop', () => {
+    const vehicles = parseGtfsRtVehiclePositions(encodeFeed([TROLLEY_ENTITY]), 'custom');
+
+    expect(vehicles[0]!.nextStopId).toBeNull();
+  });
+
+  it('should use feed timestamp when entity has none', () => {
+    const vehicles = parseGtfsRtVehiclePositions(encodeFeed([TROLLEY_ENTITY]), 'custom');
+
+    expect(vehicles[0]!.measuredAt.getTime()).toBe(NOW_SECONDS * 1000);
+  });
+
+  it('should skip entities without a position and deleted entities', () => {
+    const feed = encodeFeed([
+      { id: 'no-position', vehicle: { vehicle: { id: 'x' } } },
+      { id: 'deleted', isDeleted: true, vehicle: BUS_ENTITY.vehicle },
+      BUS_ENTITY,
+    ]);
+
+    expect(parseGtfsRtVehiclePositions(feed, 'custom')).toHaveLength(1);
+  });
+
+  it('should filter invalid coordinates and stale vehicles', () => {
+    const outside: GtfsRtFeedEntity = {
+      id: 'outside',
+      vehicle: { position: { latitude: 48.85, longitude: 2.35 } },
+    };
+    const stale: GtfsRtFeedEntity = {
+      id: 'stale',
+      vehicle: { ...BUS_ENTITY.vehicle, timestamp: String(NOW_SECONDS - 3600) },
+    };
+    const feed = encodeFeed([outside, stale, BUS_ENTITY]);
+
+    expect(parseGtfsRtVehiclePositions(feed, 'custom')).toHaveLength(2);
+    expect(parseGtfsRtVehiclePositions(feed, 'custom', { filterStale: true })).toHaveLength(1);
+    expect(parseGtfsRtVehiclePositions(feed, 'custom', { filterInvalidCoords: false })).toHaveLength(3);
+  });
+
+  it('should throw on malformed data', () => {
+    expect(() => parseGtfsRtVehiclePositions(Uint8Array.from([0x0a, 0x05, 0x01]), 'custom')).toThrow();
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * GTFS-Realtime Export Unit Tests
+ *
+ * Tests protobuf encoding of feed messages and conversion of parsed
+ * GPS fixture data into VehiclePositions and TripUpdates feeds.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseGpsFullStream } from '../parsers/gps-full.js';
+import { parseRoutesContent, parseStopTimesContent } from '../gtfs/parser.js';
+import { encodeFeedMessage, decodeFeedMessage } from '../gtfs-rt/feed.js';
+import { ProtobufReader, ProtobufWriter } from '../gtfs-rt/protobuf.js';
+import { buildVehiclePositionsFeed } from '../gtfs-rt/vehicle-positions.js';
+import { buildTripUpdatesFeed } from '../gtfs-rt/trip-updates.js';
+import { getServiceDayStart, parseGtfsTime } from '../utils/time.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const VILNIUS_HEADER = 'Transportas,Marsrutas,ReisoID,MasinosNumeris,Ilguma,Platuma,Greitis,Azimutas,ReisoPradziaMinutemis,NuokrypisSekundemis,MatavimoLaikas,MasinosTipas,KryptiesTipas,KryptiesPavadinimas,ReisoIdGTFS,x1,x2,x3';
+const VILNIUS_BUS_ROW = 'Autobusai,3G,12345,1234,25279700,54687200,36,180,480,30,45000,low_floor,A>D,Santariškės - Pilaitė,GTFS123,0,0,0';
+const VILNIUS_TROLLEY_ROW = 'Troleibusai,7,11111,9999,25350000,54750000,18,270,720,-60,47000,standard,A>D,Centras - Pilaitė,,0,0,0';
+
+const KAUNAS_HEADER = 'Transportas,Marsrutas,Grafikas,MasinosNumeris,Ilguma,Platuma,Greitis,Azimutas,ReisoPradziaMinutemis,NuokrypisSekundemis,SekanciosStotelesNum,AtvykimoLaikasSekundemis,x1,x2';
+const KAUNAS_BUS_ROW = 'Autobusai,23,GRF001,4567,23903600,54898500,35,120,540,15,123,50400,0,0';
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type
+vln-3g,3G,Santariškės - Pilaitė,3
+vln-t7,7,Centras - Pilaitė,800`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+GTFS123,08:00:00,08:00:00,A,1
+GTFS123,08:10:00,08:10:00,B,2
+GTFS123,08:20:00,08:20:00,C,3
+NIGHT1,24:10:00,24:10:00,A,1
+NIGHT1,24:20:00,24:20:00,B,2`;
+
+const SERVER_TIME = new Date('2024-05-06T10:00:00Z');
+const SERVICE_DATE = '2024-05-06';
+
+function at(time: string): Date {
+  return new Date(getServiceDayStart(SERVICE_DATE).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+function createVehicle(overrides: Partial<Vehicle> = {}): Vehicle {
+  return {
+    id: 'vilnius-1234-3G',
+    vehicleNumber: '1234',
+    route: '3G',
+    type: 'bus',
+    latitude: 54.6872,
+    longitude: 25.2797,
+    bearing: 180,
+    speed: 36,
+    destination: null,
+    delaySeconds: 120,
+    tripId: null,
+    gtfsTripId: 'GTFS123',
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: at('08:07:00'),
+    ...overrides,
+  };
+}
+
+function parseVilnius() {
+  const stream = `${VILNIUS_HEADER}\n${VILNIUS_BUS_ROW}\n${VILNIUS_TROLLEY_ROW}`;
+  return parseGpsFullStream(stream, 'vilnius', { serverTime: SERVER_TIME });
+}
+
+// =============================================================================
+// Protobuf Codec
+// =============================================================================
+
+describe('Protobuf codec', () => {
+  it('encodes a feed header byte-for-byte', () => {
+    const bytes = encodeFeedMessage({
+      header: { gtfsRealtimeVersion: '2.0', incrementality: 'FULL_DATASET', timestamp: '1' },
+      entity: [],
+    });
+
+    expect(Array.from(bytes)).toEqual([
+      0x0a, 0x09, // header, 9 bytes
+      0x0a, 0x03, 0x32, 0x2e, 0x30, // gtfs_realtime_version "2.0"
+      0x10, 0x00, // incrementality FULL_DATASET
+      0x18, 0x01, // timestamp 1
+    ]);
+  });
+
+  it('round-trips negative and large integers', () => {
+    const bytes = new ProtobufWriter()
+      .int(1, -90)
+      .uint(2, 1_715_000_000)
+      .uint(3, 2 ** 40)
+      .finish();
+
+    const reader = new ProtobufReader(bytes);
+    const values: number[] = [];
+    while (reader.hasMore()) {
+      const { field } = reader.next();
+      values.push(field === 1 ? reader.int() : reader.uint());
+    }
+
+    expect(values).toEqual([-90, 1_715_000_000, 2 ** 40]);
+  });
+
+  it('skips unknown fields when decoding', () => {
+    const bytes = new ProtobufWriter()
+      .message(1, new ProtobufWriter().string(1, '2.0').double(99, 1.5))
+      .string(1000, 'extension')
+      .finish();
+
+    expect(decodeFeedMessage(bytes)).toEqual({ header: { gtfsRealtimeVersion: '2.0' }, entity: [] });
+  });
+
+  it('throws on truncated data', () => {
+    const bytes = encodeFeedMessage({ header: { gtfsRealtimeVersion: '2.0' }, entity: [] });
+
+    expect(() => decodeFeedMessage(bytes.subarray(0, bytes.length - 1))).toThrow();
+  });
+});
+
+// =============================================================================
+// VehiclePositions
+// =============================================================================
+
+describe('buildVehiclePositionsFeed', () => {
+  it('builds a full-dataset feed with one entity per vehicle', () => {
+    const vehicles = parseVilnius();
+    const feed = buildVehiclePositionsFeed(vehicles, { timestamp: SERVER_TIME });
+
+    expect(feed.header).toEqual({
+      gtfsRealtimeVersion: '2.0',
+      incrementality: 'FULL_DATASET',
+      timestamp: String(SERVER_TIME.getTime() / 1000),
+    });
+    expect(feed.entity.map(e => e.id)).toEqual(vehicles.map(v => v.id));
+  });
+
+  it('maps position, speed and vehicle descriptor', () => {
+    const feed = buildVehiclePositionsFeed(parseVilnius(), { timestamp: SERVER_TIME });
+    const vehicle = feed.entity[0]?.vehicle;
+
+    expect(vehicle?.vehicle).toEqual({ id: '1234', label: '1234' });
+    expect(vehicle?.position?.latitude).toBeCloseTo(54.6872, 4);
+    expect(vehicle?.position?.longitude).toBeCloseTo(25.2797, 4);
+    expect(vehicle?.position?.bearing).toBe(180);
+    // 36 km/h = 10 m/s
+    expect(vehicle?.position?.speed).toBeCloseTo(10, 5);
+    expect(vehicle?.timestamp).toMatch(/^\d+$/);
+  });
+
+  it('references GTFS trips and resolves route IDs by short name and type', () => {
+    const routes = [...parseRoutesContent(ROUTES_TXT).values()];
+    const feed = buildVehiclePositionsFeed(parseVilnius(), { routes });
+
+    expect(feed.entity[0]?.vehicle?.trip).toEqual({
+      tripId: 'GTFS123',
+      routeId: 'vln-3g',
+      scheduleRelationship: 'SCHEDULED',
+    });
+    // No GTFS trip reference - route-only descriptor
+    expect(feed.entity[1]?.vehicle?.trip).toEqual({ routeId: 'vln-t7' });
+  });
+
+  it('omits trip descriptor when neither trip nor route is known', () => {
+    const feed = buildVehiclePositionsFeed(parseVilnius());
+
+    expect(feed.entity[1]?.vehicle?.trip).toBeUndefined();
+  });
+
+  it('reports the next stop for Kaunas vehicles', () => {
+    const stream = `${KAUNAS_HEADER}\n${KAUNAS_BUS_ROW}`;
+    const vehicles = parseGpsFullStream(stream, 'kaunas', { serverTime: SERVER_TIME });
+    const feed = buildVehiclePositionsFeed(vehicles);
+
+    expect(feed.entity[0]?.vehicle?.stopId).toBe('123');
+    expect(feed.entity[0]?.vehicle?.currentStatus).toBe('IN_TRANSIT_TO');
+  });
+
+  it('survives a protobuf round trip', () => {
+    const routes = [...parseRoutesContent(ROUTES_TXT).values()];
+    const feed = buildVehiclePositionsFeed(parseVilnius(), { timestamp: SERVER_TIME, routes });
+
+    const decoded = decodeFeedMessage(encodeFeedMessage(feed));
+
+    expect(decoded.header).toEqual(feed.header);
+    expect(decoded.entity).toHaveLength(2);
+    expect(decoded.entity[0]?.vehicle?.trip).toEqual(feed.entity[0]?.vehicle?.trip);
+    expect(decoded.entity[0]?.vehicle?.vehicle).toEqual(feed.entity[0]?.vehicle?.vehicle);
+    expect(decoded.entity[0]?.vehicle?.timestamp).toBe(feed.entity[0]?.vehicle?.timestamp);
+    // Coordinates are 32-bit floats on the wire
+    expect(decoded.entity[0]?.vehicle?.position?.latitude).toBeCloseTo(54.6872, 4);
+    expect(decoded.entity[1]?.vehicle?.position?.bearing).toBe(270);
+  });
+});
+
+// =============================================================================
+// TripUpdates
+// =============================================================================
+
+describe('buildTripUpdatesFeed', () => {
+  const stopTimes = parseStopTimesContent(STOP_TIMES_TXT);
+
+  it('applies the delay to stops the vehicle has not passed', () => {
+    // Schedule position 08:05 - stop A (08:00) has been passed
+    const feed = buildTripUpdatesFeed([createVehicle()], { stopTimes });
+    const tripUpdate = feed.entity[0]?.tripUpdate;
+
+    expect(tripUpdate?.trip).toEqual({
+      tripId: 'GTFS123',
+      startDate: '20240506',
+      scheduleRelationship: 'SCHEDULED',
+    });
+    expect(tripUpdate?.delay).toBe(120);
+    expect(tripUpdate?.stopTimeUpdate).toEqual([
+      { stopSequence: 2, stopId: 'B', arrival: { delay: 120 }, departure: { delay: 120 } },
+      { stopSequence: 3, stopId: 'C', arrival: { delay: 120 }, departure: { delay: 120 } },
+    ]);
+  });
+
+  it('reports trip-level delay without stop times', () => {
+    const feed = buildTripUpdatesFeed([createVehicle({ delaySeconds: -30 })]);
+    const tripUpdate = feed.entity[0]?.tripUpdate;
+
+    expect(tripUpdate?.delay).toBe(-30);
+    expect(tripUpdate?.stopTimeUpdate).toBeUndefined();
+    expect(tripUpdate?.trip.startDate).toBeUndefined();
+  });
+
+  it('resolves the service date of overnight trips', () => {
+    const vehicle = createVehicle({ gtfsTripId: 'NIGHT1', delaySeconds: 60, measuredAt: at('24:15:00') });
+    const feed = buildTripUpdatesFeed([vehicle], { stopTimes });
+
+    expect(feed.entity[0]?.tripUpdate?.trip.startDate).toBe('20240506');
+    expect(feed.entity[0]?.tripUpdate?.stopTimeUpdate?.map(u => u.stopId)).toEqual(['B']);
+  });
+
+  it('reports the next stop arrival time from Kaunas predictions', () => {
+    const vehicle = createVehicle({
+      delaySeconds: 60,
+      nextStopId: 'C',
+      arrivalTimeSeconds: 8 * 3600 + 21 * 60,
+      measuredAt: at('08:12:00'),
+    });
+
+    const feed = buildTripUpdatesFeed([vehicle], { stopTimes });
+    const updates = feed.entity[0]?.tripUpdate?.stopTimeUpdate;
+
+    expect(updates).toEqual([
+      {
+        stopSequence: 3,
+        stopId: 'C',
+        arrival: { time: String(at('08:21:00').getTime() / 1000) },
+        departure: { delay: 60 },
+      },
+    ]);
+  });
+
+  it('keeps the delayed stops when the next stop is not among them', () => {
+    // Schedule position 08:11 - stop B (08:10) is outside the tolerance window
+    const vehicle = createVehicle({
+      delaySeconds: 60,
+      nextStopId: 'B',
+      arrivalTimeSeconds: 8 * 3600 + 12 * 60 + 30,
+      measuredAt: at('08:12:00'),
+    });
+
+    const updates = buildTripUpdatesFeed([vehicle], { stopTimes }).entity[0]?.tripUpdate?.stopTimeUpdate;
+
+    expect(updates).toEqual([
+      { stopSequence: 2, stopId: 'B', arrival: { time: String(at('08:12:30').getTime() / 1000) } },
+      { stopSequence: 3, stopId: 'C', arrival: { delay: 60 }, departure: { delay: 60 } },
+    ]);
+  });
+
+  it('reports a next stop prediction without a delay', () => {
+    const vehicle = createVehicle({ delaySeconds: null, nextStopId: 'B', arrivalTimeSeconds: 8 * 3600 + 11 * 60 });
+
+    const updates = buildTripUpdatesFeed([vehicle]).entity[0]?.tripUpdate?.stopTimeUpdate;
+
+    expect(updates).toEqual([{ stopId: 'B', arrival: { time: String(at('08:11:00').getTime() / 1000) } }]);
+  });
+
+  it('skips vehicles without a trip, prediction, or with stale data', () => {
+    const feed = buildTripUpdatesFeed([
+      createVehicle({ id: 'no-trip', gtfsTripId: null }),
+      createVehicle({ id: 'no-delay', delaySeconds: null }),
+      createVehicle({ id: 'stale', isStale: true }),
+    ]);
+
+    expect(feed.entity).toHaveLength(0);
+  });
+
+  it('survives a protobuf round trip', () => {
+    const routes = [...parseRoutesContent(ROUTES_TXT).values()];
+    const feed = buildTripUpdatesFeed([createVehicle({ delaySeconds: -45 })], {
+      stopTimes,
+      routes,
+      timestamp: SERVER_TIME,
+    });
+
+    expect(decodeFeedMessage(encodeFeedMessage(feed))).toEqual(feed);
+  });
+});
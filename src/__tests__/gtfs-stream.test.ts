@@ -0,0 +1,87 @@
+/**
+ * Streaming GTFS Parser Unit Tests
+ *
+ * Tests that parsing a GTFS file line by line from a stream gives the same
+ * result as parsing its whole content, whatever the chunk boundaries.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import {
+  parseGtfsFileStream,
+  parseShapesContent,
+  parseStopTimesContent,
+  parseStopsContent,
+} from '../gtfs/parser.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence,stop_headsign
+trip_001,06:10:00,06:10:00,stop_3,2,
+trip_001,06:00:00,06:00:00,stop_1,0,
+trip_002,07:00:00,07:00:00,stop_1,0,Žvėrynas
+trip_001,06:05:00,06:05:00,stop_2,1,
+not,enough`;
+
+const SHAPES_TXT = `shape_id,shape_pt_lat,shape_pt_lon,shape_pt_sequence,shape_dist_traveled
+shape_1,54.6880,25.2810,1,150.5
+shape_1,54.6872,25.2797,0,0.0
+shape_2,54.7000,25.2900,0,0.0`;
+
+const STOPS_TXT = `stop_id,stop_code,stop_name,stop_desc,stop_lat,stop_lon
+0101,,"Šeškinės st., Ukmergės g.",,54.7123,25.2456
+
+0102,,Žalgirio st.,,54.7001,25.2701`;
+
+/**
+ * Stream the UTF-8 bytes of a text in chunks of a fixed size, so chunk
+ * boundaries fall inside lines and multi-byte characters.
+ */
+function chunkedStream(text: string, chunkSize: number): Readable {
+  const bytes = Buffer.from(text, 'utf-8');
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    chunks.push(bytes.subarray(i, i + chunkSize));
+  }
+  return Readable.from(chunks);
+}
+
+// =============================================================================
+// parseGtfsFileStream
+// =============================================================================
+
+describe('parseGtfsFileStream', () => {
+  it('matches the content parser for stop_times.txt', async () => {
+    const expected = parseStopTimesContent(STOP_TIMES_TXT);
+
+    for (const chunkSize of [1, 7, 64, 4096]) {
+      const parsed = await parseGtfsFileStream('stop_times.txt', chunkedStream(STOP_TIMES_TXT, chunkSize));
+      expect(parsed).toEqual(expected);
+    }
+
+    expect(expected.get('trip_001')?.map(t => t.stopId)).toEqual(['stop_1', 'stop_2', 'stop_3']);
+    expect(expected.get('trip_002')?.[0]?.headsign).toBe('Žvėrynas');
+  });
+
+  it('matches the content parser for shapes.txt', async () => {
+    const parsed = await parseGtfsFileStream('shapes.txt', chunkedStream(SHAPES_TXT, 5));
+
+    expect(parsed).toEqual(parseShapesContent(SHAPES_TXT));
+    expect(parsed.get('shape_1')?.map(p => p.sequence)).toEqual([0, 1]);
+  });
+
+  it('handles CRLF line endings, quoted fields and blank lines', async () => {
+    const crlf = STOPS_TXT.replace(/\n/g, '\r\n');
+    const parsed = await parseGtfsFileStream('stops.txt', chunkedStream(crlf, 3));
+
+    expect(parsed).toEqual(parseStopsContent(STOPS_TXT));
+    expect(parsed.map(s => s.name)).toEqual(['Šeškinės st., Ukmergės g.', 'Žalgirio st.']);
+  });
+
+  it('returns an empty result for an empty stream', async () => {
+    expect(await parseGtfsFileStream('trips.txt', Readable.from([]))).toEqual(new Map());
+    expect(await parseGtfsFileStream('agency.txt', chunkedStream('agency_id,agency_name\n', 4))).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * GTFS Sync Unit Tests
+ *
+ * Tests conditional downloads and content hashing against a scripted
+ * fetch function, a pre-populated cache directory and a small GTFS archive
+ * fixture.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { syncGtfs } from '../gtfs/sync.js';
+import { HttpClient, type FetchFunction } from '../http/http-client.js';
+import { GtfsSyncError } from '../errors.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const ARCHIVE = new TextEncoder().encode('cached archive bytes');
+const ARCHIVE_HASH = createHash('sha256').update(ARCHIVE).digest('hex');
+
+const FIXTURE_ZIP = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'gtfs-mini.zip');
+
+const META = {
+  lastModified: null as string | null,
+  etag: null as string | null,
+  contentHash: ARCHIVE_HASH,
+  syncedAt: '2024-05-01T00:00:00.000Z',
+  routeCount: 12,
+  stopCount: 340,
+  tripCount: 0,
+  shapeCount: 0,
+  calendarCount: 0,
+  calendarDateCount: 0,
+  agencyCount: 0,
+  stopTimeCount: 0,
+  patternCount: 0,
+};
+
+let cacheDir = '';
+
+beforeEach(async () => {
+  cacheDir = await mkdtemp(join(tmpdir(), 'lt-sync-'));
+});
+
+afterEach(async () => {
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+async function writeMeta(meta: typeof META): Promise<void> {
+  await mkdir(join(cacheDir, 'vilnius'), { recursive: true });
+  await writeFile(join(cacheDir, 'vilnius', 'meta.json'), JSON.stringify(meta));
+}
+
+function respondWith(response: () => Response): { http: HttpClient; requests: RequestInit[] } {
+  const requests: RequestInit[] = [];
+  const fetch: FetchFunction = (_url, init) => {
+    requests.push(init);
+    return Promise.resolve(response());
+  };
+  return { http: new HttpClient({ fetch, retry: { retries: 0 } }), requests };
+}
+
+function header(init: RequestInit | undefined, name: string): string | undefined {
+  return (init?.headers as Record<string, string> | undefined)?.[name];
+}
+
+// =============================================================================
+// syncGtfs
+// =============================================================================
+
+describe('syncGtfs', () => {
+  it('sends the cached validators and keeps the cache on 304', async () => {
+    await writeMeta({ ...META, etag: '"abc"', lastModified: 'Wed, 01 May 2024 00:00:00 GMT' });
+    const { http, requests } = respondWith(() => new Response(null, { status: 304 }));
+
+    const result = await syncGtfs('vilnius', { cacheDir, http });
+
+    expect(requests).toHaveLength(1);
+    expect(header(requests[0], 'If-None-Match')).toBe('"abc"');
+    expect(header(requests[0], 'If-Modified-Since')).toBe('Wed, 01 May 2024 00:00:00 GMT');
+    expect(result).toMatchObject({ status: 'up-to-date', routeCount: 12, stopCount: 340 });
+  });
+
+  it('skips parsing an archive identical to the cached one', async () => {
+    await writeMeta(META);
+    const { http, requests } = respondWith(() => new Response(ARCHIVE, { status: 200, headers: { ETag: '"new"' } }));
+
+    const result = await syncGtfs('vilnius', { cacheDir, http });
+
+    expect(header(requests[0], 'If-None-Match')).toBeUndefined();
+    expect(result.status).toBe('up-to-date');
+
+    // Validators the server starts sending are kept for the next sync
+    const meta = JSON.parse(await readFile(join(cacheDir, 'vilnius', 'meta.json'), 'utf-8')) as typeof META;
+    expect(meta.etag).toBe('"new"');
+  });
+
+  it('parses an archive whose content changed and stores its validators', async () => {
+    await writeMeta(META);
+    const zip = await readFile(FIXTURE_ZIP);
+    const { http, requests } = respondWith(() => new Response(zip, {
+      status: 200,
+      headers: { ETag: '"v2"', 'Last-Modified': 'Mon, 06 May 2024 00:00:00 GMT' },
+    }));
+
+    const result = await syncGtfs('vilnius', { cacheDir, http });
+
+    // Routes are counted under both their short name and ID
+    expect(result).toMatchObject({ status: 'updated', routeCount: 2, stopCount: 2 });
+    const meta = JSON.parse(await readFile(join(cacheDir, 'vilnius', 'meta.json'), 'utf-8')) as typeof META;
+    expect(meta).toMatchObject({
+      etag: '"v2"',
+      lastModified: 'Mon, 06 May 2024 00:00:00 GMT',
+      contentHash: createHash('sha256').update(zip).digest('hex'),
+      tripCount: 1,
+      stopTimeCount: 2,
+      shapeCount: 1,
+    });
+
+    // The same bytes again are recognised without parsing
+    const again = await syncGtfs('vilnius', { cacheDir, http });
+    expect(header(requests[1], 'If-None-Match')).toBe('"v2"');
+    expect(again).toMatchObject({ status: 'up-to-date', routeCount: 2, stopCount: 2 });
+  });
+
+  it('rejects a changed archive that is not a ZIP', async () => {
+    await writeMeta(META);
+    const { http } = respondWith(() => new Response('not a zip', { status: 200 }));
+
+    await expect(syncGtfs('vilnius', { cacheDir, http })).rejects.toThrow(GtfsSyncError);
+  });
+
+  it('downloads and parses unconditionally when forced', async () => {
+    const zip = await readFile(FIXTURE_ZIP);
+    await writeMeta({ ...META, etag: '"abc"', contentHash: createHash('sha256').update(zip).digest('hex') });
+    const { http, requests } = respondWith(() => new Response(zip, { status: 200 }));
+
+    const result = await syncGtfs('vilnius', { cacheDir, http, force: true });
+
+    expect(header(requests[0], 'If-None-Match')).toBeUndefined();
+    expect(result.status).toBe('updated');
+  });
+
+  it('reports HTTP errors', async () => {
+    const { http } = respondWith(() => new Response('', { status: 404, statusText: 'Not Found' }));
+
+    await expect(syncGtfs('vilnius', { cacheDir, http })).rejects.toThrow(/HTTP 404/);
+  });
+});
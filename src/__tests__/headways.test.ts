@@ -0,0 +1,259 @@
+/**
+ * Headway Analytics Unit Tests
+ *
+ * Tests scheduled headways per route direction and time band from fixture
+ * GTFS data, and stop pass detection and observed headways from recorded
+ * vehicle positions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseTripsContent,
+  parseCalendarContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import { extractRoutePatterns } from '../schedule/route-patterns.js';
+import {
+  computeScheduledHeadways,
+  computeObservedHeadways,
+  detectStopPasses,
+} from '../analytics/headways.js';
+import type { Stop, Vehicle } from '../types.js';
+
+// =============================================================================
+// Schedule Fixtures
+// =============================================================================
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,4G,Pilaitė - Centras,3,FF0000,FFFFFF`;
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+wk,1,1,1,1,1,0,0,20240101,20241231
+sat,0,0,0,0,0,1,0,20240101,20241231`;
+
+// Full runs A-B-C and short turns B-C: B and C are served by every trip,
+// B comes first. The Saturday trip does not run on Monday.
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+r1,wk,t1,Centras,0,
+r1,wk,t2,Centras,0,
+r1,wk,t3,Centras,0,
+r1,wk,t4,Centras,0,
+r1,wk,s1,Centras,0,
+r1,wk,s2,Centras,0,
+r1,sat,x1,Centras,0,
+r1,wk,back,Pilaitė,1,`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+t1,06:00:00,06:00:00,A,1
+t1,06:05:00,06:05:00,B,2
+t1,06:15:00,06:15:00,C,3
+t2,06:25:00,06:25:00,A,1
+t2,06:30:00,06:30:00,B,2
+t2,06:40:00,06:40:00,C,3
+t3,06:55:00,06:55:00,A,1
+t3,07:00:00,07:00:00,B,2
+t3,07:10:00,07:10:00,C,3
+t4,07:05:00,07:05:00,A,1
+t4,07:10:00,07:10:00,B,2
+t4,07:20:00,07:20:00,C,3
+s1,07:20:00,07:20:00,B,1
+s1,07:30:00,07:30:00,C,2
+s2,07:30:00,07:30:00,B,1
+s2,07:40:00,07:40:00,C,2
+x1,07:15:00,07:15:00,B,1
+x1,07:25:00,07:25:00,C,2
+back,08:00:00,08:00:00,C,1
+back,08:15:00,08:15:00,A,2`;
+
+const trips = parseTripsContent(TRIPS_TXT);
+const stopTimes = parseStopTimesContent(STOP_TIMES_TXT);
+const index = buildScheduleIndex({
+  routes: parseRoutesContent(ROUTES_TXT),
+  trips,
+  calendar: parseCalendarContent(CALENDAR_TXT),
+  calendarDates: [],
+  stopTimes,
+});
+const patterns = extractRoutePatterns(trips, stopTimes);
+
+// =============================================================================
+// computeScheduledHeadways
+// =============================================================================
+
+describe('computeScheduledHeadways', () => {
+  const headways = computeScheduledHeadways(index, patterns, '2024-05-06');
+  const outbound = headways[0];
+  const band = (name: string) => outbound?.bands.find(b => b.band === name);
+
+  it('reports each direction at the stop served by most trips', () => {
+    expect(headways.map(h => [h.routeShortName, h.directionId, h.stopId])).toEqual([
+      ['4G', 0, 'B'],
+      ['4G', 1, 'C'],
+    ]);
+    expect(outbound?.serviceDate).toBe('2024-05-06');
+  });
+
+  it('computes headways per time band from running trips', () => {
+    expect(band('early')).toEqual({
+      band: 'early',
+      departures: 2,
+      departuresPerHour: 2 / 3,
+      meanHeadwaySeconds: 25 * 60,
+      medianHeadwaySeconds: 25 * 60,
+      minHeadwaySeconds: 25 * 60,
+      maxHeadwaySeconds: 25 * 60,
+    });
+
+    // The first peak headway is measured from the last early departure
+    expect(band('am-peak')).toMatchObject({
+      departures: 4,
+      departuresPerHour: 2,
+      meanHeadwaySeconds: 15 * 60,
+      medianHeadwaySeconds: 10 * 60,
+      minHeadwaySeconds: 10 * 60,
+      maxHeadwaySeconds: 30 * 60,
+    });
+
+    expect(band('midday')).toMatchObject({ departures: 0, meanHeadwaySeconds: null });
+  });
+
+  it('counts at a given stop and custom bands', () => {
+    const atA = computeScheduledHeadways(index, patterns, '2024-05-06', {
+      stopId: 'A',
+      bands: [{ name: 'morning', from: '06:00', to: '07:30' }],
+    });
+
+    expect(atA.map(h => [h.directionId, h.stopId])).toEqual([[0, 'A'], [1, 'A']]);
+    expect(atA[0]?.bands[0]?.departures).toBe(4);
+  });
+
+  it('rejects invalid time bands', () => {
+    expect(() => computeScheduledHeadways(index, patterns, '2024-05-06', {
+      bands: [{ name: 'bad', from: '09:00', to: '07:00' }],
+    })).toThrow(RangeError);
+    expect(() => computeScheduledHeadways(index, patterns, '2024-05-06', {
+      bands: [{ name: 'bad', from: '09:00', to: '07:00' }],
+    })).toThrow(/ends before it starts/);
+    expect(() => computeScheduledHeadways(index, patterns, '2024-05-06', {
+      bands: [{ name: 'bad', from: 'seven', to: '09:00' }],
+    })).toThrow(/Invalid time/);
+  });
+});
+
+// =============================================================================
+// Recorded Position Fixtures
+// =============================================================================
+
+const STOP: Stop = {
+  id: 'B',
+  code: null,
+  name: 'Katedra',
+  description: null,
+  latitude: 54.6872,
+  longitude: 25.2797,
+  url: null,
+};
+
+// 2024-05-06 08:00 in Vilnius (UTC+3)
+const EIGHT_AM = Date.parse('2024-05-06T05:00:00Z');
+
+function record(id: string, minutes: number, lonOffset: number, route = '4G'): Vehicle {
+  return {
+    id,
+    vehicleNumber: id,
+    route,
+    type: 'bus',
+    latitude: STOP.latitude,
+    longitude: STOP.longitude + lonOffset,
+    bearing: 90,
+    speed: 20,
+    destination: 'Centras',
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: new Date(EIGHT_AM + minutes * 60 * 1000),
+  };
+}
+
+/**
+ * A vehicle driving east through the stop, ~100 m either side of it
+ * half a minute before and after `minutes`.
+ */
+function driveBy(id: string, minutes: number, route = '4G'): Vehicle[] {
+  return [record(id, minutes - 0.5, -0.0015, route), record(id, minutes + 0.5, 0.0015, route)];
+}
+
+// =============================================================================
+// detectStopPasses
+// =============================================================================
+
+describe('detectStopPasses', () => {
+  it('interpolates the time of passing between polls', () => {
+    const passes = detectStopPasses(driveBy('v1', 0), STOP);
+
+    expect(passes).toHaveLength(1);
+    expect(passes[0]?.passedAt.getTime()).toBeCloseTo(EIGHT_AM, -3);
+    expect(passes[0]?.distanceMeters).toBeLessThan(1);
+  });
+
+  it('counts a vehicle dwelling at the stop once', () => {
+    const records = [record('v1', 0, -0.002), record('v1', 0.5, 0), record('v1', 1, 0), record('v1', 1.5, 0.002)];
+    expect(detectStopPasses(records, STOP)).toHaveLength(1);
+  });
+
+  it('ignores vehicles passing further than the radius', () => {
+    const away = driveBy('v1', 0).map(v => ({ ...v, latitude: v.latitude + 0.002 }));
+    expect(detectStopPasses(away, STOP)).toEqual([]);
+  });
+
+  it('does not join records across long gaps', () => {
+    const records = [record('v1', 0, -0.0015), record('v1', 20, 0.0015)];
+    expect(detectStopPasses(records, STOP)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// computeObservedHeadways
+// =============================================================================
+
+describe('computeObservedHeadways', () => {
+  const records = [
+    ...driveBy('v1', 0),
+    ...driveBy('v2', 10),
+    ...driveBy('v3', 25),
+    ...driveBy('v9', 12, '7'),
+  ].reverse();
+
+  it('measures headways between passes per route', () => {
+    const headways = computeObservedHeadways(records, STOP);
+    const peak = headways[0]?.bands.find(b => b.band === 'am-peak');
+
+    expect(headways.map(h => h.route)).toEqual(['4G', '7']);
+    expect(peak?.departures).toBe(3);
+    expect(peak?.minHeadwaySeconds).toBeCloseTo(10 * 60, 0);
+    expect(peak?.maxHeadwaySeconds).toBeCloseTo(15 * 60, 0);
+    expect(peak?.medianHeadwaySeconds).toBeCloseTo(12.5 * 60, 0);
+  });
+
+  it('rates departures per hour over the recorded part of the band', () => {
+    const peak = computeObservedHeadways(records, STOP)[0]?.bands.find(b => b.band === 'am-peak');
+    const early = computeObservedHeadways(records, STOP)[0]?.bands.find(b => b.band === 'early');
+
+    // Recording spans 07:59:30-08:25:30
+    expect(peak?.departuresPerHour).toBeCloseTo(3 / (26 / 60), 5);
+    expect(early?.departuresPerHour).toBe(0);
+  });
+
+  it('assigns passes after midnight to the previous service day', () => {
+    // 00:30 on 2024-05-07 is 24:30 of the 2024-05-06 service day
+    const night = driveBy('v1', 16.5 * 60);
+    const headways = computeObservedHeadways(night, STOP);
+
+    expect(headways[0]?.bands.find(b => b.band === 'night')?.departures).toBe(1);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * HTTP Client Unit Tests
+ *
+ * Tests retries, conditional revalidation and timeouts with a scripted
+ * fetch function, and injecting it into LtTransport.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HttpClient, type FetchFunction } from '../http/http-client.js';
+import { LtTransport } from '../index.js';
+import { TransportNetworkError } from '../errors.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const URL = 'https://www.stops.lt/vilnius/gps_full.txt';
+const NO_DELAY = { minDelayMs: 0, maxDelayMs: 0 };
+
+/**
+ * Build a fetch function that answers with scripted responses in order,
+ * then repeats the last one, and records the requests it received.
+ */
+function scriptedFetch(steps: (Response | Error)[]): { fetch: FetchFunction; requests: RequestInit[] } {
+  const requests: RequestInit[] = [];
+  return {
+    fetch: (_url, init) => {
+      const step = steps[Math.min(requests.length, steps.length - 1)];
+      requests.push(init);
+      if (step === undefined || step instanceof Error) return Promise.reject(step ?? new Error('No response'));
+      return Promise.resolve(step.clone());
+    },
+    requests,
+  };
+}
+
+function header(init: RequestInit | undefined, name: string): string | undefined {
+  return (init?.headers as Record<string, string> | undefined)?.[name];
+}
+
+// =============================================================================
+// Retries
+// =============================================================================
+
+describe('HttpClient retries', () => {
+  it('retries 5xx responses and network errors', async () => {
+    const { fetch, requests } = scriptedFetch([
+      new Response('busy', { status: 503 }),
+      new TypeError('fetch failed'),
+      new Response('ok', { status: 200 }),
+    ]);
+    const http = new HttpClient({ fetch, retry: { retries: 2, ...NO_DELAY } });
+
+    const response = await http.request(URL, { timeoutMs: 1000 });
+
+    expect(requests).toHaveLength(3);
+    expect(new TextDecoder().decode(response.body)).toBe('ok');
+  });
+
+  it('returns the last 5xx response and does not retry 4xx', async () => {
+    const failing = scriptedFetch([new Response('busy', { status: 503 })]);
+    const http = new HttpClient({ fetch: failing.fetch, retry: { retries: 1, ...NO_DELAY } });
+    expect((await http.request(URL, { timeoutMs: 1000 })).status).toBe(503);
+    expect(failing.requests).toHaveLength(2);
+
+    const missing = scriptedFetch([new Response('', { status: 404 })]);
+    const client = new HttpClient({ fetch: missing.fetch, retry: NO_DELAY });
+    expect((await client.request(URL, { timeoutMs: 1000 })).ok).toBe(false);
+    expect(missing.requests).toHaveLength(1);
+  });
+
+  it('throws the last network error', async () => {
+    const { fetch } = scriptedFetch([new TypeError('fetch failed')]);
+    const http = new HttpClient({ fetch, retry: { retries: 1, ...NO_DELAY } });
+
+    await expect(http.request(URL, { timeoutMs: 1000 })).rejects.toThrow('fetch failed');
+  });
+
+  it('aborts attempts that exceed the timeout', async () => {
+    const hanging: FetchFunction = (_url, init) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => { reject(new Error('aborted')); });
+    });
+    const http = new HttpClient({ fetch: hanging, retry: { retries: 0 } });
+
+    await expect(http.request(URL, { timeoutMs: 5 })).rejects.toThrow('aborted');
+  });
+});
+
+// =============================================================================
+// Conditional Requests
+// =============================================================================
+
+describe('HttpClient conditional requests', () => {
+  const first = new Response('payload', {
+    status: 200,
+    headers: { ETag: '"v1"', 'Last-Modified': 'Mon, 06 May 2024 05:00:00 GMT' },
+  });
+  const notModified = new Response(null, { status: 304, headers: { Date: 'Mon, 06 May 2024 05:00:10 GMT' } });
+
+  it('revalidates and reuses the previous body on 304', async () => {
+    const { fetch, requests } = scriptedFetch([first, notModified]);
+    const http = new HttpClient({ fetch });
+
+    await http.request(URL, { timeoutMs: 1000 });
+    const second = await http.request(URL, { timeoutMs: 1000 });
+
+    expect(header(requests[0], 'If-None-Match')).toBeUndefined();
+    expect(header(requests[1], 'If-None-Match')).toBe('"v1"');
+    expect(header(requests[1], 'If-Modified-Since')).toBe('Mon, 06 May 2024 05:00:00 GMT');
+    expect(second).toMatchObject({ status: 200, ok: true, notModified: true });
+    expect(new TextDecoder().decode(second.body)).toBe('payload');
+    expect(second.serverTime.toISOString()).toBe('2024-05-06T05:00:10.000Z');
+  });
+
+  it('sends plain requests when disabled', async () => {
+    const { fetch, requests } = scriptedFetch([first]);
+    const http = new HttpClient({ fetch, conditionalRequests: false });
+
+    await http.request(URL, { timeoutMs: 1000 });
+    await http.request(URL, { timeoutMs: 1000 });
+
+    expect(header(requests[1], 'If-None-Match')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Streamed Bodies
+// =============================================================================
+
+describe('HttpClient sink', () => {
+  it('passes successful bodies to the sink instead of buffering them', async () => {
+    const { fetch } = scriptedFetch([new Response('archive', { status: 200 })]);
+    const http = new HttpClient({ fetch });
+    const received: Uint8Array[] = [];
+
+    const response = await http.request(URL, {
+      timeoutMs: 1000,
+      sink: async body => {
+        for await (const chunk of body) received.push(chunk);
+      },
+    });
+
+    expect(Buffer.concat(received).toString()).toBe('archive');
+    expect(response.body).toHaveLength(0);
+  });
+
+  it('reads error bodies as usual', async () => {
+    const { fetch } = scriptedFetch([new Response('missing', { status: 404 })]);
+    const http = new HttpClient({ fetch });
+    let called = false;
+
+    const response = await http.request(URL, {
+      timeoutMs: 1000,
+      sink: () => { called = true; return Promise.resolve(); },
+    });
+
+    expect(called).toBe(false);
+    expect(new TextDecoder().decode(response.body)).toBe('missing');
+  });
+});
+
+// =============================================================================
+// LtTransport with injected fetch
+// =============================================================================
+
+describe('LtTransport with injected fetch', () => {
+  const HEADER = 'Transportas,Marsrutas,ReisoID,MasinosNumeris,Ilguma,Platuma,Greitis,Azimutas,ReisoPradziaMinutemis,NuokrypisSekundemis,MatavimoLaikas,MasinosTipas,KryptiesTipas,KryptiesPavadinimas,ReisoIdGTFS,x1,x2,x3';
+  const ROW = 'Autobusai,3G,12345,1001,25279700,54687200,45,180,480,30,28800,low_floor,A>D,Santariškės - Pilaitė,GTFS123,0,0,0';
+
+  it('fetches vehicles through the injected function', async () => {
+    const { fetch, requests } = scriptedFetch([new Response(`${HEADER}\n${ROW}`, { status: 200 })]);
+    const transport = new LtTransport({ fetch, autoEnrich: false, userAgent: 'test-agent' });
+
+    const vehicles = await transport.getVehicles('vilnius');
+
+    expect(vehicles.map(v => v.vehicleNumber)).toEqual(['1001']);
+    expect(header(requests[0], 'User-Agent')).toBe('test-agent');
+  });
+
+  it('reports failures after retries as network errors', async () => {
+    const { fetch, requests } = scriptedFetch([new Response('', { status: 502, statusText: 'Bad Gateway' })]);
+    const transport = new LtTransport({ fetch, retry: { retries: 1, ...NO_DELAY } });
+
+    await expect(transport.getVehicles('vilnius')).rejects.toThrow(TransportNetworkError);
+    expect(requests).toHaveLength(2);
+  });
+});
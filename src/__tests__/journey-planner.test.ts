@@ -0,0 +1,169 @@
+/**
+ * Journey Planner Unit Tests
+ *
+ * Tests connection scan journeys against fixture GTFS data: walking
+ * transfers, coordinate endpoints, transfer times and overnight trips.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseStopsContent,
+  parseTripsContent,
+  parseCalendarContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import { buildTransitNetwork, buildFootpaths, type TransitNetwork } from '../planner/network.js';
+import { planJourney } from '../planner/journey-planner.js';
+import { getServiceDayStart, parseGtfsTime } from '../utils/time.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,1,Vakarai - Rytai,3,FF0000,FFFFFF
+r2,2,Šiaurė - Rytai,3,0000FF,FFFFFF`;
+
+// C is ~100 m north of B; the other stops are ~2 km apart
+const STOPS_TXT = `stop_id,stop_name,stop_lat,stop_lon
+A,Alfa,54.9000,23.9000
+B,Beta,54.9000,23.9300
+C,Ceta,54.9009,23.9300
+D,Delta,54.9000,23.9600
+E,Epsilon,54.9000,24.0000`;
+
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+r1,weekday,t1,Beta,0,
+r2,weekday,t2,Epsilon,0,
+r1,weekday,t3,Delta,0,
+r2,weekday,t_night,Epsilon,0,`;
+
+// 2024-05-06 is a Monday
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+weekday,1,1,1,1,1,0,0,20240101,20241231`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+t1,08:00:00,08:00:00,A,1
+t1,08:10:00,08:10:00,B,2
+t2,08:20:00,08:20:00,C,1
+t2,08:40:00,08:40:00,D,2
+t2,08:55:00,08:55:00,E,3
+t3,09:00:00,09:00:00,A,1
+t3,09:30:00,09:30:00,D,2
+t_night,24:30:00,24:30:00,D,1
+t_night,24:45:00,24:45:00,E,2`;
+
+function createNetwork(): TransitNetwork {
+  const index = buildScheduleIndex({
+    routes: parseRoutesContent(ROUTES_TXT),
+    trips: parseTripsContent(TRIPS_TXT),
+    calendar: parseCalendarContent(CALENDAR_TXT),
+    calendarDates: [],
+    stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+  });
+  return buildTransitNetwork(index, parseStopsContent(STOPS_TXT));
+}
+
+function at(serviceDate: string, time: string): Date {
+  return new Date(getServiceDayStart(serviceDate).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+// =============================================================================
+// Network
+// =============================================================================
+
+describe('buildFootpaths', () => {
+  it('links stops within walking distance in both directions', () => {
+    const footpaths = buildFootpaths(parseStopsContent(STOPS_TXT), 400);
+
+    expect(footpaths.get('B')?.map(f => f.toStopId)).toEqual(['C']);
+    expect(footpaths.get('C')?.map(f => f.toStopId)).toEqual(['B']);
+    expect(footpaths.get('B')?.[0]?.distanceMeters).toBeCloseTo(100, -1);
+    expect(footpaths.has('A')).toBe(false);
+  });
+});
+
+// =============================================================================
+// planJourney
+// =============================================================================
+
+describe('planJourney', () => {
+  const network = createNetwork();
+
+  it('changes trips with a walking transfer', () => {
+    const journey = planJourney(network, { from: 'A', to: 'D', departAt: at('2024-05-06', '07:55:00') });
+
+    expect(journey?.legs.map(leg => leg.mode)).toEqual(['transit', 'walk', 'transit']);
+    expect(journey?.transfers).toBe(1);
+    expect(journey?.departure).toEqual(at('2024-05-06', '08:00:00'));
+    expect(journey?.arrival).toEqual(at('2024-05-06', '08:40:00'));
+
+    const [first, walk, second] = journey?.legs ?? [];
+    expect(first?.mode === 'transit' && first.routeShortName).toBe('1');
+    expect(walk?.from.stopId).toBe('B');
+    expect(walk?.to.stopId).toBe('C');
+    expect(second?.mode === 'transit' && second.tripId).toBe('t2');
+  });
+
+  it('takes a later trip once the first connection is missed', () => {
+    const journey = planJourney(network, { from: 'A', to: 'D', departAt: at('2024-05-06', '08:05:00') });
+
+    expect(journey?.legs).toHaveLength(1);
+    expect(journey?.legs[0]?.mode === 'transit' && journey.legs[0].tripId).toBe('t3');
+    expect(journey?.arrival).toEqual(at('2024-05-06', '09:30:00'));
+  });
+
+  it('respects the minimum transfer time', () => {
+    const journey = planJourney(network, {
+      from: 'A',
+      to: 'D',
+      departAt: at('2024-05-06', '07:55:00'),
+      minTransferSeconds: 15 * 60,
+    });
+
+    expect(journey?.arrival).toEqual(at('2024-05-06', '09:30:00'));
+  });
+
+  it('walks from and to coordinates', () => {
+    const journey = planJourney(network, {
+      from: { latitude: 54.9018, longitude: 23.9000 },
+      to: { latitude: 54.9000, longitude: 23.9620 },
+      departAt: at('2024-05-06', '07:50:00'),
+    });
+
+    const legs = journey?.legs ?? [];
+    expect(legs.map(leg => leg.mode)).toEqual(['walk', 'transit', 'walk', 'transit', 'walk']);
+    expect(legs[0]?.from.stopId).toBeNull();
+    // Access walk ends when the first trip departs
+    expect(legs[0]?.arrival).toEqual(at('2024-05-06', '08:00:00'));
+    expect(legs[4]?.to.stopId).toBeNull();
+    expect(journey?.arrival.getTime()).toBeGreaterThan(at('2024-05-06', '08:40:00').getTime());
+  });
+
+  it('uses overnight trips of the previous service day', () => {
+    const journey = planJourney(network, { from: 'D', to: 'E', departAt: at('2024-05-07', '00:15:00') });
+    const leg = journey?.legs[0];
+
+    expect(leg?.mode === 'transit' && leg.tripId).toBe('t_night');
+    expect(leg?.mode === 'transit' && leg.serviceDate).toBe('2024-05-06');
+    expect(journey?.arrival).toEqual(at('2024-05-06', '24:45:00'));
+  });
+
+  it('does not use trips that are not running', () => {
+    // 2024-05-11 is a Saturday; the next weekday trip is on Monday
+    const journey = planJourney(network, { from: 'A', to: 'D', departAt: at('2024-05-11', '07:00:00') });
+    expect(journey).toBeNull();
+  });
+
+  it('returns null for unknown stops and unreachable destinations', () => {
+    expect(planJourney(network, { from: 'X', to: 'D' })).toBeNull();
+    expect(planJourney(network, {
+      from: 'A',
+      to: 'D',
+      departAt: at('2024-05-06', '07:55:00'),
+      maxDurationMs: 30 * 60 * 1000,
+    })).toBeNull();
+  });
+});
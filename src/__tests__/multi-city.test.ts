@@ -0,0 +1,147 @@
+/**
+ * Multi-City Fetching Unit Tests
+ *
+ * Tests the concurrency helper and per-city result/error collection
+ * using scripted fetch functions instead of the network.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapSettledWithConcurrency } from '../utils/concurrency.js';
+import { fetchVehiclesForCities } from '../live/multi-city.js';
+import { GpsNotAvailableError, InvalidCityError, TransportNetworkError } from '../errors.js';
+import { LtTransport } from '../index.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function createVehicle(id: string): Vehicle {
+  return {
+    id,
+    vehicleNumber: id,
+    route: '4G',
+    type: 'bus',
+    latitude: 54.68,
+    longitude: 25.28,
+    bearing: 90,
+    speed: 20,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: new Date('2024-05-06T08:00:00Z'),
+  };
+}
+
+const tick = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 1));
+
+// =============================================================================
+// mapSettledWithConcurrency
+// =============================================================================
+
+describe('mapSettledWithConcurrency', () => {
+  it('never runs more than the limit at once', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapSettledWithConcurrency([1, 2, 3, 4, 5, 6], 2, async n => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+      return n * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map(r => r.status === 'fulfilled' ? r.value : null)).toEqual([10, 20, 30, 40, 50, 60]);
+  });
+
+  it('runs every task when the limit is not a number', async () => {
+    const results = await mapSettledWithConcurrency([1, 2, 3], NaN, n => Promise.resolve(n));
+
+    expect(results).toEqual([1, 2, 3].map(value => ({ status: 'fulfilled', value })));
+  });
+
+  it('runs every task at once when the limit is Infinity', async () => {
+    let active = 0;
+    let peak = 0;
+
+    await mapSettledWithConcurrency([1, 2, 3, 4], Infinity, async n => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+      return n;
+    });
+
+    expect(peak).toBe(4);
+  });
+
+  it('keeps going after failures and preserves order', async () => {
+    const results = await mapSettledWithConcurrency(['a', 'b', 'c'], 1, item => {
+      if (item === 'b') return Promise.reject(new Error('boom'));
+      return Promise.resolve(item.toUpperCase());
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'A' });
+    expect(results[1]?.status).toBe('rejected');
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 'C' });
+  });
+
+  it('treats a limit below 1 as 1', async () => {
+    const results = await mapSettledWithConcurrency([1, 2], 0, n => Promise.resolve(n));
+    expect(results).toHaveLength(2);
+  });
+});
+
+// =============================================================================
+// fetchVehiclesForCities
+// =============================================================================
+
+describe('fetchVehiclesForCities', () => {
+  it('collects vehicles and errors per city', async () => {
+    const result = await fetchVehiclesForCities(['vilnius', 'alytus', 'kaunas'], city => {
+      if (city === 'alytus') return Promise.reject(new GpsNotAvailableError(city));
+      if (city === 'kaunas') return Promise.reject(new TransportNetworkError('HTTP 503', city, 503));
+      return Promise.resolve([createVehicle(`${city}-1`)]);
+    });
+
+    expect([...result.vehicles.keys()]).toEqual(['vilnius']);
+    expect(result.errors.get('alytus')).toBeInstanceOf(GpsNotAvailableError);
+    expect(result.errors.get('kaunas')).toBeInstanceOf(TransportNetworkError);
+  });
+
+  it('fetches duplicate cities once', async () => {
+    const fetched: string[] = [];
+    await fetchVehiclesForCities(['vilnius', 'vilnius'], city => {
+      fetched.push(city);
+      return Promise.resolve([]);
+    });
+
+    expect(fetched).toEqual(['vilnius']);
+  });
+
+  it('wraps non-Error rejections', async () => {
+    const result = await fetchVehiclesForCities(['vilnius'], () => Promise.reject('offline'));
+    expect(result.errors.get('vilnius')?.message).toBe('offline');
+  });
+});
+
+// =============================================================================
+// LtTransport.getVehiclesForCities
+// =============================================================================
+
+describe('LtTransport.getVehiclesForCities', () => {
+  it('reports unknown and GPS-less cities as errors without fetching', async () => {
+    const transport = new LtTransport();
+    const { vehicles, errors } = await transport.getVehiclesForCities(['atlantis', 'alytus_region']);
+
+    expect(vehicles.size).toBe(0);
+    expect(errors.get('atlantis')).toBeInstanceOf(InvalidCityError);
+    expect(errors.get('alytus_region')).toBeInstanceOf(GpsNotAvailableError);
+  });
+});
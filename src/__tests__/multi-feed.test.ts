@@ -0,0 +1,184 @@
+/**
+ * Multi-Feed Network Unit Tests
+ *
+ * Tests ID namespacing, cross-feed stop linking and journeys that combine
+ * a city feed, the intercity feed and another city feed with colliding IDs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseStopsContent,
+  parseTripsContent,
+  parseCalendarContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import { buildMultiFeedNetwork, toFeedId, fromFeedId, type FeedSource } from '../planner/multi-feed.js';
+import { planJourney } from '../planner/journey-planner.js';
+import { getServiceDayStart, parseGtfsTime } from '../utils/time.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+daily,1,1,1,1,1,1,1,20240101,20241231`;
+
+function createFeed(
+  city: string,
+  routesTxt: string,
+  stopsTxt: string,
+  stopTimesTxt: string
+): FeedSource {
+  return {
+    city,
+    schedule: buildScheduleIndex({
+      routes: parseRoutesContent(routesTxt),
+      trips: parseTripsContent(`route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+r1,daily,t1,Kryptis,0,`),
+      calendar: parseCalendarContent(CALENDAR_TXT),
+      calendarDates: [],
+      stopTimes: parseStopTimesContent(`trip_id,arrival_time,departure_time,stop_id,stop_sequence
+${stopTimesTxt}`),
+    }),
+    stops: parseStopsContent(`stop_id,stop_name,stop_lat,stop_lon
+${stopsTxt}`),
+  };
+}
+
+// Every feed uses trip t1, route r1 and stop AS or 1 - IDs only differ by namespace
+const VILNIUS = createFeed(
+  'vilnius',
+  `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,1,Centras - Stotis,3,FF0000,FFFFFF`,
+  `0701,Centras,54.6870,25.2800
+AS,Autobusų stotis,54.6707,25.2820`,
+  `t1,07:00:00,07:00:00,0701,1
+t1,07:15:00,07:15:00,AS,2`
+);
+
+// The intercity station is ~650 m from the city stop: too far to walk, linked by name
+const INTERCITY = createFeed(
+  'intercity',
+  `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,900,Vilnius - Klaipėda,3,00FF00,000000`,
+  `1,Vilniaus autobusų stotis,54.6707,25.2920
+2,Klaipėdos autobusų stotis,55.7076,21.1446`,
+  `t1,08:00:00,08:00:00,1,1
+t1,12:00:00,12:00:00,2,2`
+);
+
+const KLAIPEDA = createFeed(
+  'klaipeda',
+  `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,8,Stotis - Turgus,3,0000FF,FFFFFF`,
+  `AS,Autobusų stotis,55.7080,21.1460
+101,Turgus,55.7100,21.1300`,
+  `t1,12:30:00,12:30:00,AS,1
+t1,12:45:00,12:45:00,101,2`
+);
+
+function at(serviceDate: string, time: string): Date {
+  return new Date(getServiceDayStart(serviceDate).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+// =============================================================================
+// Namespaced IDs
+// =============================================================================
+
+describe('feed IDs', () => {
+  it('round-trips city and feed-local ID', () => {
+    expect(toFeedId('vilnius', '0701')).toBe('vilnius:0701');
+    expect(fromFeedId('vilnius:0701')).toEqual({ city: 'vilnius', id: '0701' });
+    expect(fromFeedId('klaipeda:a:b')).toEqual({ city: 'klaipeda', id: 'a:b' });
+    expect(fromFeedId('0701')).toBeNull();
+  });
+});
+
+// =============================================================================
+// buildMultiFeedNetwork
+// =============================================================================
+
+describe('buildMultiFeedNetwork', () => {
+  const network = buildMultiFeedNetwork([VILNIUS, INTERCITY, KLAIPEDA]);
+
+  it('keeps colliding IDs of different feeds apart', () => {
+    expect(network.stops.has('vilnius:AS')).toBe(true);
+    expect(network.stops.has('klaipeda:AS')).toBe(true);
+    expect(new Set(network.connections.map(c => c.trip.id))).toEqual(
+      new Set(['vilnius:t1', 'intercity:t1', 'klaipeda:t1'])
+    );
+  });
+
+  it('links same-named stations beyond walking distance', () => {
+    const links = network.footpaths.get('vilnius:AS') ?? [];
+    const link = links.find(f => f.toStopId === 'intercity:1');
+
+    expect(link?.linked).toBe(true);
+    expect(link?.distanceMeters).toBeGreaterThan(400);
+  });
+
+  it('links nearby stops of different feeds by proximity', () => {
+    const links = network.footpaths.get('intercity:2') ?? [];
+    expect(links.some(f => f.toStopId === 'klaipeda:AS')).toBe(true);
+  });
+
+  it('does not link same-named stops that are far apart', () => {
+    const links = network.footpaths.get('vilnius:AS') ?? [];
+    expect(links.some(f => f.toStopId === 'klaipeda:AS')).toBe(false);
+  });
+
+  it('adds no name link next to a walking transfer', () => {
+    const links = network.footpaths.get('intercity:2') ?? [];
+    expect(links.filter(f => f.toStopId === 'klaipeda:AS')).toHaveLength(1);
+  });
+
+  it('does not link names sharing only a generic last word', () => {
+    // "Centras" is ~550 m from "Vilniaus centras": within the name link range
+    const other = createFeed(
+      'trakai',
+      `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,5,Centras - Stotis,3,FF0000,FFFFFF`,
+      `1,Vilniaus centras,54.6920,25.2800`,
+      `t1,07:00:00,07:00:00,1,1`
+    );
+    const links = buildMultiFeedNetwork([VILNIUS, other]).footpaths.get('vilnius:0701') ?? [];
+
+    expect(links.some(f => f.toStopId === 'trakai:1')).toBe(false);
+  });
+});
+
+// =============================================================================
+// Cross-feed journeys
+// =============================================================================
+
+describe('cross-feed planJourney', () => {
+  const network = buildMultiFeedNetwork([VILNIUS, INTERCITY, KLAIPEDA]);
+
+  it('routes from one city to another via an intercity bus', () => {
+    const journey = planJourney(network, {
+      from: 'vilnius:0701',
+      to: 'klaipeda:101',
+      departAt: at('2024-05-06', '06:50:00'),
+    });
+
+    const transit = journey?.legs.filter(leg => leg.mode === 'transit') ?? [];
+    expect(transit.map(leg => leg.tripId)).toEqual(['vilnius:t1', 'intercity:t1', 'klaipeda:t1']);
+    expect(transit.map(leg => leg.routeShortName)).toEqual(['1', '900', '8']);
+    expect(journey?.legs.map(leg => leg.mode)).toEqual(['transit', 'walk', 'transit', 'walk', 'transit']);
+    expect(journey?.transfers).toBe(2);
+    expect(journey?.arrival).toEqual(at('2024-05-06', '12:45:00'));
+  });
+
+  it('does not cross feeds through unlinked stops', () => {
+    const cityOnly = buildMultiFeedNetwork([VILNIUS, KLAIPEDA]);
+    const journey = planJourney(cityOnly, {
+      from: 'vilnius:0701',
+      to: 'klaipeda:101',
+      departAt: at('2024-05-06', '06:50:00'),
+    });
+
+    expect(journey).toBeNull();
+  });
+});
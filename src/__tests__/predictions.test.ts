@@ -0,0 +1,152 @@
+/**
+ * Arrival Prediction Unit Tests
+ * 
+ * Tests merging of live vehicle delays with scheduled stop times.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseTripsContent,
+  parseCalendarContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import { predictArrivals } from '../schedule/predictions.js';
+import { getServiceDayStart, parseGtfsTime } from '../utils/time.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type
+r1,4G,Centras - Pilaitė,3`;
+
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign
+r1,daily,t1,Pilaitė
+r1,daily,t2,Pilaitė
+r1,daily,t3,Pilaitė`;
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+daily,1,1,1,1,1,1,1,20240101,20241231`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+t1,08:00:00,08:00:00,A,1
+t1,08:10:00,08:10:00,B,2
+t1,08:20:00,08:20:00,C,3
+t2,08:15:00,08:15:00,A,1
+t2,08:25:00,08:25:00,B,2
+t2,08:35:00,08:35:00,C,3
+t3,08:30:00,08:30:00,A,1
+t3,08:40:00,08:40:00,B,2
+t3,08:50:00,08:50:00,C,3`;
+
+const index = buildScheduleIndex({
+  routes: parseRoutesContent(ROUTES_TXT),
+  trips: parseTripsContent(TRIPS_TXT),
+  calendar: parseCalendarContent(CALENDAR_TXT),
+  calendarDates: [],
+  stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+});
+
+const SERVICE_DATE = '2024-05-06';
+
+function at(time: string): Date {
+  return new Date(getServiceDayStart(SERVICE_DATE).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+function createVehicle(gtfsTripId: string, delaySeconds: number, measuredAt: Date): Vehicle {
+  return {
+    id: `vilnius-${gtfsTripId}`,
+    vehicleNumber: '1001',
+    route: '4G',
+    type: 'bus',
+    latitude: 54.68,
+    longitude: 25.28,
+    bearing: 0,
+    speed: 20,
+    destination: 'Pilaitė',
+    delaySeconds,
+    tripId: null,
+    gtfsTripId,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('predictArrivals', () => {
+  it('should return scheduled-only entries without live vehicles', () => {
+    const predictions = predictArrivals(index, 'B', [], { from: at('08:00:00') });
+
+    expect(predictions.map(p => p.tripId)).toEqual(['t1', 't2', 't3']);
+    expect(predictions.every(p => !p.isRealtime && p.delaySeconds === null)).toBe(true);
+    expect(predictions[0]?.predictedDeparture.getTime()).toBe(at('08:10:00').getTime());
+  });
+
+  it('should apply live delay to the remaining stops of the trip', () => {
+    // t1 is 3 minutes late, currently between A and B
+    const vehicle = createVehicle('t1', 180, at('08:08:00'));
+    const predictions = predictArrivals(index, 'B', [vehicle], { from: at('08:08:00') });
+
+    const t1 = predictions.find(p => p.tripId === 't1');
+    expect(t1?.isRealtime).toBe(true);
+    expect(t1?.delaySeconds).toBe(180);
+    expect(t1?.vehicleId).toBe('vilnius-t1');
+    expect(t1?.predictedArrival.getTime()).toBe(at('08:13:00').getTime());
+  });
+
+  it('should keep late trips scheduled before the query start', () => {
+    // t1 was due at B at 08:10 but is 10 minutes late
+    const vehicle = createVehicle('t1', 600, at('08:12:00'));
+    const predictions = predictArrivals(index, 'B', [vehicle], { from: at('08:12:00') });
+
+    expect(predictions[0]?.tripId).toBe('t1');
+    expect(predictions[0]?.predictedDeparture.getTime()).toBe(at('08:20:00').getTime());
+  });
+
+  it('should drop stops the live vehicle has already passed', () => {
+    // t1 on time at 08:15 has passed B (08:10)
+    const vehicle = createVehicle('t1', 0, at('08:15:00'));
+    const predictions = predictArrivals(index, 'B', [vehicle], { from: at('08:05:00') });
+
+    expect(predictions.map(p => p.tripId)).toEqual(['t2', 't3']);
+  });
+
+  it('should sort merged entries by predicted time', () => {
+    // t2 running 20 minutes late overtakes t3 at stop B
+    const vehicle = createVehicle('t2', 1200, at('08:20:00'));
+    const predictions = predictArrivals(index, 'B', [vehicle], { from: at('08:20:00') });
+
+    expect(predictions.map(p => p.tripId)).toEqual(['t3', 't2']);
+  });
+
+  it('should ignore stale vehicles and vehicles without delay', () => {
+    const stale = { ...createVehicle('t2', 600, at('08:10:00')), isStale: true };
+    const noDelay = { ...createVehicle('t3', 0, at('08:10:00')), delaySeconds: null };
+    const predictions = predictArrivals(index, 'B', [stale, noDelay], { from: at('08:10:00') });
+
+    expect(predictions.some(p => p.isRealtime)).toBe(false);
+  });
+
+  it('should not apply live delay to the next service day run of the same trip', () => {
+    const vehicle = createVehicle('t1', 120, at('08:05:00'));
+    const predictions = predictArrivals(index, 'B', [vehicle], {
+      from: at('08:00:00'),
+      window: 26 * 3600 * 1000,
+      limit: 100,
+    });
+
+    const t1Runs = predictions.filter(p => p.tripId === 't1');
+    expect(t1Runs).toHaveLength(2);
+    expect(t1Runs[0]?.isRealtime).toBe(true);
+    expect(t1Runs[1]?.isRealtime).toBe(false);
+    expect(t1Runs[1]?.serviceDate).toBe('2024-05-07');
+  });
+});
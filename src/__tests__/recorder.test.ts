@@ -0,0 +1,380 @@
+/**
+ * Vehicle Recorder Unit Tests
+ *
+ * Tests the memory, NDJSON and SQLite stores and the recorder's polling, skipping
+ * of repeated snapshots and error handling with a scripted poll function.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { VehicleRecorder } from '../recorder/recorder.js';
+import { MemoryVehicleStore, type VehicleStore } from '../recorder/store.js';
+import { NdjsonVehicleStore } from '../recorder/ndjson-store.js';
+import { SqliteVehicleStore, type SqliteDatabase } from '../recorder/sqlite-store.js';
+import type { VehicleSnapshot } from '../live/vehicle-watcher.js';
+import { TransportNetworkError } from '../errors.js';
+import type { RecordedSnapshot, Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function createVehicle(id: string, overrides: Partial<Vehicle> = {}): Vehicle {
+  return {
+    id,
+    vehicleNumber: id,
+    route: '4G',
+    type: 'bus',
+    latitude: 54.68,
+    longitude: 25.28,
+    bearing: 90,
+    speed: 20,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: new Date('2024-05-06T08:00:00Z'),
+    ...overrides,
+  };
+}
+
+function snapshot(city: string, minutes: number, vehicles: Vehicle[] = [createVehicle('a')]): RecordedSnapshot {
+  return { city, recordedAt: new Date(Date.UTC(2024, 4, 6, 8, minutes)), vehicles };
+}
+
+async function readAll(store: VehicleStore, query?: Parameters<VehicleStore['read']>[0]): Promise<RecordedSnapshot[]> {
+  const snapshots: RecordedSnapshot[] = [];
+  for await (const recorded of store.read(query)) {
+    snapshots.push(recorded);
+  }
+  return snapshots;
+}
+
+// =============================================================================
+// MemoryVehicleStore
+// =============================================================================
+
+describe('MemoryVehicleStore', () => {
+  it('keeps the latest snapshots of each city', async () => {
+    const store = new MemoryVehicleStore({ capacity: 2 });
+    for (const minutes of [1, 2, 3]) {
+      await store.append(snapshot('vilnius', minutes));
+    }
+    await store.append(snapshot('kaunas', 2));
+
+    const all = await readAll(store);
+    expect(all.map(s => [s.city, s.recordedAt.getUTCMinutes()])).toEqual([
+      ['kaunas', 2],
+      ['vilnius', 2],
+      ['vilnius', 3],
+    ]);
+  });
+
+  it('filters by city and time range', async () => {
+    const store = new MemoryVehicleStore();
+    for (const minutes of [1, 2, 3]) {
+      await store.append(snapshot('vilnius', minutes));
+      await store.append(snapshot('kaunas', minutes));
+    }
+
+    const filtered = await readAll(store, {
+      city: 'kaunas',
+      from: new Date(Date.UTC(2024, 4, 6, 8, 2)),
+      to: new Date(Date.UTC(2024, 4, 6, 8, 3)),
+    });
+
+    expect(filtered.map(s => [s.city, s.recordedAt.getUTCMinutes()])).toEqual([['kaunas', 2]]);
+  });
+});
+
+// =============================================================================
+// NdjsonVehicleStore
+// =============================================================================
+
+describe('NdjsonVehicleStore', () => {
+  let directory: string | null = null;
+
+  afterEach(async () => {
+    if (directory !== null) {
+      await rm(directory, { recursive: true, force: true });
+      directory = null;
+    }
+  });
+
+  it('round-trips snapshots with dates restored', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lt-recorder-'));
+    const store = new NdjsonVehicleStore({ directory });
+    const original = snapshot('vilnius', 5, [createVehicle('a', { delaySeconds: 60 }), createVehicle('b')]);
+
+    await store.append(original);
+    await store.append(snapshot('kaunas', 1, []));
+
+    const all = await readAll(store);
+    expect(all).toEqual([snapshot('kaunas', 1, []), original]);
+    expect(all[1]?.vehicles[0]?.measuredAt).toBeInstanceOf(Date);
+  });
+
+  it('writes one file per city and Lithuanian day', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lt-recorder-'));
+    const store = new NdjsonVehicleStore({ directory });
+
+    // 22:30 UTC is already the next day in Vilnius
+    await store.append({ city: 'vilnius', recordedAt: new Date('2024-05-06T22:30:00Z'), vehicles: [] });
+    await store.append(snapshot('vilnius', 0));
+
+    const nextDay = await readAll(store, { from: new Date('2024-05-07T00:00:00+03:00') });
+    expect(nextDay.map(s => s.recordedAt.toISOString())).toEqual(['2024-05-06T22:30:00.000Z']);
+  });
+
+  it('merges the cities of a day in recording order', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lt-recorder-'));
+    const store = new NdjsonVehicleStore({ directory });
+
+    for (const [city, minutes] of [['vilnius', 1], ['kaunas', 2], ['vilnius', 3], ['klaipeda', 3], ['kaunas', 4]] as const) {
+      await store.append(snapshot(city, minutes));
+    }
+
+    const all = await readAll(store);
+    expect(all.map(s => `${s.city}@${String(s.recordedAt.getUTCMinutes())}`)).toEqual([
+      'vilnius@1', 'kaunas@2', 'klaipeda@3', 'vilnius@3', 'kaunas@4',
+    ]);
+
+    const first: RecordedSnapshot[] = [];
+    for await (const recorded of store.read()) {
+      first.push(recorded);
+      if (first.length === 2) break;
+    }
+    expect(first).toEqual(all.slice(0, 2));
+  });
+
+  it('skips lines that do not parse', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lt-recorder-'));
+    const store = new NdjsonVehicleStore({ directory });
+
+    await store.append(snapshot('vilnius', 1));
+    await appendFile(join(directory, 'vilnius', '2024-05-06.ndjson'), '{"city":"vilnius","recordedAt":\n');
+    await store.append(snapshot('vilnius', 2));
+
+    expect(await readAll(store)).toHaveLength(2);
+  });
+
+  it('reads nothing from a missing directory', async () => {
+    const store = new NdjsonVehicleStore({ directory: join(tmpdir(), 'lt-recorder-missing') });
+    expect(await readAll(store)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// SqliteVehicleStore
+// =============================================================================
+
+/**
+ * Build a database returning fixed rows for the snapshot and position
+ * queries, as a driver would for rows already in the tables.
+ */
+function rowsDatabase(snapshotRows: unknown[], positionRows: Record<number, unknown[]>): SqliteDatabase {
+  return {
+    exec: () => undefined,
+    prepare: sql => ({
+      run: () => undefined,
+      all: (...params) => {
+        if (sql.includes('FROM vehicle_snapshots')) return snapshotRows;
+        if (sql.includes('FROM vehicle_positions')) return positionRows[Number(params[0])] ?? [];
+        return [];
+      },
+    }),
+  };
+}
+
+function positionRow(vehicleId: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    snapshot_id: 1,
+    vehicle_id: vehicleId,
+    vehicle_number: vehicleId,
+    route: '4G',
+    type: 'bus',
+    latitude: 54.68,
+    longitude: 25.28,
+    bearing: 90,
+    speed: 20,
+    destination: null,
+    delay_seconds: null,
+    trip_id: null,
+    gtfs_trip_id: null,
+    next_stop_id: null,
+    arrival_time_seconds: null,
+    is_stale: 0,
+    measured_at: Date.UTC(2024, 4, 6, 8, 0),
+    ...overrides,
+  };
+}
+
+describe('SqliteVehicleStore', () => {
+  it('converts rows to snapshots and skips rows that do not validate', async () => {
+    const recordedAt = Date.UTC(2024, 4, 6, 8, 1);
+    const store = new SqliteVehicleStore(rowsDatabase(
+      [
+        { id: 1, city: 'vilnius', recorded_at: recordedAt },
+        { id: 2, city: '', recorded_at: recordedAt },
+      ],
+      { 1: [positionRow('a'), positionRow('b', { type: 'tram' }), positionRow('c', { is_stale: 1 })] }
+    ));
+
+    expect(await readAll(store)).toEqual([
+      {
+        city: 'vilnius',
+        recordedAt: new Date(recordedAt),
+        vehicles: [createVehicle('a'), createVehicle('c', { isStale: true })],
+      },
+    ]);
+  });
+});
+
+// =============================================================================
+// VehicleRecorder
+// =============================================================================
+
+/**
+ * Build a poll function returning the scripted results of each city in
+ * order, then repeating the last one.
+ */
+function scriptedPoll(
+  steps: Record<string, (VehicleSnapshot | Error)[]>
+): (city: string) => Promise<VehicleSnapshot> {
+  const calls = new Map<string, number>();
+  return city => {
+    const script = steps[city] ?? [];
+    const call = calls.get(city) ?? 0;
+    calls.set(city, call + 1);
+    const step = script[Math.min(call, script.length - 1)];
+    if (step === undefined) return Promise.reject(new Error(`No script for ${city}`));
+    if (step instanceof Error) return Promise.reject(step);
+    return Promise.resolve(step);
+  };
+}
+
+function polled(
+  minutes: number,
+  vehicles: Vehicle[] = [createVehicle('a', { measuredAt: new Date(Date.UTC(2024, 4, 6, 8, minutes)) })]
+): VehicleSnapshot {
+  return { vehicles, serverTime: new Date(Date.UTC(2024, 4, 6, 8, minutes)) };
+}
+
+function waitForRecords(recorder: VehicleRecorder, count: number): Promise<void> {
+  return new Promise(resolve => {
+    const check = (): void => {
+      if (recorder.recordedCount >= count) {
+        recorder.off('record', check);
+        resolve();
+      }
+    };
+    recorder.on('record', check);
+  });
+}
+
+describe('VehicleRecorder', () => {
+  it('records each city and skips repeated snapshots', async () => {
+    const store = new MemoryVehicleStore();
+    const poll = scriptedPoll({
+      vilnius: [polled(1), polled(1), polled(2)],
+      kaunas: [polled(1, [])],
+    });
+    const recorder = new VehicleRecorder(['vilnius', 'kaunas', 'vilnius'], poll, store, { intervalMs: 1 });
+
+    await waitForRecords(recorder, 3);
+    await recorder.stop();
+
+    const all = await readAll(store);
+    expect(all.map(s => [s.city, s.recordedAt.getUTCMinutes()])).toEqual([
+      ['kaunas', 1],
+      ['vilnius', 1],
+      ['vilnius', 2],
+    ]);
+    expect(recorder.isStopped).toBe(true);
+  });
+
+  it('skips an unchanged payload served with a later Date header', async () => {
+    const store = new MemoryVehicleStore();
+    const unchanged = [createVehicle('a', { measuredAt: new Date(Date.UTC(2024, 4, 6, 8, 0)) })];
+    const poll = scriptedPoll({
+      vilnius: [polled(0, unchanged), polled(1, unchanged), polled(2, unchanged), polled(3)],
+    });
+    const recorder = new VehicleRecorder(['vilnius'], poll, store, { intervalMs: 1 });
+
+    await waitForRecords(recorder, 2);
+    await recorder.stop();
+
+    const all = await readAll(store);
+    expect(all.map(s => s.recordedAt.getUTCMinutes())).toEqual([0, 3]);
+  });
+
+  it('reports failed polls and keeps recording', async () => {
+    const store = new MemoryVehicleStore();
+    const poll = scriptedPoll({
+      vilnius: [new TransportNetworkError('HTTP 503', 'vilnius', 503), polled(1)],
+    });
+    const recorder = new VehicleRecorder(['vilnius'], poll, store, { intervalMs: 1 });
+    const errors: string[] = [];
+    recorder.on('error', (error, city) => errors.push(`${city}:${error.message}`));
+
+    await waitForRecords(recorder, 1);
+    await recorder.stop();
+
+    expect(errors).toEqual(['vilnius:HTTP 503']);
+    expect(await readAll(store)).toHaveLength(1);
+  });
+
+  it('stops when the store fails', async () => {
+    const store: VehicleStore = {
+      append: () => Promise.reject(new Error('disk full')),
+      read: () => new MemoryVehicleStore().read(),
+    };
+    const recorder = new VehicleRecorder(['vilnius'], scriptedPoll({ vilnius: [polled(1)] }), store, { intervalMs: 1 });
+    const errors: Error[] = [];
+    recorder.on('error', error => errors.push(error));
+
+    await new Promise<void>(resolve => recorder.once('end', resolve));
+
+    expect(errors.map(e => e.message)).toEqual(['disk full']);
+    expect(recorder.recordedCount).toBe(0);
+  });
+
+  it('releases the abort signal when stopped', async () => {
+    const controller = new AbortController();
+    const recorder = new VehicleRecorder(['vilnius'], scriptedPoll({ vilnius: [polled(1)] }), new MemoryVehicleStore(), {
+      intervalMs: 60_000,
+      signal: controller.signal,
+    });
+
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(1);
+    await recorder.stop();
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const recorder = new VehicleRecorder(['vilnius'], scriptedPoll({ vilnius: [polled(1)] }), new MemoryVehicleStore(), {
+      signal: controller.signal,
+    });
+
+    await recorder.stop();
+    expect(recorder.isStopped).toBe(true);
+    expect(recorder.recordedCount).toBe(0);
+  });
+
+  it('emits end after construction when the signal is already aborted', async () => {
+    const recorder = new VehicleRecorder(['vilnius'], scriptedPoll({ vilnius: [polled(1)] }), new MemoryVehicleStore(), {
+      signal: AbortSignal.abort(),
+    });
+
+    await new Promise<void>(resolve => recorder.once('end', resolve));
+    expect(recorder.recordedCount).toBe(0);
+  });
+});
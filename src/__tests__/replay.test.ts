@@ -0,0 +1,126 @@
+/**
+ * Replay Source Unit Tests
+ *
+ * Tests serving captured payloads along a virtual clock, and getVehicles()
+ * reading from a replay source instead of the network.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ReplaySource, saveReplayPayload } from '../replay/replay-source.js';
+import { LtTransport } from '../index.js';
+import { TransportNetworkError } from '../errors.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const HEADER = 'Transportas,Marsrutas,ReisoID,MasinosNumeris,Ilguma,Platuma,Greitis,Azimutas,ReisoPradziaMinutemis,NuokrypisSekundemis,MatavimoLaikas,MasinosTipas,KryptiesTipas,KryptiesPavadinimas,ReisoIdGTFS,x1,x2,x3';
+
+function payload(...vehicleNumbers: string[]): string {
+  const rows = vehicleNumbers.map(number =>
+    `Autobusai,3G,12345,${number},25279700,54687200,45,180,480,30,28800,low_floor,A>D,Santariškės - Pilaitė,GTFS123,0,0,0`
+  );
+  return [HEADER, ...rows].join('\n');
+}
+
+// 2024-05-06 08:00, 08:01 and 08:03 in Vilnius (UTC+3)
+const T0 = new Date('2024-05-06T05:00:00Z');
+const T1 = new Date('2024-05-06T05:01:00Z');
+const T3 = new Date('2024-05-06T05:03:00Z');
+
+let directory = '';
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'lt-replay-'));
+  await saveReplayPayload(directory, 'vilnius', payload('1001'), T0);
+  await saveReplayPayload(directory, 'vilnius', payload('1001', '1002'), T1);
+  await saveReplayPayload(directory, 'vilnius', payload('1003'), T3);
+  await saveReplayPayload(directory, 'kaunas', 'late', new Date('2024-05-06T05:02:00Z'));
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function readText(replay: ReplaySource, city: string): Promise<string> {
+  return new TextDecoder().decode((await replay.read(city)).bytes);
+}
+
+// =============================================================================
+// ReplaySource
+// =============================================================================
+
+describe('ReplaySource', () => {
+  it('starts at the earliest payload and serves the latest one at the virtual time', async () => {
+    const replay = new ReplaySource({ directory });
+    replay.pause();
+
+    expect((await replay.currentTime()).getTime()).toBe(T0.getTime());
+    expect((await replay.read('vilnius')).serverTime).toEqual(T0);
+
+    replay.advance(2 * 60 * 1000);
+    expect((await replay.read('vilnius')).serverTime).toEqual(T1);
+    expect(await readText(replay, 'kaunas')).toBe('late');
+  });
+
+  it('reports cities without payloads at the virtual time as missing', async () => {
+    const replay = new ReplaySource({ directory, start: T0 });
+    replay.pause();
+
+    await expect(replay.read('kaunas')).rejects.toThrow(TransportNetworkError);
+    await expect(replay.read('klaipeda')).rejects.toThrow(/No replay data for city/);
+    expect(await replay.getCities()).toEqual(['kaunas', 'vilnius']);
+  });
+
+  it('runs the clock at the configured speed', async () => {
+    vi.useFakeTimers({ now: Date.parse('2030-01-01T00:00:00Z') });
+    const replay = new ReplaySource({ directory, speed: 60 });
+
+    vi.advanceTimersByTime(1000);
+    expect((await replay.currentTime()).getTime()).toBe(T1.getTime());
+
+    replay.setSpeed(1);
+    vi.advanceTimersByTime(1000);
+    expect((await replay.currentTime()).getTime()).toBe(T1.getTime() + 1000);
+  });
+
+  it('seeks and keeps serving the last payload past the end', async () => {
+    const replay = new ReplaySource({ directory });
+    replay.pause();
+    replay.seek(new Date('2024-05-06T06:00:00Z'));
+
+    expect(await readText(replay, 'vilnius')).toContain(',1003,');
+  });
+
+  it('wraps around when looping', async () => {
+    const replay = new ReplaySource({ directory, loop: true });
+    replay.pause();
+    replay.advance(4 * 60 * 1000);
+
+    expect((await replay.read('vilnius')).serverTime).toEqual(T0);
+  });
+});
+
+// =============================================================================
+// LtTransport with replay
+// =============================================================================
+
+describe('LtTransport replay mode', () => {
+  it('returns replayed vehicles from getVehicles()', async () => {
+    const replay = new ReplaySource({ directory, start: T1 });
+    replay.pause();
+    const transport = new LtTransport({ replay, autoEnrich: false });
+
+    const vehicles = await transport.getVehicles('vilnius');
+
+    expect(vehicles.map(v => v.vehicleNumber)).toEqual(['1001', '1002']);
+    expect(vehicles[0]?.isStale).toBe(false);
+  });
+});
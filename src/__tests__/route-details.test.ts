@@ -0,0 +1,141 @@
+/**
+ * Route Details Unit Tests
+ *
+ * Tests route lookup, direction grouping and canonical stop sequences
+ * against fixture GTFS data with short-turn trips.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseStopsContent,
+  parseTripsContent,
+  parseShapesContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex, type ScheduleIndex } from '../schedule/schedule-index.js';
+import { findRoute, buildRouteDetails } from '../schedule/route-details.js';
+import { extractRoutePatterns } from '../schedule/route-patterns.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+bus1,1,Stotis - Centras,3,FF0000,FFFFFF
+trol1,1,Stotis - Universitetas,800,00FF00,FFFFFF
+bus4g,4G,Pilaitė - Centras,3,0000FF,FFFFFF`;
+
+const STOPS_TXT = `stop_id,stop_name,stop_lat,stop_lon
+A,Pilaitė,54.70,25.18
+B,Karoliniškės,54.69,25.22
+C,Centras,54.68,25.28
+D,Katedra,54.685,25.29`;
+
+// Route 4G: direction 0 runs A-B-C (two trips) plus a short turn A-B;
+// direction 1 runs C-B-A
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+bus4g,daily,t1,Centras,0,shp0
+bus4g,daily,t2,Centras,0,shp0
+bus4g,daily,t3,Karoliniškės,0,shp_short
+bus4g,daily,t4,Pilaitė,1,shp1
+bus1,daily,t5,Centras,0,
+trol1,daily,t6,Universitetas,0,
+trol1,daily,t7,Universitetas,0,`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+t1,08:00:00,08:00:00,A,1
+t1,08:10:00,08:10:00,B,2
+t1,08:20:00,08:20:00,C,3
+t2,09:00:00,09:00:00,A,1
+t2,09:10:00,09:10:00,B,2
+t2,09:20:00,09:20:00,C,3
+t3,10:00:00,10:00:00,A,1
+t3,10:10:00,10:10:00,B,2
+t4,11:00:00,11:00:00,C,1
+t4,11:10:00,11:10:00,B,2
+t4,11:20:00,11:20:00,X,3
+t4,11:30:00,11:30:00,A,4
+t5,08:00:00,08:00:00,C,1
+t6,08:00:00,08:00:00,D,1
+t7,09:00:00,09:00:00,D,1`;
+
+const SHAPES_TXT = `shape_id,shape_pt_lat,shape_pt_lon,shape_pt_sequence
+shp0,54.70,25.18,1
+shp0,54.68,25.28,2
+shp1,54.68,25.28,1
+shp1,54.70,25.18,2`;
+
+function createIndex(): ScheduleIndex {
+  return buildScheduleIndex({
+    routes: parseRoutesContent(ROUTES_TXT),
+    trips: parseTripsContent(TRIPS_TXT),
+    calendar: new Map(),
+    calendarDates: [],
+    stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+  });
+}
+
+// =============================================================================
+// findRoute
+// =============================================================================
+
+describe('findRoute', () => {
+  const index = createIndex();
+
+  it('finds routes by short name case-insensitively, or by ID', () => {
+    expect(findRoute(index, '4g')?.id).toBe('bus4g');
+    expect(findRoute(index, 'bus4g')?.id).toBe('bus4g');
+    expect(findRoute(index, '99')).toBeNull();
+  });
+
+  it('disambiguates shared short names by type, then trip count', () => {
+    expect(findRoute(index, '1', 'bus')?.id).toBe('bus1');
+    expect(findRoute(index, '1', 'trolleybus')?.id).toBe('trol1');
+    expect(findRoute(index, '1')?.id).toBe('trol1');
+  });
+});
+
+// =============================================================================
+// buildRouteDetails
+// =============================================================================
+
+describe('buildRouteDetails', () => {
+  const index = createIndex();
+  const stops = parseStopsContent(STOPS_TXT);
+  const shapes = parseShapesContent(SHAPES_TXT);
+  const route = findRoute(index, '4G');
+  if (route === null) throw new Error('fixture route missing');
+
+  const patterns = extractRoutePatterns(index.trips, index.stopTimesByTrip);
+  const details = buildRouteDetails(route, patterns.get(route.id) ?? [], stops, shapes);
+
+  it('groups trips by direction', () => {
+    expect(details.route.id).toBe('bus4g');
+    expect(details.directions.map(d => d.directionId)).toEqual([0, 1]);
+    expect(details.directions.map(d => d.tripCount)).toEqual([3, 1]);
+  });
+
+  it('uses the most common stop sequence, ignoring short turns', () => {
+    const [outbound] = details.directions;
+
+    expect(outbound?.stopIds).toEqual(['A', 'B', 'C']);
+    expect(outbound?.stops.map(stop => stop.name)).toEqual(['Pilaitė', 'Karoliniškės', 'Centras']);
+    expect(outbound?.headsign).toBe('Centras');
+  });
+
+  it('picks the shape of the canonical trips', () => {
+    const [outbound, inbound] = details.directions;
+
+    expect(outbound?.shapeId).toBe('shp0');
+    expect(outbound?.shape).toHaveLength(2);
+    expect(inbound?.shapeId).toBe('shp1');
+  });
+
+  it('keeps unknown stop IDs in the sequence but not in the stop list', () => {
+    const inbound = details.directions[1];
+
+    expect(inbound?.stopIds).toEqual(['C', 'B', 'X', 'A']);
+    expect(inbound?.stops.map(stop => stop.id)).toEqual(['C', 'B', 'A']);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Route Pattern Unit Tests
+ *
+ * Tests grouping of trips into distinct stop patterns, and loading
+ * patterns through the client from a fixture cache directory.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseTripsContent, parseStopTimesContent } from '../gtfs/parser.js';
+import { extractRoutePatterns } from '../schedule/route-patterns.js';
+import { LtTransport } from '../index.js';
+import { SyncRequiredError } from '../errors.js';
+import type { RoutePattern, Trip } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+// Route 4G: three full runs A-B-C (two shapes, two headsigns), one short
+// turn A-B, one return C-B-A. Route 7 has no direction IDs and a trip
+// without stop times.
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+4g,daily,t1,Centras,0,shp0
+4g,daily,t2,Centras,0,shp0
+4g,daily,t3,Centras per Karoliniškes,0,shp0b
+4g,daily,t4,Karoliniškės,0,shp_short
+4g,daily,t5,Pilaitė,1,
+7,daily,t6,Antakalnis,,
+7,daily,t7,Antakalnis,,`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+t1,08:00:00,08:00:00,A,1
+t1,08:10:00,08:10:00,B,2
+t1,08:20:00,08:20:00,C,3
+t2,09:00:00,09:00:00,A,1
+t2,09:10:00,09:10:00,B,2
+t2,09:20:00,09:20:00,C,3
+t3,10:20:00,10:20:00,C,3
+t3,10:00:00,10:00:00,A,1
+t3,10:10:00,10:10:00,B,2
+t4,11:00:00,11:00:00,A,1
+t4,11:10:00,11:10:00,B,2
+t5,12:00:00,12:00:00,C,1
+t5,12:10:00,12:10:00,B,2
+t5,12:20:00,12:20:00,A,3
+t6,08:00:00,08:00:00,D,1`;
+
+function createTrips(): Map<string, Trip> {
+  const trips = parseTripsContent(TRIPS_TXT);
+  for (const [id, trip] of trips) {
+    if (trip.routeId === '7') {
+      trips.set(id, { ...trip, directionId: null });
+    }
+  }
+  return trips;
+}
+
+function createPatterns(): Map<string, RoutePattern[]> {
+  return extractRoutePatterns(createTrips(), parseStopTimesContent(STOP_TIMES_TXT));
+}
+
+// =============================================================================
+// extractRoutePatterns
+// =============================================================================
+
+describe('extractRoutePatterns', () => {
+  const patterns = createPatterns();
+  const route4g = patterns.get('4g') ?? [];
+
+  it('groups trips with the same stop sequence and direction', () => {
+    expect(route4g.map(p => p.stopIds)).toEqual([
+      ['A', 'B', 'C'],
+      ['A', 'B'],
+      ['C', 'B', 'A'],
+    ]);
+    expect(route4g[0]?.tripIds).toEqual(['t1', 't2', 't3']);
+  });
+
+  it('orders by direction, then trip count, and numbers patterns per route', () => {
+    expect(route4g.map(p => p.directionId)).toEqual([0, 0, 1]);
+    expect(route4g.map(p => p.id)).toEqual(['4g#1', '4g#2', '4g#3']);
+  });
+
+  it('ranks headsigns and shapes by frequency', () => {
+    expect(route4g[0]?.headsigns).toEqual(['Centras', 'Centras per Karoliniškes']);
+    expect(route4g[0]?.shapeIds).toEqual(['shp0', 'shp0b']);
+    expect(route4g[2]?.shapeIds).toEqual([]);
+  });
+
+  it('skips trips without stop times', () => {
+    expect(patterns.get('7')?.map(p => p.tripIds)).toEqual([['t6']]);
+    expect(patterns.get('7')?.[0]?.directionId).toBeNull();
+  });
+});
+
+// =============================================================================
+// LtTransport.getRoutePatterns
+// =============================================================================
+
+describe('LtTransport.getRoutePatterns', () => {
+  let cacheDir: string;
+
+  beforeAll(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'lt-transport-patterns-'));
+
+    // Current cache format: patterns computed at sync time
+    await mkdir(join(cacheDir, 'vilnius'));
+    await writeFile(
+      join(cacheDir, 'vilnius', 'patterns.json'),
+      JSON.stringify(Array.from(createPatterns().entries()))
+    );
+
+    // Older cache without patterns.json
+    await mkdir(join(cacheDir, 'kaunas'));
+    const write = (file: string, data: unknown): Promise<void> =>
+      writeFile(join(cacheDir, 'kaunas', file), JSON.stringify(data));
+    await write('routes.json', []);
+    await write('trips.json', Array.from(createTrips().entries()));
+    await write('calendar.json', []);
+    await write('calendar_dates.json', []);
+    await write('stop_times.json', Array.from(parseStopTimesContent(STOP_TIMES_TXT).entries()));
+  });
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('loads cached patterns', async () => {
+    const transport = new LtTransport({ cacheDir });
+    const patterns = await transport.getRoutePatterns('vilnius');
+
+    expect(patterns.get('4g')?.map(p => p.id)).toEqual(['4g#1', '4g#2', '4g#3']);
+  });
+
+  it('derives patterns from stop times when the cache predates them', async () => {
+    const transport = new LtTransport({ cacheDir });
+    const patterns = await transport.getRoutePatterns('kaunas');
+
+    expect(patterns).toEqual(createPatterns());
+  });
+
+  it('requires synced data', async () => {
+    const transport = new LtTransport({ cacheDir });
+    await expect(transport.getRoutePatterns('klaipeda')).rejects.toBeInstanceOf(SyncRequiredError);
+  });
+});
@@ -10,6 +10,7 @@ import {
   gtfsRouteSchema,
   gtfsStopSchema,
   clientConfigSchema,
+  cityConfigSchema,
 } from '../schemas.js';
 
 // =============================================================================
@@ -218,3 +219,31 @@ describe('clientConfigSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+// =============================================================================
+// City Config Schema Tests
+// =============================================================================
+
+describe('cityConfigSchema', () => {
+  const baseCity = {
+    id: 'custom',
+    tier: 'gold',
+    gtfs: { enabled: true, url: 'https://example.com/gtfs.zip' },
+  };
+
+  it('should accept a GTFS-Realtime GPS source', () => {
+    const result = cityConfigSchema.safeParse({
+      ...baseCity,
+      gps: { enabled: true, format: 'gtfs-rt', url: 'https://example.com/vehicle-positions.pb' },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject unknown GPS formats', () => {
+    const result = cityConfigSchema.safeParse({
+      ...baseCity,
+      gps: { enabled: true, format: 'xml', url: 'https://example.com/gps.xml' },
+    });
+    expect(result.success).toBe(false);
+  });
+});
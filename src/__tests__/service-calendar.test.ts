@@ -0,0 +1,97 @@
+/**
+ * Service Calendar Unit Tests
+ * 
+ * Tests resolution of running services from calendar.txt weekly patterns
+ * and calendar_dates.txt exceptions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCalendarContent, parseCalendarDatesContent } from '../gtfs/parser.js';
+import {
+  buildServiceCalendar,
+  getActiveServiceIds,
+  getServiceDaysAt,
+  resolveServiceDate,
+} from '../schedule/service-calendar.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+weekday,1,1,1,1,1,0,0,20240101,20241231
+saturday,0,0,0,0,0,1,0,20240101,20241231
+summer,1,1,1,1,1,1,1,20240601,20240831`;
+
+// 2024-02-16 (Friday, Restoration of the State Day): runs Sunday schedule
+const CALENDAR_DATES_TXT = `service_id,date,exception_type
+weekday,20240216,2
+sunday_only,20240216,1
+sunday_only,20240218,1`;
+
+const serviceCalendar = buildServiceCalendar(
+  parseCalendarContent(CALENDAR_TXT),
+  parseCalendarDatesContent(CALENDAR_DATES_TXT)
+);
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('getActiveServiceIds', () => {
+  it('should apply weekday flags', () => {
+    expect([...getActiveServiceIds(serviceCalendar, '2024-02-14')]).toEqual(['weekday']);
+    expect([...getActiveServiceIds(serviceCalendar, '2024-02-17')]).toEqual(['saturday']);
+  });
+
+  it('should respect start and end dates', () => {
+    expect(getActiveServiceIds(serviceCalendar, '2024-05-31').has('summer')).toBe(false);
+    expect(getActiveServiceIds(serviceCalendar, '2024-06-01').has('summer')).toBe(true);
+    expect(getActiveServiceIds(serviceCalendar, '2024-08-31').has('summer')).toBe(true);
+    expect(getActiveServiceIds(serviceCalendar, '2024-09-01').has('summer')).toBe(false);
+  });
+
+  it('should apply removed and added exceptions on holidays', () => {
+    const active = getActiveServiceIds(serviceCalendar, '2024-02-16');
+    expect(active.has('weekday')).toBe(false);
+    expect(active.has('sunday_only')).toBe(true);
+  });
+
+  it('should support services defined only through calendar_dates', () => {
+    expect([...getActiveServiceIds(serviceCalendar, '2024-02-18')]).toEqual(['sunday_only']);
+  });
+
+  it('should resolve instants to the Lithuanian local date', () => {
+    // 22:30 UTC on Friday 2024-02-16 is 00:30 Saturday in Lithuania
+    const active = getActiveServiceIds(serviceCalendar, new Date('2024-02-16T22:30:00Z'));
+    expect([...active]).toEqual(['saturday']);
+  });
+
+  it('should accept calendar arrays', () => {
+    const fromArray = buildServiceCalendar(
+      Array.from(parseCalendarContent(CALENDAR_TXT).values()),
+      []
+    );
+    expect([...getActiveServiceIds(fromArray, '2024-02-16')]).toEqual(['weekday']);
+  });
+});
+
+describe('getServiceDaysAt', () => {
+  it('should include the previous service day for overnight trips', () => {
+    // 00:30 local time on Saturday 2024-02-17
+    const days = getServiceDaysAt(serviceCalendar, new Date('2024-02-16T22:30:00Z'));
+
+    expect(days.map(d => d.serviceDate)).toEqual(['2024-02-16', '2024-02-17']);
+    expect(days[0]?.serviceIds.has('sunday_only')).toBe(true);
+    expect(days[0]?.dayStart.toISOString()).toBe('2024-02-15T22:00:00.000Z');
+    expect(days[1]?.serviceIds.has('saturday')).toBe(true);
+  });
+});
+
+describe('resolveServiceDate', () => {
+  it('should reject malformed date strings', () => {
+    expect(() => resolveServiceDate('20240216')).toThrow(RangeError);
+    expect(() => resolveServiceDate('20240216')).toThrow(/YYYY-MM-DD/);
+    expect(resolveServiceDate('2024-02-16')).toBe('2024-02-16');
+  });
+});
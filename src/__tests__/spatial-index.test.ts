@@ -0,0 +1,115 @@
+/**
+ * Spatial Index Unit Tests
+ *
+ * Tests grid radius queries against a brute-force scan, and nearby stop
+ * queries through the client against a fixture cache directory.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildSpatialIndex, findWithinRadius } from '../utils/spatial-index.js';
+import { haversineDistance } from '../utils/coordinates.js';
+import { LtTransport } from '../index.js';
+import { SyncRequiredError } from '../errors.js';
+import type { Stop } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function createStop(id: string, latitude: number, longitude: number): Stop {
+  return { id, code: null, name: `Stotelė ${id}`, description: null, latitude, longitude, url: null };
+}
+
+/**
+ * Deterministic pseudo-random stops spread over Vilnius.
+ */
+function createStops(count: number): Stop[] {
+  let seed = 42;
+  const random = (): number => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+
+  return Array.from({ length: count }, (_, i) =>
+    createStop(String(i), 54.6 + random() * 0.2, 25.1 + random() * 0.3)
+  );
+}
+
+// =============================================================================
+// findWithinRadius
+// =============================================================================
+
+describe('findWithinRadius', () => {
+  const stops = createStops(2000);
+  const index = buildSpatialIndex(stops);
+
+  it.each([50, 300, 1000, 5000])('matches a brute-force scan within %i m', radius => {
+    const [lat, lon] = [54.6872, 25.2797];
+    const expected = stops
+      .filter(stop => haversineDistance(lat, lon, stop.latitude, stop.longitude) <= radius)
+      .map(stop => stop.id)
+      .sort();
+
+    const found = findWithinRadius(index, lat, lon, radius).map(result => result.item.id).sort();
+
+    expect(found).toEqual(expected);
+  });
+
+  it('returns results nearest first, up to the limit', () => {
+    const results = findWithinRadius(index, 54.7, 25.25, 2000, 5);
+    const distances = results.map(result => result.distanceMeters);
+
+    expect(results).toHaveLength(5);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('handles an empty index', () => {
+    expect(findWithinRadius(buildSpatialIndex([]), 54.7, 25.25, 1000)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// LtTransport.getNearbyStops
+// =============================================================================
+
+describe('LtTransport.getNearbyStops', () => {
+  let cacheDir: string;
+
+  beforeAll(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'lt-transport-nearby-'));
+    await mkdir(join(cacheDir, 'vilnius'));
+    await writeFile(join(cacheDir, 'vilnius', 'stops.json'), JSON.stringify([
+      createStop('near', 54.6873, 25.2798),
+      createStop('mid', 54.6890, 25.2797),
+      createStop('far', 54.7000, 25.2797),
+    ]));
+  });
+
+  afterAll(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('returns stops within the radius with distances, nearest first', async () => {
+    const transport = new LtTransport({ cacheDir });
+    const stops = await transport.getNearbyStops('vilnius', 54.6872, 25.2797, { radiusMeters: 500 });
+
+    expect(stops.map(stop => stop.id)).toEqual(['near', 'mid']);
+    expect(stops[0]?.distanceMeters).toBeLessThan(20);
+    expect(stops[0]?.name).toBe('Stotelė near');
+  });
+
+  it('applies the limit', async () => {
+    const transport = new LtTransport({ cacheDir });
+    const stops = await transport.getNearbyStops('vilnius', 54.6872, 25.2797, { radiusMeters: 5000, limit: 1 });
+
+    expect(stops.map(stop => stop.id)).toEqual(['near']);
+  });
+
+  it('requires synced stops', async () => {
+    const transport = new LtTransport({ cacheDir });
+    await expect(transport.getNearbyStops('kaunas', 54.9, 23.9)).rejects.toBeInstanceOf(SyncRequiredError);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Stop Search Unit Tests
+ *
+ * Tests diacritic folding, abbreviations, prefixes, typos and ranking.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildStopSearchIndex, searchStops } from '../search/stop-search.js';
+import { foldText, editDistance } from '../utils/text.js';
+import type { Stop } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function createStop(id: string, name: string, code: string | null = null): Stop {
+  return { id, code, name, description: null, latitude: 54.68, longitude: 25.28, url: null };
+}
+
+const INDEX = buildStopSearchIndex([
+  createStop('1', 'Žalgirio g.', '0701'),
+  createStop('2', 'Žalgirio stadionas'),
+  createStop('3', 'Autobusų st.'),
+  createStop('4', 'Geležinkelio stotis'),
+  createStop('5', 'Antakalnio žiedas'),
+  createStop('6', 'Šeškinės poliklinika'),
+  createStop('7', 'Ąžuolyno gatvė'),
+]);
+
+const names = (query: string): string[] => searchStops(INDEX, query).map(stop => stop.name);
+
+// =============================================================================
+// Text helpers
+// =============================================================================
+
+describe('foldText', () => {
+  it('strips Lithuanian diacritics, case and punctuation', () => {
+    expect(foldText('ĄČĘĖĮŠŲŪŽ ąčęėįšųūž')).toBe('aceeisuuz aceeisuuz');
+    expect(foldText('  Autobusų st. (A.S.) ')).toBe('autobusu st a s');
+  });
+});
+
+describe('editDistance', () => {
+  it('counts edits including adjacent swaps', () => {
+    expect(editDistance('zalgirio', 'zalgirio', 2)).toBe(0);
+    expect(editDistance('zalgrio', 'zalgirio', 2)).toBe(1);
+    expect(editDistance('zlagirio', 'zalgirio', 2)).toBe(1);
+    expect(editDistance('kaunas', 'vilnius', 2)).toBe(3);
+  });
+});
+
+// =============================================================================
+// searchStops
+// =============================================================================
+
+describe('searchStops', () => {
+  it('ignores diacritics and case', () => {
+    expect(names('zalgirio')).toEqual(['Žalgirio g.', 'Žalgirio stadionas']);
+    expect(names('SESKINES')).toEqual(['Šeškinės poliklinika']);
+  });
+
+  it('understands abbreviations in both directions', () => {
+    expect(names('zalgirio gatve')[0]).toBe('Žalgirio g.');
+    expect(names('azuolyno g.')).toEqual(['Ąžuolyno gatvė']);
+    expect(names('autobusu stotis')).toEqual(['Autobusų st.']);
+  });
+
+  it('matches prefixes while typing', () => {
+    expect(names('anta')).toEqual(['Antakalnio žiedas']);
+    expect(names('a')).toContain('Antakalnio žiedas');
+    expect(names('zalg st')).toEqual(['Žalgirio stadionas']);
+  });
+
+  it('tolerates small typos', () => {
+    expect(names('zalgrio')).toContain('Žalgirio g.');
+    expect(names('gelezinkleio stotis')).toEqual(['Geležinkelio stotis']);
+  });
+
+  it('requires every query word to match', () => {
+    expect(names('zalgirio ziedas')).toEqual([]);
+  });
+
+  it('ranks exact names above partial matches', () => {
+    const results = searchStops(INDEX, 'Žalgirio g.');
+    expect(results[0]?.name).toBe('Žalgirio g.');
+    expect(results[0]?.score).toBe(1);
+    expect(results[1]?.score ?? 0).toBeLessThan(1);
+  });
+
+  it('matches stop codes exactly', () => {
+    expect(searchStops(INDEX, '0701').map(stop => stop.id)).toEqual(['1']);
+  });
+
+  it('returns nothing for an empty query and respects the limit', () => {
+    expect(searchStops(INDEX, '  ')).toEqual([]);
+    expect(searchStops(INDEX, 'a', { limit: 1 })).toHaveLength(1);
+  });
+});
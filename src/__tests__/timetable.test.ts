@@ -0,0 +1,204 @@
+/**
+ * Stop Timetable Unit Tests
+ *
+ * Tests grouping of departures by day type, footnotes for calendar
+ * exceptions and headsign variants, holiday sections, and the Markdown
+ * and HTML renderers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseStopsContent,
+  parseTripsContent,
+  parseCalendarContent,
+  parseCalendarDatesContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import { buildStopTimetable } from '../timetable/timetable.js';
+import { renderTimetableMarkdown, renderTimetableHtml } from '../timetable/render.js';
+import type { Route, Stop, StopTimetable } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type,route_color,route_text_color
+r1,4G,Pilaitė - Centras,3,FF0000,FFFFFF
+r2,7,Antakalnis - Stotis,3,00FF00,FFFFFF`;
+
+const STOPS_TXT = `stop_id,stop_name,stop_lat,stop_lon
+A,Pilaitė <A>,54.70,25.18
+B,Centras,54.68,25.28`;
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+wk,1,1,1,1,1,0,0,20240101,20241231
+wkx,1,1,1,1,1,0,0,20240101,20241231
+fri,0,0,0,0,1,0,0,20240101,20241231
+sat,0,0,0,0,0,1,0,20240101,20241231
+sun,0,0,0,0,0,0,1,20240101,20241231`;
+
+// 2024-02-16 (Friday) is a public holiday running the Sunday schedule;
+// the wkx trip is cancelled on 2024-02-21
+const CALENDAR_DATES_TXT = `service_id,date,exception_type
+wk,20240216,2
+wkx,20240216,2
+fri,20240216,2
+sun,20240216,1
+wkx,20240221,2`;
+
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,direction_id,shape_id
+r1,wk,w1,Centras,0,
+r1,wk,w2,Centras,0,
+r1,wkx,w3,Centras,0,
+r1,wk,w4,Karoliniškės,0,
+r1,fri,f1,Centras,0,
+r1,sat,s1,Centras,0,
+r1,sun,u1,Centras,0,
+r1,sun,u2,Centras,0,
+r1,wk,back,Pilaitė,1,
+r2,wk,other,Stotis,0,`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+w1,05:12:00,05:12:00,A,1
+w1,05:40:00,05:40:00,B,2
+w2,05:32:00,05:32:00,A,1
+w2,06:00:00,06:00:00,B,2
+w3,06:05:00,06:05:00,A,1
+w3,06:35:00,06:35:00,B,2
+w4,06:40:00,06:40:00,A,1
+w4,07:00:00,07:00:00,B,2
+f1,24:15:00,24:15:00,A,1
+f1,24:45:00,24:45:00,B,2
+s1,07:00:00,07:00:00,A,1
+s1,07:30:00,07:30:00,B,2
+u1,08:00:00,08:00:00,A,1
+u1,08:30:00,08:30:00,B,2
+u2,09:30:00,09:30:00,A,1
+u2,10:00:00,10:00:00,B,2
+back,05:00:00,05:00:00,B,1
+back,05:10:00,05:10:00,A,2
+other,05:20:00,05:20:00,A,1
+other,05:50:00,05:50:00,B,2`;
+
+const index = buildScheduleIndex({
+  routes: parseRoutesContent(ROUTES_TXT),
+  trips: parseTripsContent(TRIPS_TXT),
+  calendar: parseCalendarContent(CALENDAR_TXT),
+  calendarDates: parseCalendarDatesContent(CALENDAR_DATES_TXT),
+  stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+});
+
+const [stop] = parseStopsContent(STOPS_TXT) as [Stop];
+const route = index.routesById.get('r1') as Route;
+
+function buildFixture(): StopTimetable {
+  return buildStopTimetable(index, stop, route, { from: '2024-02-12', days: 14 });
+}
+
+// =============================================================================
+// buildStopTimetable
+// =============================================================================
+
+describe('buildStopTimetable', () => {
+  const timetable = buildFixture();
+  const section = (dayType: string, at = 0) =>
+    timetable.sections.filter(s => s.dayType === dayType)[at];
+
+  it('covers the validity period', () => {
+    expect(timetable.validFrom).toBe('2024-02-12');
+    expect(timetable.validTo).toBe('2024-02-25');
+    expect(timetable.headsign).toBe('Centras');
+  });
+
+  it('orders sections workdays, Saturday, Sunday, then specific dates', () => {
+    expect(timetable.sections.map(s => s.dayType)).toEqual(['workdays', 'saturday', 'sunday', 'dates']);
+    expect(section('saturday')?.dates).toEqual(['2024-02-17', '2024-02-24']);
+  });
+
+  it('lays out departures by hour, with overnight departures last', () => {
+    const hours = section('workdays')?.hours ?? [];
+
+    expect(hours.map(h => h.hour)).toEqual([5, 6, 0]);
+    expect(hours.map(h => h.entries.map(e => e.minute))).toEqual([[12, 32], [5, 40], [15]]);
+    expect(hours[2]?.entries[0]?.time).toBe('00:15');
+  });
+
+  it('leaves out other routes and trips ending at the stop', () => {
+    const tripIds = timetable.sections.flatMap(s => s.hours.flatMap(h => h.entries.map(e => e.tripId)));
+
+    expect(tripIds).not.toContain('other');
+    expect(tripIds).not.toContain('back');
+  });
+
+  it('moves holidays into a section of their own', () => {
+    const holiday = section('dates');
+
+    expect(section('workdays')?.dates).not.toContain('2024-02-16');
+    expect(holiday?.dates).toEqual(['2024-02-16']);
+    expect(holiday?.hours.flatMap(h => h.entries.map(e => e.tripId))).toEqual(['u1', 'u2']);
+  });
+
+  it('adds footnotes for exception dates and headsign variants', () => {
+    const entries = section('workdays')?.hours.flatMap(h => h.entries) ?? [];
+    const notesOf = (tripId: string): readonly string[] | undefined =>
+      entries.find(e => e.tripId === tripId)?.notes;
+
+    expect(notesOf('w1')).toEqual([]);
+    expect(notesOf('w3')).toEqual(['a']);
+    expect(notesOf('w4')).toEqual(['b']);
+    expect(notesOf('f1')).toEqual(['c']);
+
+    expect(timetable.notes).toEqual([
+      { mark: 'a', kind: 'except', dates: ['2024-02-21'], headsign: null },
+      { mark: 'b', kind: 'headsign', dates: [], headsign: 'Karoliniškės' },
+      { mark: 'c', kind: 'only', dates: ['2024-02-23'], headsign: null },
+    ]);
+  });
+
+  it('returns empty sections when the route does not run', () => {
+    const quiet = buildStopTimetable(index, stop, index.routesById.get('r2') as Route, {
+      from: '2024-02-17',
+      days: 1,
+    });
+
+    expect(quiet.sections).toEqual([{ dayType: 'saturday', dates: ['2024-02-17'], hours: [] }]);
+  });
+});
+
+// =============================================================================
+// Renderers
+// =============================================================================
+
+describe('renderTimetableMarkdown', () => {
+  const markdown = renderTimetableMarkdown(buildFixture());
+
+  it('renders hours-by-minutes tables with footnote marks', () => {
+    expect(markdown).toContain('# 4G Pilaitė - Centras');
+    expect(markdown).toContain('## Workdays');
+    expect(markdown).toContain('| 5 | 12 32 |');
+    expect(markdown).toContain('| 6 | 05<sup>a</sup> 40<sup>b</sup> |');
+    expect(markdown).toContain('## On 2024-02-16');
+    expect(markdown).toContain('- <sup>a</sup> Does not run on 2024-02-21');
+  });
+
+  it('escapes names and accepts custom labels', () => {
+    const lithuanian = renderTimetableMarkdown(buildFixture(), { labels: { workdays: 'Darbo dienomis' } });
+
+    expect(markdown).toContain('**Pilaitė \\<A\\>**');
+    expect(lithuanian).toContain('## Darbo dienomis');
+  });
+});
+
+describe('renderTimetableHtml', () => {
+  const html = renderTimetableHtml(buildFixture());
+
+  it('renders a section per day type with escaped text', () => {
+    expect(html.startsWith('<section class="timetable">')).toBe(true);
+    expect(html).toContain('<table class="timetable-section timetable-workdays">');
+    expect(html).toContain('<strong>Pilaitė &lt;A&gt;</strong>');
+    expect(html).toContain('<tr><th scope="row">0</th><td><span class="timetable-minute" title="Centras">15<sup>c</sup></span></td></tr>');
+    expect(html).toContain('<dt><sup>b</sup></dt><dd>To Karoliniškės</dd>');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Trip Matcher Unit Tests
+ *
+ * Tests inferring GTFS trips for vehicles from shape geometry and schedule.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseRoutesContent,
+  parseStopsContent,
+  parseTripsContent,
+  parseShapesContent,
+  parseCalendarContent,
+  parseStopTimesContent,
+} from '../gtfs/parser.js';
+import { buildScheduleIndex } from '../schedule/schedule-index.js';
+import {
+  buildTripCache,
+  getTripProfile,
+  getScheduledSecondsAt,
+} from '../enrichment/trip-profile.js';
+import {
+  matchVehicleToTrip,
+  matchVehicleTrips,
+  enrichVehicleTrips,
+} from '../enrichment/trip-matcher.js';
+import { getServiceDayStart, parseGtfsTime } from '../utils/time.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+// A straight east-west street with three stops ~1.9 km apart
+const STOPS_TXT = `stop_id,stop_name,stop_lat,stop_lon
+A,Vakarai,54.9,23.90
+B,Centras,54.9,23.93
+C,Rytai,54.9,23.96`;
+
+const SHAPES_TXT = `shape_id,shape_pt_lat,shape_pt_lon,shape_pt_sequence
+east,54.9,23.90,1
+east,54.9,23.915,2
+east,54.9,23.93,3
+east,54.9,23.945,4
+east,54.9,23.96,5
+west,54.9,23.96,1
+west,54.9,23.93,2
+west,54.9,23.90,3`;
+
+const ROUTES_TXT = `route_id,route_short_name,route_long_name,route_type
+r7,7,Vakarai - Rytai,3`;
+
+const TRIPS_TXT = `route_id,service_id,trip_id,trip_headsign,shape_id
+r7,daily,east-1,Rytai,east
+r7,daily,east-2,Rytai,east
+r7,daily,west-1,Vakarai,west`;
+
+const CALENDAR_TXT = `service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date
+daily,1,1,1,1,1,1,1,20240101,20241231`;
+
+const STOP_TIMES_TXT = `trip_id,arrival_time,departure_time,stop_id,stop_sequence
+east-1,08:00:00,08:00:00,A,1
+east-1,08:10:00,08:10:00,B,2
+east-1,08:20:00,08:20:00,C,3
+east-2,08:30:00,08:30:00,A,1
+east-2,08:40:00,08:40:00,B,2
+east-2,08:50:00,08:50:00,C,3
+west-1,08:00:00,08:00:00,C,1
+west-1,08:10:00,08:10:00,B,2
+west-1,08:20:00,08:20:00,A,3`;
+
+function createCache() {
+  const schedule = buildScheduleIndex({
+    routes: parseRoutesContent(ROUTES_TXT),
+    trips: parseTripsContent(TRIPS_TXT),
+    calendar: parseCalendarContent(CALENDAR_TXT),
+    calendarDates: [],
+    stopTimes: parseStopTimesContent(STOP_TIMES_TXT),
+  });
+
+  return buildTripCache(schedule, parseShapesContent(SHAPES_TXT), parseStopsContent(STOPS_TXT));
+}
+
+const SERVICE_DATE = '2024-05-06';
+
+function at(time: string): Date {
+  return new Date(getServiceDayStart(SERVICE_DATE).getTime() + (parseGtfsTime(time) ?? 0) * 1000);
+}
+
+function createVehicle(overrides: Partial<Vehicle> = {}): Vehicle {
+  return {
+    id: 'kaunas-1',
+    vehicleNumber: '1001',
+    route: '7',
+    type: 'bus',
+    latitude: 54.9,
+    longitude: 23.93,
+    bearing: 90,
+    speed: 25,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: at('08:10:00'),
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Trip Profiles
+// =============================================================================
+
+describe('getTripProfile', () => {
+  it('places stops along the shape in order', () => {
+    const profile = getTripProfile(createCache(), 'east-1');
+
+    expect(profile).not.toBeNull();
+    const [a, b, c] = profile?.stopDistances ?? [];
+    expect(a).toBeCloseTo(0, 0);
+    expect(b).toBeGreaterThan(1800);
+    expect(c).toBeCloseTo(profile?.polyline.length ?? 0, 0);
+  });
+
+  it('interpolates scheduled time between stops', () => {
+    const profile = getTripProfile(createCache(), 'east-1');
+    if (profile === null) throw new Error('profile expected');
+
+    const halfway = ((profile.stopDistances[0] ?? 0) + (profile.stopDistances[1] ?? 0)) / 2;
+
+    expect(getScheduledSecondsAt(profile, halfway)).toBeCloseTo(8 * 3600 + 5 * 60, 0);
+    expect(getScheduledSecondsAt(profile, -10)).toBe(8 * 3600);
+    expect(getScheduledSecondsAt(profile, profile.polyline.length + 10)).toBe(8 * 3600 + 20 * 60);
+  });
+
+  it('returns null for unknown trips', () => {
+    expect(getTripProfile(createCache(), 'missing')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+describe('matchVehicleToTrip', () => {
+  it('matches the trip whose schedule fits the position', () => {
+    const cache = createCache();
+
+    const early = matchVehicleToTrip(createVehicle(), cache);
+    const later = matchVehicleToTrip(createVehicle({ measuredAt: at('08:41:00') }), cache);
+
+    expect(early?.tripId).toBe('east-1');
+    expect(early?.serviceDate).toBe(SERVICE_DATE);
+    expect(later?.tripId).toBe('east-2');
+    expect(later?.scheduleDeviationSeconds).toBeCloseTo(60, -1);
+  });
+
+  it('uses heading to tell directions apart', () => {
+    const cache = createCache();
+
+    const eastbound = matchVehicleToTrip(createVehicle({ bearing: 90 }), cache);
+    const westbound = matchVehicleToTrip(createVehicle({ bearing: 270 }), cache);
+
+    expect(eastbound?.tripId).toBe('east-1');
+    expect(westbound?.tripId).toBe('west-1');
+  });
+
+  it('returns null when vehicle is far from the route', () => {
+    const vehicle = createVehicle({ latitude: 54.95 });
+
+    expect(matchVehicleToTrip(vehicle, createCache())).toBeNull();
+  });
+
+  it('returns null for unknown routes', () => {
+    expect(matchVehicleToTrip(createVehicle({ route: '99' }), createCache())).toBeNull();
+  });
+
+  it('returns null outside the trip runs', () => {
+    expect(matchVehicleToTrip(createVehicle({ measuredAt: at('12:00:00') }), createCache())).toBeNull();
+  });
+});
+
+describe('matchVehicleTrips', () => {
+  it('does not assign the same trip run to two vehicles', () => {
+    const onTime = createVehicle({ id: 'kaunas-1' });
+    const behind = createVehicle({ id: 'kaunas-2', longitude: 23.925 });
+
+    const matches = matchVehicleTrips([behind, onTime], createCache());
+
+    expect(matches.get('kaunas-1')?.tripId).toBe('east-1');
+    expect(matches.get('kaunas-2')?.tripId).not.toBe('east-1');
+  });
+
+  it('skips vehicles that already report a GTFS trip', () => {
+    const matches = matchVehicleTrips([createVehicle({ gtfsTripId: 'east-2' })], createCache());
+
+    expect(matches.size).toBe(0);
+  });
+});
+
+describe('enrichVehicleTrips', () => {
+  it('fills gtfsTripId only for confident matches', () => {
+    const onTime = createVehicle({ id: 'kaunas-1' });
+    const behind = createVehicle({ id: 'kaunas-2', longitude: 23.925 });
+
+    const [first, second] = enrichVehicleTrips([onTime, behind], createCache());
+
+    expect(first?.gtfsTripId).toBe('east-1');
+    expect(second?.gtfsTripId).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Vehicle Filter Unit Tests
+ *
+ * Tests radius and bounding box queries over normalized vehicles.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findVehiclesNear, findVehiclesInBounds } from '../live/vehicle-filters.js';
+import { isWithinBounds, isValidLithuaniaCoord } from '../utils/coordinates.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function createVehicle(id: string, latitude: number, longitude: number): Vehicle {
+  return {
+    id,
+    vehicleNumber: id,
+    route: '4G',
+    type: 'bus',
+    latitude,
+    longitude,
+    bearing: 90,
+    speed: 20,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: new Date('2024-05-06T08:00:00Z'),
+  };
+}
+
+// Cathedral Square, Vilnius
+const ORIGIN = { latitude: 54.6858, longitude: 25.2877 };
+
+const VEHICLES = [
+  createVehicle('north', 54.6900, 25.2877), // ~470 m north
+  createVehicle('east', 54.6858, 25.2920), // ~280 m east
+  createVehicle('far', 54.7200, 25.2877), // ~3.8 km north
+];
+
+// =============================================================================
+// findVehiclesNear
+// =============================================================================
+
+describe('findVehiclesNear', () => {
+  it('returns vehicles within the radius, nearest first', () => {
+    const nearby = findVehiclesNear(VEHICLES, ORIGIN.latitude, ORIGIN.longitude, 500);
+
+    expect(nearby.map(v => v.id)).toEqual(['east', 'north']);
+    expect(nearby[0]?.distanceMeters).toBeCloseTo(277, -1);
+    expect(nearby[1]?.distanceMeters).toBeCloseTo(467, -1);
+  });
+
+  it('reports the bearing from the position to each vehicle', () => {
+    const nearby = findVehiclesNear(VEHICLES, ORIGIN.latitude, ORIGIN.longitude, 500);
+    const byId = new Map(nearby.map(v => [v.id, v]));
+
+    expect(byId.get('north')?.bearingFromPosition).toBeCloseTo(0, 0);
+    expect(byId.get('east')?.bearingFromPosition).toBeCloseTo(90, 0);
+    // The vehicle's own heading is kept
+    expect(byId.get('north')?.bearing).toBe(90);
+  });
+});
+
+// =============================================================================
+// findVehiclesInBounds
+// =============================================================================
+
+describe('findVehiclesInBounds', () => {
+  it('keeps vehicles inside the box', () => {
+    const inside = findVehiclesInBounds(VEHICLES, {
+      latMin: 54.68,
+      latMax: 54.70,
+      lonMin: 25.28,
+      lonMax: 25.29,
+    });
+
+    expect(inside.map(v => v.id)).toEqual(['north']);
+  });
+
+  it('includes vehicles on the edges', () => {
+    expect(isWithinBounds(54.69, 25.2877, { latMin: 54.69, latMax: 54.70, lonMin: 25.28, lonMax: 25.2877 })).toBe(true);
+    expect(isValidLithuaniaCoord(54.6858, 25.2877)).toBe(true);
+  });
+});
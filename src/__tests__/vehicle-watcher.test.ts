@@ -0,0 +1,204 @@
+/**
+ * Vehicle Watcher Unit Tests
+ *
+ * Tests change detection, event emission, iteration, backoff and
+ * cancellation using a scripted poll function instead of the network.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEventListeners } from 'node:events';
+import { VehicleWatcher, diffVehicles, type VehicleSnapshot, type VehicleUpdate } from '../live/vehicle-watcher.js';
+import { InvalidCityError, TransportNetworkError } from '../errors.js';
+import type { Vehicle } from '../types.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+function createVehicle(id: string, overrides: Partial<Vehicle> = {}): Vehicle {
+  return {
+    id,
+    vehicleNumber: id,
+    route: '4G',
+    type: 'bus',
+    latitude: 54.68,
+    longitude: 25.28,
+    bearing: 90,
+    speed: 20,
+    destination: null,
+    delaySeconds: null,
+    tripId: null,
+    gtfsTripId: null,
+    nextStopId: null,
+    arrivalTimeSeconds: null,
+    isStale: false,
+    measuredAt: new Date('2024-05-06T08:00:00Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Build a poll function that returns scripted results in order,
+ * then repeats the last one.
+ */
+function scriptedPoll(steps: (Vehicle[] | Error)[]): { poll: () => Promise<VehicleSnapshot>; calls: () => number } {
+  let calls = 0;
+  return {
+    poll: () => {
+      const step = steps[Math.min(calls, steps.length - 1)];
+      calls++;
+      if (step instanceof Error) return Promise.reject(step);
+      return Promise.resolve({ vehicles: step ?? [], serverTime: new Date(Date.UTC(2024, 4, 6, 8, 0, calls)) });
+    },
+    calls: () => calls,
+  };
+}
+
+async function take(watcher: VehicleWatcher, count: number): Promise<VehicleUpdate[]> {
+  const updates: VehicleUpdate[] = [];
+  for await (const update of watcher) {
+    updates.push(update);
+    if (updates.length === count) break;
+  }
+  return updates;
+}
+
+// =============================================================================
+// diffVehicles
+// =============================================================================
+
+describe('diffVehicles', () => {
+  it('detects added, updated and removed vehicles', () => {
+    const a = createVehicle('a');
+    const b = createVehicle('b');
+    const previous = new Map([['a', a], ['b', b]]);
+
+    const movedA = createVehicle('a', { latitude: 54.69 });
+    const c = createVehicle('c');
+
+    const { added, updated, removed } = diffVehicles(previous, [movedA, c]);
+
+    expect(added).toEqual([c]);
+    expect(updated).toEqual([[movedA, a]]);
+    expect(removed).toEqual([b]);
+  });
+
+  it('ignores vehicles that did not change', () => {
+    const a = createVehicle('a');
+    const { added, updated, removed } = diffVehicles(new Map([['a', a]]), [createVehicle('a')]);
+
+    expect(added).toHaveLength(0);
+    expect(updated).toHaveLength(0);
+    expect(removed).toHaveLength(0);
+  });
+});
+
+// =============================================================================
+// VehicleWatcher
+// =============================================================================
+
+describe('VehicleWatcher', () => {
+  it('yields per-poll updates through the async iterator', async () => {
+    const { poll } = scriptedPoll([
+      [createVehicle('a'), createVehicle('b')],
+      [createVehicle('a', { speed: 30 })],
+    ]);
+    const watcher = new VehicleWatcher('vilnius', poll, { intervalMs: 1 });
+
+    const [first, second] = await take(watcher, 2);
+    watcher.stop();
+
+    expect(first?.added.map(v => v.id)).toEqual(['a', 'b']);
+    expect(second?.updated.map(v => v.id)).toEqual(['a']);
+    expect(second?.removed.map(v => v.id)).toEqual(['b']);
+    expect(second?.vehicles).toHaveLength(1);
+  });
+
+  it('emits per-vehicle events', async () => {
+    const { poll } = scriptedPoll([
+      [createVehicle('a')],
+      [createVehicle('a', { delaySeconds: 60 }), createVehicle('b')],
+      [createVehicle('b')],
+    ]);
+    const watcher = new VehicleWatcher('vilnius', poll, { intervalMs: 1 });
+    const events: string[] = [];
+
+    watcher.on('added', v => events.push(`added:${v.id}`));
+    watcher.on('updated', (v, previous) => events.push(`updated:${v.id}:${String(previous.delaySeconds)}`));
+    watcher.on('removed', v => events.push(`removed:${v.id}`));
+
+    await take(watcher, 3);
+    watcher.stop();
+
+    expect(events).toEqual(['added:a', 'added:b', 'updated:a:null', 'removed:a']);
+  });
+
+  it('backs off and recovers after network errors', async () => {
+    const { poll, calls } = scriptedPoll([
+      new TransportNetworkError('HTTP 503', 'vilnius', 503),
+      [createVehicle('a')],
+    ]);
+    const watcher = new VehicleWatcher('vilnius', poll, { intervalMs: 1 });
+    const errors: Error[] = [];
+    watcher.on('error', error => errors.push(error));
+
+    const [update] = await take(watcher, 1);
+    watcher.stop();
+
+    expect(errors).toHaveLength(1);
+    expect(calls()).toBe(2);
+    expect(update?.added.map(v => v.id)).toEqual(['a']);
+  });
+
+  it('stops and rethrows on non-network errors', async () => {
+    const { poll } = scriptedPoll([new InvalidCityError('atlantis')]);
+    const watcher = new VehicleWatcher('atlantis', poll, { intervalMs: 1 });
+
+    await expect(take(watcher, 1)).rejects.toBeInstanceOf(InvalidCityError);
+    expect(watcher.isStopped).toBe(true);
+  });
+
+  it('stops when the abort signal fires', async () => {
+    const controller = new AbortController();
+    const { poll, calls } = scriptedPoll([[createVehicle('a')]]);
+    const watcher = new VehicleWatcher('vilnius', poll, { intervalMs: 60_000, signal: controller.signal });
+    const ended = new Promise<void>(resolve => watcher.once('end', resolve));
+
+    const iteration = take(watcher, 5);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+
+    await ended;
+    const updates = await iteration;
+
+    expect(watcher.isStopped).toBe(true);
+    expect(updates).toHaveLength(1);
+    expect(calls()).toBe(1);
+  });
+
+  it('releases the abort signal when stopped', () => {
+    const controller = new AbortController();
+    const { poll } = scriptedPoll([[createVehicle('a')]]);
+    const watcher = new VehicleWatcher('vilnius', poll, { intervalMs: 60_000, signal: controller.signal });
+
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(1);
+    watcher.stop();
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('does not poll when the signal is already aborted', () => {
+    const { poll, calls } = scriptedPoll([[createVehicle('a')]]);
+    const watcher = new VehicleWatcher('vilnius', poll, { signal: AbortSignal.abort() });
+
+    expect(watcher.isStopped).toBe(true);
+    expect(calls()).toBe(0);
+  });
+
+  it('emits end after construction when the signal is already aborted', async () => {
+    const { poll } = scriptedPoll([[createVehicle('a')]]);
+    const watcher = new VehicleWatcher('vilnius', poll, { signal: AbortSignal.abort() });
+
+    await new Promise<void>(resolve => watcher.once('end', resolve));
+    expect(await take(watcher, 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Bunching and gap detection on live vehicles
+ * @module analytics/bunching
+ *
+ * Vehicles of a route are placed on the path of the direction they are
+ * travelling in, ordered by distance along it, and the spacing between
+ * consecutive vehicles is compared with a fixed bunching threshold and
+ * with the usual spacing in that direction. Vehicles laying over at a
+ * terminus routinely stand together, so positions near either end of the
+ * path are left out.
+ */
+
+import type { RouteDetails, SpacingAlert, Vehicle, VehicleType } from '../types.js';
+import {
+  bearingDifference,
+  findPolylineMatches,
+  preparePolyline,
+  type GeoPoint,
+  type PreparedPolyline,
+} from '../utils/index.js';
+
+// =============================================================================
+// Route Paths
+// =============================================================================
+
+/**
+ * Path of one direction of a route.
+ */
+export interface RoutePath {
+  /** Route short name, as reported in `Vehicle.route` */
+  readonly route: string;
+
+  /** Type of vehicle serving the route */
+  readonly type: VehicleType;
+
+  /** Direction ID, or null if the feed does not set one */
+  readonly directionId: number | null;
+
+  /** Headsign of the direction */
+  readonly headsign: string;
+
+  /** Points along the path in travel order */
+  readonly points: readonly GeoPoint[];
+}
+
+/**
+ * Build route paths from route details: each direction's shape, or the
+ * line through its stops when no shape is published.
+ *
+ * @param details - Details of the routes to monitor
+ * @returns One path per direction with at least two points
+ */
+export function buildRoutePaths(details: readonly RouteDetails[]): RoutePath[] {
+  const paths: RoutePath[] = [];
+
+  for (const { route, directions } of details) {
+    for (const direction of directions) {
+      const points = direction.shape.length >= 2 ? direction.shape : direction.stops;
+      if (points.length < 2) continue;
+
+      paths.push({
+        route: route.shortName,
+        type: route.type,
+        directionId: direction.directionId,
+        headsign: direction.headsign,
+        points,
+      });
+    }
+  }
+
+  return paths;
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Options for spacing alerts.
+ */
+export interface SpacingAlertOptions {
+  /** Vehicles closer than this along the path are bunched (default: 300 m) */
+  bunchingMeters?: number;
+
+  /** Spacing above this multiple of the median of the direction's other spacings is a gap (default: 2.5) */
+  gapFactor?: number;
+
+  /** Minimum vehicles in a direction to look for gaps (default: 3) */
+  minVehiclesForGaps?: number;
+
+  /** Maximum distance of a vehicle from the path (default: 100 m) */
+  maxDistanceFromPath?: number;
+
+  /** Maximum difference between vehicle bearing and path bearing (default: 90°) */
+  maxBearingDifference?: number;
+
+  /** Positions this close to either end of the path are ignored (default: 200 m) */
+  terminalBufferMeters?: number;
+}
+
+const DEFAULT_BUNCHING_METERS = 300;
+const DEFAULT_GAP_FACTOR = 2.5;
+const DEFAULT_MIN_VEHICLES_FOR_GAPS = 3;
+const DEFAULT_MAX_DISTANCE_FROM_PATH = 100;
+const DEFAULT_MAX_BEARING_DIFFERENCE = 90;
+const DEFAULT_TERMINAL_BUFFER_METERS = 200;
+
+/**
+ * Median of a non-empty list.
+ */
+function median(values: readonly number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? 0
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+/**
+ * Detect bunched and widely spaced vehicles.
+ *
+ * Each vehicle is placed on the path of its route whose nearby segment
+ * best agrees with its heading. Stale vehicles and vehicles off every
+ * path are skipped. Vehicles of unknown type match paths by route name.
+ *
+ * @param vehicles - Live vehicles of one city
+ * @param paths - Route paths (see `buildRoutePaths()`)
+ * @param options - Thresholds
+ * @returns Alerts in path order, then by position along the path
+ *
+ * @example
+ * const alerts = detectSpacingAlerts(vehicles, buildRoutePaths(details));
+ * for (const alert of alerts.filter(a => a.kind === 'bunching')) {
+ *   console.log(alert.route, alert.leader.vehicleNumber, alert.follower.vehicleNumber);
+ * }
+ */
+export function detectSpacingAlerts(
+  vehicles: readonly Vehicle[],
+  paths: readonly RoutePath[],
+  options: SpacingAlertOptions = {}
+): SpacingAlert[] {
+  const {
+    bunchingMeters = DEFAULT_BUNCHING_METERS,
+    gapFactor = DEFAULT_GAP_FACTOR,
+    minVehiclesForGaps = DEFAULT_MIN_VEHICLES_FOR_GAPS,
+    maxDistanceFromPath = DEFAULT_MAX_DISTANCE_FROM_PATH,
+    maxBearingDifference = DEFAULT_MAX_BEARING_DIFFERENCE,
+    terminalBufferMeters = DEFAULT_TERMINAL_BUFFER_METERS,
+  } = options;
+
+  interface PlacedPath {
+    readonly path: RoutePath;
+    readonly polyline: PreparedPolyline;
+    readonly placed: { vehicle: Vehicle; distanceAlong: number }[];
+  }
+
+  const placedPaths: PlacedPath[] = paths.map(path => ({
+    path,
+    polyline: preparePolyline(path.points),
+    placed: [],
+  }));
+
+  for (const vehicle of vehicles) {
+    if (vehicle.isStale) continue;
+
+    const route = vehicle.route.toUpperCase();
+    const candidates = placedPaths.filter(({ path }) =>
+      path.route.toUpperCase() === route && (vehicle.type === 'unknown' || path.type === vehicle.type)
+    );
+
+    let best: { target: PlacedPath; distanceAlong: number; distanceFromLine: number } | null = null;
+    for (const candidate of candidates) {
+      const matches = findPolylineMatches(
+        candidate.polyline,
+        vehicle.latitude,
+        vehicle.longitude,
+        maxDistanceFromPath
+      );
+      for (const match of matches) {
+        if (bearingDifference(vehicle.bearing, match.segmentBearing) > maxBearingDifference) continue;
+        if (best === null || match.distanceFromLine < best.distanceFromLine) {
+          best = { target: candidate, distanceAlong: match.distanceAlong, distanceFromLine: match.distanceFromLine };
+        }
+      }
+    }
+
+    if (best === null) continue;
+
+    const { target, distanceAlong } = best;
+    if (distanceAlong < terminalBufferMeters || distanceAlong > target.polyline.length - terminalBufferMeters) {
+      continue;
+    }
+    target.placed.push({ vehicle, distanceAlong });
+  }
+
+  const alerts: SpacingAlert[] = [];
+
+  for (const { path, placed } of placedPaths) {
+    if (placed.length < 2) continue;
+
+    placed.sort((a, b) => a.distanceAlong - b.distanceAlong);
+    const spacings = placed.slice(1).map((entry, i) => entry.distanceAlong - (placed[i]?.distanceAlong ?? 0));
+
+    for (let i = 0; i < spacings.length; i++) {
+      const follower = placed[i];
+      const leader = placed[i + 1];
+      const distanceMeters = spacings[i] ?? 0;
+      if (follower === undefined || leader === undefined) continue;
+
+      // A gap would inflate a median it is part of: with three vehicles it
+      // could never exceed 2.5 times the median of its own two spacings
+      const medianDistanceMeters = median(spacings.filter((_, j) => j !== i));
+
+      let kind: SpacingAlert['kind'] | null = null;
+      if (distanceMeters < bunchingMeters) {
+        kind = 'bunching';
+      } else if (placed.length >= minVehiclesForGaps && distanceMeters > gapFactor * medianDistanceMeters) {
+        kind = 'gap';
+      }
+      if (kind === null) continue;
+
+      alerts.push({
+        kind,
+        route: path.route,
+        type: path.type,
+        directionId: path.directionId,
+        headsign: path.headsign,
+        leader: leader.vehicle,
+        follower: follower.vehicle,
+        distanceMeters,
+        medianDistanceMeters,
+      });
+    }
+  }
+
+  return alerts;
+}
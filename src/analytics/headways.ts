@@ -0,0 +1,489 @@
+/**
+ * Headway and frequency analytics
+ * @module analytics/headways
+ *
+ * Service levels are measured at one stop per route direction: the time
+ * between consecutive departures (the headway) and the number of
+ * departures per hour, split into time bands of the service day.
+ * Scheduled headways come from the GTFS timetable; observed headways come
+ * from recorded vehicle positions passing a stop.
+ */
+
+import type {
+  HeadwayStats,
+  ObservedHeadways,
+  RoutePattern,
+  ScheduledHeadways,
+  Stop,
+  StopPass,
+  Vehicle,
+} from '../types.js';
+import type { ScheduleIndex } from '../schedule/schedule-index.js';
+import { getActiveServiceIds, resolveServiceDate } from '../schedule/service-calendar.js';
+import {
+  parseGtfsTime,
+  getLithuanianDate,
+  addDaysToDate,
+  getServiceDayStart,
+  preparePolyline,
+  projectOntoPolyline,
+} from '../utils/index.js';
+
+// =============================================================================
+// Time Bands
+// =============================================================================
+
+/**
+ * A named part of the service day. Times are GTFS-style `HH:MM` and may
+ * exceed 24:00 for service after midnight.
+ */
+export interface TimeBand {
+  /** Band name used in results */
+  readonly name: string;
+  /** Start time, inclusive (e.g. "07:00") */
+  readonly from: string;
+  /** End time, exclusive (e.g. "09:00") */
+  readonly to: string;
+}
+
+/**
+ * Default time bands covering a service day from 04:00 to 04:00.
+ */
+export const DEFAULT_TIME_BANDS: readonly TimeBand[] = [
+  { name: 'early', from: '04:00', to: '07:00' },
+  { name: 'am-peak', from: '07:00', to: '09:00' },
+  { name: 'midday', from: '09:00', to: '15:00' },
+  { name: 'pm-peak', from: '15:00', to: '19:00' },
+  { name: 'evening', from: '19:00', to: '23:00' },
+  { name: 'night', from: '23:00', to: '28:00' },
+];
+
+/**
+ * Recorded times before this many seconds after midnight belong to the
+ * previous service day.
+ */
+const SERVICE_DAY_ROLLOVER_SECONDS = 4 * 3600;
+
+interface ParsedBand {
+  readonly name: string;
+  readonly fromSeconds: number;
+  readonly toSeconds: number;
+}
+
+/**
+ * Parse time bands to seconds since service day start.
+ *
+ * @throws {RangeError} If a band time is not HH:MM or HH:MM:SS, or a band is empty
+ */
+function parseBands(bands: readonly TimeBand[]): ParsedBand[] {
+  return bands.map(band => {
+    const parse = (value: string): number => {
+      const seconds = parseGtfsTime(/^\d{1,2}:\d{2}$/.test(value.trim()) ? `${value.trim()}:00` : value);
+      if (seconds === null) {
+        throw new RangeError(`Invalid time '${value}' in time band '${band.name}': expected HH:MM`);
+      }
+      return seconds;
+    };
+
+    const fromSeconds = parse(band.from);
+    const toSeconds = parse(band.to);
+    if (toSeconds <= fromSeconds) {
+      throw new RangeError(`Time band '${band.name}' ends before it starts`);
+    }
+    return { name: band.name, fromSeconds, toSeconds };
+  });
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+/**
+ * Summarize departures per band.
+ *
+ * @param days - Sorted departure times (seconds since service day start), one list per service day
+ * @param bands - Time bands
+ * @param coverageSeconds - Observed seconds of each band across all days
+ */
+function summarize(
+  days: readonly (readonly number[])[],
+  bands: readonly ParsedBand[],
+  coverageSeconds: (band: ParsedBand) => number
+): HeadwayStats[] {
+  return bands.map(band => {
+    let departures = 0;
+    const headways: number[] = [];
+
+    for (const times of days) {
+      for (let i = 0; i < times.length; i++) {
+        const time = times[i] ?? 0;
+        if (time < band.fromSeconds || time >= band.toSeconds) continue;
+
+        departures++;
+        const previous = times[i - 1];
+        if (previous !== undefined) {
+          headways.push(time - previous);
+        }
+      }
+    }
+
+    headways.sort((a, b) => a - b);
+    const coverage = coverageSeconds(band);
+    const middle = Math.floor(headways.length / 2);
+    const median = headways.length % 2 === 1
+      ? headways[middle]
+      : ((headways[middle - 1] ?? 0) + (headways[middle] ?? 0)) / 2;
+
+    return {
+      band: band.name,
+      departures,
+      departuresPerHour: coverage > 0 ? departures / (coverage / 3600) : 0,
+      meanHeadwaySeconds: headways.length > 0
+        ? headways.reduce((sum, headway) => sum + headway, 0) / headways.length
+        : null,
+      medianHeadwaySeconds: headways.length > 0 ? median ?? null : null,
+      minHeadwaySeconds: headways[0] ?? null,
+      maxHeadwaySeconds: headways[headways.length - 1] ?? null,
+    };
+  });
+}
+
+// =============================================================================
+// Scheduled Headways
+// =============================================================================
+
+/**
+ * Options for scheduled headway analysis.
+ */
+export interface ScheduledHeadwayOptions {
+  /** Routes to analyze (default: all) */
+  routeIds?: readonly string[];
+
+  /**
+   * Stop to count departures at (default: per direction, the stop served
+   * by the most trips). Directions not serving the stop are skipped.
+   */
+  stopId?: string;
+
+  /** Time bands (default: `DEFAULT_TIME_BANDS`) */
+  bands?: readonly TimeBand[];
+}
+
+/**
+ * Stop served by the most trips of a direction (earliest in the main
+ * pattern on ties). Short turns skip outer stops, so this is usually a
+ * stop on the common trunk of the direction.
+ */
+function findReferenceStop(patterns: readonly RoutePattern[]): string | null {
+  const counts = new Map<string, number>();
+  for (const pattern of patterns) {
+    for (const stopId of new Set(pattern.stopIds)) {
+      counts.set(stopId, (counts.get(stopId) ?? 0) + pattern.tripIds.length);
+    }
+  }
+
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [stopId, count] of counts) {
+    if (count > bestCount) {
+      best = stopId;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Compute scheduled headways per route direction and time band.
+ *
+ * Departures are the trips running on the service date, counted at one
+ * stop per direction. Directions follow `RoutePattern.directionId`.
+ *
+ * @param index - Schedule index for the city
+ * @param patterns - Route patterns keyed by route ID (see `extractRoutePatterns()`)
+ * @param date - Instant or YYYY-MM-DD service date
+ * @param options - Routes, stop and time bands
+ * @returns Headways per route direction, ordered by route ID and direction
+ * @throws {RangeError} If a time band is invalid or a string date is not in YYYY-MM-DD format
+ *
+ * @example
+ * const headways = computeScheduledHeadways(index, patterns, '2024-05-06');
+ * const peak = headways[0]?.bands.find(band => band.band === 'am-peak');
+ */
+export function computeScheduledHeadways(
+  index: ScheduleIndex,
+  patterns: ReadonlyMap<string, readonly RoutePattern[]>,
+  date: Date | string,
+  options: ScheduledHeadwayOptions = {}
+): ScheduledHeadways[] {
+  const bands = parseBands(options.bands ?? DEFAULT_TIME_BANDS);
+  const serviceDate = resolveServiceDate(date);
+  const running = getActiveServiceIds(index.serviceCalendar, serviceDate);
+  const routeIds = options.routeIds ?? [...patterns.keys()];
+  const results: ScheduledHeadways[] = [];
+
+  for (const routeId of [...routeIds].sort()) {
+    const byDirection = new Map<number | null, RoutePattern[]>();
+    for (const pattern of patterns.get(routeId) ?? []) {
+      const group = byDirection.get(pattern.directionId);
+      if (group !== undefined) {
+        group.push(pattern);
+      } else {
+        byDirection.set(pattern.directionId, [pattern]);
+      }
+    }
+
+    const directions = [...byDirection.entries()].sort(
+      ([a], [b]) => (a ?? Infinity) - (b ?? Infinity)
+    );
+
+    for (const [directionId, directionPatterns] of directions) {
+      const stopId = options.stopId ?? findReferenceStop(directionPatterns);
+      if (stopId === null) continue;
+
+      const times: number[] = [];
+      let serves = false;
+      for (const pattern of directionPatterns) {
+        if (!pattern.stopIds.includes(stopId)) continue;
+        serves = true;
+
+        for (const tripId of pattern.tripIds) {
+          const trip = index.trips.get(tripId);
+          if (trip === undefined || !running.has(trip.serviceId)) continue;
+
+          const stopTime = index.stopTimesByTrip.get(tripId)?.find(candidate => candidate.stopId === stopId);
+          const seconds = stopTime !== undefined ? parseGtfsTime(stopTime.departureTime) : null;
+          if (seconds !== null) {
+            times.push(seconds);
+          }
+        }
+      }
+      if (!serves) continue;
+
+      times.sort((a, b) => a - b);
+      results.push({
+        routeId,
+        routeShortName: index.routesById.get(routeId)?.shortName ?? '',
+        directionId,
+        stopId,
+        serviceDate,
+        bands: summarize([times], bands, band => band.toSeconds - band.fromSeconds),
+      });
+    }
+  }
+
+  return results;
+}
+
+// =============================================================================
+// Observed Headways
+// =============================================================================
+
+/**
+ * Options for detecting stop passes in recorded positions.
+ */
+export interface StopPassOptions {
+  /** Maximum distance between the vehicle's path and the stop (default: 50 m) */
+  radiusMeters?: number;
+
+  /** Records further apart are not interpolated between (default: 5 minutes) */
+  maxRecordGapMs?: number;
+
+  /** Passes of one vehicle closer in time are merged (default: 3 minutes) */
+  minPassSeparationMs?: number;
+}
+
+/**
+ * Options for observed headway analysis.
+ */
+export interface ObservedHeadwayOptions extends StopPassOptions {
+  /** Time bands (default: `DEFAULT_TIME_BANDS`) */
+  bands?: readonly TimeBand[];
+}
+
+const DEFAULT_PASS_RADIUS_METERS = 50;
+const DEFAULT_MAX_RECORD_GAP_MS = 5 * 60 * 1000;
+const DEFAULT_MIN_PASS_SEPARATION_MS = 3 * 60 * 1000;
+
+/**
+ * Detect vehicles passing a stop in recorded positions.
+ *
+ * Positions are polled, so a vehicle is rarely recorded at the stop itself.
+ * Consecutive records of a vehicle are joined by a straight line, and a
+ * pass is the closest approach of that line to the stop, with its time
+ * interpolated between the two records. A vehicle dwelling at the stop
+ * yields one pass.
+ *
+ * @param records - Recorded vehicle positions, in any order
+ * @param stop - Stop to detect passes at
+ * @param options - Detection thresholds
+ * @returns Passes ordered by time
+ */
+export function detectStopPasses(
+  records: readonly Vehicle[],
+  stop: Stop,
+  options: StopPassOptions = {}
+): StopPass[] {
+  const {
+    radiusMeters = DEFAULT_PASS_RADIUS_METERS,
+    maxRecordGapMs = DEFAULT_MAX_RECORD_GAP_MS,
+    minPassSeparationMs = DEFAULT_MIN_PASS_SEPARATION_MS,
+  } = options;
+
+  const byVehicle = new Map<string, Vehicle[]>();
+  for (const record of records) {
+    const existing = byVehicle.get(record.id);
+    if (existing !== undefined) {
+      existing.push(record);
+    } else {
+      byVehicle.set(record.id, [record]);
+    }
+  }
+
+  const passes: StopPass[] = [];
+
+  for (const vehicleRecords of byVehicle.values()) {
+    vehicleRecords.sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+    const vehiclePasses: StopPass[] = [];
+
+    for (let i = 0; i < vehicleRecords.length; i++) {
+      const current = vehicleRecords[i];
+      if (current === undefined) continue;
+
+      // A lone record (or one after a gap) can still be at the stop
+      const previous = vehicleRecords[i - 1];
+      const startMs = current.measuredAt.getTime();
+      const joined = previous !== undefined &&
+        startMs - previous.measuredAt.getTime() <= maxRecordGapMs &&
+        previous.route === current.route;
+      const from = joined ? previous : current;
+
+      const polyline = preparePolyline([from, current]);
+      const projection = projectOntoPolyline(polyline, stop.latitude, stop.longitude);
+      if (projection === null || projection.distanceFromLine > radiusMeters) continue;
+
+      const fromMs = from.measuredAt.getTime();
+      const fraction = polyline.length > 0 ? projection.distanceAlong / polyline.length : 1;
+      const pass: StopPass = {
+        vehicleId: current.id,
+        vehicleNumber: current.vehicleNumber,
+        route: current.route,
+        destination: current.destination,
+        passedAt: new Date(fromMs + fraction * (startMs - fromMs)),
+        distanceMeters: projection.distanceFromLine,
+      };
+
+      const last = vehiclePasses[vehiclePasses.length - 1];
+      if (
+        last?.route === pass.route &&
+        pass.passedAt.getTime() - last.passedAt.getTime() < minPassSeparationMs
+      ) {
+        // Same visit: keep the closest approach
+        if (pass.distanceMeters < last.distanceMeters) {
+          vehiclePasses[vehiclePasses.length - 1] = pass;
+        }
+        continue;
+      }
+      vehiclePasses.push(pass);
+    }
+
+    passes.push(...vehiclePasses);
+  }
+
+  return passes.sort((a, b) => a.passedAt.getTime() - b.passedAt.getTime());
+}
+
+/**
+ * Service date and seconds since service day start of an instant.
+ */
+function toServiceTime(instant: Date): { serviceDate: string; seconds: number } {
+  let serviceDate = getLithuanianDate(instant);
+  let seconds = (instant.getTime() - getServiceDayStart(serviceDate).getTime()) / 1000;
+
+  if (seconds < SERVICE_DAY_ROLLOVER_SECONDS) {
+    serviceDate = addDaysToDate(serviceDate, -1);
+    seconds = (instant.getTime() - getServiceDayStart(serviceDate).getTime()) / 1000;
+  }
+
+  return { serviceDate, seconds };
+}
+
+/**
+ * Compute observed headways at a stop per route, destination and time band.
+ *
+ * Passes are detected with `detectStopPasses()`. Departures per hour are
+ * relative to the part of each band covered by the recording (from its
+ * first to its last record), so partial recordings are not understated.
+ * Headways are only measured between passes on the same service day.
+ *
+ * @param records - Recorded vehicle positions, in any order
+ * @param stop - Stop to measure at
+ * @param options - Detection thresholds and time bands
+ * @returns Headways per route and destination, ordered by route
+ * @throws {RangeError} If a time band is invalid
+ *
+ * @example
+ * const headways = computeObservedHeadways(recordedVehicles, stop);
+ * for (const { route, bands } of headways) {
+ *   console.log(route, bands.map(b => b.medianHeadwaySeconds));
+ * }
+ */
+export function computeObservedHeadways(
+  records: readonly Vehicle[],
+  stop: Stop,
+  options: ObservedHeadwayOptions = {}
+): ObservedHeadways[] {
+  const bands = parseBands(options.bands ?? DEFAULT_TIME_BANDS);
+
+  // Recorded span per service day, for band coverage
+  const spans = new Map<string, { from: number; to: number }>();
+  for (const record of records) {
+    const { serviceDate, seconds } = toServiceTime(record.measuredAt);
+    const span = spans.get(serviceDate);
+    if (span !== undefined) {
+      span.from = Math.min(span.from, seconds);
+      span.to = Math.max(span.to, seconds);
+    } else {
+      spans.set(serviceDate, { from: seconds, to: seconds });
+    }
+  }
+
+  const coverage = (band: ParsedBand): number => {
+    let total = 0;
+    for (const span of spans.values()) {
+      total += Math.max(0, Math.min(span.to, band.toSeconds) - Math.max(span.from, band.fromSeconds));
+    }
+    return total;
+  };
+
+  // Pass times grouped by route and destination, then by service day
+  const groups = new Map<string, { route: string; destination: string | null; days: Map<string, number[]> }>();
+  for (const pass of detectStopPasses(records, stop, options)) {
+    const key = `${pass.route}|${pass.destination ?? ''}`;
+    let group = groups.get(key);
+    if (group === undefined) {
+      group = { route: pass.route, destination: pass.destination, days: new Map() };
+      groups.set(key, group);
+    }
+
+    const { serviceDate, seconds } = toServiceTime(pass.passedAt);
+    const times = group.days.get(serviceDate);
+    if (times !== undefined) {
+      times.push(seconds);
+    } else {
+      group.days.set(serviceDate, [seconds]);
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) =>
+      a.route.localeCompare(b.route, 'lt', { numeric: true }) ||
+      (a.destination ?? '').localeCompare(b.destination ?? '', 'lt')
+    )
+    .map(group => ({
+      route: group.route,
+      destination: group.destination,
+      stopId: stop.id,
+      bands: summarize([...group.days.values()], bands, coverage),
+    }));
+}
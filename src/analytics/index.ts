@@ -0,0 +1,22 @@
+/**
+ * Analytics module exports
+ * @module analytics
+ */
+
+export {
+  computeScheduledHeadways,
+  computeObservedHeadways,
+  detectStopPasses,
+  DEFAULT_TIME_BANDS,
+  type TimeBand,
+  type ScheduledHeadwayOptions,
+  type ObservedHeadwayOptions,
+  type StopPassOptions,
+} from './headways.js';
+
+export {
+  buildRoutePaths,
+  detectSpacingAlerts,
+  type RoutePath,
+  type SpacingAlertOptions,
+} from './bunching.js';
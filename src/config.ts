@@ -70,9 +70,10 @@ export interface GpsConfig {
    * Format of GPS data stream.
    * - 'full': Header-based CSV with rich metadata (gold tier)
    * - 'lite': Headerless CSV with minimal data (silver tier)
+   * - 'gtfs-rt': GTFS-Realtime VehiclePositions protobuf feed
    * - null: No GPS data available (bronze tier)
    */
-  readonly format: 'full' | 'lite' | null;
+  readonly format: 'full' | 'lite' | 'gtfs-rt' | null;
 
   /** URL to fetch GPS data, or null if not available */
   readonly url: string | null;
@@ -0,0 +1,147 @@
+/**
+ * Schedule deviation estimation from vehicle positions
+ * @module enrichment/delay-estimator
+ *
+ * Only Vilnius reports how far a vehicle is behind schedule. For vehicles
+ * with a known GTFS trip (reported or inferred by the trip matcher) this
+ * module derives it from the position instead: the vehicle is projected
+ * onto the trip's path, and the scheduled time at that point - interpolated
+ * between the surrounding stop times - is compared with the measurement time.
+ */
+
+import type { Vehicle } from '../types.js';
+import { getServiceDaysAt, type ServiceDay } from '../schedule/service-calendar.js';
+import {
+  getTripProfile,
+  getTripTimeBounds,
+  getScheduledSecondsAt,
+  type TripCache,
+} from './trip-profile.js';
+import { findPolylineMatches } from '../utils/index.js';
+
+// =============================================================================
+// Parameters
+// =============================================================================
+
+/**
+ * Options for delay estimation.
+ */
+export interface DelayEstimateOptions {
+  /** Maximum distance from the trip's path in meters (default: 200) */
+  maxDistanceMeters?: number;
+}
+
+const DEFAULT_MAX_DISTANCE_METERS = 200;
+
+/** Slack around a trip's scheduled run when picking the service day it belongs to */
+const RUN_SLACK_SECONDS = 60 * 60;
+
+// =============================================================================
+// Estimation
+// =============================================================================
+
+/**
+ * Estimate the schedule deviation of a vehicle on a service day.
+ * Returns null if the vehicle is off the trip's path or outside its run.
+ */
+function estimateOnServiceDay(
+  vehicle: Vehicle,
+  tripId: string,
+  cache: TripCache,
+  serviceDay: ServiceDay,
+  maxDistanceMeters: number
+): number | null {
+  const trip = cache.schedule.trips.get(tripId);
+  const bounds = getTripTimeBounds(cache, tripId);
+  if (trip === undefined || bounds === null || !serviceDay.serviceIds.has(trip.serviceId)) {
+    return null;
+  }
+
+  const secondsIntoDay = (vehicle.measuredAt.getTime() - serviceDay.dayStart.getTime()) / 1000;
+  if (secondsIntoDay < bounds.start - RUN_SLACK_SECONDS || secondsIntoDay > bounds.end + RUN_SLACK_SECONDS) {
+    return null;
+  }
+
+  const profile = getTripProfile(cache, tripId);
+  if (profile === null) {
+    return null;
+  }
+
+  const firstStopDistance = profile.stopDistances[0] ?? 0;
+  let best: number | null = null;
+
+  // A path can pass the same place more than once - the pass closest
+  // to the schedule is the one the vehicle is on
+  for (const match of findPolylineMatches(profile.polyline, vehicle.latitude, vehicle.longitude, maxDistanceMeters)) {
+    let deviation = secondsIntoDay - getScheduledSecondsAt(profile, match.distanceAlong);
+
+    // Waiting at the origin before the scheduled departure is not running early
+    if (deviation < 0 && match.distanceAlong <= firstStopDistance) {
+      deviation = 0;
+    }
+
+    if (best === null || Math.abs(deviation) < Math.abs(best)) {
+      best = deviation;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Estimate how far a vehicle is behind schedule from its position.
+ *
+ * The vehicle must have a `gtfsTripId`. When the trip runs on both the
+ * previous and the current service day, the run closest to the schedule
+ * is used.
+ *
+ * @param vehicle - Vehicle with a GTFS trip reference
+ * @param cache - Trip cache for the vehicle's city
+ * @param options - Estimation options
+ * @returns Delay in seconds (positive = late, negative = early), or null if it cannot be estimated
+ */
+export function estimateVehicleDelay(
+  vehicle: Vehicle,
+  cache: TripCache,
+  options: DelayEstimateOptions = {}
+): number | null {
+  if (vehicle.gtfsTripId === null) {
+    return null;
+  }
+
+  const { maxDistanceMeters = DEFAULT_MAX_DISTANCE_METERS } = options;
+  let best: number | null = null;
+
+  for (const serviceDay of getServiceDaysAt(cache.schedule.serviceCalendar, vehicle.measuredAt)) {
+    const deviation = estimateOnServiceDay(vehicle, vehicle.gtfsTripId, cache, serviceDay, maxDistanceMeters);
+    if (deviation !== null && (best === null || Math.abs(deviation) < Math.abs(best))) {
+      best = deviation;
+    }
+  }
+
+  return best !== null ? Math.round(best) : null;
+}
+
+/**
+ * Fill `delaySeconds` of vehicles that have a GTFS trip but no reported delay.
+ * Delays reported by the source are never overwritten.
+ *
+ * @param vehicles - Vehicles of one city
+ * @param cache - Trip cache for the city
+ * @param options - Estimation options
+ * @returns New array with `delaySeconds` set where it could be estimated
+ */
+export function estimateVehicleDelays(
+  vehicles: Vehicle[],
+  cache: TripCache,
+  options: DelayEstimateOptions = {}
+): Vehicle[] {
+  return vehicles.map(vehicle => {
+    if (vehicle.gtfsTripId === null || vehicle.delaySeconds !== null) {
+      return vehicle;
+    }
+
+    const delaySeconds = estimateVehicleDelay(vehicle, cache, options);
+    return delaySeconds !== null ? { ...vehicle, delaySeconds } : vehicle;
+  });
+}
@@ -9,3 +9,28 @@ export {
   enrichVehicles,
   type EnrichmentResult,
 } from './route-matcher.js';
+
+export {
+  buildTripCache,
+  getTripProfile,
+  getTripTimeBounds,
+  getScheduledSecondsAt,
+  type TripCache,
+  type TripGeometry,
+  type TripProfile,
+} from './trip-profile.js';
+
+export {
+  matchVehicleToTrip,
+  matchVehicleTrips,
+  enrichVehicleTrips,
+  type TripMatch,
+  type TripMatchOptions,
+  type VehicleTripMatch,
+} from './trip-matcher.js';
+
+export {
+  estimateVehicleDelay,
+  estimateVehicleDelays,
+  type DelayEstimateOptions,
+} from './delay-estimator.js';
@@ -0,0 +1,312 @@
+/**
+ * Vehicle-to-trip matching for cities without a GTFS trip reference
+ * @module enrichment/trip-matcher
+ *
+ * Only Vilnius reports the GTFS trip a vehicle is operating. For other
+ * cities this module infers it from the GTFS schedule: candidate trips
+ * of the vehicle's route that run on an active service day around the
+ * measurement time are scored by how close the vehicle is to the trip's
+ * path, how well its position along that path agrees with the schedule,
+ * and whether its heading matches the direction of travel.
+ */
+
+import type { Trip, Vehicle } from '../types.js';
+import { getServiceDaysAt, type ServiceDay } from '../schedule/service-calendar.js';
+import {
+  getTripProfile,
+  getTripTimeBounds,
+  getScheduledSecondsAt,
+  type TripCache,
+} from './trip-profile.js';
+import { bearingDifference, findPolylineMatches } from '../utils/index.js';
+
+// =============================================================================
+// Match Result
+// =============================================================================
+
+/**
+ * Result of matching a vehicle to a scheduled trip.
+ */
+export interface TripMatch {
+  /** Matched GTFS trip ID */
+  readonly tripId: string;
+
+  /** Service date of the matched trip run (YYYY-MM-DD) */
+  readonly serviceDate: string;
+
+  /** Match confidence from 0 (no confidence) to 1 (unambiguous, exact fit) */
+  readonly confidence: number;
+
+  /** Distance from the vehicle to the trip's path in meters */
+  readonly distanceFromPath: number;
+
+  /** Distance along the trip's path in meters */
+  readonly distanceAlong: number;
+
+  /** Deviation from schedule at the vehicle's position (positive = late) */
+  readonly scheduleDeviationSeconds: number;
+}
+
+/**
+ * A vehicle paired with its inferred trip match.
+ */
+export interface VehicleTripMatch {
+  /** Vehicle (with `gtfsTripId` filled if the match is confident) */
+  readonly vehicle: Vehicle;
+
+  /** Best trip match, or null if none was found */
+  readonly match: TripMatch | null;
+}
+
+/**
+ * Options for trip matching.
+ */
+export interface TripMatchOptions {
+  /** Maximum distance from a trip's path in meters (default: 150) */
+  maxDistanceMeters?: number;
+
+  /** Minimum confidence for filling `gtfsTripId` (default: 0.5) */
+  minConfidence?: number;
+}
+
+// =============================================================================
+// Scoring Parameters
+// =============================================================================
+
+const DEFAULT_MAX_DISTANCE_METERS = 150;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+/** Vehicles wait at the terminus before departure */
+const EARLY_START_SLACK_SECONDS = 15 * 60;
+
+/** Vehicles can finish trips well behind schedule */
+const LATE_END_SLACK_SECONDS = 45 * 60;
+
+/** Distance decay scale in meters */
+const DISTANCE_SCALE_METERS = 50;
+
+/** Decay scale for running ahead of schedule (rare, penalized harder) */
+const EARLY_SCALE_SECONDS = 120;
+
+/** Decay scale for running behind schedule */
+const LATE_SCALE_SECONDS = 600;
+
+/** Below this speed (km/h) the reported bearing is unreliable */
+const MIN_SPEED_FOR_BEARING = 5;
+
+// =============================================================================
+// Candidate Scoring
+// =============================================================================
+
+/**
+ * A scored candidate trip run for a vehicle.
+ */
+interface Candidate {
+  readonly trip: Trip;
+  readonly serviceDate: string;
+  readonly score: number;
+  readonly distanceFromPath: number;
+  readonly distanceAlong: number;
+  readonly scheduleDeviationSeconds: number;
+}
+
+/**
+ * Score all candidate trip runs for a vehicle, best first.
+ */
+function scoreCandidates(
+  vehicle: Vehicle,
+  cache: TripCache,
+  serviceDays: readonly ServiceDay[],
+  maxDistanceMeters: number
+): Candidate[] {
+  const trips = cache.tripsByRouteName.get(vehicle.route.trim().toUpperCase());
+  if (trips === undefined) {
+    return [];
+  }
+
+  const measuredMs = vehicle.measuredAt.getTime();
+  const useBearing = vehicle.speed >= MIN_SPEED_FOR_BEARING;
+  const candidates: Candidate[] = [];
+
+  for (const serviceDay of serviceDays) {
+    const secondsIntoDay = (measuredMs - serviceDay.dayStart.getTime()) / 1000;
+
+    for (const trip of trips) {
+      if (!serviceDay.serviceIds.has(trip.serviceId)) continue;
+
+      const bounds = getTripTimeBounds(cache, trip.id);
+      if (
+        bounds === null ||
+        secondsIntoDay < bounds.start - EARLY_START_SLACK_SECONDS ||
+        secondsIntoDay > bounds.end + LATE_END_SLACK_SECONDS
+      ) {
+        continue;
+      }
+
+      const profile = getTripProfile(cache, trip.id);
+      if (profile === null) continue;
+
+      const matches = findPolylineMatches(
+        profile.polyline,
+        vehicle.latitude,
+        vehicle.longitude,
+        maxDistanceMeters
+      );
+
+      // A path can pass the same place more than once - keep the best pass
+      let best: Candidate | null = null;
+
+      for (const match of matches) {
+        const deviation = secondsIntoDay - getScheduledSecondsAt(profile, match.distanceAlong);
+        const timeScore = Math.exp(
+          -Math.abs(deviation) / (deviation < 0 ? EARLY_SCALE_SECONDS : LATE_SCALE_SECONDS)
+        );
+        const distanceScore = Math.exp(-match.distanceFromLine / DISTANCE_SCALE_METERS);
+        const bearingScore = useBearing
+          ? Math.max(0.05, (1 + Math.cos((bearingDifference(vehicle.bearing, match.segmentBearing) * Math.PI) / 180)) / 2)
+          : 1;
+        const score = timeScore * distanceScore * bearingScore;
+
+        if (best === null || score > best.score) {
+          best = {
+            trip,
+            serviceDate: serviceDay.serviceDate,
+            score,
+            distanceFromPath: match.distanceFromLine,
+            distanceAlong: match.distanceAlong,
+            scheduleDeviationSeconds: Math.round(deviation),
+          };
+        }
+      }
+
+      if (best !== null) {
+        candidates.push(best);
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Turn a scored candidate into a match, discounting confidence by how
+ * close the runner-up scored.
+ */
+function toMatch(best: Candidate, runnerUp: Candidate | undefined): TripMatch {
+  const ambiguity = runnerUp !== undefined ? best.score / (best.score + runnerUp.score) : 1;
+
+  return {
+    tripId: best.trip.id,
+    serviceDate: best.serviceDate,
+    confidence: Math.round(best.score * ambiguity * 1000) / 1000,
+    distanceFromPath: Math.round(best.distanceFromPath),
+    distanceAlong: Math.round(best.distanceAlong),
+    scheduleDeviationSeconds: best.scheduleDeviationSeconds,
+  };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Match a single vehicle to its most likely scheduled trip.
+ *
+ * @param vehicle - Vehicle to match
+ * @param cache - Trip cache for the vehicle's city
+ * @param options - Matching options
+ * @returns Best match, or null if no trip of the route fits
+ */
+export function matchVehicleToTrip(
+  vehicle: Vehicle,
+  cache: TripCache,
+  options: TripMatchOptions = {}
+): TripMatch | null {
+  const { maxDistanceMeters = DEFAULT_MAX_DISTANCE_METERS } = options;
+  const serviceDays = getServiceDaysAt(cache.schedule.serviceCalendar, vehicle.measuredAt);
+  const [best, runnerUp] = scoreCandidates(vehicle, cache, serviceDays, maxDistanceMeters);
+
+  return best !== undefined ? toMatch(best, runnerUp) : null;
+}
+
+/**
+ * Match a set of vehicles to scheduled trips.
+ *
+ * Assignment is greedy by score across all vehicles, so two vehicles of
+ * the same route are never matched to the same trip run. Vehicles that
+ * already carry a `gtfsTripId` are skipped.
+ *
+ * @param vehicles - Vehicles of one city
+ * @param cache - Trip cache for the city
+ * @param options - Matching options
+ * @returns Matches keyed by vehicle ID
+ */
+export function matchVehicleTrips(
+  vehicles: readonly Vehicle[],
+  cache: TripCache,
+  options: TripMatchOptions = {}
+): Map<string, TripMatch> {
+  const { maxDistanceMeters = DEFAULT_MAX_DISTANCE_METERS } = options;
+  const serviceDaysByDate = new Map<string, ServiceDay[]>();
+  const scored: { vehicle: Vehicle; candidate: Candidate; runnerUp: Candidate | undefined }[] = [];
+
+  for (const vehicle of vehicles) {
+    if (vehicle.gtfsTripId !== null) continue;
+
+    // Service days only change at midnight - reuse them across vehicles
+    const key = vehicle.measuredAt.toISOString().slice(0, 13);
+    let serviceDays = serviceDaysByDate.get(key);
+    if (serviceDays === undefined) {
+      serviceDays = getServiceDaysAt(cache.schedule.serviceCalendar, vehicle.measuredAt);
+      serviceDaysByDate.set(key, serviceDays);
+    }
+
+    const candidates = scoreCandidates(vehicle, cache, serviceDays, maxDistanceMeters);
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      if (candidate === undefined) continue;
+      // Runner-up for confidence is the vehicle's next best alternative
+      scored.push({ vehicle, candidate, runnerUp: candidates[i === 0 ? 1 : 0] });
+    }
+  }
+
+  scored.sort((a, b) => b.candidate.score - a.candidate.score);
+
+  const matches = new Map<string, TripMatch>();
+  const claimedRuns = new Set<string>();
+
+  for (const { vehicle, candidate, runnerUp } of scored) {
+    const runKey = `${candidate.serviceDate}|${candidate.trip.id}`;
+    if (matches.has(vehicle.id) || claimedRuns.has(runKey)) continue;
+
+    matches.set(vehicle.id, toMatch(candidate, runnerUp));
+    claimedRuns.add(runKey);
+  }
+
+  return matches;
+}
+
+/**
+ * Fill `gtfsTripId` of vehicles from inferred trip matches.
+ *
+ * @param vehicles - Vehicles of one city
+ * @param cache - Trip cache for the city
+ * @param options - Matching options
+ * @returns New array with `gtfsTripId` set where a confident match was found
+ */
+export function enrichVehicleTrips(
+  vehicles: Vehicle[],
+  cache: TripCache,
+  options: TripMatchOptions = {}
+): Vehicle[] {
+  const { minConfidence = DEFAULT_MIN_CONFIDENCE } = options;
+  const matches = matchVehicleTrips(vehicles, cache, options);
+
+  return vehicles.map(vehicle => {
+    const match = matches.get(vehicle.id);
+    if (match === undefined || match.confidence < minConfidence) {
+      return vehicle;
+    }
+    return { ...vehicle, gtfsTripId: match.tripId };
+  });
+}
@@ -0,0 +1,252 @@
+/**
+ * Trip geometry and timing profiles
+ * @module enrichment/trip-profile
+ *
+ * A trip profile places each scheduled stop of a trip at a distance along
+ * the trip's path (its GTFS shape, or the straight lines between its stops
+ * when no shape is published). Combined with the stop times this gives the
+ * scheduled time at any point of the path, which is what trip matching and
+ * delay estimation compare live positions against.
+ */
+
+import type { Route, ShapePoint, Stop, Trip } from '../types.js';
+import type { ScheduleIndex } from '../schedule/schedule-index.js';
+import {
+  parseGtfsTime,
+  preparePolyline,
+  projectOntoSegments,
+  type GeoPoint,
+  type PreparedPolyline,
+} from '../utils/index.js';
+
+// =============================================================================
+// Trip Cache
+// =============================================================================
+
+/**
+ * Path of a trip with its stops placed along it.
+ * Shared by all trips with the same shape and stop pattern.
+ */
+export interface TripGeometry {
+  /** Path the trip follows */
+  readonly polyline: PreparedPolyline;
+  /** Distance along the path of each stop, in meters (non-decreasing) */
+  readonly stopDistances: readonly number[];
+}
+
+/**
+ * Scheduled geometry and timing of a trip.
+ */
+export interface TripProfile extends TripGeometry {
+  /** Scheduled arrival of each stop, in seconds since service day start */
+  readonly arrivalSeconds: readonly number[];
+  /** Scheduled departure of each stop, in seconds since service day start */
+  readonly departureSeconds: readonly number[];
+}
+
+/**
+ * Schedule, geometry and lazily computed trip profiles for a city.
+ */
+export interface TripCache {
+  /** Schedule index the profiles are derived from */
+  readonly schedule: ScheduleIndex;
+  /** Stops keyed by stop ID */
+  readonly stopsById: Map<string, Stop>;
+  /** Prepared shape polylines keyed by shape ID */
+  readonly polylines: Map<string, PreparedPolyline>;
+  /** Trips keyed by uppercase route short name */
+  readonly tripsByRouteName: Map<string, Trip[]>;
+  /** Computed geometries keyed by shape and stop pattern */
+  readonly geometries: Map<string, TripGeometry>;
+}
+
+/**
+ * Build a TripCache from the schedule index, shapes and stops of a city.
+ *
+ * @param schedule - Schedule index for the city
+ * @param shapes - Shape points grouped by shape ID
+ * @param stops - All stops of the city
+ * @returns Trip cache with empty geometry cache
+ */
+export function buildTripCache(
+  schedule: ScheduleIndex,
+  shapes: Map<string, ShapePoint[]>,
+  stops: readonly Stop[]
+): TripCache {
+  const stopsById = new Map<string, Stop>();
+  for (const stop of stops) {
+    stopsById.set(stop.id, stop);
+  }
+
+  const polylines = new Map<string, PreparedPolyline>();
+  for (const [shapeId, points] of shapes) {
+    polylines.set(shapeId, preparePolyline(points));
+  }
+
+  const tripsByRouteName = new Map<string, Trip[]>();
+  for (const trip of schedule.trips.values()) {
+    const route: Route | undefined = schedule.routesById.get(trip.routeId);
+    if (route === undefined) continue;
+
+    const key = route.shortName.toUpperCase();
+    const existing = tripsByRouteName.get(key);
+    if (existing !== undefined) {
+      existing.push(trip);
+    } else {
+      tripsByRouteName.set(key, [trip]);
+    }
+  }
+
+  return { schedule, stopsById, polylines, tripsByRouteName, geometries: new Map() };
+}
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+/**
+ * Get the scheduled start and end of a trip in seconds since service day start.
+ *
+ * @param cache - Trip cache
+ * @param tripId - GTFS trip ID
+ * @returns Start and end seconds, or null if the trip has no valid stop times
+ */
+export function getTripTimeBounds(cache: TripCache, tripId: string): { start: number; end: number } | null {
+  const times = cache.schedule.stopTimesByTrip.get(tripId);
+  const first = times?.[0];
+  const last = times?.[times.length - 1];
+  if (first === undefined || last === undefined) {
+    return null;
+  }
+
+  const start = parseGtfsTime(first.departureTime);
+  const end = parseGtfsTime(last.arrivalTime);
+  return start !== null && end !== null ? { start, end } : null;
+}
+
+/**
+ * Get (or compute) the profile of a trip.
+ *
+ * Stops are placed along the path in order, each at the nearest point
+ * not before the previous stop, so loops and out-and-back routes keep
+ * a monotonic distance profile.
+ *
+ * @param cache - Trip cache
+ * @param tripId - GTFS trip ID
+ * @returns Trip profile, or null if the trip lacks stop times or its stops are unknown
+ */
+export function getTripProfile(cache: TripCache, tripId: string): TripProfile | null {
+  const trip = cache.schedule.trips.get(tripId);
+  const stopTimes = cache.schedule.stopTimesByTrip.get(tripId);
+  if (trip === undefined || stopTimes === undefined || stopTimes.length === 0) {
+    return null;
+  }
+
+  const arrivalSeconds: number[] = [];
+  const departureSeconds: number[] = [];
+  const stopPoints: GeoPoint[] = [];
+
+  for (const stopTime of stopTimes) {
+    const stop = cache.stopsById.get(stopTime.stopId);
+    const departure = parseGtfsTime(stopTime.departureTime);
+    const arrival = parseGtfsTime(stopTime.arrivalTime) ?? departure;
+    if (stop === undefined || departure === null || arrival === null) {
+      return null;
+    }
+    stopPoints.push(stop);
+    arrivalSeconds.push(arrival);
+    departureSeconds.push(departure);
+  }
+
+  // Geometry is shared by all trips with the same shape and stop pattern;
+  // only the times differ
+  const patternKey = `${trip.shapeId ?? ''}|${stopTimes.map(st => st.stopId).join(',')}`;
+  let geometry = cache.geometries.get(patternKey);
+
+  if (geometry === undefined) {
+    geometry = buildGeometry(cache, trip.shapeId, stopPoints);
+    cache.geometries.set(patternKey, geometry);
+  }
+
+  return {
+    polyline: geometry.polyline,
+    stopDistances: geometry.stopDistances,
+    arrivalSeconds,
+    departureSeconds,
+  };
+}
+
+/**
+ * Extra distance from the shape (meters) a projection may have over the
+ * closest one and still be preferred for being earlier along the path.
+ * Keeps the first stop of a loop at the start rather than the end.
+ */
+const STOP_PLACEMENT_SLACK_METERS = 25;
+
+/**
+ * Place stops along the trip's shape, or build a path from the stops themselves.
+ */
+function buildGeometry(
+  cache: TripCache,
+  shapeId: string | null,
+  stopPoints: readonly GeoPoint[]
+): TripGeometry {
+  const shape = shapeId !== null ? cache.polylines.get(shapeId) : undefined;
+
+  if (shape === undefined || shape.points.length < 2) {
+    const polyline = preparePolyline(stopPoints);
+    return { polyline, stopDistances: polyline.cumulativeDistances };
+  }
+
+  const stopDistances: number[] = [];
+  let previous = 0;
+
+  for (const point of stopPoints) {
+    const ahead = projectOntoSegments(shape, point.latitude, point.longitude)
+      .filter(projection => projection.distanceAlong >= previous);
+
+    const closest = Math.min(...ahead.map(projection => projection.distanceFromLine));
+    const earliest = ahead.find(
+      projection => projection.distanceFromLine <= closest + STOP_PLACEMENT_SLACK_METERS
+    );
+
+    previous = earliest?.distanceAlong ?? previous;
+    stopDistances.push(previous);
+  }
+
+  return { polyline: shape, stopDistances };
+}
+
+/**
+ * Get the scheduled time at a distance along a trip's path.
+ *
+ * Interpolates linearly between the departure from one stop and the
+ * arrival at the next. Positions before the first stop map to its
+ * departure; positions after the last stop map to its arrival.
+ *
+ * @param profile - Trip profile
+ * @param distanceAlong - Distance along the path in meters
+ * @returns Scheduled seconds since service day start
+ */
+export function getScheduledSecondsAt(profile: TripProfile, distanceAlong: number): number {
+  const { stopDistances, arrivalSeconds, departureSeconds } = profile;
+  const lastIndex = stopDistances.length - 1;
+
+  if (distanceAlong <= (stopDistances[0] ?? 0)) {
+    return departureSeconds[0] ?? 0;
+  }
+
+  for (let i = 0; i < lastIndex; i++) {
+    const fromDistance = stopDistances[i] ?? 0;
+    const toDistance = stopDistances[i + 1] ?? fromDistance;
+    if (distanceAlong > toDistance) continue;
+
+    const fromSeconds = departureSeconds[i] ?? 0;
+    const toSeconds = arrivalSeconds[i + 1] ?? fromSeconds;
+    const span = toDistance - fromDistance;
+    const ratio = span > 0 ? (distanceAlong - fromDistance) / span : 1;
+    return fromSeconds + ratio * (toSeconds - fromSeconds);
+  }
+
+  return arrivalSeconds[lastIndex] ?? 0;
+}
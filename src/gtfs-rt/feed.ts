@@ -0,0 +1,499 @@
+/**
+ * GTFS-Realtime feed messages
+ * @module gtfs-rt/feed
+ *
+ * Types mirror `gtfs-realtime.proto` in its canonical JSON form: field names
+ * in lowerCamelCase, enums as their names and 64-bit integers (timestamps)
+ * as decimal strings. Only the messages the SDK produces or consumes are
+ * modelled; unknown fields are skipped when decoding.
+ *
+ * @see https://gtfs.org/realtime/reference/
+ */
+
+import { ProtobufReader, ProtobufWriter } from './protobuf.js';
+
+/** GTFS-Realtime specification version written to feed headers */
+export const GTFS_RT_VERSION = '2.0';
+
+// =============================================================================
+// Message Types
+// =============================================================================
+
+/** Whether a feed is a full snapshot or an incremental update */
+export type GtfsRtIncrementality = 'FULL_DATASET' | 'DIFFERENTIAL';
+
+/** Relation between a trip and the static schedule */
+export type GtfsRtTripScheduleRelationship = 'SCHEDULED' | 'ADDED' | 'UNSCHEDULED' | 'CANCELED';
+
+/** Vehicle status relative to `stopId` */
+export type GtfsRtVehicleStopStatus = 'INCOMING_AT' | 'STOPPED_AT' | 'IN_TRANSIT_TO';
+
+/** Relation between a stop time update and the static schedule */
+export type GtfsRtStopTimeScheduleRelationship = 'SCHEDULED' | 'SKIPPED' | 'NO_DATA';
+
+/**
+ * Metadata about a feed.
+ */
+export interface GtfsRtFeedHeader {
+  /** Version of the GTFS-Realtime specification */
+  readonly gtfsRealtimeVersion: string;
+
+  /** Full snapshot or incremental update (default: FULL_DATASET) */
+  readonly incrementality?: GtfsRtIncrementality;
+
+  /** Feed creation time in POSIX seconds */
+  readonly timestamp?: string;
+}
+
+/**
+ * Identifies a GTFS trip instance.
+ */
+export interface GtfsRtTripDescriptor {
+  /** GTFS trip_id */
+  readonly tripId?: string;
+
+  /** GTFS route_id */
+  readonly routeId?: string;
+
+  /** GTFS direction_id */
+  readonly directionId?: number;
+
+  /** Scheduled start time of the trip instance (HH:MM:SS) */
+  readonly startTime?: string;
+
+  /** Service date of the trip instance (YYYYMMDD) */
+  readonly startDate?: string;
+
+  /** Relation to the static schedule */
+  readonly scheduleRelationship?: GtfsRtTripScheduleRelationship;
+}
+
+/**
+ * Identifies a vehicle.
+ */
+export interface GtfsRtVehicleDescriptor {
+  /** Internal system identifier */
+  readonly id?: string;
+
+  /** User-visible label (e.g. fleet number) */
+  readonly label?: string;
+
+  /** License plate */
+  readonly licensePlate?: string;
+}
+
+/**
+ * Geographic position of a vehicle.
+ */
+export interface GtfsRtPosition {
+  /** Latitude in WGS84 decimal degrees */
+  readonly latitude: number;
+
+  /** Longitude in WGS84 decimal degrees */
+  readonly longitude: number;
+
+  /** Bearing in degrees clockwise from North */
+  readonly bearing?: number;
+
+  /** Odometer value in meters */
+  readonly odometer?: number;
+
+  /** Momentary speed in meters per second */
+  readonly speed?: number;
+}
+
+/**
+ * Realtime position of a vehicle.
+ */
+export interface GtfsRtVehiclePosition {
+  /** Trip the vehicle is serving */
+  readonly trip?: GtfsRtTripDescriptor;
+
+  /** Vehicle identification */
+  readonly vehicle?: GtfsRtVehicleDescriptor;
+
+  /** Current position */
+  readonly position?: GtfsRtPosition;
+
+  /** stop_sequence of the current stop */
+  readonly currentStopSequence?: number;
+
+  /** GTFS stop_id of the current stop */
+  readonly stopId?: string;
+
+  /** Status relative to the current stop */
+  readonly currentStatus?: GtfsRtVehicleStopStatus;
+
+  /** Position measurement time in POSIX seconds */
+  readonly timestamp?: string;
+}
+
+/**
+ * Timing prediction for an arrival or departure.
+ * Either `delay` or `time` must be set.
+ */
+export interface GtfsRtStopTimeEvent {
+  /** Delay relative to the schedule in seconds (positive = late) */
+  readonly delay?: number;
+
+  /** Absolute predicted time in POSIX seconds */
+  readonly time?: string;
+
+  /** Expected error of the prediction in seconds (0 = certain) */
+  readonly uncertainty?: number;
+}
+
+/**
+ * Realtime update for one stop of a trip.
+ */
+export interface GtfsRtStopTimeUpdate {
+  /** GTFS stop_sequence of the stop */
+  readonly stopSequence?: number;
+
+  /** GTFS stop_id of the stop */
+  readonly stopId?: string;
+
+  /** Arrival prediction */
+  readonly arrival?: GtfsRtStopTimeEvent;
+
+  /** Departure prediction */
+  readonly departure?: GtfsRtStopTimeEvent;
+
+  /** Relation to the static schedule */
+  readonly scheduleRelationship?: GtfsRtStopTimeScheduleRelationship;
+}
+
+/**
+ * Realtime progress of a trip.
+ */
+export interface GtfsRtTripUpdate {
+  /** Trip being updated */
+  readonly trip: GtfsRtTripDescriptor;
+
+  /** Vehicle serving the trip */
+  readonly vehicle?: GtfsRtVehicleDescriptor;
+
+  /** Updates for stops of the trip, ordered by stop sequence */
+  readonly stopTimeUpdate?: readonly GtfsRtStopTimeUpdate[];
+
+  /** Time the prediction was measured in POSIX seconds */
+  readonly timestamp?: string;
+
+  /** Current schedule deviation of the trip in seconds */
+  readonly delay?: number;
+}
+
+/**
+ * A single entity of a feed.
+ */
+export interface GtfsRtFeedEntity {
+  /** Unique identifier within the feed */
+  readonly id: string;
+
+  /** Whether the entity is to be deleted (differential feeds only) */
+  readonly isDeleted?: boolean;
+
+  /** Trip update payload */
+  readonly tripUpdate?: GtfsRtTripUpdate;
+
+  /** Vehicle position payload */
+  readonly vehicle?: GtfsRtVehiclePosition;
+}
+
+/**
+ * GTFS-Realtime feed message.
+ */
+export interface GtfsRtFeedMessage {
+  /** Feed metadata */
+  readonly header: GtfsRtFeedHeader;
+
+  /** Feed contents */
+  readonly entity: readonly GtfsRtFeedEntity[];
+}
+
+// =============================================================================
+// Enum Values
+// =============================================================================
+
+const INCREMENTALITY: readonly GtfsRtIncrementality[] = ['FULL_DATASET', 'DIFFERENTIAL'];
+
+const TRIP_SCHEDULE_RELATIONSHIP: readonly GtfsRtTripScheduleRelationship[] = [
+  'SCHEDULED',
+  'ADDED',
+  'UNSCHEDULED',
+  'CANCELED',
+];
+
+const VEHICLE_STOP_STATUS: readonly GtfsRtVehicleStopStatus[] = ['INCOMING_AT', 'STOPPED_AT', 'IN_TRANSIT_TO'];
+
+const STOP_TIME_SCHEDULE_RELATIONSHIP: readonly GtfsRtStopTimeScheduleRelationship[] = [
+  'SCHEDULED',
+  'SKIPPED',
+  'NO_DATA',
+];
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function encodeHeader(header: GtfsRtFeedHeader): ProtobufWriter {
+  const writer = new ProtobufWriter().string(1, header.gtfsRealtimeVersion);
+  if (header.incrementality !== undefined) writer.uint(2, INCREMENTALITY.indexOf(header.incrementality));
+  if (header.timestamp !== undefined) writer.uint(3, Number(header.timestamp));
+  return writer;
+}
+
+function encodeTripDescriptor(trip: GtfsRtTripDescriptor): ProtobufWriter {
+  const writer = new ProtobufWriter();
+  if (trip.tripId !== undefined) writer.string(1, trip.tripId);
+  if (trip.startTime !== undefined) writer.string(2, trip.startTime);
+  if (trip.startDate !== undefined) writer.string(3, trip.startDate);
+  if (trip.scheduleRelationship !== undefined) {
+    writer.uint(4, TRIP_SCHEDULE_RELATIONSHIP.indexOf(trip.scheduleRelationship));
+  }
+  if (trip.routeId !== undefined) writer.string(5, trip.routeId);
+  if (trip.directionId !== undefined) writer.uint(6, trip.directionId);
+  return writer;
+}
+
+function encodeVehicleDescriptor(vehicle: GtfsRtVehicleDescriptor): ProtobufWriter {
+  const writer = new ProtobufWriter();
+  if (vehicle.id !== undefined) writer.string(1, vehicle.id);
+  if (vehicle.label !== undefined) writer.string(2, vehicle.label);
+  if (vehicle.licensePlate !== undefined) writer.string(3, vehicle.licensePlate);
+  return writer;
+}
+
+function encodePosition(position: GtfsRtPosition): ProtobufWriter {
+  const writer = new ProtobufWriter()
+    .float(1, position.latitude)
+    .float(2, position.longitude);
+  if (position.bearing !== undefined) writer.float(3, position.bearing);
+  if (position.odometer !== undefined) writer.double(4, position.odometer);
+  if (position.speed !== undefined) writer.float(5, position.speed);
+  return writer;
+}
+
+function encodeVehiclePosition(vehicle: GtfsRtVehiclePosition): ProtobufWriter {
+  const writer = new ProtobufWriter();
+  if (vehicle.trip !== undefined) writer.message(1, encodeTripDescriptor(vehicle.trip));
+  if (vehicle.position !== undefined) writer.message(2, encodePosition(vehicle.position));
+  if (vehicle.currentStopSequence !== undefined) writer.uint(3, vehicle.currentStopSequence);
+  if (vehicle.currentStatus !== undefined) writer.uint(4, VEHICLE_STOP_STATUS.indexOf(vehicle.currentStatus));
+  if (vehicle.timestamp !== undefined) writer.uint(5, Number(vehicle.timestamp));
+  if (vehicle.stopId !== undefined) writer.string(7, vehicle.stopId);
+  if (vehicle.vehicle !== undefined) writer.message(8, encodeVehicleDescriptor(vehicle.vehicle));
+  return writer;
+}
+
+function encodeStopTimeEvent(event: GtfsRtStopTimeEvent): ProtobufWriter {
+  const writer = new ProtobufWriter();
+  if (event.delay !== undefined) writer.int(1, event.delay);
+  if (event.time !== undefined) writer.int(2, Number(event.time));
+  if (event.uncertainty !== undefined) writer.int(3, event.uncertainty);
+  return writer;
+}
+
+function encodeStopTimeUpdate(update: GtfsRtStopTimeUpdate): ProtobufWriter {
+  const writer = new ProtobufWriter();
+  if (update.stopSequence !== undefined) writer.uint(1, update.stopSequence);
+  if (update.arrival !== undefined) writer.message(2, encodeStopTimeEvent(update.arrival));
+  if (update.departure !== undefined) writer.message(3, encodeStopTimeEvent(update.departure));
+  if (update.stopId !== undefined) writer.string(4, update.stopId);
+  if (update.scheduleRelationship !== undefined) {
+    writer.uint(5, STOP_TIME_SCHEDULE_RELATIONSHIP.indexOf(update.scheduleRelationship));
+  }
+  return writer;
+}
+
+function encodeTripUpdate(tripUpdate: GtfsRtTripUpdate): ProtobufWriter {
+  const writer = new ProtobufWriter().message(1, encodeTripDescriptor(tripUpdate.trip));
+  for (const update of tripUpdate.stopTimeUpdate ?? []) {
+    writer.message(2, encodeStopTimeUpdate(update));
+  }
+  if (tripUpdate.vehicle !== undefined) writer.message(3, encodeVehicleDescriptor(tripUpdate.vehicle));
+  if (tripUpdate.timestamp !== undefined) writer.uint(4, Number(tripUpdate.timestamp));
+  if (tripUpdate.delay !== undefined) writer.int(5, tripUpdate.delay);
+  return writer;
+}
+
+function encodeEntity(entity: GtfsRtFeedEntity): ProtobufWriter {
+  const writer = new ProtobufWriter().string(1, entity.id);
+  if (entity.isDeleted !== undefined) writer.bool(2, entity.isDeleted);
+  if (entity.tripUpdate !== undefined) writer.message(3, encodeTripUpdate(entity.tripUpdate));
+  if (entity.vehicle !== undefined) writer.message(4, encodeVehiclePosition(entity.vehicle));
+  return writer;
+}
+
+/**
+ * Encode a feed message to GTFS-Realtime protobuf bytes.
+ *
+ * @param feed - Feed message in JSON form
+ * @returns Protobuf-encoded `FeedMessage`
+ */
+export function encodeFeedMessage(feed: GtfsRtFeedMessage): Uint8Array {
+  const writer = new ProtobufWriter().message(1, encodeHeader(feed.header));
+  for (const entity of feed.entity) {
+    writer.message(2, encodeEntity(entity));
+  }
+  return writer.finish();
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/**
+ * Mutable view of a message type, used while decoding.
+ */
+type Draft<T> = { -readonly [K in keyof T]: T[K] };
+
+function decodeHeader(reader: ProtobufReader): GtfsRtFeedHeader {
+  const header: Draft<GtfsRtFeedHeader> = { gtfsRealtimeVersion: '' };
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) header.gtfsRealtimeVersion = reader.string();
+    else if (field === 2) header.incrementality = INCREMENTALITY[reader.uint()];
+    else if (field === 3) header.timestamp = String(reader.uint());
+    else reader.skip(wireType);
+  }
+  return header;
+}
+
+function decodeTripDescriptor(reader: ProtobufReader): GtfsRtTripDescriptor {
+  const trip: Draft<GtfsRtTripDescriptor> = {};
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) trip.tripId = reader.string();
+    else if (field === 2) trip.startTime = reader.string();
+    else if (field === 3) trip.startDate = reader.string();
+    else if (field === 4) trip.scheduleRelationship = TRIP_SCHEDULE_RELATIONSHIP[reader.uint()];
+    else if (field === 5) trip.routeId = reader.string();
+    else if (field === 6) trip.directionId = reader.uint();
+    else reader.skip(wireType);
+  }
+  return trip;
+}
+
+function decodeVehicleDescriptor(reader: ProtobufReader): GtfsRtVehicleDescriptor {
+  const vehicle: Draft<GtfsRtVehicleDescriptor> = {};
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) vehicle.id = reader.string();
+    else if (field === 2) vehicle.label = reader.string();
+    else if (field === 3) vehicle.licensePlate = reader.string();
+    else reader.skip(wireType);
+  }
+  return vehicle;
+}
+
+function decodePosition(reader: ProtobufReader): GtfsRtPosition {
+  const position: Draft<GtfsRtPosition> = { latitude: 0, longitude: 0 };
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) position.latitude = reader.float();
+    else if (field === 2) position.longitude = reader.float();
+    else if (field === 3) position.bearing = reader.float();
+    else if (field === 4) position.odometer = reader.double();
+    else if (field === 5) position.speed = reader.float();
+    else reader.skip(wireType);
+  }
+  return position;
+}
+
+function decodeVehiclePosition(reader: ProtobufReader): GtfsRtVehiclePosition {
+  const vehicle: Draft<GtfsRtVehiclePosition> = {};
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) vehicle.trip = decodeTripDescriptor(reader.message());
+    else if (field === 2) vehicle.position = decodePosition(reader.message());
+    else if (field === 3) vehicle.currentStopSequence = reader.uint();
+    else if (field === 4) vehicle.currentStatus = VEHICLE_STOP_STATUS[reader.uint()];
+    else if (field === 5) vehicle.timestamp = String(reader.uint());
+    else if (field === 7) vehicle.stopId = reader.string();
+    else if (field === 8) vehicle.vehicle = decodeVehicleDescriptor(reader.message());
+    else reader.skip(wireType);
+  }
+  return vehicle;
+}
+
+function decodeStopTimeEvent(reader: ProtobufReader): GtfsRtStopTimeEvent {
+  const event: Draft<GtfsRtStopTimeEvent> = {};
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) event.delay = reader.int();
+    else if (field === 2) event.time = String(reader.int());
+    else if (field === 3) event.uncertainty = reader.int();
+    else reader.skip(wireType);
+  }
+  return event;
+}
+
+function decodeStopTimeUpdate(reader: ProtobufReader): GtfsRtStopTimeUpdate {
+  const update: Draft<GtfsRtStopTimeUpdate> = {};
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) update.stopSequence = reader.uint();
+    else if (field === 2) update.arrival = decodeStopTimeEvent(reader.message());
+    else if (field === 3) update.departure = decodeStopTimeEvent(reader.message());
+    else if (field === 4) update.stopId = reader.string();
+    else if (field === 5) update.scheduleRelationship = STOP_TIME_SCHEDULE_RELATIONSHIP[reader.uint()];
+    else reader.skip(wireType);
+  }
+  return update;
+}
+
+function decodeTripUpdate(reader: ProtobufReader): GtfsRtTripUpdate {
+  let trip: GtfsRtTripDescriptor = {};
+  const stopTimeUpdate: GtfsRtStopTimeUpdate[] = [];
+  const tripUpdate: Omit<Draft<GtfsRtTripUpdate>, 'trip' | 'stopTimeUpdate'> = {};
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) trip = decodeTripDescriptor(reader.message());
+    else if (field === 2) stopTimeUpdate.push(decodeStopTimeUpdate(reader.message()));
+    else if (field === 3) tripUpdate.vehicle = decodeVehicleDescriptor(reader.message());
+    else if (field === 4) tripUpdate.timestamp = String(reader.uint());
+    else if (field === 5) tripUpdate.delay = reader.int();
+    else reader.skip(wireType);
+  }
+  return {
+    trip,
+    ...(stopTimeUpdate.length > 0 && { stopTimeUpdate }),
+    ...tripUpdate,
+  };
+}
+
+function decodeEntity(reader: ProtobufReader): GtfsRtFeedEntity {
+  const entity: Draft<GtfsRtFeedEntity> = { id: '' };
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) entity.id = reader.string();
+    else if (field === 2) entity.isDeleted = reader.bool();
+    else if (field === 3) entity.tripUpdate = decodeTripUpdate(reader.message());
+    else if (field === 4) entity.vehicle = decodeVehiclePosition(reader.message());
+    else reader.skip(wireType);
+  }
+  return entity;
+}
+
+/**
+ * Decode GTFS-Realtime protobuf bytes to a feed message.
+ *
+ * @param bytes - Protobuf-encoded `FeedMessage`
+ * @returns Feed message in JSON form
+ * @throws {Error} If the data is truncated or malformed
+ */
+export function decodeFeedMessage(bytes: Uint8Array): GtfsRtFeedMessage {
+  const reader = new ProtobufReader(bytes);
+  let header: GtfsRtFeedHeader = { gtfsRealtimeVersion: '' };
+  const entity: GtfsRtFeedEntity[] = [];
+
+  while (reader.hasMore()) {
+    const { field, wireType } = reader.next();
+    if (field === 1) header = decodeHeader(reader.message());
+    else if (field === 2) entity.push(decodeEntity(reader.message()));
+    else reader.skip(wireType);
+  }
+
+  return { header, entity };
+}
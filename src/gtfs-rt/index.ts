@@ -0,0 +1,34 @@
+/**
+ * GTFS-Realtime module exports
+ * @module gtfs-rt
+ */
+
+export {
+  GTFS_RT_VERSION,
+  encodeFeedMessage,
+  decodeFeedMessage,
+  type GtfsRtFeedMessage,
+  type GtfsRtFeedHeader,
+  type GtfsRtFeedEntity,
+  type GtfsRtTripDescriptor,
+  type GtfsRtVehicleDescriptor,
+  type GtfsRtPosition,
+  type GtfsRtVehiclePosition,
+  type GtfsRtTripUpdate,
+  type GtfsRtStopTimeUpdate,
+  type GtfsRtStopTimeEvent,
+  type GtfsRtStopTimeScheduleRelationship,
+  type GtfsRtIncrementality,
+  type GtfsRtTripScheduleRelationship,
+  type GtfsRtVehicleStopStatus,
+} from './feed.js';
+
+export {
+  buildVehiclePositionsFeed,
+  type VehiclePositionsFeedOptions,
+} from './vehicle-positions.js';
+
+export {
+  buildTripUpdatesFeed,
+  type TripUpdatesFeedOptions,
+} from './trip-updates.js';
@@ -0,0 +1,257 @@
+/**
+ * Minimal Protocol Buffers wire format codec
+ * @module gtfs-rt/protobuf
+ *
+ * Covers the scalar types used by GTFS-Realtime (varint, fixed32/64 floats,
+ * length-delimited strings and nested messages), so the SDK can read and
+ * write feeds without a protobuf runtime or generated code.
+ */
+
+// =============================================================================
+// Wire Types
+// =============================================================================
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// =============================================================================
+// Writer
+// =============================================================================
+
+/**
+ * Appends protobuf fields to a growing byte buffer.
+ * Nested messages are written with a separate writer and added via `message()`.
+ */
+export class ProtobufWriter {
+  private readonly bytes: number[] = [];
+
+  private tag(field: number, wireType: number): void {
+    this.varint(field * 8 + wireType);
+  }
+
+  private varint(value: number): void {
+    if (value >= 0 && value <= 0x7fffffff) {
+      let remaining = value;
+      while (remaining > 0x7f) {
+        this.bytes.push((remaining & 0x7f) | 0x80);
+        remaining >>>= 7;
+      }
+      this.bytes.push(remaining);
+      return;
+    }
+
+    // Large or negative values are written as 64-bit two's complement
+    let remaining = BigInt.asUintN(64, BigInt(Math.trunc(value)));
+    while (remaining > 0x7fn) {
+      this.bytes.push(Number(remaining & 0x7fn) | 0x80);
+      remaining >>= 7n;
+    }
+    this.bytes.push(Number(remaining));
+  }
+
+  /** Write an unsigned integer field (uint32, uint64, enum) */
+  uint(field: number, value: number): this {
+    this.tag(field, WIRE_VARINT);
+    this.varint(value);
+    return this;
+  }
+
+  /** Write a signed integer field (int32, int64) */
+  int(field: number, value: number): this {
+    this.tag(field, WIRE_VARINT);
+    this.varint(value);
+    return this;
+  }
+
+  /** Write a boolean field */
+  bool(field: number, value: boolean): this {
+    return this.uint(field, value ? 1 : 0);
+  }
+
+  /** Write a 32-bit float field */
+  float(field: number, value: number): this {
+    this.tag(field, WIRE_FIXED32);
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, true);
+    this.raw(new Uint8Array(view.buffer));
+    return this;
+  }
+
+  /** Write a 64-bit double field */
+  double(field: number, value: number): this {
+    this.tag(field, WIRE_FIXED64);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    this.raw(new Uint8Array(view.buffer));
+    return this;
+  }
+
+  /** Write a UTF-8 string field */
+  string(field: number, value: string): this {
+    return this.lengthDelimited(field, textEncoder.encode(value));
+  }
+
+  /** Write a nested message field */
+  message(field: number, writer: ProtobufWriter): this {
+    return this.lengthDelimited(field, writer.finish());
+  }
+
+  /** Get the encoded bytes */
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private lengthDelimited(field: number, data: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(data.length);
+    this.raw(data);
+    return this;
+  }
+
+  private raw(data: Uint8Array): void {
+    for (const byte of data) {
+      this.bytes.push(byte);
+    }
+  }
+}
+
+// =============================================================================
+// Reader
+// =============================================================================
+
+/**
+ * Header of a decoded field.
+ */
+export interface ProtobufField {
+  readonly field: number;
+  readonly wireType: number;
+}
+
+/**
+ * Reads protobuf fields sequentially from a byte buffer.
+ * Callers dispatch on the field number and call the matching value reader,
+ * or `skip()` for unknown fields.
+ */
+export class ProtobufReader {
+  private position = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /** Whether there are more fields to read */
+  hasMore(): boolean {
+    return this.position < this.bytes.length;
+  }
+
+  /** Read the next field header */
+  next(): ProtobufField {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), wireType: key % 8 };
+  }
+
+  /** Read an unsigned varint value (uint32, uint64, enum, bool) */
+  uint(): number {
+    return this.varint();
+  }
+
+  /** Read a signed varint value (int32, int64) */
+  int(): number {
+    return Number(BigInt.asIntN(64, this.bigVarint()));
+  }
+
+  /** Read a boolean value */
+  bool(): boolean {
+    return this.varint() !== 0;
+  }
+
+  /** Read a 32-bit float value */
+  float(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.position, true);
+    this.position += 4;
+    return value;
+  }
+
+  /** Read a 64-bit double value */
+  double(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.position, true);
+    this.position += 8;
+    return value;
+  }
+
+  /** Read a UTF-8 string value */
+  string(): string {
+    return textDecoder.decode(this.lengthDelimited());
+  }
+
+  /** Read a nested message value */
+  message(): ProtobufReader {
+    return new ProtobufReader(this.lengthDelimited());
+  }
+
+  /** Skip a value of the given wire type */
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.bigVarint();
+        return;
+      case WIRE_FIXED64:
+        this.ensure(8);
+        this.position += 8;
+        return;
+      case WIRE_LENGTH_DELIMITED:
+        this.lengthDelimited();
+        return;
+      case WIRE_FIXED32:
+        this.ensure(4);
+        this.position += 4;
+        return;
+      default:
+        throw new Error(`Unsupported protobuf wire type: ${String(wireType)}`);
+    }
+  }
+
+  private varint(): number {
+    return Number(this.bigVarint());
+  }
+
+  private bigVarint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+
+    for (;;) {
+      this.ensure(1);
+      const byte = this.bytes[this.position++] ?? 0;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      shift += 7n;
+      if (shift > 63n) {
+        throw new Error('Malformed protobuf varint');
+      }
+    }
+  }
+
+  private lengthDelimited(): Uint8Array {
+    const length = this.varint();
+    this.ensure(length);
+    const data = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return data;
+  }
+
+  private ensure(length: number): void {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('Unexpected end of protobuf data');
+    }
+  }
+}
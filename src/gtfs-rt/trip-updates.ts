@@ -0,0 +1,278 @@
+/**
+ * GTFS-Realtime TripUpdates export
+ * @module gtfs-rt/trip-updates
+ *
+ * Builds stop-time-level predictions from what the GPS streams report:
+ * the current schedule deviation (`delaySeconds`, most cities) and the
+ * predicted arrival at the next stop (`nextStopId` + `arrivalTimeSeconds`,
+ * Kaunas). Only vehicles with a GTFS trip reference can be described in a
+ * TripUpdate - enable `matchTrips` for cities that do not report one.
+ */
+
+import type { Route, StopTime, Vehicle } from '../types.js';
+import {
+  GTFS_RT_VERSION,
+  type GtfsRtFeedEntity,
+  type GtfsRtFeedMessage,
+  type GtfsRtStopTimeUpdate,
+  type GtfsRtTripUpdate,
+} from './feed.js';
+import { buildRouteIdLookup, toPosixSeconds } from './vehicle-positions.js';
+import {
+  parseGtfsTime,
+  getLithuanianDate,
+  addDaysToDate,
+  getServiceDayStart,
+  PASSED_STOP_TOLERANCE_SECONDS,
+} from '../utils/index.js';
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for building a TripUpdates feed.
+ */
+export interface TripUpdatesFeedOptions {
+  /** Feed creation time (default: now) */
+  timestamp?: Date;
+
+  /** GTFS routes of the city, used to fill `routeId` of trip descriptors */
+  routes?: readonly Route[];
+
+  /**
+   * Stop times grouped by trip ID (as returned by `getSchedule()`).
+   * Without them, delays are reported at trip level only.
+   */
+  stopTimes?: Map<string, StopTime[]>;
+
+  /** Include vehicles flagged as stale (default: false) */
+  includeStale?: boolean;
+}
+
+/**
+ * Slack around a trip's scheduled run when resolving its service date.
+ */
+const RUN_MATCH_SLACK_SECONDS = 30 * 60;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Resolve the service date of the trip run a vehicle is operating.
+ * The schedule position (`measuredAt - delay`) must fall within the run.
+ *
+ * @returns Service date and the schedule position in seconds since its start
+ */
+function resolveRun(
+  stopTimes: readonly StopTime[],
+  schedulePosition: Date
+): { serviceDate: string; positionSeconds: number } | null {
+  const start = parseGtfsTime(stopTimes[0]?.departureTime ?? '');
+  const end = parseGtfsTime(stopTimes[stopTimes.length - 1]?.arrivalTime ?? '');
+  if (start === null || end === null) {
+    return null;
+  }
+
+  const today = getLithuanianDate(schedulePosition);
+
+  for (const serviceDate of [today, addDaysToDate(today, -1)]) {
+    const positionSeconds = (schedulePosition.getTime() - getServiceDayStart(serviceDate).getTime()) / 1000;
+    if (positionSeconds >= start - RUN_MATCH_SLACK_SECONDS && positionSeconds <= end + RUN_MATCH_SLACK_SECONDS) {
+      return { serviceDate, positionSeconds };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert Kaunas' predicted arrival (seconds from midnight) to an absolute
+ * time, choosing the day that puts it closest to the measurement.
+ */
+function resolveArrivalTime(arrivalTimeSeconds: number, measuredAt: Date): Date {
+  const dayStart = getServiceDayStart(getLithuanianDate(measuredAt)).getTime();
+  let arrivalMs = dayStart + (arrivalTimeSeconds % SECONDS_PER_DAY) * 1000;
+  const halfDayMs = (SECONDS_PER_DAY / 2) * 1000;
+
+  if (arrivalMs < measuredAt.getTime() - halfDayMs) {
+    arrivalMs += SECONDS_PER_DAY * 1000;
+  } else if (arrivalMs > measuredAt.getTime() + halfDayMs) {
+    arrivalMs -= SECONDS_PER_DAY * 1000;
+  }
+
+  return new Date(arrivalMs);
+}
+
+/**
+ * Build stop time updates for the stops still ahead of a delayed vehicle.
+ */
+function buildDelayedStops(
+  stopTimes: readonly StopTime[],
+  positionSeconds: number,
+  delaySeconds: number
+): GtfsRtStopTimeUpdate[] {
+  const updates: GtfsRtStopTimeUpdate[] = [];
+
+  for (const stopTime of stopTimes) {
+    const departure = parseGtfsTime(stopTime.departureTime);
+    if (departure === null || departure + PASSED_STOP_TOLERANCE_SECONDS < positionSeconds) {
+      continue;
+    }
+
+    updates.push({
+      stopSequence: stopTime.sequence,
+      stopId: stopTime.stopId,
+      arrival: { delay: delaySeconds },
+      departure: { delay: delaySeconds },
+    });
+  }
+
+  return updates;
+}
+
+/**
+ * Replace (or add) the update of the vehicle's next stop with its
+ * absolute predicted arrival. A next stop missing from the updates is
+ * inserted in stop sequence order, keeping the other updates.
+ */
+function applyNextStopArrival(
+  updates: GtfsRtStopTimeUpdate[],
+  stopId: string,
+  arrival: Date,
+  stopTimes: readonly StopTime[] | undefined
+): GtfsRtStopTimeUpdate[] {
+  const time = toPosixSeconds(arrival);
+  const index = updates.findIndex(update => update.stopId === stopId);
+
+  if (index >= 0) {
+    const existing = updates[index];
+    const next = [...updates];
+    next[index] = { ...existing, arrival: { time } };
+    // Stops before the next stop have been passed
+    return next.slice(index);
+  }
+
+  const stopSequence = stopTimes?.find(st => st.stopId === stopId)?.sequence;
+  const update: GtfsRtStopTimeUpdate = {
+    ...(stopSequence !== undefined && { stopSequence }),
+    stopId,
+    arrival: { time },
+  };
+
+  // Without a sequence the update cannot be ordered; it goes last
+  const position = stopSequence !== undefined
+    ? updates.findIndex(other => other.stopSequence !== undefined && other.stopSequence > stopSequence)
+    : -1;
+  return position >= 0
+    ? [...updates.slice(0, position), update, ...updates.slice(position)]
+    : [...updates, update];
+}
+
+/**
+ * Build the trip update of a vehicle, or null if it has nothing to predict.
+ */
+function toTripUpdate(
+  vehicle: Vehicle,
+  tripId: string,
+  routeIds: Map<string, string>,
+  allStopTimes: Map<string, StopTime[]> | undefined
+): GtfsRtTripUpdate | null {
+  const { delaySeconds, nextStopId, arrivalTimeSeconds } = vehicle;
+  const hasNextStop = nextStopId !== null && arrivalTimeSeconds !== null;
+
+  if (delaySeconds === null && !hasNextStop) {
+    return null;
+  }
+
+  const stopTimes = allStopTimes?.get(tripId);
+  const schedulePosition = new Date(vehicle.measuredAt.getTime() - (delaySeconds ?? 0) * 1000);
+  const run = stopTimes !== undefined ? resolveRun(stopTimes, schedulePosition) : null;
+
+  let updates: GtfsRtStopTimeUpdate[] = [];
+
+  if (stopTimes !== undefined && run !== null && delaySeconds !== null) {
+    updates = buildDelayedStops(stopTimes, run.positionSeconds, delaySeconds);
+  }
+
+  if (hasNextStop) {
+    updates = applyNextStopArrival(
+      updates,
+      nextStopId,
+      resolveArrivalTime(arrivalTimeSeconds, vehicle.measuredAt),
+      stopTimes
+    );
+  }
+
+  const routeId = routeIds.get(`${vehicle.route.toUpperCase()}|${vehicle.type}`);
+
+  return {
+    trip: {
+      tripId,
+      ...(routeId !== undefined && { routeId }),
+      ...(run !== null && { startDate: run.serviceDate.replace(/-/g, '') }),
+      scheduleRelationship: 'SCHEDULED',
+    },
+    vehicle: { id: vehicle.vehicleNumber, label: vehicle.vehicleNumber },
+    ...(updates.length > 0 && { stopTimeUpdate: updates }),
+    timestamp: toPosixSeconds(vehicle.measuredAt),
+    ...(delaySeconds !== null && { delay: delaySeconds }),
+  };
+}
+
+/**
+ * Build a GTFS-Realtime TripUpdates feed from vehicles.
+ *
+ * Each vehicle with a `gtfsTripId` and either a `delaySeconds` or a
+ * next stop prediction yields one TripUpdate:
+ * - With `stopTimes`, the delay is applied to every stop the vehicle has
+ *   not yet passed, and the trip's service date is resolved.
+ * - Without them, the delay is reported at trip level only.
+ * - A next stop prediction (Kaunas) is reported as an absolute arrival time
+ *   at that stop.
+ *
+ * @param vehicles - Vehicles from `getVehicles()`
+ * @param options - Feed options
+ * @returns Full-dataset feed message with one entity per predictable vehicle
+ *
+ * @example
+ * ```typescript
+ * const vehicles = await transport.getVehicles('vilnius');
+ * const feed = buildTripUpdatesFeed(vehicles, {
+ *   routes: await transport.getRoutes('vilnius'),
+ *   stopTimes: await transport.getSchedule('vilnius'),
+ * });
+ * const bytes = encodeFeedMessage(feed);
+ * ```
+ */
+export function buildTripUpdatesFeed(
+  vehicles: readonly Vehicle[],
+  options: TripUpdatesFeedOptions = {}
+): GtfsRtFeedMessage {
+  const { timestamp = new Date(), routes = [], stopTimes, includeStale = false } = options;
+  const routeIds = buildRouteIdLookup(routes);
+  const entity: GtfsRtFeedEntity[] = [];
+
+  for (const vehicle of vehicles) {
+    if (vehicle.gtfsTripId === null || (vehicle.isStale && !includeStale)) {
+      continue;
+    }
+
+    const tripUpdate = toTripUpdate(vehicle, vehicle.gtfsTripId, routeIds, stopTimes);
+    if (tripUpdate !== null) {
+      entity.push({ id: vehicle.id, tripUpdate });
+    }
+  }
+
+  return {
+    header: {
+      gtfsRealtimeVersion: GTFS_RT_VERSION,
+      incrementality: 'FULL_DATASET',
+      timestamp: toPosixSeconds(timestamp),
+    },
+    entity,
+  };
+}
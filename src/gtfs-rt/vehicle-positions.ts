@@ -0,0 +1,136 @@
+/**
+ * GTFS-Realtime VehiclePositions export
+ * @module gtfs-rt/vehicle-positions
+ *
+ * Translates normalized vehicles into a VehiclePositions feed that
+ * GTFS-Realtime consumers (OpenTripPlanner, MOTIS, etc.) can ingest.
+ */
+
+import type { Route, Vehicle } from '../types.js';
+import { GTFS_RT_VERSION, type GtfsRtFeedEntity, type GtfsRtFeedMessage, type GtfsRtTripDescriptor } from './feed.js';
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for building a VehiclePositions feed.
+ */
+export interface VehiclePositionsFeedOptions {
+  /** Feed creation time (default: now) */
+  timestamp?: Date;
+
+  /**
+   * GTFS routes of the city, used to fill `routeId` of trip descriptors.
+   * Vehicles only carry the route short name, which is not a GTFS route_id.
+   */
+  routes?: readonly Route[];
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Convert a Date to POSIX seconds in the JSON form of a uint64.
+ */
+export function toPosixSeconds(date: Date): string {
+  return String(Math.floor(date.getTime() / 1000));
+}
+
+/**
+ * Index routes by uppercase short name and vehicle type.
+ */
+export function buildRouteIdLookup(routes: readonly Route[]): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const route of routes) {
+    const key = `${route.shortName.toUpperCase()}|${route.type}`;
+    // Keep the first route for ambiguous short names
+    if (!lookup.has(key)) {
+      lookup.set(key, route.id);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Build the trip descriptor of a vehicle, or undefined if neither
+ * the trip nor the route can be identified.
+ */
+function toTripDescriptor(vehicle: Vehicle, routeIds: Map<string, string>): GtfsRtTripDescriptor | undefined {
+  const routeId = routeIds.get(`${vehicle.route.toUpperCase()}|${vehicle.type}`);
+
+  if (vehicle.gtfsTripId !== null) {
+    return {
+      tripId: vehicle.gtfsTripId,
+      ...(routeId !== undefined && { routeId }),
+      scheduleRelationship: 'SCHEDULED',
+    };
+  }
+
+  return routeId !== undefined ? { routeId } : undefined;
+}
+
+/**
+ * Build a feed entity for a vehicle.
+ */
+function toEntity(vehicle: Vehicle, routeIds: Map<string, string>): GtfsRtFeedEntity {
+  const trip = toTripDescriptor(vehicle, routeIds);
+
+  return {
+    id: vehicle.id,
+    vehicle: {
+      ...(trip !== undefined && { trip }),
+      vehicle: { id: vehicle.vehicleNumber, label: vehicle.vehicleNumber },
+      position: {
+        latitude: vehicle.latitude,
+        longitude: vehicle.longitude,
+        bearing: vehicle.bearing,
+        // GTFS-Realtime speed is in meters per second
+        speed: vehicle.speed / 3.6,
+      },
+      ...(vehicle.nextStopId !== null && {
+        stopId: vehicle.nextStopId,
+        currentStatus: 'IN_TRANSIT_TO' as const,
+      }),
+      timestamp: toPosixSeconds(vehicle.measuredAt),
+    },
+  };
+}
+
+/**
+ * Build a GTFS-Realtime VehiclePositions feed from vehicles.
+ *
+ * The result is the JSON form of the feed; pass it to `encodeFeedMessage()`
+ * for protobuf bytes.
+ *
+ * @param vehicles - Vehicles from `getVehicles()`
+ * @param options - Feed options
+ * @returns Full-dataset feed message with one entity per vehicle
+ *
+ * @example
+ * ```typescript
+ * const vehicles = await transport.getVehicles('vilnius');
+ * const routes = await transport.getRoutes('vilnius');
+ * const feed = buildVehiclePositionsFeed(vehicles, { routes });
+ *
+ * res.setHeader('Content-Type', 'application/x-protobuf');
+ * res.end(encodeFeedMessage(feed));
+ * ```
+ */
+export function buildVehiclePositionsFeed(
+  vehicles: readonly Vehicle[],
+  options: VehiclePositionsFeedOptions = {}
+): GtfsRtFeedMessage {
+  const { timestamp = new Date(), routes = [] } = options;
+  const routeIds = buildRouteIdLookup(routes);
+
+  return {
+    header: {
+      gtfsRealtimeVersion: GTFS_RT_VERSION,
+      incrementality: 'FULL_DATASET',
+      timestamp: toPosixSeconds(timestamp),
+    },
+    entity: vehicles.map(vehicle => toEntity(vehicle, routeIds)),
+  };
+}
@@ -12,6 +12,9 @@ export {
   parseCalendarDatesContent,
   parseAgencyContent,
   parseStopTimesContent,
+  parseGtfsFileStream,
+  type GtfsFileName,
+  type GtfsFileResults,
 } from './parser.js';
 
 export {
@@ -25,6 +28,7 @@ export {
   loadCachedCalendarDates,
   loadCachedAgencies,
   loadCachedStopTimes,
+  loadCachedPatterns,
   type SyncOptions,
   type GtfsCache,
 } from './sync.js';
@@ -2,8 +2,13 @@
  * GTFS file parsers for routes.txt, stops.txt, trips.txt, shapes.txt, 
  * calendar.txt, calendar_dates.txt, agency.txt, and stop_times.txt
  * @module gtfs/parser
+ * 
+ * Each file has a row parser that receives rows one at a time, so files
+ * can be parsed from a whole string or line by line from a stream without
+ * holding the raw text in memory.
  */
 
+import { createInterface } from 'node:readline';
 import type { Route, Stop, Trip, ShapePoint, Calendar, CalendarDate, Agency, StopTime, VehicleType } from '../types.js';
 import { GTFS_ROUTE_TYPE_MAP } from '../types.js';
 import { cleanTextField } from '../utils/index.js';
@@ -78,56 +83,67 @@ function buildRowObject(row: string[], headerMap: Map<string, number>): Record<s
 }
 
 // =============================================================================
-// Routes Parser
+// Row Parsing
 // =============================================================================
 
 /**
- * Parse routes.txt content into a Map keyed by route short name.
- * 
- * GTFS routes.txt fields:
- * - route_id: Unique identifier
- * - agency_id: Agency reference
- * - route_short_name: Short name (e.g., "4G", "N1")
- * - route_long_name: Full name with endpoints
- * - route_desc: Description
- * - route_type: GTFS route type (3=bus, 800=trolleybus)
- * - route_url: URL
- * - route_color: Background color (hex)
- * - route_text_color: Text color (hex)
- * 
- * @param content - Raw routes.txt content
- * @returns Map from route short name to Route object
+ * Incremental parser of one GTFS file.
  */
-export function parseRoutesContent(content: string): Map<string, Route> {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return new Map();
-  }
+interface GtfsRowParser<T> {
+  /** Add a data row, keyed by column name */
+  add(row: Record<string, string>): void;
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return new Map();
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+  /** Result after the last row */
+  finish(): T;
+}
 
-  const routes = new Map<string, Route>();
+/**
+ * Feeds lines of a CSV file to a row parser. The first non-empty line is
+ * the header; malformed rows are skipped.
+ */
+function createLineFeeder<T>(parser: GtfsRowParser<T>): (line: string) => void {
+  let headerMap: Map<string, number> | null = null;
+
+  return line => {
+    if (!line.trim()) return;
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
     const row = parseCSVLine(line);
-    
+    if (headerMap === null) {
+      headerMap = buildHeaderMap(row);
+      return;
+    }
+
     try {
-      // Build object from row for Zod validation
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsRouteSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+      parser.add(buildRowObject(row, headerMap));
+    } catch {
+      // Skip malformed rows
+    }
+  };
+}
+
+/**
+ * Parse the full content of a file with a row parser.
+ */
+function parseContent<T>(content: string, parser: GtfsRowParser<T>): T {
+  const feed = createLineFeeder(parser);
+  for (const line of content.split('\n')) {
+    feed(line);
+  }
+  return parser.finish();
+}
+
+// =============================================================================
+// Routes Parser
+// =============================================================================
+
+function createRoutesParser(): GtfsRowParser<Map<string, Route>> {
+  const routes = new Map<string, Route>();
+
+  return {
+    add(row): void {
+      const parseResult = gtfsRouteSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
       const type: VehicleType = GTFS_ROUTE_TYPE_MAP[validated.route_type] ?? 'unknown';
 
@@ -145,63 +161,44 @@ export function parseRoutesContent(content: string): Map<string, Route> {
       
       // Also key by route_id for GTFS trip references
       routes.set(routeObj.id, routeObj);
-    } catch {
-      // Skip malformed rows
-      continue;
-    }
-  }
-
-  return routes;
+    },
+    finish: () => routes,
+  };
 }
 
-// =============================================================================
-// Stops Parser
-// =============================================================================
-
 /**
- * Parse stops.txt content into an array of Stop objects.
+ * Parse routes.txt content into a Map keyed by route short name.
  * 
- * GTFS stops.txt fields:
- * - stop_id: Unique identifier
- * - stop_code: Short code
- * - stop_name: Human-readable name
- * - stop_desc: Description
- * - stop_lat: Latitude
- * - stop_lon: Longitude
+ * GTFS routes.txt fields:
+ * - route_id: Unique identifier
+ * - agency_id: Agency reference
+ * - route_short_name: Short name (e.g., "4G", "N1")
+ * - route_long_name: Full name with endpoints
+ * - route_desc: Description
+ * - route_type: GTFS route type (3=bus, 800=trolleybus)
+ * - route_url: URL
+ * - route_color: Background color (hex)
+ * - route_text_color: Text color (hex)
  * 
- * @param content - Raw stops.txt content
- * @returns Array of Stop objects
+ * @param content - Raw routes.txt content
+ * @returns Map from route short name to Route object
  */
-export function parseStopsContent(content: string): Stop[] {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return [];
-  }
+export function parseRoutesContent(content: string): Map<string, Route> {
+  return parseContent(content, createRoutesParser());
+}
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return [];
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+// =============================================================================
+// Stops Parser
+// =============================================================================
 
+function createStopsParser(): GtfsRowParser<Stop[]> {
   const stops: Stop[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      // Build object from row for Zod validation
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsStopSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsStopSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
       stops.push({
@@ -215,57 +212,44 @@ export function parseStopsContent(content: string): Stop[] {
         longitude: validated.stop_lon,
         url: validated.stop_url ?? null,
       });
-    } catch {
-      // Skip malformed rows
-      continue;
-    }
-  }
-
-  return stops;
+    },
+    finish: () => stops,
+  };
 }
 
-// =============================================================================
-// Trips Parser
-// =============================================================================
-
 /**
- * Parse trips.txt content into a Map keyed by trip_id.
+ * Parse stops.txt content into an array of Stop objects.
  * 
- * @param content - Raw trips.txt content
- * @returns Map from trip_id to Trip object
+ * GTFS stops.txt fields:
+ * - stop_id: Unique identifier
+ * - stop_code: Short code
+ * - stop_name: Human-readable name
+ * - stop_desc: Description
+ * - stop_lat: Latitude
+ * - stop_lon: Longitude
+ * 
+ * @param content - Raw stops.txt content
+ * @returns Array of Stop objects
  */
-export function parseTripsContent(content: string): Map<string, Trip> {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return new Map();
-  }
+export function parseStopsContent(content: string): Stop[] {
+  return parseContent(content, createStopsParser());
+}
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return new Map();
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+// =============================================================================
+// Trips Parser
+// =============================================================================
 
+function createTripsParser(): GtfsRowParser<Map<string, Trip>> {
   const trips = new Map<string, Trip>();
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsTripSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsTripSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
-      const trip: Trip = {
+      trips.set(validated.trip_id, {
         id: validated.trip_id,
         routeId: validated.route_id,
         serviceId: validated.service_id,
@@ -273,57 +257,34 @@ export function parseTripsContent(content: string): Map<string, Trip> {
         directionId: validated.direction_id ?? null,
         shapeId: validated.shape_id ?? null,
         blockId: validated.block_id ?? null,
-      };
-
-      trips.set(trip.id, trip);
-    } catch {
-      continue;
-    }
-  }
-
-  return trips;
+      });
+    },
+    finish: () => trips,
+  };
 }
 
-// =============================================================================
-// Shapes Parser
-// =============================================================================
-
 /**
- * Parse shapes.txt content into a Map grouped by shape_id.
- * Points within each shape are sorted by sequence.
+ * Parse trips.txt content into a Map keyed by trip_id.
  * 
- * @param content - Raw shapes.txt content
- * @returns Map from shape_id to array of ShapePoint objects
+ * @param content - Raw trips.txt content
+ * @returns Map from trip_id to Trip object
  */
-export function parseShapesContent(content: string): Map<string, ShapePoint[]> {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return new Map();
-  }
+export function parseTripsContent(content: string): Map<string, Trip> {
+  return parseContent(content, createTripsParser());
+}
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return new Map();
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+// =============================================================================
+// Shapes Parser
+// =============================================================================
 
+function createShapesParser(): GtfsRowParser<Map<string, ShapePoint[]>> {
   const shapes = new Map<string, ShapePoint[]>();
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsShapeSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsShapeSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
       const point: ShapePoint = {
@@ -340,17 +301,26 @@ export function parseShapesContent(content: string): Map<string, ShapePoint[]> {
       } else {
         shapes.set(point.shapeId, [point]);
       }
-    } catch {
-      continue;
-    }
-  }
-
-  // Sort points within each shape by sequence
-  for (const points of shapes.values()) {
-    points.sort((a, b) => a.sequence - b.sequence);
-  }
+    },
+    finish(): Map<string, ShapePoint[]> {
+      // Sort points within each shape by sequence
+      for (const points of shapes.values()) {
+        points.sort((a, b) => a.sequence - b.sequence);
+      }
+      return shapes;
+    },
+  };
+}
 
-  return shapes;
+/**
+ * Parse shapes.txt content into a Map grouped by shape_id.
+ * Points within each shape are sorted by sequence.
+ * 
+ * @param content - Raw shapes.txt content
+ * @returns Map from shape_id to array of ShapePoint objects
+ */
+export function parseShapesContent(content: string): Map<string, ShapePoint[]> {
+  return parseContent(content, createShapesParser());
 }
 
 // =============================================================================
@@ -365,44 +335,17 @@ function parseGtfsDate(dateStr: string): string {
   return `${dateStr.slice(0, 4)}-${dateStr.slice(4, 6)}-${dateStr.slice(6, 8)}`;
 }
 
-/**
- * Parse calendar.txt content into a Map keyed by service_id.
- * 
- * @param content - Raw calendar.txt content
- * @returns Map from service_id to Calendar object
- */
-export function parseCalendarContent(content: string): Map<string, Calendar> {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return new Map();
-  }
-
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return new Map();
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
-
+function createCalendarParser(): GtfsRowParser<Map<string, Calendar>> {
   const calendars = new Map<string, Calendar>();
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsCalendarSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsCalendarSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
-      const calendar: Calendar = {
+      calendars.set(validated.service_id, {
         serviceId: validated.service_id,
         monday: validated.monday === 1,
         tuesday: validated.tuesday === 1,
@@ -413,56 +356,34 @@ export function parseCalendarContent(content: string): Map<string, Calendar> {
         sunday: validated.sunday === 1,
         startDate: parseGtfsDate(validated.start_date),
         endDate: parseGtfsDate(validated.end_date),
-      };
-
-      calendars.set(calendar.serviceId, calendar);
-    } catch {
-      continue;
-    }
-  }
-
-  return calendars;
+      });
+    },
+    finish: () => calendars,
+  };
 }
 
-// =============================================================================
-// Calendar Dates Parser
-// =============================================================================
-
 /**
- * Parse calendar_dates.txt content into an array of CalendarDate objects.
+ * Parse calendar.txt content into a Map keyed by service_id.
  * 
- * @param content - Raw calendar_dates.txt content
- * @returns Array of CalendarDate objects
+ * @param content - Raw calendar.txt content
+ * @returns Map from service_id to Calendar object
  */
-export function parseCalendarDatesContent(content: string): CalendarDate[] {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return [];
-  }
+export function parseCalendarContent(content: string): Map<string, Calendar> {
+  return parseContent(content, createCalendarParser());
+}
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return [];
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+// =============================================================================
+// Calendar Dates Parser
+// =============================================================================
 
+function createCalendarDatesParser(): GtfsRowParser<CalendarDate[]> {
   const calendarDates: CalendarDate[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsCalendarDateSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsCalendarDateSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
       calendarDates.push({
@@ -470,53 +391,33 @@ export function parseCalendarDatesContent(content: string): CalendarDate[] {
         date: parseGtfsDate(validated.date),
         exceptionType: validated.exception_type === 1 ? 'added' : 'removed',
       });
-    } catch {
-      continue;
-    }
-  }
-
-  return calendarDates;
+    },
+    finish: () => calendarDates,
+  };
 }
 
-// =============================================================================
-// Agency Parser
-// =============================================================================
-
 /**
- * Parse agency.txt content into an array of Agency objects.
+ * Parse calendar_dates.txt content into an array of CalendarDate objects.
  * 
- * @param content - Raw agency.txt content
- * @returns Array of Agency objects
+ * @param content - Raw calendar_dates.txt content
+ * @returns Array of CalendarDate objects
  */
-export function parseAgencyContent(content: string): Agency[] {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return [];
-  }
+export function parseCalendarDatesContent(content: string): CalendarDate[] {
+  return parseContent(content, createCalendarDatesParser());
+}
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return [];
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+// =============================================================================
+// Agency Parser
+// =============================================================================
 
+function createAgencyParser(): GtfsRowParser<Agency[]> {
   const agencies: Agency[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsAgencySchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsAgencySchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
       agencies.push({
@@ -527,56 +428,33 @@ export function parseAgencyContent(content: string): Agency[] {
         language: validated.agency_lang ?? null,
         phone: validated.agency_phone ?? null,
       });
-    } catch {
-      continue;
-    }
-  }
-
-  return agencies;
+    },
+    finish: () => agencies,
+  };
 }
 
-// =============================================================================
-// Stop Times Parser
-// =============================================================================
-
 /**
- * Parse stop_times.txt content into a Map grouped by trip_id.
- * Stop times within each trip are sorted by sequence.
- * 
- * Note: This file can be large (~25MB for Vilnius). Use appropriate memory management.
+ * Parse agency.txt content into an array of Agency objects.
  * 
- * @param content - Raw stop_times.txt content
- * @returns Map from trip_id to array of StopTime objects
+ * @param content - Raw agency.txt content
+ * @returns Array of Agency objects
  */
-export function parseStopTimesContent(content: string): Map<string, StopTime[]> {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    return new Map();
-  }
+export function parseAgencyContent(content: string): Agency[] {
+  return parseContent(content, createAgencyParser());
+}
 
-  const firstLine = lines[0];
-  if (firstLine === undefined || firstLine === '') {
-    return new Map();
-  }
-  const headers = parseCSVLine(firstLine);
-  const headerMap = buildHeaderMap(headers);
+// =============================================================================
+// Stop Times Parser
+// =============================================================================
 
+function createStopTimesParser(): GtfsRowParser<Map<string, StopTime[]>> {
   const stopTimes = new Map<string, StopTime[]>();
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (line === undefined || line === '') continue;
-    const row = parseCSVLine(line);
-    
-    try {
-      const rowObject = buildRowObject(row, headerMap);
-      const parseResult = gtfsStopTimeSchema.safeParse(rowObject);
-      
-      if (!parseResult.success) {
-        continue;
-      }
-      
+  return {
+    add(row): void {
+      const parseResult = gtfsStopTimeSchema.safeParse(row);
+      if (!parseResult.success) return;
+
       const validated = parseResult.data;
 
       const stopTime: StopTime = {
@@ -594,16 +472,89 @@ export function parseStopTimesContent(content: string): Map<string, StopTime[]>
       } else {
         stopTimes.set(stopTime.tripId, [stopTime]);
       }
-    } catch {
-      continue;
-    }
-  }
+    },
+    finish(): Map<string, StopTime[]> {
+      // Sort stop times within each trip by sequence
+      for (const times of stopTimes.values()) {
+        times.sort((a, b) => a.sequence - b.sequence);
+      }
+      return stopTimes;
+    },
+  };
+}
 
-  // Sort stop times within each trip by sequence
-  for (const times of stopTimes.values()) {
-    times.sort((a, b) => a.sequence - b.sequence);
-  }
+/**
+ * Parse stop_times.txt content into a Map grouped by trip_id.
+ * Stop times within each trip are sorted by sequence.
+ * 
+ * Note: This file can be large (~25MB for Vilnius). Prefer
+ * `parseGtfsFileStream('stop_times.txt', stream)` to avoid holding the text in memory.
+ * 
+ * @param content - Raw stop_times.txt content
+ * @returns Map from trip_id to array of StopTime objects
+ */
+export function parseStopTimesContent(content: string): Map<string, StopTime[]> {
+  return parseContent(content, createStopTimesParser());
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
 
-  return stopTimes;
+/**
+ * Parsed result of each supported GTFS file.
+ */
+export interface GtfsFileResults {
+  'routes.txt': Map<string, Route>;
+  'stops.txt': Stop[];
+  'trips.txt': Map<string, Trip>;
+  'shapes.txt': Map<string, ShapePoint[]>;
+  'calendar.txt': Map<string, Calendar>;
+  'calendar_dates.txt': CalendarDate[];
+  'agency.txt': Agency[];
+  'stop_times.txt': Map<string, StopTime[]>;
 }
 
+/**
+ * Name of a GTFS file with a parser.
+ */
+export type GtfsFileName = keyof GtfsFileResults;
+
+const ROW_PARSERS: { readonly [F in GtfsFileName]: () => GtfsRowParser<GtfsFileResults[F]> } = {
+  'routes.txt': createRoutesParser,
+  'stops.txt': createStopsParser,
+  'trips.txt': createTripsParser,
+  'shapes.txt': createShapesParser,
+  'calendar.txt': createCalendarParser,
+  'calendar_dates.txt': createCalendarDatesParser,
+  'agency.txt': createAgencyParser,
+  'stop_times.txt': createStopTimesParser,
+};
+
+/**
+ * Parse a GTFS file line by line from a stream.
+ * 
+ * Rows are parsed as they arrive, so only the parsed objects are kept in
+ * memory, never the whole file text. Accepts LF and CRLF line endings.
+ * 
+ * @param fileName - GTFS file the stream contains
+ * @param input - UTF-8 stream of the file, e.g. a ZIP entry or `fs.createReadStream()`
+ * @returns Same result as the matching `parse*Content` function
+ * 
+ * @example
+ * const stopTimes = await parseGtfsFileStream('stop_times.txt', createReadStream('stop_times.txt'));
+ */
+export async function parseGtfsFileStream<F extends GtfsFileName>(
+  fileName: F,
+  input: NodeJS.ReadableStream
+): Promise<GtfsFileResults[F]> {
+  const parser = ROW_PARSERS[fileName]();
+  const feed = createLineFeeder(parser);
+
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    feed(line);
+  }
+
+  return parser.finish();
+}
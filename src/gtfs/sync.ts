@@ -6,26 +6,21 @@
  * Uses yauzl-promise for proper ZIP extraction.
  */
 
-import { existsSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { createWriteStream, existsSync } from 'node:fs';
 import { mkdir, readFile, writeFile, unlink } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
 
 import * as yauzl from 'yauzl-promise';
 
-import type { CityId, Route, Stop, Trip, ShapePoint, Calendar, CalendarDate, Agency, StopTime, SyncResult } from '../types.js';
+import type { CityId, Route, Stop, Trip, ShapePoint, Calendar, CalendarDate, Agency, StopTime, RoutePattern, SyncResult } from '../types.js';
 import { CITY_CONFIGS } from '../config.js';
 import { GtfsSyncError } from '../errors.js';
-import { 
-  parseRoutesContent, 
-  parseStopsContent,
-  parseTripsContent,
-  parseShapesContent,
-  parseCalendarContent,
-  parseCalendarDatesContent,
-  parseAgencyContent,
-  parseStopTimesContent,
-} from './parser.js';
+import { HttpClient, type HttpResponse } from '../http/http-client.js';
+import { parseGtfsFileStream } from './parser.js';
+import { extractRoutePatterns } from '../schedule/route-patterns.js';
 
 // =============================================================================
 // Cache Types
@@ -37,6 +32,10 @@ import {
 interface CacheMeta {
   /** Last-Modified header from server */
   lastModified: string | null;
+  /** ETag header from server (absent in caches synced before conditional requests) */
+  etag?: string | null;
+  /** SHA-256 of the downloaded ZIP, for servers without validators (absent in older caches) */
+  contentHash?: string;
   /** When cache was synced */
   syncedAt: string;
   /** Number of routes in cache */
@@ -55,6 +54,8 @@ interface CacheMeta {
   agencyCount: number;
   /** Number of stop times in cache */
   stopTimeCount: number;
+  /** Number of route patterns in cache (absent in caches synced before patterns existed) */
+  patternCount?: number;
 }
 
 /**
@@ -70,6 +71,7 @@ export interface GtfsCache {
   readonly calendarDates: CalendarDate[];
   readonly agencies: Agency[];
   readonly stopTimes: Map<string, StopTime[]>;
+  readonly patterns: Map<string, RoutePattern[]>;
 }
 
 // =============================================================================
@@ -91,6 +93,9 @@ export interface SyncOptions {
   
   /** Force re-download even if cache is current */
   force?: boolean;
+  
+  /** HTTP client for requests (default: a client with default retries using global fetch) */
+  http?: HttpClient;
 }
 
 // =============================================================================
@@ -121,14 +126,35 @@ async function ensureDir(dir: string): Promise<void> {
 }
 
 /**
- * Read a stream to string.
+ * Write a stream to a file and return the SHA-256 of its content.
  */
-async function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
-  const chunks: Buffer[] = [];
-  for await (const chunk of stream) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-  }
-  return Buffer.concat(chunks).toString('utf-8');
+async function writeHashed(body: AsyncIterable<Uint8Array>, path: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(
+    body,
+    async function* (chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+      for await (const chunk of chunks) {
+        hash.update(chunk);
+        yield chunk;
+      }
+    },
+    createWriteStream(path)
+  );
+  return hash.digest('hex');
+}
+
+/**
+ * Build the result of a sync that found the cache current.
+ */
+function upToDateResult(city: CityId, meta: CacheMeta): SyncResult {
+  return {
+    city,
+    status: 'up-to-date',
+    routeCount: meta.routeCount,
+    stopCount: meta.stopCount,
+    lastModified: meta.lastModified,
+    syncedAt: new Date(meta.syncedAt),
+  };
 }
 
 /**
@@ -372,6 +398,33 @@ async function saveStopTimes(cacheDir: string, city: CityId, stopTimes: Map<stri
   await writeFile(join(cityDir, 'stop_times.json'), JSON.stringify(entries));
 }
 
+// =============================================================================
+// Route Patterns Cache Functions
+// =============================================================================
+
+export async function loadCachedPatterns(cacheDir: string, city: CityId): Promise<Map<string, RoutePattern[]> | null> {
+  const patternsPath = join(cacheDir, city, 'patterns.json');
+  
+  if (!existsSync(patternsPath)) {
+    return null;
+  }
+  
+  try {
+    const content = await readFile(patternsPath, 'utf-8');
+    const entries = JSON.parse(content) as [string, RoutePattern[]][];
+    return new Map(entries);
+  } catch {
+    return null;
+  }
+}
+
+async function savePatterns(cacheDir: string, city: CityId, patterns: Map<string, RoutePattern[]>): Promise<void> {
+  const cityDir = join(cacheDir, city);
+  await ensureDir(cityDir);
+  const entries = Array.from(patterns.entries());
+  await writeFile(join(cityDir, 'patterns.json'), JSON.stringify(entries));
+}
+
 // =============================================================================
 // Main Sync Function
 // =============================================================================
@@ -379,8 +432,11 @@ async function saveStopTimes(cacheDir: string, city: CityId, stopTimes: Map<stri
 /**
  * Sync GTFS data for a city.
  * 
- * Downloads the GTFS ZIP archive if newer than cached version,
- * extracts routes.txt and stops.txt, and caches the parsed data.
+ * Downloads the GTFS ZIP archive with a conditional GET, so an unchanged
+ * feed is answered with 304 Not Modified. For servers that send no
+ * `ETag` or `Last-Modified`, an archive identical to the cached one (by
+ * SHA-256) is not parsed again. Otherwise parses the archive and caches
+ * the parsed data.
  * 
  * @param city - City to sync
  * @param options - Sync options
@@ -392,6 +448,7 @@ export async function syncGtfs(city: CityId, options: SyncOptions = {}): Promise
     timeout = DEFAULT_TIMEOUT,
     userAgent = DEFAULT_USER_AGENT,
     force = false,
+    http = new HttpClient({ userAgent }),
   } = options;
 
   const config = CITY_CONFIGS[city];
@@ -403,62 +460,21 @@ export async function syncGtfs(city: CityId, options: SyncOptions = {}): Promise
   const gtfsUrl = config.gtfs.url;
 
   try {
-    // Check Last-Modified header
-    const headController = new AbortController();
-    const headTimeout = setTimeout(() => { headController.abort(); }, timeout);
-    
-    let remoteLastModified: string | null = null;
-    
-    try {
-      const headResp = await fetch(gtfsUrl, {
-        method: 'HEAD',
-        headers: { 'User-Agent': userAgent },
-        signal: headController.signal,
-      });
-      remoteLastModified = headResp.headers.get('Last-Modified');
-    } finally {
-      clearTimeout(headTimeout);
-    }
-
-    // Check if cache is current
     const cachedMeta = await loadCacheMeta(cacheDir, city);
-    
-    if (!force && cachedMeta?.lastModified === remoteLastModified && remoteLastModified !== null) {
-      // Cache is current
-      return {
-        city,
-        status: 'up-to-date',
-        routeCount: cachedMeta.routeCount,
-        stopCount: cachedMeta.stopCount,
-        lastModified: cachedMeta.lastModified,
-        syncedAt: new Date(cachedMeta.syncedAt),
-      };
-    }
 
-    // Download ZIP
-    const downloadController = new AbortController();
-    const downloadTimeout = setTimeout(() => { downloadController.abort(); }, timeout * 3);
-    
-    let zipBuffer: Buffer;
-    
-    try {
-      const response = await fetch(gtfsUrl, {
-        headers: { 'User-Agent': userAgent },
-        signal: downloadController.signal,
-      });
-      
-      if (!response.ok) {
-        throw new GtfsSyncError(city, `HTTP ${String(response.status)}: ${response.statusText}`);
-      }
-      
-      zipBuffer = Buffer.from(await response.arrayBuffer());
-    } finally {
-      clearTimeout(downloadTimeout);
+    // Conditional GET with the validators of the cached download
+    const headers: Record<string, string> = {};
+    if (!force && cachedMeta) {
+      const cachedEtag = cachedMeta.etag ?? null;
+      if (cachedEtag !== null) headers['If-None-Match'] = cachedEtag;
+      if (cachedMeta.lastModified !== null) headers['If-Modified-Since'] = cachedMeta.lastModified;
     }
 
-    // Save to temp file for yauzl
+    // The archive is streamed to a temp file for yauzl and hashed on the
+    // way, so it is never held in memory
     const tempPath = join(tmpdir(), `gtfs-${city}-${String(Date.now())}.zip`);
-    await writeFile(tempPath, zipBuffer);
+    let contentHash = '';
+    let response: HttpResponse;
 
     let routes = new Map<string, Route>();
     let stops: Stop[] = [];
@@ -470,38 +486,64 @@ export async function syncGtfs(city: CityId, options: SyncOptions = {}): Promise
     let stopTimes = new Map<string, StopTime[]>();
 
     try {
+      response = await http.request(gtfsUrl, {
+        timeoutMs: timeout * 3,
+        conditional: false,
+        headers,
+        sink: async body => { contentHash = await writeHashed(body, tempPath); },
+      });
+
+      if (response.status === 304 && cachedMeta) {
+        return upToDateResult(city, cachedMeta);
+      }
+      
+      if (!response.ok) {
+        throw new GtfsSyncError(city, `HTTP ${String(response.status)}: ${response.statusText}`);
+      }
+
+      // Servers without validators (e.g. visimarsrutai.lt) send the full feed
+      // every time; an identical archive does not need parsing again
+      if (!force && cachedMeta?.contentHash === contentHash) {
+        const meta: CacheMeta = {
+          ...cachedMeta,
+          lastModified: response.headers.get('Last-Modified'),
+          etag: response.headers.get('ETag'),
+        };
+        await saveCacheMeta(cacheDir, city, meta);
+        return upToDateResult(city, meta);
+      }
+
       // Extract with yauzl
       const zip = await yauzl.open(tempPath);
       
       try {
+        // Entries are parsed line by line as they are inflated, so no file
+        // is ever held in memory as text
         for await (const entry of zip) {
-          const stream = await entry.openReadStream();
-          const content = await streamToString(stream);
-          
           switch (entry.filename) {
             case 'routes.txt':
-              routes = parseRoutesContent(content);
+              routes = await parseGtfsFileStream('routes.txt', await entry.openReadStream());
               break;
             case 'stops.txt':
-              stops = parseStopsContent(content);
+              stops = await parseGtfsFileStream('stops.txt', await entry.openReadStream());
               break;
             case 'trips.txt':
-              trips = parseTripsContent(content);
+              trips = await parseGtfsFileStream('trips.txt', await entry.openReadStream());
               break;
             case 'shapes.txt':
-              shapes = parseShapesContent(content);
+              shapes = await parseGtfsFileStream('shapes.txt', await entry.openReadStream());
               break;
             case 'calendar.txt':
-              calendar = parseCalendarContent(content);
+              calendar = await parseGtfsFileStream('calendar.txt', await entry.openReadStream());
               break;
             case 'calendar_dates.txt':
-              calendarDates = parseCalendarDatesContent(content);
+              calendarDates = await parseGtfsFileStream('calendar_dates.txt', await entry.openReadStream());
               break;
             case 'agency.txt':
-              agencies = parseAgencyContent(content);
+              agencies = await parseGtfsFileStream('agency.txt', await entry.openReadStream());
               break;
             case 'stop_times.txt':
-              stopTimes = parseStopTimesContent(content);
+              stopTimes = await parseGtfsFileStream('stop_times.txt', await entry.openReadStream());
               break;
           }
         }
@@ -517,16 +559,28 @@ export async function syncGtfs(city: CityId, options: SyncOptions = {}): Promise
       }
     }
 
+    const remoteLastModified = response.headers.get('Last-Modified');
+    const remoteEtag = response.headers.get('ETag');
+
     // Count stop times (sum of all arrays)
     let stopTimeCount = 0;
     for (const times of stopTimes.values()) {
       stopTimeCount += times.length;
     }
 
+    // Derive stop patterns once, rather than on every query
+    const patterns = extractRoutePatterns(trips, stopTimes);
+    let patternCount = 0;
+    for (const routePatterns of patterns.values()) {
+      patternCount += routePatterns.length;
+    }
+
     // Save to cache
     const syncedAt = new Date();
     const meta: CacheMeta = {
       lastModified: remoteLastModified,
+      etag: remoteEtag,
+      contentHash,
       syncedAt: syncedAt.toISOString(),
       routeCount: routes.size,
       stopCount: stops.length,
@@ -536,6 +590,7 @@ export async function syncGtfs(city: CityId, options: SyncOptions = {}): Promise
       calendarDateCount: calendarDates.length,
       agencyCount: agencies.length,
       stopTimeCount,
+      patternCount,
     };
 
     await saveCacheMeta(cacheDir, city, meta);
@@ -547,6 +602,7 @@ export async function syncGtfs(city: CityId, options: SyncOptions = {}): Promise
     await saveCalendarDates(cacheDir, city, calendarDates);
     await saveAgencies(cacheDir, city, agencies);
     await saveStopTimes(cacheDir, city, stopTimes);
+    await savePatterns(cacheDir, city, patterns);
 
     return {
       city,
@@ -599,6 +655,7 @@ export async function loadGtfsCache(city: CityId, cacheDir?: string): Promise<Gt
   const calendarDates = await loadCachedCalendarDates(dir, city) ?? [];
   const agencies = await loadCachedAgencies(dir, city) ?? [];
   const stopTimes = await loadCachedStopTimes(dir, city) ?? new Map<string, StopTime[]>();
+  const patterns = await loadCachedPatterns(dir, city) ?? extractRoutePatterns(trips, stopTimes);
   
   return { 
     meta, 
@@ -610,5 +667,6 @@ export async function loadGtfsCache(city: CityId, cacheDir?: string): Promise<Gt
     calendarDates,
     agencies,
     stopTimes,
+    patterns,
   };
 }
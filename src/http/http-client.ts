@@ -0,0 +1,253 @@
+/**
+ * HTTP client with retries and conditional requests
+ * @module http/http-client
+ *
+ * Wraps a `fetch`-compatible function with per-attempt timeouts, retries
+ * with exponential backoff on network errors and 5xx responses, and
+ * revalidation of repeated requests with `ETag` / `If-Modified-Since`.
+ * Inject a custom `fetch` to route requests through a proxy or to test
+ * without the network.
+ */
+
+import { Readable } from 'node:stream';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A `fetch`-compatible function. The global `fetch` satisfies it.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Retry settings for failed requests.
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 2) */
+  retries?: number;
+
+  /** Delay before the first retry, doubled for each further one (default: 500 ms) */
+  minDelayMs?: number;
+
+  /** Upper bound for the delay between retries (default: 5 seconds) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for the HTTP client.
+ */
+export interface HttpClientOptions {
+  /** Function performing the requests (default: global `fetch`) */
+  fetch?: FetchFunction;
+
+  /** User-Agent header sent with every request */
+  userAgent?: string;
+
+  /** Retry settings */
+  retry?: RetryOptions;
+
+  /** Revalidate repeated GET requests with the previous response's validators (default: true) */
+  conditionalRequests?: boolean;
+}
+
+/**
+ * Options for a single request.
+ */
+export interface HttpRequestOptions {
+  /** HTTP method (default: 'GET') */
+  method?: 'GET' | 'HEAD';
+
+  /** Timeout of each attempt in milliseconds */
+  timeoutMs: number;
+
+  /** Revalidate with the previous response of this URL (default: client setting) */
+  conditional?: boolean;
+
+  /** Extra request headers, e.g. validators kept by the caller */
+  headers?: Record<string, string>;
+
+  /**
+   * Consumer of the body of a 2xx response, e.g. a file writer, so large
+   * downloads are never held in memory. The response's `body` is then
+   * empty. Called again for each retry. Other responses are read as usual.
+   */
+  sink?: (body: AsyncIterable<Uint8Array>) => Promise<void>;
+}
+
+/**
+ * Response with its body read.
+ */
+export interface HttpResponse {
+  /** HTTP status; 304 responses report the status of the cached response */
+  readonly status: number;
+
+  /** HTTP status text */
+  readonly statusText: string;
+
+  /** Whether the status is 2xx */
+  readonly ok: boolean;
+
+  /** Response headers */
+  readonly headers: Headers;
+
+  /** Response body; empty if it was passed to a sink */
+  readonly body: Uint8Array;
+
+  /** Server time from the Date header, or the client time if there is none */
+  readonly serverTime: Date;
+
+  /**
+   * Whether the server answered 304. When the client revalidated its own
+   * previous response, the body is that response's; otherwise it is empty.
+   */
+  readonly notModified: boolean;
+}
+
+/**
+ * Last response of a URL kept for revalidation.
+ */
+interface CachedResponse {
+  readonly etag: string | null;
+  readonly lastModified: string | null;
+  readonly response: HttpResponse;
+}
+
+const DEFAULT_USER_AGENT = 'lt-public-transport-sdk/1.0.0';
+const DEFAULT_RETRIES = 2;
+const DEFAULT_MIN_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+// =============================================================================
+// Client
+// =============================================================================
+
+/**
+ * Performs HTTP requests with retries and conditional revalidation.
+ *
+ * Non-2xx responses are returned, not thrown, once retries are exhausted;
+ * network errors and timeouts are thrown after the last attempt.
+ *
+ * @example
+ * const http = new HttpClient({ retry: { retries: 3 } });
+ * const response = await http.request('https://www.stops.lt/vilnius/gps_full.txt', { timeoutMs: 10_000 });
+ * if (response.notModified) console.log('GPS data did not change');
+ */
+export class HttpClient {
+  private readonly fetch: FetchFunction;
+  private readonly userAgent: string;
+  private readonly retries: number;
+  private readonly minDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly conditionalRequests: boolean;
+  private readonly cache = new Map<string, CachedResponse>();
+
+  /**
+   * @param options - Transport, retry and revalidation settings
+   */
+  constructor(options: HttpClientOptions = {}) {
+    this.fetch = options.fetch ?? ((url, init): Promise<Response> => fetch(url, init));
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    this.retries = Math.max(0, Math.floor(options.retry?.retries ?? DEFAULT_RETRIES));
+    this.minDelayMs = options.retry?.minDelayMs ?? DEFAULT_MIN_DELAY_MS;
+    this.maxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.conditionalRequests = options.conditionalRequests ?? true;
+  }
+
+  /**
+   * Request a URL, retrying network errors and 5xx responses.
+   *
+   * @param url - URL to request
+   * @param options - Method, timeout and revalidation
+   * @returns Response with the body read
+   * @throws {Error} The last network error or timeout if every attempt failed
+   */
+  async request(url: string, options: HttpRequestOptions): Promise<HttpResponse> {
+    const method = options.method ?? 'GET';
+    const conditional = method === 'GET' && (options.conditional ?? this.conditionalRequests);
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= this.retries;
+
+      try {
+        const response = await this.attempt(url, method, options, conditional);
+        if (response.status < 500 || isLastAttempt) {
+          return response;
+        }
+      } catch (error) {
+        if (isLastAttempt) throw error;
+      }
+
+      await sleep(Math.min(this.minDelayMs * 2 ** attempt, this.maxDelayMs));
+    }
+  }
+
+  /**
+   * Forget the responses kept for revalidation.
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async attempt(
+    url: string,
+    method: 'GET' | 'HEAD',
+    options: HttpRequestOptions,
+    conditional: boolean
+  ): Promise<HttpResponse> {
+    const headers: Record<string, string> = { 'User-Agent': this.userAgent, ...options.headers };
+    const cached = conditional ? this.cache.get(url) : undefined;
+    if (cached !== undefined) {
+      if (cached.etag !== null) headers['If-None-Match'] = cached.etag;
+      if (cached.lastModified !== null) headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => { controller.abort(); }, options.timeoutMs);
+
+    try {
+      const raw = await this.fetch(url, { method, headers, signal: controller.signal });
+
+      const dateHeader = raw.headers.get('date');
+      const serverTime = dateHeader !== null ? new Date(dateHeader) : new Date();
+
+      if (raw.status === 304 && cached !== undefined) {
+        return { ...cached.response, serverTime, notModified: true };
+      }
+
+      const sink = raw.ok ? options.sink : undefined;
+      let body: Uint8Array;
+      if (sink !== undefined) {
+        await sink(raw.body ?? Readable.from([]));
+        body = new Uint8Array(0);
+      } else {
+        body = new Uint8Array(await raw.arrayBuffer());
+      }
+
+      const response: HttpResponse = {
+        status: raw.status,
+        statusText: raw.statusText,
+        ok: raw.ok,
+        headers: raw.headers,
+        body,
+        serverTime,
+        notModified: raw.status === 304,
+      };
+
+      const etag = raw.headers.get('etag');
+      const lastModified = raw.headers.get('last-modified');
+      if (conditional && raw.status === 200 && sink === undefined) {
+        if (etag !== null || lastModified !== null) {
+          this.cache.set(url, { etag, lastModified, response });
+        } else {
+          this.cache.delete(url);
+        }
+      }
+
+      return response;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * HTTP module exports
+ * @module http
+ */
+
+export {
+  HttpClient,
+  type FetchFunction,
+  type RetryOptions,
+  type HttpClientOptions,
+  type HttpRequestOptions,
+  type HttpResponse,
+} from './http-client.js';
@@ -26,16 +26,18 @@
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 
-import type { CityId, Route, Stop, Trip, ShapePoint, Calendar, CalendarDate, Agency, StopTime, SyncResult, Vehicle } from './types.js';
+import type { CityId, Route, Stop, Trip, ShapePoint, Calendar, CalendarDate, Agency, StopTime, SyncResult, Vehicle, Departure, PredictedArrival, Journey, NearbyStop, NearbyStopsOptions, NearbyVehicle, StopMatch, RouteDetails, RoutePattern, StopTimetable, ScheduledHeadways, SpacingAlert, VehicleType } from './types.js';
 import { CITY_CONFIGS, ALL_CITY_IDS, type CityConfig } from './config.js';
 import {
   TransportNetworkError,
   GpsNotAvailableError,
   SyncRequiredError,
   InvalidCityError,
+  ParseError,
 } from './errors.js';
 import { parseGpsFullStream } from './parsers/gps-full.js';
 import { parseGpsLiteStream, getLiteFormatDescriptor } from './parsers/gps-lite.js';
+import { parseGtfsRtVehiclePositions } from './parsers/gtfs-rt.js';
 import { 
   syncGtfs, 
   loadGtfsCache, 
@@ -47,9 +49,39 @@ import {
   loadCachedCalendarDates,
   loadCachedAgencies,
   loadCachedStopTimes,
+  loadCachedPatterns,
 } from './gtfs/sync.js';
 import { enrichVehicles, buildRouteCache, type RouteCache } from './enrichment/route-matcher.js';
+import { buildScheduleIndex, type ScheduleIndex } from './schedule/schedule-index.js';
+import { findDepartures, type DepartureOptions } from './schedule/departures.js';
+import { findRoute, buildRouteDetails } from './schedule/route-details.js';
+import { extractRoutePatterns } from './schedule/route-patterns.js';
+import { buildStopTimetable, type StopTimetableOptions } from './timetable/timetable.js';
+import { computeScheduledHeadways, type ScheduledHeadwayOptions } from './analytics/headways.js';
+import { buildRoutePaths, detectSpacingAlerts, type RoutePath, type SpacingAlertOptions } from './analytics/bunching.js';
+import { predictArrivals } from './schedule/predictions.js';
+import { buildTripCache, type TripCache } from './enrichment/trip-profile.js';
+import { enrichVehicleTrips, matchVehicleTrips, type VehicleTripMatch } from './enrichment/trip-matcher.js';
+import { estimateVehicleDelays } from './enrichment/delay-estimator.js';
+import { VehicleWatcher, type VehicleSnapshot, type WatchVehiclesOptions } from './live/vehicle-watcher.js';
+import {
+  fetchVehiclesForCities,
+  type VehiclesForCitiesOptions,
+  type VehiclesForCitiesResult,
+} from './live/multi-city.js';
+import { findVehiclesNear, findVehiclesInBounds } from './live/vehicle-filters.js';
+import { VehicleRecorder, type RecordVehiclesOptions } from './recorder/recorder.js';
+import type { VehicleStore } from './recorder/store.js';
+import type { ReplaySource } from './replay/replay-source.js';
+import { HttpClient, type FetchFunction, type HttpResponse, type RetryOptions } from './http/http-client.js';
+import { buildServiceCalendar, getActiveServiceIds } from './schedule/service-calendar.js';
+import { buildTransitNetwork, type TransitNetwork } from './planner/network.js';
+import { planJourney, type JourneyOptions } from './planner/journey-planner.js';
+import { buildMultiFeedNetwork, type FeedSource } from './planner/multi-feed.js';
 import { clientConfigSchema } from './schemas.js';
+import { buildSpatialIndex, findWithinRadius, type SpatialIndex } from './utils/spatial-index.js';
+import { buildStopSearchIndex, searchStops, type StopSearchIndex, type StopSearchOptions } from './search/stop-search.js';
+import type { BoundingBox } from './utils/coordinates.js';
 
 // =============================================================================
 // Configuration Types
@@ -102,6 +134,69 @@ export interface LtTransportConfig {
    */
   filterStale?: boolean;
   
+  /**
+   * Whether to infer GTFS trips for vehicles whose feed has no trip reference
+   * (every city except Vilnius). Fills `gtfsTripId` when a confident match is found.
+   * Requires prior sync() call and loads the full schedule into memory.
+   * @default false
+   */
+  matchTrips?: boolean;
+  
+  /**
+   * Whether to estimate `delaySeconds` for vehicles with a GTFS trip but no
+   * reported delay, by projecting their position onto the trip's shape.
+   * Combine with `matchTrips` to cover cities without a trip reference.
+   * Requires prior sync() call and loads the full schedule into memory.
+   * @default false
+   */
+  estimateDelays?: boolean;
+  
+  /**
+   * Serve GPS data from captured payloads instead of the live streams.
+   * `getVehicles()`, watchers and recorders then return the payloads that
+   * were current at the replay's virtual time. GTFS sync is not affected.
+   * 
+   * @example
+   * ```typescript
+   * const replay = new ReplaySource({ directory: './replays', speed: 10 });
+   * const transport = new LtTransport({ replay });
+   * ```
+   */
+  replay?: ReplaySource;
+  
+  /**
+   * `fetch`-compatible function used for all HTTP requests.
+   * Inject one to route requests through a proxy, add instrumentation, or
+   * test the client without the network.
+   * @default globalThis.fetch
+   * 
+   * @example
+   * ```typescript
+   * import { fetch, ProxyAgent } from 'undici';
+   * 
+   * const dispatcher = new ProxyAgent('http://proxy.local:3128');
+   * const transport = new LtTransport({
+   *   fetch: (url, init) => fetch(url, { ...init, dispatcher }),
+   * });
+   * ```
+   */
+  fetch?: FetchFunction;
+  
+  /**
+   * Retries of requests that fail with a network error, a timeout or a 5xx
+   * status, with exponential backoff between attempts.
+   * @default { retries: 2, minDelayMs: 500, maxDelayMs: 5000 }
+   */
+  retry?: RetryOptions;
+  
+  /**
+   * Whether to revalidate repeated GPS requests with `If-None-Match` /
+   * `If-Modified-Since`. Unchanged streams are answered with 304 and parsed
+   * from the previous body.
+   * @default true
+   */
+  conditionalRequests?: boolean;
+  
   // ===========================================================================
   // Extension Points
   // ===========================================================================
@@ -191,6 +286,10 @@ export class LtTransport {
   private readonly autoEnrich: boolean;
   private readonly filterInvalidCoords: boolean;
   private readonly filterStale: boolean;
+  private readonly matchTrips: boolean;
+  private readonly estimateDelays: boolean;
+  private readonly replay: ReplaySource | null;
+  private readonly http: HttpClient;
   
   /** 
    * Effective city configurations (built-in + custom + overrides merged).
@@ -204,6 +303,30 @@ export class LtTransport {
   /** In-memory route cache for fast enrichment */
   private readonly routeCaches = new Map<string, RouteCache>();
   
+  /** In-memory schedule index for stop-centric schedule queries */
+  private readonly scheduleIndexes = new Map<string, ScheduleIndex>();
+  
+  /** In-memory trip geometry cache for trip matching */
+  private readonly tripCaches = new Map<string, TripCache>();
+  
+  /** In-memory stop patterns per route */
+  private readonly routePatterns = new Map<string, Map<string, RoutePattern[]>>();
+  
+  /** In-memory spatial indexes of stops for nearby queries */
+  private readonly stopIndexes = new Map<string, SpatialIndex<Stop>>();
+  
+  /** In-memory stop name indexes for stop search */
+  private readonly stopSearchIndexes = new Map<string, StopSearchIndex>();
+  
+  /** In-memory route paths for spacing alerts, by route ID */
+  private readonly routePaths = new Map<string, Map<string, RoutePath[]>>();
+  
+  /** In-memory connection networks for journey planning */
+  private readonly transitNetworks = new Map<string, TransitNetwork>();
+  
+  /** In-memory merged networks for cross-city journey planning, keyed by city list */
+  private readonly multiCityNetworks = new Map<string, TransitNetwork>();
+  
   /** Last sync timestamps for throttling */
   private readonly lastSyncTimes = new Map<string, number>();
 
@@ -224,6 +347,12 @@ export class LtTransport {
       autoEnrich: config.autoEnrich ?? true,
       filterInvalidCoords: config.filterInvalidCoords ?? true,
       filterStale: config.filterStale ?? false,
+      matchTrips: config.matchTrips ?? false,
+      estimateDelays: config.estimateDelays ?? false,
+      replay: config.replay,
+      fetch: config.fetch,
+      retry: config.retry,
+      conditionalRequests: config.conditionalRequests ?? true,
       customCities: config.customCities,
       cityOverrides: config.cityOverrides,
     });
@@ -235,6 +364,15 @@ export class LtTransport {
     this.autoEnrich = validated.autoEnrich;
     this.filterInvalidCoords = validated.filterInvalidCoords;
     this.filterStale = validated.filterStale;
+    this.matchTrips = validated.matchTrips;
+    this.estimateDelays = validated.estimateDelays;
+    this.replay = validated.replay ?? null;
+    this.http = new HttpClient({
+      userAgent: this.userAgent,
+      conditionalRequests: validated.conditionalRequests,
+      ...(validated.fetch && { fetch: validated.fetch }),
+      ...(validated.retry && { retry: validated.retry }),
+    });
     
     // Build effective city configurations by merging:
     // 1. Built-in CITY_CONFIGS
@@ -318,6 +456,7 @@ export class LtTransport {
    * @returns Array of vehicle positions
    * @throws {GpsNotAvailableError} If city has no GPS data (bronze tier)
    * @throws {TransportNetworkError} If network request fails
+   * @throws {ParseError} If a GTFS-Realtime feed cannot be decoded
    * @throws {InvalidCityError} If city is not recognized
    * 
    * @example
@@ -327,6 +466,131 @@ export class LtTransport {
    * ```
    */
   async getVehicles(city: string): Promise<Vehicle[]> {
+    const { vehicles } = await this.fetchVehicles(city);
+    return vehicles;
+  }
+
+  /**
+   * Get real-time vehicles within a radius of a position.
+   * 
+   * Fetches the city's vehicles (see `getVehicles()`) and keeps those
+   * within `radiusMeters`, measured by great-circle distance.
+   * 
+   * @param city - City identifier (built-in or custom)
+   * @param latitude - Latitude of the position in WGS84 decimal degrees
+   * @param longitude - Longitude of the position in WGS84 decimal degrees
+   * @param radiusMeters - Search radius in meters (default: 500)
+   * @returns Vehicles with distance and bearing from the position, nearest first
+   * @throws {GpsNotAvailableError} If city has no GPS data (bronze tier)
+   * @throws {TransportNetworkError} If network request fails
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * const nearby = await transport.getVehiclesNear('vilnius', 54.6872, 25.2797, 1000);
+   * for (const v of nearby) {
+   *   console.log(`${v.route} ${Math.round(v.distanceMeters)} m at ${v.bearingFromPosition}°`);
+   * }
+   * ```
+   */
+  async getVehiclesNear(
+    city: string,
+    latitude: number,
+    longitude: number,
+    radiusMeters = 500
+  ): Promise<NearbyVehicle[]> {
+    return findVehiclesNear(await this.getVehicles(city), latitude, longitude, radiusMeters);
+  }
+
+  /**
+   * Get real-time vehicles inside a bounding box, such as a map viewport.
+   * 
+   * @param city - City identifier (built-in or custom)
+   * @param bounds - Bounding box in WGS84 decimal degrees, edges inclusive
+   * @returns Vehicles inside the box
+   * @throws {GpsNotAvailableError} If city has no GPS data (bronze tier)
+   * @throws {TransportNetworkError} If network request fails
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * const visible = await transport.getVehiclesInBounds('vilnius', {
+   *   latMin: 54.67, latMax: 54.70, lonMin: 25.25, lonMax: 25.30,
+   * });
+   * ```
+   */
+  async getVehiclesInBounds(city: string, bounds: BoundingBox): Promise<Vehicle[]> {
+    return findVehiclesInBounds(await this.getVehicles(city), bounds);
+  }
+
+  /**
+   * Get real-time vehicle positions for several cities at once.
+   * 
+   * Cities are fetched in parallel with at most `concurrency` requests in
+   * flight. Failures are reported per city instead of failing the batch:
+   * an unknown city yields `InvalidCityError`, a bronze-tier city
+   * `GpsNotAvailableError`, an unreachable stream `TransportNetworkError`.
+   * 
+   * @param cities - City identifiers, or `'all-gps'` for every configured city with GPS data
+   * @param options - Concurrency limit
+   * @returns Vehicles and errors keyed by city
+   * 
+   * @example
+   * ```typescript
+   * const { vehicles, errors } = await transport.getVehiclesForCities('all-gps');
+   * for (const [city, list] of vehicles) {
+   *   console.log(`${city}: ${list.length} vehicles`);
+   * }
+   * for (const [city, error] of errors) {
+   *   console.warn(`${city} failed: ${error.message}`);
+   * }
+   * ```
+   */
+  async getVehiclesForCities(
+    cities: readonly string[] | 'all-gps',
+    options: VehiclesForCitiesOptions = {}
+  ): Promise<VehiclesForCitiesResult> {
+    const targets = cities === 'all-gps'
+      ? this.effectiveCityIds.filter(id => {
+          const config = this.getEffectiveCityConfig(id);
+          return config !== undefined && config.gps.enabled && config.gps.url !== null;
+        })
+      : cities;
+
+    return fetchVehiclesForCities(targets, city => this.getVehicles(city), options);
+  }
+
+  /**
+   * Watch real-time vehicle positions of a city.
+   * 
+   * Polls the GPS stream every `intervalMs` and reports changes keyed by
+   * `Vehicle.id`, as events (`added`, `updated`, `removed`, `update`) and
+   * as an async iterator of per-poll updates. Network errors are retried
+   * with exponential backoff; other errors stop the watcher.
+   * 
+   * @param city - City identifier (built-in or custom)
+   * @param options - Polling interval, backoff limit and abort signal
+   * @returns Running watcher
+   * @throws {InvalidCityError} If city is not recognized
+   * @throws {GpsNotAvailableError} If city has no GPS data (bronze tier)
+   * 
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const watcher = transport.watchVehicles('vilnius', {
+   *   intervalMs: 5000,
+   *   signal: controller.signal,
+   * });
+   * 
+   * watcher.on('updated', (vehicle) => console.log(vehicle.id, vehicle.latitude));
+   * 
+   * // or
+   * for await (const update of watcher) {
+   *   console.log(`${update.added.length} added, ${update.removed.length} removed`);
+   * }
+   * ```
+   */
+  watchVehicles(city: string, options: WatchVehiclesOptions = {}): VehicleWatcher {
     const config = this.getEffectiveCityConfig(city);
     
     if (!config) {
@@ -337,21 +601,112 @@ export class LtTransport {
       throw new GpsNotAvailableError(city);
     }
 
-    // Fetch GPS data
-    const { text, serverTime } = await this.fetchText(config.gps.url, city);
+    return new VehicleWatcher(city, () => this.fetchVehicles(city), options);
+  }
+
+  /**
+   * Record vehicle positions of several cities into a store.
+   * 
+   * Polls each city's GPS stream every `intervalMs` and appends the
+   * snapshot to the store, building a position history for punctuality
+   * reports and debugging. A failed poll is reported as an `error` event
+   * and retried on the next interval; a failed write stops the recorder.
+   * 
+   * @param cities - City identifiers (built-in or custom)
+   * @param store - Where snapshots are written: `MemoryVehicleStore`,
+   *   `NdjsonVehicleStore`, `SqliteVehicleStore` or a custom `VehicleStore`
+   * @param options - Polling interval, concurrency and abort signal
+   * @returns Running recorder
+   * @throws {InvalidCityError} If a city is not recognized
+   * @throws {GpsNotAvailableError} If a city has no GPS data (bronze tier)
+   * 
+   * @example
+   * ```typescript
+   * const store = new NdjsonVehicleStore({ directory: './recordings' });
+   * const recorder = transport.recordVehicles(['vilnius', 'kaunas'], store, {
+   *   intervalMs: 15_000,
+   * });
+   * 
+   * recorder.on('error', (error, city) => console.warn(city, error.message));
+   * 
+   * // later
+   * await recorder.stop();
+   * for await (const snapshot of store.read({ city: 'vilnius' })) {
+   *   console.log(snapshot.recordedAt, snapshot.vehicles.length);
+   * }
+   * ```
+   */
+  recordVehicles(
+    cities: readonly string[],
+    store: VehicleStore,
+    options: RecordVehiclesOptions = {}
+  ): VehicleRecorder {
+    for (const city of cities) {
+      const config = this.getEffectiveCityConfig(city);
+      
+      if (!config) {
+        throw new InvalidCityError(city);
+      }
+      
+      if (!config.gps.enabled || config.gps.url === null) {
+        throw new GpsNotAvailableError(city);
+      }
+    }
+
+    return new VehicleRecorder(cities, city => this.fetchVehicles(city), store, options);
+  }
+
+  /**
+   * Fetch and parse vehicles of a city together with the server time.
+   */
+  private async fetchVehicles(city: string): Promise<VehicleSnapshot> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    if (!config.gps.enabled || config.gps.url === null) {
+      throw new GpsNotAvailableError(city);
+    }
 
     // Parse based on format
     let vehicles: Vehicle[];
+    let serverTime = new Date();
     
-    if (config.gps.format === 'full') {
+    if (config.gps.format === 'gtfs-rt') {
+      // Standard GTFS-Realtime feed: binary protobuf, routes referenced by route_id
+      const fetched = await this.fetchGpsBytes(config.gps.url, city);
+      serverTime = fetched.serverTime;
+      const routeCache = this.autoEnrich ? await this.getRouteCache(city) : null;
+      
+      try {
+        vehicles = parseGtfsRtVehiclePositions(fetched.bytes, city, {
+          staleThresholdMs: this.staleThresholdMs,
+          filterStale: this.filterStale,
+          filterInvalidCoords: this.filterInvalidCoords,
+          serverTime,
+          ...(routeCache && { routes: routeCache.routes }),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new ParseError(`Invalid GTFS-Realtime feed: ${message}`, city);
+      }
+    } else if (config.gps.format === 'full') {
+      const fetched = await this.fetchGpsText(config.gps.url, city);
+      serverTime = fetched.serverTime;
+      
       // Gold tier: header-based CSV with rich metadata
-      vehicles = parseGpsFullStream(text, city as CityId, {
+      vehicles = parseGpsFullStream(fetched.text, city as CityId, {
         staleThresholdMs: this.staleThresholdMs,
         filterStale: this.filterStale,
         filterInvalidCoords: this.filterInvalidCoords,
         serverTime,
       });
     } else if (config.gps.format === 'lite') {
+      const fetched = await this.fetchGpsText(config.gps.url, city);
+      serverTime = fetched.serverTime;
+      
       // Silver tier: headerless CSV using format descriptor
       const liteFormat = getLiteFormatDescriptor(city, config);
       
@@ -360,7 +715,7 @@ export class LtTransport {
         console.warn(`No lite format descriptor for city: ${city}. Add liteFormat to city config.`);
         vehicles = [];
       } else {
-        vehicles = parseGpsLiteStream(text, city, liteFormat, {
+        vehicles = parseGpsLiteStream(fetched.text, city, liteFormat, {
           filterInvalidCoords: this.filterInvalidCoords,
         });
         
@@ -377,7 +732,124 @@ export class LtTransport {
       vehicles = [];
     }
 
-    return vehicles;
+    // Infer GTFS trips for vehicles without a trip reference
+    if (this.matchTrips && vehicles.some(v => v.gtfsTripId === null)) {
+      const tripCache = await this.getTripCache(city);
+      if (tripCache) {
+        vehicles = enrichVehicleTrips(vehicles, tripCache);
+      }
+    }
+
+    // Estimate schedule deviation for vehicles on a known trip
+    if (this.estimateDelays && vehicles.some(v => v.gtfsTripId !== null && v.delaySeconds === null)) {
+      const tripCache = await this.getTripCache(city);
+      if (tripCache) {
+        vehicles = estimateVehicleDelays(vehicles, tripCache);
+      }
+    }
+
+    return { vehicles, serverTime };
+  }
+
+  /**
+   * Get real-time vehicles together with their inferred GTFS trip matches.
+   * 
+   * Vehicles that already report a GTFS trip (Vilnius) are returned with
+   * `match: null`. Use the match `confidence` to decide how much to trust
+   * the inferred `gtfsTripId`.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City identifier (built-in or custom)
+   * @returns Vehicles paired with their trip matches
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {GpsNotAvailableError} If city has no GPS data (bronze tier)
+   * @throws {TransportNetworkError} If network request fails
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('kaunas');
+   * const matched = await transport.getVehicleTripMatches('kaunas');
+   * for (const { vehicle, match } of matched) {
+   *   console.log(vehicle.route, match?.tripId, match?.confidence);
+   * }
+   * ```
+   */
+  async getVehicleTripMatches(city: string): Promise<VehicleTripMatch[]> {
+    const tripCache = await this.getTripCache(city);
+    
+    if (!tripCache) {
+      throw new SyncRequiredError(city);
+    }
+
+    const vehicles = await this.getVehicles(city);
+    const matches = matchVehicleTrips(vehicles, tripCache);
+
+    return vehicles.map(vehicle => {
+      const match = matches.get(vehicle.id) ?? null;
+      return {
+        vehicle: match !== null && vehicle.gtfsTripId === null
+          ? { ...vehicle, gtfsTripId: match.tripId }
+          : vehicle,
+        match,
+      };
+    });
+  }
+
+  /**
+   * Detect bunched vehicles and large gaps between vehicles of a route.
+   * 
+   * Live vehicles are placed on the path of their route direction (the
+   * GTFS shape, or the line through the stops), and consecutive vehicles
+   * closer than `bunchingMeters` or much further apart than the usual
+   * spacing of the direction are reported.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to check
+   * @param options - Thresholds
+   * @returns Alerts for bunched and widely spaced vehicle pairs
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {GpsNotAvailableError} If city has no GPS data
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('kaunas');
+   * const alerts = await transport.getSpacingAlerts('kaunas', { bunchingMeters: 250 });
+   * for (const alert of alerts) {
+   *   console.log(alert.kind, alert.route, alert.headsign, Math.round(alert.distanceMeters));
+   * }
+   * ```
+   */
+  async getSpacingAlerts(city: string, options: SpacingAlertOptions = {}): Promise<SpacingAlert[]> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = await this.getScheduleIndex(city);
+    const routePaths = await this.getRoutePathCache(city);
+    
+    if (!index || !routePaths) {
+      throw new SyncRequiredError(city);
+    }
+
+    const vehicles = await this.getVehicles(city);
+
+    // Only the routes with vehicles on the road
+    const routeIds = new Set<string>();
+    for (const vehicle of vehicles) {
+      const route = findRoute(index, vehicle.route, vehicle.type === 'unknown' ? undefined : vehicle.type);
+      if (route) {
+        routeIds.add(route.id);
+      }
+    }
+
+    const paths = [...routeIds].flatMap(id => routePaths.get(id) ?? []);
+    return detectSpacingAlerts(vehicles, paths, options);
   }
 
   /**
@@ -431,12 +903,25 @@ export class LtTransport {
       timeout: this.requestTimeout * 3, // Longer timeout for downloads
       userAgent: this.userAgent,
       force,
+      http: this.http,
     });
 
     this.lastSyncTimes.set(city, now);
     
-    // Clear in-memory cache to force reload
+    // Clear in-memory caches to force reload
     this.routeCaches.delete(city);
+    this.scheduleIndexes.delete(city);
+    this.tripCaches.delete(city);
+    this.routePatterns.delete(city);
+    this.routePaths.delete(city);
+    this.stopIndexes.delete(city);
+    this.stopSearchIndexes.delete(city);
+    this.transitNetworks.delete(city);
+    for (const key of this.multiCityNetworks.keys()) {
+      if (key.split(',').includes(city)) {
+        this.multiCityNetworks.delete(key);
+      }
+    }
 
     return result;
   }
@@ -474,6 +959,109 @@ export class LtTransport {
     return stops;
   }
 
+  /**
+   * Get the stops nearest to a position.
+   * 
+   * Uses a spatial index built when the city's stops are first loaded,
+   * so repeated queries (e.g. on every user location update) do not scan
+   * the full stop list.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to search
+   * @param latitude - Latitude in WGS84 decimal degrees
+   * @param longitude - Longitude in WGS84 decimal degrees
+   * @param options - Search radius and result limit
+   * @returns Stops within the radius with their distance, nearest first
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const stops = await transport.getNearbyStops('vilnius', 54.6872, 25.2797, { radiusMeters: 300 });
+   * for (const stop of stops) {
+   *   console.log(`${stop.name}: ${Math.round(stop.distanceMeters)} m`);
+   * }
+   * ```
+   */
+  async getNearbyStops(
+    city: string,
+    latitude: number,
+    longitude: number,
+    options: NearbyStopsOptions = {}
+  ): Promise<NearbyStop[]> {
+    const { radiusMeters = 500, limit = 10 } = options;
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    let index = this.stopIndexes.get(city);
+    
+    if (!index) {
+      const stops = await loadCachedStops(this.cacheDir, city as CityId);
+      
+      if (!stops) {
+        throw new SyncRequiredError(city);
+      }
+      
+      index = buildSpatialIndex(stops);
+      this.stopIndexes.set(city, index);
+    }
+
+    return findWithinRadius(index, latitude, longitude, radiusMeters, limit)
+      .map(({ item, distanceMeters }) => ({ ...item, distanceMeters }));
+  }
+
+  /**
+   * Search stops by name.
+   * 
+   * Matching ignores diacritics and case ("Zalgirio" finds "Žalgirio"),
+   * understands common abbreviations ("g." / "gatvė", "st." / "stotis"),
+   * accepts word prefixes while typing and tolerates small typos. An exact
+   * stop code also matches. Results are ranked by relevance.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to search
+   * @param query - Text typed by the user
+   * @param options - Result limit
+   * @returns Matching stops with a relevance `score`, best first
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const matches = await transport.searchStops('vilnius', 'zalgirio g', { limit: 5 });
+   * console.log(matches.map(stop => stop.name));
+   * ```
+   */
+  async searchStops(city: string, query: string, options: StopSearchOptions = {}): Promise<StopMatch[]> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    let index = this.stopSearchIndexes.get(city);
+    
+    if (!index) {
+      const stops = await loadCachedStops(this.cacheDir, city as CityId);
+      
+      if (!stops) {
+        throw new SyncRequiredError(city);
+      }
+      
+      index = buildStopSearchIndex(stops);
+      this.stopSearchIndexes.set(city, index);
+    }
+
+    return searchStops(index, query, options);
+  }
+
   /**
    * Get route information for a city.
    * 
@@ -519,10 +1107,101 @@ export class LtTransport {
   }
 
   /**
-   * Get list of all available city IDs.
-   * Includes built-in cities and any custom cities added via config.
-   */
-  getCities(): readonly string[] {
+   * Get a route with its directions, ordered stops and shapes.
+   * 
+   * Directions come from `Trip.directionId` (or the headsign when the feed
+   * does not set it). The stop list of each direction is the stop sequence
+   * run by most of its trips, and the shape is the one those trips use.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to query
+   * @param routeShortName - Route short name (case-insensitive) or route ID
+   * @param type - Vehicle type, when several routes share the short name
+   * @returns Route details, or null if the route is not found
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const details = await transport.getRouteDetails('vilnius', '4G');
+   * for (const direction of details?.directions ?? []) {
+   *   console.log(direction.headsign, direction.stops.map(s => s.name).join(' → '));
+   * }
+   * ```
+   */
+  async getRouteDetails(city: string, routeShortName: string, type?: VehicleType): Promise<RouteDetails | null> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = await this.getScheduleIndex(city);
+    const stops = await loadCachedStops(this.cacheDir, city as CityId);
+    
+    if (!index || !stops) {
+      throw new SyncRequiredError(city);
+    }
+
+    const route = findRoute(index, routeShortName, type);
+    
+    if (!route) {
+      return null;
+    }
+
+    const patterns = await this.getPatternCache(city) ?? new Map<string, RoutePattern[]>();
+    const shapes = await loadCachedShapes(this.cacheDir, city as CityId) ?? new Map<string, ShapePoint[]>();
+    return buildRouteDetails(route, patterns.get(route.id) ?? [], stops, shapes);
+  }
+
+  /**
+   * Get the distinct stop patterns of every route in a city.
+   * 
+   * A pattern is one ordered stop list of a route together with the trips
+   * that run it, their headsigns and shapes. Patterns are computed during
+   * `sync()` and cached on disk. Each route's patterns are ordered by
+   * direction, then by trip count, so the first one of a direction is its
+   * main pattern.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to get patterns for
+   * @returns Map from route ID to the route's patterns
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const patterns = await transport.getRoutePatterns('vilnius');
+   * for (const pattern of patterns.get(routeId) ?? []) {
+   *   console.log(pattern.headsigns[0], `${pattern.stopIds.length} stops`, `${pattern.tripIds.length} trips`);
+   * }
+   * ```
+   */
+  async getRoutePatterns(city: string): Promise<Map<string, RoutePattern[]>> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const patterns = await this.getPatternCache(city);
+    
+    if (!patterns) {
+      throw new SyncRequiredError(city);
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Get list of all available city IDs.
+   * Includes built-in cities and any custom cities added via config.
+   */
+  getCities(): readonly string[] {
     return this.effectiveCityIds;
   }
 
@@ -701,6 +1380,366 @@ export class LtTransport {
     return stopTimes;
   }
 
+  /**
+   * Get the service IDs running on a date.
+   * 
+   * Combines calendar weekday flags and validity ranges with
+   * calendar_dates exceptions (holidays, one-off changes).
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to query
+   * @param date - Instant (resolved to the Lithuanian local date) or YYYY-MM-DD service date (default: now)
+   * @returns Set of running service IDs
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * @throws {RangeError} If a string date is not in YYYY-MM-DD format
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const services = await transport.getActiveServiceIds('vilnius', '2026-02-16');
+   * const trips = (await transport.getTrips('vilnius')).filter(t => services.has(t.serviceId));
+   * ```
+   */
+  async getActiveServiceIds(city: string, date: Date | string = new Date()): Promise<Set<string>> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = this.scheduleIndexes.get(city);
+    if (index) {
+      return getActiveServiceIds(index.serviceCalendar, date);
+    }
+    
+    const calendar = await loadCachedCalendar(this.cacheDir, city as CityId);
+    const calendarDates = await loadCachedCalendarDates(this.cacheDir, city as CityId);
+    
+    if (!calendar || !calendarDates) {
+      throw new SyncRequiredError(city);
+    }
+
+    return getActiveServiceIds(buildServiceCalendar(calendar, calendarDates), date);
+  }
+
+  /**
+   * Get the next scheduled departures from a stop.
+   * 
+   * Joins stop times with trips, routes and the service calendar
+   * (including calendar_dates exceptions). Overnight trips with times
+   * past 24:00:00 are resolved against the previous service day.
+   * 
+   * The schedule is loaded into memory on first use and kept until
+   * the next `sync()` for the city.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to query
+   * @param stopId - GTFS stop ID
+   * @param options - Start time, result limit and time window
+   * @returns Departures sorted by scheduled departure time
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const departures = await transport.getDepartures('vilnius', '0701', { limit: 5 });
+   * for (const d of departures) {
+   *   console.log(`${d.routeShortName} -> ${d.headsign} at ${d.scheduledDeparture.toISOString()}`);
+   * }
+   * ```
+   */
+  async getDepartures(city: string, stopId: string, options: DepartureOptions = {}): Promise<Departure[]> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = await this.getScheduleIndex(city);
+    
+    if (!index) {
+      throw new SyncRequiredError(city);
+    }
+
+    return findDepartures(index, stopId, options);
+  }
+
+  /**
+   * Get predicted arrivals at a stop, combining live vehicle delays
+   * with the scheduled timetable.
+   * 
+   * For vehicles reporting a GTFS trip reference and delay (Vilnius),
+   * the delay is applied to the trip's remaining stop times. Trips
+   * without a live vehicle are returned as scheduled-only entries
+   * (`isRealtime: false`). Cities without GPS data return scheduled
+   * entries only.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to query
+   * @param stopId - GTFS stop ID
+   * @param options - Start time, result limit and time window
+   * @returns Predictions sorted by predicted departure time
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {TransportNetworkError} If the GPS request fails
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const arrivals = await transport.getPredictedArrivals('vilnius', '0701');
+   * for (const a of arrivals) {
+   *   const live = a.isRealtime ? `(${String(a.delaySeconds)}s)` : '(scheduled)';
+   *   console.log(`${a.routeShortName} ${a.predictedArrival.toISOString()} ${live}`);
+   * }
+   * ```
+   */
+  async getPredictedArrivals(
+    city: string,
+    stopId: string,
+    options: DepartureOptions = {}
+  ): Promise<PredictedArrival[]> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = await this.getScheduleIndex(city);
+    
+    if (!index) {
+      throw new SyncRequiredError(city);
+    }
+
+    const vehicles = config.gps.enabled && config.gps.url !== null
+      ? await this.getVehicles(city)
+      : [];
+
+    return predictArrivals(index, stopId, vehicles, options);
+  }
+
+  /**
+   * Build the printable timetable of a route at a stop.
+   * 
+   * Departures are grouped into workdays, Saturday and Sunday tables laid
+   * out by hour, with footnotes for departures that skip or only run on
+   * some dates, and separate sections for dates with a schedule of their
+   * own (e.g. public holidays). Render the result with
+   * `renderTimetableMarkdown()` or `renderTimetableHtml()`.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to query
+   * @param stopId - GTFS stop ID
+   * @param routeShortName - Route short name (case-insensitive) or route ID
+   * @param options - Validity period and vehicle type
+   * @returns Timetable, or null if the stop or route is not found
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * @throws {RangeError} If `options.from` is a string not in YYYY-MM-DD format
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('vilnius');
+   * const timetable = await transport.getStopTimetable('vilnius', '0701', '4G', { from: '2024-05-06' });
+   * if (timetable) {
+   *   await writeFile('poster.html', renderTimetableHtml(timetable));
+   * }
+   * ```
+   */
+  async getStopTimetable(
+    city: string,
+    stopId: string,
+    routeShortName: string,
+    options: StopTimetableOptions = {}
+  ): Promise<StopTimetable | null> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = await this.getScheduleIndex(city);
+    const stops = await loadCachedStops(this.cacheDir, city as CityId);
+    
+    if (!index || !stops) {
+      throw new SyncRequiredError(city);
+    }
+
+    const stop = stops.find(candidate => candidate.id === stopId);
+    const route = findRoute(index, routeShortName, options.type);
+    
+    if (!stop || !route) {
+      return null;
+    }
+
+    return buildStopTimetable(index, stop, route, options);
+  }
+
+  /**
+   * Compute scheduled headways per route direction and time band.
+   * 
+   * For each direction, departures are counted at the stop served by most
+   * of its trips (or at `options.stopId`), using the trips running on the
+   * service date. Use `computeObservedHeadways()` on recorded vehicle
+   * positions to compare against the service actually run.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to analyze
+   * @param date - Instant or YYYY-MM-DD service date (default: today)
+   * @param options - Routes, stop and time bands
+   * @returns Headways per route direction
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * @throws {RangeError} If a string date is not in YYYY-MM-DD format or a time band is invalid
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('utena');
+   * const headways = await transport.getScheduledHeadways('utena', '2024-05-06');
+   * for (const { routeShortName, bands } of headways) {
+   *   const peak = bands.find(band => band.band === 'am-peak');
+   *   console.log(routeShortName, peak?.departuresPerHour);
+   * }
+   * ```
+   */
+  async getScheduledHeadways(
+    city: string,
+    date: Date | string = new Date(),
+    options: ScheduledHeadwayOptions = {}
+  ): Promise<ScheduledHeadways[]> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const index = await this.getScheduleIndex(city);
+    const patterns = await this.getPatternCache(city);
+    
+    if (!index || !patterns) {
+      throw new SyncRequiredError(city);
+    }
+
+    return computeScheduledHeadways(index, patterns, date, options);
+  }
+
+  /**
+   * Plan the earliest-arriving journey between two stops or coordinates.
+   * 
+   * Runs a connection scan over the cached stop times of the trips active
+   * on each service day, with walking to the first stop, from the last
+   * stop and between nearby stops when changing. Works offline for any
+   * city with GTFS data, including regional feeds such as `intercity`.
+   * 
+   * The connection network is built on first use and kept until the
+   * next `sync()` for the city.
+   * 
+   * Requires prior `sync()` call to download GTFS data.
+   * 
+   * @param city - City to plan in
+   * @param options - Origin, destination, departure time and walking limits
+   * @returns Earliest-arriving journey, or null if none is found
+   * @throws {SyncRequiredError} If GTFS data not synced
+   * @throws {InvalidCityError} If city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * await transport.sync('intercity');
+   * const journey = await transport.planJourney('intercity', {
+   *   from: { latitude: 54.6707, longitude: 25.2820 },
+   *   to: { latitude: 55.7076, longitude: 21.1446 },
+   *   departAt: new Date('2024-05-06T06:00:00+03:00'),
+   * });
+   * for (const leg of journey?.legs ?? []) {
+   *   console.log(leg.mode, leg.from.name, '->', leg.to.name, leg.arrival.toISOString());
+   * }
+   * ```
+   */
+  async planJourney(city: string, options: JourneyOptions): Promise<Journey | null> {
+    const config = this.getEffectiveCityConfig(city);
+    
+    if (!config) {
+      throw new InvalidCityError(city);
+    }
+    
+    const network = await this.getTransitNetwork(city);
+    
+    if (!network) {
+      throw new SyncRequiredError(city);
+    }
+
+    return planJourney(network, options);
+  }
+
+  /**
+   * Plan the earliest-arriving journey across several cities' networks.
+   * 
+   * The feeds are merged into one network. Stop, trip and route IDs are
+   * namespaced with their city (`vilnius:0701`, see `toFeedId()`), in the
+   * options as well as in the returned journey. Stops of different feeds
+   * are linked when they are within walking distance, or when their names
+   * match and they are close enough to be the same station (e.g. a bus
+   * station present in both a city feed and the `intercity` feed).
+   * 
+   * The merged network is built on first use and kept until the next
+   * `sync()` of any of its cities.
+   * 
+   * Requires prior `sync()` call for every city.
+   * 
+   * @param cities - Cities whose feeds to combine
+   * @param options - Origin, destination, departure time and walking limits
+   * @returns Earliest-arriving journey, or null if none is found
+   * @throws {SyncRequiredError} If GTFS data of a city is not synced
+   * @throws {InvalidCityError} If a city is not recognized
+   * 
+   * @example
+   * ```typescript
+   * const cities = ['vilnius', 'intercity', 'klaipeda'];
+   * await Promise.all(cities.map(city => transport.sync(city)));
+   * 
+   * const journey = await transport.planMultiCityJourney(cities, {
+   *   from: toFeedId('vilnius', '0701'),
+   *   to: toFeedId('klaipeda', '101'),
+   *   departAt: new Date('2024-05-06T06:00:00+03:00'),
+   * });
+   * ```
+   */
+  async planMultiCityJourney(cities: readonly string[], options: JourneyOptions): Promise<Journey | null> {
+    const uniqueCities = [...new Set(cities)].sort();
+
+    for (const city of uniqueCities) {
+      if (!this.getEffectiveCityConfig(city)) {
+        throw new InvalidCityError(city);
+      }
+    }
+
+    const key = uniqueCities.join(',');
+    let network = this.multiCityNetworks.get(key);
+
+    if (!network) {
+      const feeds: FeedSource[] = [];
+      for (const city of uniqueCities) {
+        const schedule = await this.getScheduleIndex(city);
+        const stops = await loadCachedStops(this.cacheDir, city as CityId);
+        if (!schedule || !stops) {
+          throw new SyncRequiredError(city);
+        }
+        feeds.push({ city, schedule, stops });
+      }
+
+      network = buildMultiFeedNetwork(feeds);
+      this.multiCityNetworks.set(key, network);
+    }
+
+    return planJourney(network, options);
+  }
+
   // ===========================================================================
   // Private Helpers
   // ===========================================================================
@@ -710,39 +1749,61 @@ export class LtTransport {
    * Returns both the text and the server's Date header for stable timestamps.
    */
   private async fetchText(url: string, city: string): Promise<{ text: string; serverTime: Date }> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => { controller.abort(); }, this.requestTimeout);
+    const { body, serverTime } = await this.fetchResponse(url, city);
+    return { text: new TextDecoder().decode(body), serverTime };
+  }
 
-    try {
-      const response = await fetch(url, {
-        headers: { 'User-Agent': this.userAgent },
-        signal: controller.signal,
-      });
+  /**
+   * Fetch a text GPS stream, or read it from the replay source if one is set.
+   */
+  private async fetchGpsText(url: string, city: string): Promise<{ text: string; serverTime: Date }> {
+    if (this.replay !== null) {
+      const { bytes, serverTime } = await this.replay.read(city);
+      return { text: new TextDecoder().decode(bytes), serverTime };
+    }
+    return this.fetchText(url, city);
+  }
 
-      if (!response.ok) {
-        throw new TransportNetworkError(
-          `HTTP ${String(response.status)}: ${response.statusText}`,
-          city,
-          response.status
-        );
-      }
+  /**
+   * Fetch a binary GPS feed, or read it from the replay source if one is set.
+   */
+  private async fetchGpsBytes(url: string, city: string): Promise<{ bytes: Uint8Array; serverTime: Date }> {
+    if (this.replay !== null) {
+      return this.replay.read(city);
+    }
+    return this.fetchBytes(url, city);
+  }
 
-      // Extract server time from Date header for stable timestamps
-      const dateHeader = response.headers.get('date');
-      const serverTime = dateHeader !== null ? new Date(dateHeader) : new Date();
+  /**
+   * Fetch binary content (e.g. protobuf feeds) with timeout and error handling.
+   * Also extracts server time from Date header for stable timestamps.
+   */
+  private async fetchBytes(url: string, city: string): Promise<{ bytes: Uint8Array; serverTime: Date }> {
+    const { body, serverTime } = await this.fetchResponse(url, city);
+    return { bytes: body, serverTime };
+  }
 
-      const text = await response.text();
-      return { text, serverTime };
+  /**
+   * Fetch a URL with timeout, retries and error handling.
+   */
+  private async fetchResponse(url: string, city: string): Promise<HttpResponse> {
+    let response: HttpResponse;
+    try {
+      response = await this.http.request(url, { timeoutMs: this.requestTimeout });
     } catch (error) {
-      if (error instanceof TransportNetworkError) {
-        throw error;
-      }
-      
       const message = error instanceof Error ? error.message : 'Unknown error';
       throw new TransportNetworkError(message, city, undefined, error instanceof Error ? error : undefined);
-    } finally {
-      clearTimeout(timeout);
     }
+
+    if (!response.ok) {
+      throw new TransportNetworkError(
+        `HTTP ${String(response.status)}: ${response.statusText}`,
+        city,
+        response.status
+      );
+    }
+
+    return response;
   }
 
   /**
@@ -767,6 +1828,126 @@ export class LtTransport {
 
     return null;
   }
+
+  /**
+   * Get schedule index for a city, loading from disk if needed.
+   */
+  private async getScheduleIndex(city: string): Promise<ScheduleIndex | null> {
+    const cached = this.scheduleIndexes.get(city);
+    if (cached) {
+      return cached;
+    }
+
+    const cityId = city as CityId;
+    const routes = await loadCachedRoutes(this.cacheDir, cityId);
+    const trips = await loadCachedTrips(this.cacheDir, cityId);
+    const calendar = await loadCachedCalendar(this.cacheDir, cityId);
+    const calendarDates = await loadCachedCalendarDates(this.cacheDir, cityId);
+    const stopTimes = await loadCachedStopTimes(this.cacheDir, cityId);
+
+    if (!routes || !trips || !calendar || !calendarDates || !stopTimes) {
+      return null;
+    }
+
+    const index = buildScheduleIndex({ routes, trips, calendar, calendarDates, stopTimes });
+    this.scheduleIndexes.set(city, index);
+    return index;
+  }
+
+  /**
+   * Get route patterns for a city, loading from disk if needed.
+   * Caches synced before patterns existed are derived from the schedule index.
+   */
+  private async getPatternCache(city: string): Promise<Map<string, RoutePattern[]> | null> {
+    const cached = this.routePatterns.get(city);
+    if (cached) {
+      return cached;
+    }
+
+    let patterns = await loadCachedPatterns(this.cacheDir, city as CityId);
+
+    if (!patterns) {
+      const index = await this.getScheduleIndex(city);
+      if (!index) {
+        return null;
+      }
+      patterns = extractRoutePatterns(index.trips, index.stopTimesByTrip);
+    }
+
+    this.routePatterns.set(city, patterns);
+    return patterns;
+  }
+
+  /**
+   * Get route paths for a city by route ID, building them from the cached
+   * patterns, stops and shapes if needed.
+   */
+  private async getRoutePathCache(city: string): Promise<Map<string, RoutePath[]> | null> {
+    const cached = this.routePaths.get(city);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await this.getScheduleIndex(city);
+    const stops = await loadCachedStops(this.cacheDir, city as CityId);
+    const patterns = await this.getPatternCache(city);
+
+    if (!index || !stops || !patterns) {
+      return null;
+    }
+
+    const shapes = await loadCachedShapes(this.cacheDir, city as CityId) ?? new Map<string, ShapePoint[]>();
+    const routePaths = new Map<string, RoutePath[]>();
+    for (const route of index.routesById.values()) {
+      routePaths.set(route.id, buildRoutePaths([buildRouteDetails(route, patterns.get(route.id) ?? [], stops, shapes)]));
+    }
+
+    this.routePaths.set(city, routePaths);
+    return routePaths;
+  }
+
+  /**
+   * Get transit network for a city, building it from the schedule index if needed.
+   */
+  private async getTransitNetwork(city: string): Promise<TransitNetwork | null> {
+    const cached = this.transitNetworks.get(city);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await this.getScheduleIndex(city);
+    const stops = await loadCachedStops(this.cacheDir, city as CityId);
+
+    if (!index || !stops) {
+      return null;
+    }
+
+    const network = buildTransitNetwork(index, stops);
+    this.transitNetworks.set(city, network);
+    return network;
+  }
+
+  /**
+   * Get trip cache for a city, building it from the schedule index if needed.
+   */
+  private async getTripCache(city: string): Promise<TripCache | null> {
+    const cached = this.tripCaches.get(city);
+    if (cached) {
+      return cached;
+    }
+
+    const index = await this.getScheduleIndex(city);
+    const shapes = await loadCachedShapes(this.cacheDir, city as CityId);
+    const stops = await loadCachedStops(this.cacheDir, city as CityId);
+
+    if (!index || !shapes || !stops) {
+      return null;
+    }
+
+    const cache = buildTripCache(index, shapes, stops);
+    this.tripCaches.set(city, cache);
+    return cache;
+  }
 }
 
 // =============================================================================
@@ -787,11 +1968,156 @@ export type {
   CalendarDate,
   Agency,
   StopTime,
+  Departure,
+  PredictedArrival,
+  RouteDirection,
+  RouteDetails,
+  RoutePattern,
+  StopTimetable,
+  TimetableDayType,
+  TimetableEntry,
+  TimetableHour,
+  TimetableSection,
+  TimetableNote,
+  HeadwayStats,
+  ScheduledHeadways,
+  ObservedHeadways,
+  StopPass,
+  SpacingAlert,
+  RecordedSnapshot,
+  NearbyStop,
+  NearbyStopsOptions,
+  NearbyVehicle,
+  StopMatch,
+  Journey,
+  JourneyLeg,
+  JourneyPlace,
+  WalkLeg,
+  TransitLeg,
   SyncResult,
 } from './types.js';
 
 export { GTFS_ROUTE_TYPE_MAP, LT_TRANSPORT_TYPE_MAP } from './types.js';
 
+// Schedule
+export type { DepartureOptions } from './schedule/departures.js';
+export {
+  buildServiceCalendar,
+  getActiveServiceIds,
+  getServiceDaysAt,
+  type ServiceCalendar,
+  type ServiceDay,
+} from './schedule/service-calendar.js';
+
+// Timetable
+export {
+  renderTimetableMarkdown,
+  renderTimetableHtml,
+  DEFAULT_TIMETABLE_LABELS,
+  type TimetableOptions,
+  type StopTimetableOptions,
+  type TimetableLabels,
+  type TimetableRenderOptions,
+} from './timetable/index.js';
+
+// Analytics
+export {
+  computeScheduledHeadways,
+  computeObservedHeadways,
+  detectStopPasses,
+  DEFAULT_TIME_BANDS,
+  type TimeBand,
+  type ScheduledHeadwayOptions,
+  type ObservedHeadwayOptions,
+  type StopPassOptions,
+  buildRoutePaths,
+  detectSpacingAlerts,
+  type RoutePath,
+  type SpacingAlertOptions,
+} from './analytics/index.js';
+
+// Search
+export type { StopSearchOptions } from './search/stop-search.js';
+
+// Planner
+export type { JourneyOptions, JourneyEndpoint } from './planner/journey-planner.js';
+export { toFeedId, fromFeedId } from './planner/multi-feed.js';
+
+// Enrichment
+export type { TripMatch, TripMatchOptions, VehicleTripMatch } from './enrichment/trip-matcher.js';
+export type { DelayEstimateOptions } from './enrichment/delay-estimator.js';
+
+// Live
+export {
+  VehicleWatcher,
+  type WatchVehiclesOptions,
+  type VehiclesForCitiesOptions,
+  type VehiclesForCitiesResult,
+  type VehicleUpdate,
+  type VehicleWatcherEvents,
+  findVehiclesNear,
+  findVehiclesInBounds,
+} from './live/index.js';
+
+// Recorder
+export {
+  VehicleRecorder,
+  MemoryVehicleStore,
+  NdjsonVehicleStore,
+  SqliteVehicleStore,
+  type RecordVehiclesOptions,
+  type VehicleRecorderEvents,
+  type VehicleStore,
+  type RecordingQuery,
+  type MemoryVehicleStoreOptions,
+  type NdjsonVehicleStoreOptions,
+  type SqliteDatabase,
+  type SqliteStatement,
+  type SqliteValue,
+  type SqliteVehicleStoreOptions,
+} from './recorder/index.js';
+
+// GTFS
+export { parseGtfsFileStream, type GtfsFileName, type GtfsFileResults } from './gtfs/index.js';
+
+// GTFS-Realtime
+export {
+  encodeFeedMessage,
+  decodeFeedMessage,
+  buildVehiclePositionsFeed,
+  buildTripUpdatesFeed,
+  type GtfsRtFeedMessage,
+  type GtfsRtFeedHeader,
+  type GtfsRtFeedEntity,
+  type GtfsRtTripDescriptor,
+  type GtfsRtVehicleDescriptor,
+  type GtfsRtPosition,
+  type GtfsRtVehiclePosition,
+  type GtfsRtTripUpdate,
+  type GtfsRtStopTimeUpdate,
+  type GtfsRtStopTimeEvent,
+  type VehiclePositionsFeedOptions,
+  type TripUpdatesFeedOptions,
+} from './gtfs-rt/index.js';
+
+// Replay
+export {
+  ReplaySource,
+  saveReplayPayload,
+  type ReplayOptions,
+  type ReplayPayload,
+} from './replay/index.js';
+
+// HTTP
+export {
+  HttpClient,
+  type FetchFunction,
+  type RetryOptions,
+  type HttpClientOptions,
+  type HttpRequestOptions,
+  type HttpResponse,
+} from './http/index.js';
+
 // Config
 export { CITY_CONFIGS, ALL_CITY_IDS, getCityConfig, getCitiesByTier, hasGpsData, hasGtfsData } from './config.js';
 export type { CityConfig, GpsConfig, GtfsConfig, LiteFormatDescriptor } from './config.js';
@@ -813,8 +2139,20 @@ export {
 export {
   normalizeCoordinate,
   isValidLithuaniaCoord,
+  isWithinBounds,
+  type BoundingBox,
+  haversineDistance,
+  calculateBearing,
+  buildSpatialIndex,
+  findWithinRadius,
+  type SpatialIndex,
+  type NearbyResult,
   LITHUANIA_BOUNDS,
   repairMojibake,
+  foldText,
   secondsFromMidnightToDate,
   isDataStale,
+  parseGtfsTime,
+  getLithuanianDate,
+  getServiceDayStart,
 } from './utils/index.js';
@@ -0,0 +1,24 @@
+/**
+ * Live data module exports
+ * @module live
+ */
+
+export {
+  VehicleWatcher,
+  diffVehicles,
+  type WatchVehiclesOptions,
+  type VehicleSnapshot,
+  type VehicleUpdate,
+  type VehicleWatcherEvents,
+} from './vehicle-watcher.js';
+
+export {
+  fetchVehiclesForCities,
+  type VehiclesForCitiesOptions,
+  type VehiclesForCitiesResult,
+} from './multi-city.js';
+
+export {
+  findVehiclesNear,
+  findVehiclesInBounds,
+} from './vehicle-filters.js';
@@ -0,0 +1,78 @@
+/**
+ * Multi-city vehicle fetching
+ * @module live/multi-city
+ *
+ * Fetches several cities' GPS streams with a bounded number of requests
+ * in flight. A failing city does not fail the batch: its error is
+ * reported next to the vehicles of the cities that succeeded.
+ */
+
+import type { Vehicle } from '../types.js';
+import { mapSettledWithConcurrency } from '../utils/index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for fetching vehicles of several cities.
+ */
+export interface VehiclesForCitiesOptions {
+  /** Maximum number of cities fetched at the same time (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * Per-city outcome of a multi-city fetch.
+ */
+export interface VehiclesForCitiesResult {
+  /** Vehicles of each city that was fetched successfully */
+  readonly vehicles: Map<string, Vehicle[]>;
+
+  /** Error of each city that failed */
+  readonly errors: Map<string, Error>;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+// =============================================================================
+// Fetching
+// =============================================================================
+
+/**
+ * Fetch vehicles of several cities, collecting per-city results and errors.
+ *
+ * @param cities - Cities to fetch (duplicates are fetched once)
+ * @param fetchCity - Fetches the vehicles of a single city
+ * @param options - Concurrency options
+ * @returns Vehicles and errors keyed by city, in the order of `cities`
+ */
+export async function fetchVehiclesForCities(
+  cities: readonly string[],
+  fetchCity: (city: string) => Promise<Vehicle[]>,
+  options: VehiclesForCitiesOptions = {}
+): Promise<VehiclesForCitiesResult> {
+  const uniqueCities = [...new Set(cities)];
+  const results = await mapSettledWithConcurrency(
+    uniqueCities,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    fetchCity
+  );
+
+  const vehicles = new Map<string, Vehicle[]>();
+  const errors = new Map<string, Error>();
+
+  uniqueCities.forEach((city, index) => {
+    const result = results[index];
+    if (result === undefined) return;
+
+    if (result.status === 'fulfilled') {
+      vehicles.set(city, result.value);
+    } else {
+      const { reason } = result;
+      errors.set(city, reason instanceof Error ? reason : new Error(String(reason)));
+    }
+  });
+
+  return { vehicles, errors };
+}
@@ -0,0 +1,63 @@
+/**
+ * Geographic vehicle filters
+ * @module live/vehicle-filters
+ *
+ * Narrows a city's vehicle list down to what a map viewport or a user's
+ * surroundings need, so clients receive only the vehicles they render.
+ */
+
+import type { NearbyVehicle, Vehicle } from '../types.js';
+import {
+  haversineDistance,
+  calculateBearing,
+  isWithinBounds,
+  type BoundingBox,
+} from '../utils/index.js';
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/**
+ * Find vehicles within a radius of a position.
+ *
+ * @param vehicles - Vehicles to filter
+ * @param latitude - Latitude of the position in WGS84 decimal degrees
+ * @param longitude - Longitude of the position in WGS84 decimal degrees
+ * @param radiusMeters - Search radius in meters
+ * @returns Vehicles with distance and bearing from the position, nearest first
+ */
+export function findVehiclesNear(
+  vehicles: readonly Vehicle[],
+  latitude: number,
+  longitude: number,
+  radiusMeters: number
+): NearbyVehicle[] {
+  const nearby: NearbyVehicle[] = [];
+
+  for (const vehicle of vehicles) {
+    const distanceMeters = haversineDistance(latitude, longitude, vehicle.latitude, vehicle.longitude);
+    if (distanceMeters > radiusMeters) continue;
+
+    nearby.push({
+      ...vehicle,
+      distanceMeters,
+      bearingFromPosition: calculateBearing(latitude, longitude, vehicle.latitude, vehicle.longitude),
+    });
+  }
+
+  nearby.sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return nearby;
+}
+
+/**
+ * Find vehicles inside a bounding box (e.g. a map viewport).
+ *
+ * @param vehicles - Vehicles to filter
+ * @param bounds - Bounding box, edges inclusive
+ * @returns Vehicles inside the box, in input order
+ */
+export function findVehiclesInBounds(vehicles: readonly Vehicle[], bounds: BoundingBox): Vehicle[] {
+  return vehicles.filter(vehicle => isWithinBounds(vehicle.latitude, vehicle.longitude, bounds));
+}
@@ -0,0 +1,320 @@
+/**
+ * Live vehicle subscription
+ * @module live/vehicle-watcher
+ *
+ * Polls a city's GPS stream and turns consecutive snapshots into
+ * `added` / `updated` / `removed` changes keyed by `Vehicle.id`.
+ * Changes are available both as events and as an async iterator of
+ * per-poll updates.
+ */
+
+import { EventEmitter } from 'node:events';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { Vehicle } from '../types.js';
+import { TransportNetworkError } from '../errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for watching vehicles.
+ */
+export interface WatchVehiclesOptions {
+  /** Polling interval in milliseconds (default: 10 seconds) */
+  intervalMs?: number;
+
+  /** Upper bound for the delay between retries after network errors (default: 5 minutes) */
+  maxBackoffMs?: number;
+
+  /** Signal to stop watching */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a single poll.
+ */
+export interface VehicleSnapshot {
+  /** Vehicles returned by the poll */
+  readonly vehicles: Vehicle[];
+
+  /** Server time from the response Date header */
+  readonly serverTime: Date;
+}
+
+/**
+ * Changes between two consecutive snapshots.
+ */
+export interface VehicleUpdate {
+  /** City being watched */
+  readonly city: string;
+
+  /** All vehicles in the current snapshot */
+  readonly vehicles: Vehicle[];
+
+  /** Vehicles that were not in the previous snapshot */
+  readonly added: Vehicle[];
+
+  /** Vehicles whose position, timing or trip changed */
+  readonly updated: Vehicle[];
+
+  /** Vehicles of the previous snapshot that are gone */
+  readonly removed: Vehicle[];
+
+  /** Server time of the snapshot */
+  readonly serverTime: Date;
+}
+
+/**
+ * Events emitted by a VehicleWatcher.
+ */
+export interface VehicleWatcherEvents {
+  /** A vehicle appeared */
+  added: [vehicle: Vehicle];
+  /** A vehicle changed; receives current and previous state */
+  updated: [vehicle: Vehicle, previous: Vehicle];
+  /** A vehicle disappeared; receives its last known state */
+  removed: [vehicle: Vehicle];
+  /** A poll completed; emitted after the per-vehicle events */
+  update: [update: VehicleUpdate];
+  /** A poll failed. Network errors are retried, other errors stop the watcher */
+  error: [error: Error];
+  /** The watcher stopped */
+  end: [];
+}
+
+const DEFAULT_INTERVAL_MS = 10_000;
+const DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// Change Detection
+// =============================================================================
+
+/**
+ * Check whether a vehicle changed in a way subscribers care about.
+ */
+function hasChanged(previous: Vehicle, current: Vehicle): boolean {
+  return (
+    previous.measuredAt.getTime() !== current.measuredAt.getTime() ||
+    previous.latitude !== current.latitude ||
+    previous.longitude !== current.longitude ||
+    previous.bearing !== current.bearing ||
+    previous.speed !== current.speed ||
+    previous.delaySeconds !== current.delaySeconds ||
+    previous.gtfsTripId !== current.gtfsTripId ||
+    previous.nextStopId !== current.nextStopId ||
+    previous.destination !== current.destination ||
+    previous.isStale !== current.isStale
+  );
+}
+
+/**
+ * Compare a snapshot with the previous one.
+ *
+ * @param previous - Previous vehicles keyed by ID
+ * @param current - Current vehicles
+ * @returns Added, updated (with previous state) and removed vehicles
+ */
+export function diffVehicles(
+  previous: ReadonlyMap<string, Vehicle>,
+  current: readonly Vehicle[]
+): { added: Vehicle[]; updated: [Vehicle, Vehicle][]; removed: Vehicle[] } {
+  const added: Vehicle[] = [];
+  const updated: [Vehicle, Vehicle][] = [];
+  const seen = new Set<string>();
+
+  for (const vehicle of current) {
+    seen.add(vehicle.id);
+    const before = previous.get(vehicle.id);
+
+    if (before === undefined) {
+      added.push(vehicle);
+    } else if (hasChanged(before, vehicle)) {
+      updated.push([vehicle, before]);
+    }
+  }
+
+  const removed = [...previous.values()].filter(vehicle => !seen.has(vehicle.id));
+
+  return { added, updated, removed };
+}
+
+// =============================================================================
+// Watcher
+// =============================================================================
+
+/**
+ * Polls vehicle positions and reports changes.
+ *
+ * Consume changes either through events or by iterating:
+ * ```typescript
+ * for await (const update of watcher) { ... }
+ * ```
+ * Polling starts on construction and runs until `stop()` is called,
+ * the abort signal fires, or a non-network error occurs.
+ */
+export class VehicleWatcher extends EventEmitter<VehicleWatcherEvents> implements AsyncIterable<VehicleUpdate> {
+  private readonly controller = new AbortController();
+  private readonly intervalMs: number;
+  private readonly maxBackoffMs: number;
+  private current = new Map<string, Vehicle>();
+  private lastServerTime = 0;
+  private stopped = false;
+  private failure: Error | null = null;
+  private readonly signal: AbortSignal | undefined;
+  private readonly onAbort = (): void => { this.stop(); };
+
+  /** Updates waiting to be read by each active iterator */
+  private readonly queues = new Set<VehicleUpdate[]>();
+  /** Wakes up iterators waiting for the next update */
+  private readonly waiters = new Set<() => void>();
+
+  /**
+   * @param city - City being watched
+   * @param poll - Fetches the current vehicles and server time
+   * @param options - Watch options
+   */
+  constructor(
+    readonly city: string,
+    private readonly poll: () => Promise<VehicleSnapshot>,
+    options: WatchVehiclesOptions = {}
+  ) {
+    super();
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+
+    this.signal = options.signal;
+    if (this.signal?.aborted === true) {
+      // Nothing is running yet; 'end' is deferred so listeners attached
+      // right after construction still receive it
+      this.stopped = true;
+      queueMicrotask(() => {
+        this.emit('end');
+      });
+    } else {
+      this.signal?.addEventListener('abort', this.onAbort, { once: true });
+      void this.run();
+    }
+  }
+
+  /** Vehicles from the latest successful poll */
+  get vehicles(): Vehicle[] {
+    return [...this.current.values()];
+  }
+
+  /** Whether the watcher has stopped */
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Stop polling. Pending iterators finish after draining queued updates.
+   */
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    this.controller.abort();
+    this.wake();
+    this.emit('end');
+  }
+
+  /**
+   * Iterate over per-poll updates until the watcher stops.
+   * Each iterator receives every update produced after it was created.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<VehicleUpdate, void, undefined> {
+    const queue: VehicleUpdate[] = [];
+    this.queues.add(queue);
+
+    try {
+      for (;;) {
+        const next = queue.shift();
+        if (next !== undefined) {
+          yield next;
+          continue;
+        }
+        if (this.stopped) {
+          if (this.failure !== null) throw this.failure;
+          return;
+        }
+        await new Promise<void>(resolve => { this.waiters.add(resolve); });
+      }
+    } finally {
+      this.queues.delete(queue);
+    }
+  }
+
+  private async run(): Promise<void> {
+    let failures = 0;
+
+    while (!this.stopped) {
+      try {
+        this.apply(await this.poll());
+        failures = 0;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', err);
+        }
+
+        if (!(error instanceof TransportNetworkError)) {
+          // Configuration errors (invalid city, no GPS) will not resolve by retrying
+          this.failure = err;
+          this.stop();
+          return;
+        }
+        failures++;
+      }
+
+      const delay = failures > 0
+        ? Math.min(this.intervalMs * 2 ** failures, this.maxBackoffMs)
+        : this.intervalMs;
+
+      try {
+        await sleep(delay, undefined, { signal: this.controller.signal });
+      } catch {
+        // Aborted - loop condition ends the run
+      }
+    }
+  }
+
+  private apply(snapshot: VehicleSnapshot): void {
+    if (this.stopped) return;
+
+    // A response older than the last one (e.g. from a lagging cache node) is ignored
+    const serverTime = snapshot.serverTime.getTime();
+    if (serverTime < this.lastServerTime) return;
+    this.lastServerTime = serverTime;
+
+    const { added, updated, removed } = diffVehicles(this.current, snapshot.vehicles);
+    this.current = new Map(snapshot.vehicles.map(vehicle => [vehicle.id, vehicle]));
+
+    for (const vehicle of added) this.emit('added', vehicle);
+    for (const [vehicle, previous] of updated) this.emit('updated', vehicle, previous);
+    for (const vehicle of removed) this.emit('removed', vehicle);
+
+    const update: VehicleUpdate = {
+      city: this.city,
+      vehicles: snapshot.vehicles,
+      added,
+      updated: updated.map(([vehicle]) => vehicle),
+      removed,
+      serverTime: snapshot.serverTime,
+    };
+
+    this.emit('update', update);
+
+    for (const queue of this.queues) {
+      queue.push(update);
+    }
+    this.wake();
+  }
+
+  private wake(): void {
+    for (const resolve of this.waiters) {
+      resolve();
+    }
+    this.waiters.clear();
+  }
+}
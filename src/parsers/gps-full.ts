@@ -130,7 +130,8 @@ export interface GpsFullParseOptions {
   
   /** 
    * Server response time for stable timestamps.
-   * Used as fallback for cities without MatavimoLaikas.
+   * Used as fallback for cities without MatavimoLaikas, as the day
+   * MatavimoLaikas refers to, and as the instant staleness is measured at.
    * If not provided, falls back to current client time.
    */
   serverTime?: Date;
@@ -286,7 +287,9 @@ function parseVehicleLine(
     : null;
 
   // GTFS trip reference (Vilnius only)
-  const gtfsTripId = row.ReisoIdGTFS ?? null;
+  const gtfsTripId = row.ReisoIdGTFS !== undefined && row.ReisoIdGTFS !== ''
+    ? row.ReisoIdGTFS
+    : null;
 
   // Next stop ID (Kaunas only)
   const nextStopId = row.SekanciosStotelesNum !== undefined 
@@ -298,7 +301,7 @@ function parseVehicleLine(
 
   // Calculate measurement time
   const measuredAt = calculateMeasuredAtFromRow(row, serverTime);
-  const isStale = isDataStale(measuredAt, staleThresholdMs);
+  const isStale = isDataStale(measuredAt, staleThresholdMs, serverTime);
 
   // Generate unique ID
   const vehicleNumber = row.MasinosNumeris;
@@ -328,12 +331,13 @@ function parseVehicleLine(
 /**
  * Calculate measurement time from validated row data.
  * @param row - Parsed row data
- * @param fallbackTime - Server time to use when row has no timestamp field
+ * @param fallbackTime - Server time; gives the day of row timestamps and is used
+ *   when the row has no timestamp field
  */
 function calculateMeasuredAtFromRow(row: GpsFullRow, fallbackTime: Date): Date {
   // Try MatavimoLaikas first (Vilnius, Alytus, Druskininkai)
   if (row.MatavimoLaikas !== undefined && row.MatavimoLaikas > 0) {
-    return secondsFromMidnightToDate(row.MatavimoLaikas);
+    return secondsFromMidnightToDate(row.MatavimoLaikas, fallbackTime);
   }
 
   // Kaunas: AtvykimoLaikasSekundemis is FUTURE arrival, not measurement time.
@@ -0,0 +1,154 @@
+/**
+ * GTFS-Realtime VehiclePositions parser
+ * @module parsers/gtfs-rt
+ *
+ * Handles cities whose GPS source is a standard GTFS-Realtime
+ * VehiclePositions feed rather than a stops.lt CSV dialect.
+ * Feed entities reference GTFS routes by route_id, so the route short
+ * name and vehicle type are resolved from the city's GTFS routes when
+ * they are available.
+ */
+
+import type { Route, Vehicle } from '../types.js';
+import { decodeFeedMessage, type GtfsRtFeedEntity } from '../gtfs-rt/feed.js';
+import {
+  isValidLithuaniaCoord,
+  normalizeBearing,
+  normalizeSpeed,
+  isDataStale,
+} from '../utils/index.js';
+
+// =============================================================================
+// Parser Options
+// =============================================================================
+
+/**
+ * Options for GTFS-Realtime parsing.
+ */
+export interface GtfsRtParseOptions {
+  /** Threshold for marking data as stale (default: 5 minutes) */
+  staleThresholdMs?: number;
+
+  /** Whether to filter out stale records (default: false) */
+  filterStale?: boolean;
+
+  /** Whether to filter out records with invalid coordinates (default: true) */
+  filterInvalidCoords?: boolean;
+
+  /** Server time: staleness is measured at it, and it is used when neither the entity nor the feed has a timestamp */
+  serverTime?: Date;
+
+  /** GTFS routes keyed by route_id, used to resolve short names and types */
+  routes?: ReadonlyMap<string, Route>;
+}
+
+// =============================================================================
+// Main Parser
+// =============================================================================
+
+/**
+ * Parse a GTFS-Realtime VehiclePositions feed.
+ *
+ * Entities without a position, and deleted entities, are skipped.
+ * Trip IDs in the feed are GTFS trip IDs, so they fill both `tripId`
+ * and `gtfsTripId`.
+ *
+ * @param bytes - Protobuf-encoded `FeedMessage`
+ * @param city - City identifier for context
+ * @param options - Parse options
+ * @returns Array of normalized Vehicle objects
+ * @throws {Error} If the feed is not valid protobuf
+ */
+export function parseGtfsRtVehiclePositions(
+  bytes: Uint8Array,
+  city: string,
+  options: GtfsRtParseOptions = {}
+): Vehicle[] {
+  const {
+    staleThresholdMs = 5 * 60 * 1000,
+    filterStale = false,
+    filterInvalidCoords = true,
+    serverTime = new Date(),
+    routes,
+  } = options;
+
+  const feed = decodeFeedMessage(bytes);
+  const feedTime = feed.header.timestamp !== undefined
+    ? new Date(Number(feed.header.timestamp) * 1000)
+    : serverTime;
+
+  const vehicles: Vehicle[] = [];
+
+  for (const entity of feed.entity) {
+    const vehicle = parseEntity(entity, city, feedTime, serverTime, staleThresholdMs, routes);
+    if (vehicle === null) continue;
+
+    if (filterInvalidCoords && !isValidLithuaniaCoord(vehicle.latitude, vehicle.longitude)) {
+      continue;
+    }
+    if (filterStale && vehicle.isStale) {
+      continue;
+    }
+
+    vehicles.push(vehicle);
+  }
+
+  return vehicles;
+}
+
+/**
+ * Round a coordinate to 6 decimal places (~0.1 m).
+ * Positions are 32-bit floats on the wire, so further digits are noise.
+ */
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Convert a single feed entity to a Vehicle.
+ */
+function parseEntity(
+  entity: GtfsRtFeedEntity,
+  city: string,
+  feedTime: Date,
+  serverTime: Date,
+  staleThresholdMs: number,
+  routes: ReadonlyMap<string, Route> | undefined
+): Vehicle | null {
+  const position = entity.vehicle?.position;
+  if (entity.isDeleted === true || entity.vehicle === undefined || position === undefined) {
+    return null;
+  }
+
+  const { trip, vehicle: descriptor, stopId, currentStatus, timestamp } = entity.vehicle;
+
+  const routeId = trip?.routeId;
+  const route = routeId !== undefined ? routes?.get(routeId) : undefined;
+  const routeName = route?.shortName ?? routeId ?? '';
+
+  const vehicleNumber = descriptor?.label ?? descriptor?.id ?? entity.id;
+  const tripId = trip?.tripId ?? null;
+
+  const measuredAt = timestamp !== undefined ? new Date(Number(timestamp) * 1000) : feedTime;
+
+  return {
+    id: `${city}-${vehicleNumber}-${routeName}`,
+    vehicleNumber,
+    route: routeName,
+    type: route?.type ?? 'unknown',
+    latitude: roundCoordinate(position.latitude),
+    longitude: roundCoordinate(position.longitude),
+    bearing: normalizeBearing(position.bearing ?? 0),
+    // GTFS-Realtime speed is in meters per second
+    speed: normalizeSpeed(Math.round((position.speed ?? 0) * 3.6)),
+    destination: null,
+    delaySeconds: null,
+    tripId,
+    gtfsTripId: tripId,
+    // STOPPED_AT refers to the current stop, the other statuses to the next one
+    nextStopId: stopId !== undefined && currentStatus !== 'STOPPED_AT' ? stopId : null,
+    arrivalTimeSeconds: null,
+    isStale: isDataStale(measuredAt, staleThresholdMs, serverTime),
+    measuredAt,
+  };
+}
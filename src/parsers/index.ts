@@ -15,6 +15,11 @@ export {
   type GpsLiteParseOptions,
 } from './gps-lite.js';
 
+export {
+  parseGtfsRtVehiclePositions,
+  type GtfsRtParseOptions,
+} from './gtfs-rt.js';
+
 // Legacy exports (deprecated, kept for backwards compatibility)
 // eslint-disable-next-line @typescript-eslint/no-deprecated
 export { isLiteCity, type LiteCityId } from './gps-lite.js';
@@ -0,0 +1,32 @@
+/**
+ * Journey planner module exports
+ * @module planner
+ */
+
+export {
+  buildConnections,
+  buildFootpaths,
+  buildTransitNetwork,
+  createTransitNetwork,
+  type Connection,
+  type Footpath,
+  type NetworkTrip,
+  type TransitNetwork,
+  type TransitNetworkOptions,
+} from './network.js';
+
+export {
+  planJourney,
+  type JourneyEndpoint,
+  type JourneyOptions,
+} from './journey-planner.js';
+
+export {
+  buildMultiFeedNetwork,
+  linkStopsByName,
+  toFeedId,
+  fromFeedId,
+  FEED_ID_SEPARATOR,
+  type FeedSource,
+  type MultiFeedNetworkOptions,
+} from './multi-feed.js';
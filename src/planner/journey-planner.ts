@@ -0,0 +1,482 @@
+/**
+ * Earliest-arrival journey planning
+ * @module planner/journey-planner
+ *
+ * Implements the Connection Scan Algorithm: connections are scanned once
+ * in departure order, and each one is usable if its trip has already been
+ * boarded or its departure stop can be reached in time. Trips running on
+ * the previous service day (overnight times past 24:00:00) and the
+ * following days are merged into the same scan.
+ */
+
+import type { Journey, JourneyLeg, JourneyPlace, Stop } from '../types.js';
+import type { Connection, TransitNetwork } from './network.js';
+import type { ServiceCalendar } from '../schedule/service-calendar.js';
+import { getActiveServiceIds } from '../schedule/service-calendar.js';
+import {
+  findWithinRadius,
+  getLithuanianDate,
+  addDaysToDate,
+  getServiceDayStart,
+} from '../utils/index.js';
+
+// =============================================================================
+// Query Options
+// =============================================================================
+
+/**
+ * A journey origin or destination: a stop ID or a coordinate.
+ */
+export type JourneyEndpoint = string | { readonly latitude: number; readonly longitude: number };
+
+/**
+ * Options for journey planning.
+ */
+export interface JourneyOptions {
+  /** Where the journey starts */
+  from: JourneyEndpoint;
+
+  /** Where the journey ends */
+  to: JourneyEndpoint;
+
+  /** Earliest departure (default: now) */
+  departAt?: Date;
+
+  /**
+   * Maximum walking distance to the first stop, from the last stop and
+   * between stops when changing (default: 400 m). Transfers are also
+   * limited by the distance the network was built with; explicitly
+   * linked stops are exempt.
+   */
+  maxWalkMeters?: number;
+
+  /** Walking speed in meters per second (default: 1.25) */
+  walkSpeed?: number;
+
+  /** Minimum time to change between trips, in seconds (default: 60) */
+  minTransferSeconds?: number;
+
+  /** Latest arrival considered, relative to `departAt`, in milliseconds (default: 24 hours) */
+  maxDurationMs?: number;
+}
+
+const DEFAULT_MAX_WALK_METERS = 400;
+const DEFAULT_WALK_SPEED = 1.25;
+const DEFAULT_MIN_TRANSFER_SECONDS = 60;
+const DEFAULT_MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// =============================================================================
+// Scan State
+// =============================================================================
+
+/**
+ * Connections of one service day, scanned from `next` onwards.
+ */
+interface DayStream {
+  readonly serviceDate: string;
+  /** Service day start in epoch seconds */
+  readonly dayStart: number;
+  /** Services running on this day, per feed calendar */
+  readonly running: Map<ServiceCalendar, Set<string>>;
+  next: number;
+}
+
+/**
+ * A connection on a specific service day.
+ */
+interface ScannedConnection {
+  readonly connection: Connection;
+  readonly day: DayStream;
+}
+
+/**
+ * Walk from the origin (or from the destination, for egress).
+ */
+interface Access {
+  readonly distanceMeters: number;
+  readonly seconds: number;
+}
+
+/**
+ * How a stop was reached.
+ */
+type StopLabel =
+  | { readonly kind: 'access'; readonly access: Access }
+  | { readonly kind: 'transit'; readonly board: ScannedConnection; readonly alight: ScannedConnection }
+  | {
+      readonly kind: 'walk';
+      readonly fromStopId: string;
+      readonly departure: number;
+      readonly arrival: number;
+      readonly distanceMeters: number;
+    };
+
+/**
+ * Best way found so far to reach the destination.
+ */
+interface Destination {
+  readonly arrival: number;
+  readonly stopId: string;
+  readonly label: StopLabel;
+  readonly egress: Access;
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+/**
+ * Find stops within walking distance of an endpoint.
+ * A stop endpoint is reached directly and also gives access to the stops
+ * it has footpaths to.
+ *
+ * @returns Walks keyed by stop ID, or null if the stop ID is unknown
+ */
+function resolveEndpoint(
+  network: TransitNetwork,
+  endpoint: JourneyEndpoint,
+  maxWalkMeters: number,
+  walkSpeed: number
+): Map<string, Access> | null {
+  const walks = new Map<string, Access>();
+  const toAccess = (distanceMeters: number): Access => ({
+    distanceMeters,
+    seconds: Math.ceil(distanceMeters / walkSpeed),
+  });
+
+  if (typeof endpoint === 'string') {
+    if (!network.stops.has(endpoint)) {
+      return null;
+    }
+    walks.set(endpoint, toAccess(0));
+    for (const footpath of network.footpaths.get(endpoint) ?? []) {
+      if (footpath.linked || footpath.distanceMeters <= maxWalkMeters) {
+        walks.set(footpath.toStopId, toAccess(footpath.distanceMeters));
+      }
+    }
+    return walks;
+  }
+
+  for (const { item, distanceMeters } of findWithinRadius(
+    network.stopIndex,
+    endpoint.latitude,
+    endpoint.longitude,
+    maxWalkMeters
+  )) {
+    walks.set(item.id, toAccess(distanceMeters));
+  }
+  return walks;
+}
+
+/**
+ * Describe an endpoint or stop as a journey place.
+ */
+function toPlace(stop: Stop | undefined, endpoint?: JourneyEndpoint): JourneyPlace {
+  if (stop !== undefined) {
+    return { stopId: stop.id, name: stop.name, latitude: stop.latitude, longitude: stop.longitude };
+  }
+  if (endpoint !== undefined && typeof endpoint !== 'string') {
+    return { stopId: null, name: '', latitude: endpoint.latitude, longitude: endpoint.longitude };
+  }
+  return { stopId: null, name: '', latitude: 0, longitude: 0 };
+}
+
+// =============================================================================
+// Connection Scan
+// =============================================================================
+
+/**
+ * Index of the first connection departing at or after `seconds`.
+ */
+function lowerBound(connections: readonly Connection[], seconds: number): number {
+  let low = 0;
+  let high = connections.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if ((connections[mid]?.departureSeconds ?? Infinity) < seconds) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Create one connection stream per service day that may have departures
+ * between `start` and `end` (epoch seconds).
+ */
+function createDayStreams(network: TransitNetwork, start: number, end: number): DayStream[] {
+  const lookbackDays = Math.ceil(network.maxArrivalSeconds / SECONDS_PER_DAY);
+  const lastDate = getLithuanianDate(new Date(end * 1000));
+  const streams: DayStream[] = [];
+
+  for (
+    let serviceDate = addDaysToDate(getLithuanianDate(new Date(start * 1000)), -lookbackDays);
+    serviceDate <= lastDate;
+    serviceDate = addDaysToDate(serviceDate, 1)
+  ) {
+    const dayStart = getServiceDayStart(serviceDate).getTime() / 1000;
+    streams.push({
+      serviceDate,
+      dayStart,
+      running: new Map(),
+      next: lowerBound(network.connections, start - dayStart),
+    });
+  }
+
+  return streams;
+}
+
+/**
+ * Check whether a connection's trip runs on a service day.
+ */
+function isRunning(connection: Connection, day: DayStream): boolean {
+  const { calendar, serviceId } = connection.trip;
+  let services = day.running.get(calendar);
+  if (services === undefined) {
+    services = getActiveServiceIds(calendar, day.serviceDate);
+    day.running.set(calendar, services);
+  }
+  return services.has(serviceId);
+}
+
+/**
+ * Pick the day stream whose next connection departs first.
+ */
+function nextStream(network: TransitNetwork, streams: readonly DayStream[]): DayStream | null {
+  let best: DayStream | null = null;
+  let bestDeparture = Infinity;
+
+  for (const stream of streams) {
+    const connection = network.connections[stream.next];
+    if (connection === undefined) continue;
+
+    const departure = stream.dayStart + connection.departureSeconds;
+    if (departure < bestDeparture) {
+      best = stream;
+      bestDeparture = departure;
+    }
+  }
+
+  return best;
+}
+
+// =============================================================================
+// Journey Reconstruction
+// =============================================================================
+
+/**
+ * Walk the labels back from the destination and build the journey legs.
+ */
+function buildJourney(
+  network: TransitNetwork,
+  destination: Destination,
+  labels: ReadonlyMap<string, StopLabel>,
+  options: { from: JourneyEndpoint; to: JourneyEndpoint; departAt: number }
+): Journey {
+  const place = (stopId: string): JourneyPlace => toPlace(network.stops.get(stopId));
+  const toDate = (seconds: number): Date => new Date(seconds * 1000);
+  const legs: JourneyLeg[] = [];
+
+  if (destination.egress.distanceMeters > 0) {
+    legs.push({
+      mode: 'walk',
+      from: place(destination.stopId),
+      to: toPlace(undefined, options.to),
+      departure: toDate(destination.arrival - destination.egress.seconds),
+      arrival: toDate(destination.arrival),
+      distanceMeters: destination.egress.distanceMeters,
+    });
+  }
+
+  let stopId = destination.stopId;
+  let label: StopLabel | undefined = destination.label;
+
+  // Labels only ever point to earlier times, so the chain ends at the origin
+  while (label !== undefined) {
+    if (label.kind === 'access') {
+      if (label.access.distanceMeters > 0) {
+        legs.push({
+          mode: 'walk',
+          from: typeof options.from === 'string' ? place(options.from) : toPlace(undefined, options.from),
+          to: place(stopId),
+          departure: toDate(options.departAt),
+          arrival: toDate(options.departAt + label.access.seconds),
+          distanceMeters: label.access.distanceMeters,
+        });
+      }
+      break;
+    }
+
+    if (label.kind === 'walk') {
+      legs.push({
+        mode: 'walk',
+        from: place(label.fromStopId),
+        to: place(stopId),
+        departure: toDate(label.departure),
+        arrival: toDate(label.arrival),
+        distanceMeters: label.distanceMeters,
+      });
+      stopId = label.fromStopId;
+    } else {
+      const { board, alight } = label;
+      const { trip } = board.connection;
+      legs.push({
+        mode: 'transit',
+        from: place(board.connection.fromStopId),
+        to: place(alight.connection.toStopId),
+        departure: toDate(board.day.dayStart + board.connection.departureSeconds),
+        arrival: toDate(alight.day.dayStart + alight.connection.arrivalSeconds),
+        tripId: trip.id,
+        routeId: trip.routeId,
+        routeShortName: trip.route?.shortName ?? '',
+        type: trip.route?.type ?? 'unknown',
+        headsign: board.connection.headsign,
+        serviceDate: board.day.serviceDate,
+      });
+      stopId = board.connection.fromStopId;
+    }
+
+    label = labels.get(stopId);
+  }
+
+  legs.reverse();
+
+  // Leave as late as possible: the walk to the first stop ends when the first trip departs
+  const [first, second] = legs;
+  if (first?.mode === 'walk' && second?.mode === 'transit') {
+    const walkMs = first.arrival.getTime() - first.departure.getTime();
+    legs[0] = { ...first, departure: new Date(second.departure.getTime() - walkMs), arrival: second.departure };
+  }
+
+  const departure = legs[0]?.departure ?? toDate(options.departAt);
+  const arrival = toDate(destination.arrival);
+  const transitLegs = legs.filter(leg => leg.mode === 'transit').length;
+
+  return {
+    departure,
+    arrival,
+    durationSeconds: Math.round((arrival.getTime() - departure.getTime()) / 1000),
+    transfers: Math.max(0, transitLegs - 1),
+    legs,
+  };
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Find the earliest-arriving journey between two places.
+ *
+ * Walking is allowed to the first stop, from the last stop, and between
+ * stops when changing trips (straight-line distance at `walkSpeed`).
+ * Staying on the same trip needs no transfer time.
+ *
+ * @param network - Transit network of the city
+ * @param options - Origin, destination, departure time and walking limits
+ * @returns Earliest-arriving journey, or null if the destination cannot be
+ *   reached within `maxDurationMs` or a stop ID is unknown
+ */
+export function planJourney(network: TransitNetwork, options: JourneyOptions): Journey | null {
+  const {
+    from,
+    to,
+    departAt = new Date(),
+    maxWalkMeters = DEFAULT_MAX_WALK_METERS,
+    walkSpeed = DEFAULT_WALK_SPEED,
+    minTransferSeconds = DEFAULT_MIN_TRANSFER_SECONDS,
+    maxDurationMs = DEFAULT_MAX_DURATION_MS,
+  } = options;
+
+  const origins = resolveEndpoint(network, from, maxWalkMeters, walkSpeed);
+  const egresses = resolveEndpoint(network, to, maxWalkMeters, walkSpeed);
+  if (origins === null || egresses === null) {
+    return null;
+  }
+
+  const start = Math.floor(departAt.getTime() / 1000);
+  const end = start + Math.floor(maxDurationMs / 1000);
+
+  /** Earliest time a trip can be boarded at each stop, in epoch seconds */
+  const ready = new Map<string, number>();
+  const labels = new Map<string, StopLabel>();
+  /** First connection boarded on each trip run, keyed by service date and trip ID */
+  const boardings = new Map<string, ScannedConnection>();
+  const best: { destination: Destination | null } = { destination: null };
+
+  const reachDestination = (stopId: string, arrival: number, label: StopLabel): void => {
+    const egress = egresses.get(stopId);
+    if (egress === undefined) return;
+
+    const total = arrival + egress.seconds;
+    if (total <= end && (best.destination === null || total < best.destination.arrival)) {
+      best.destination = { arrival: total, stopId, label, egress };
+    }
+  };
+
+  for (const [stopId, access] of origins) {
+    const label: StopLabel = { kind: 'access', access };
+    ready.set(stopId, start + access.seconds);
+    labels.set(stopId, label);
+    reachDestination(stopId, start + access.seconds, label);
+  }
+
+  const streams = createDayStreams(network, start, end);
+
+  for (let stream = nextStream(network, streams); stream !== null; stream = nextStream(network, streams)) {
+    const connection = network.connections[stream.next];
+    stream.next++;
+    if (connection === undefined) continue;
+
+    const departure = stream.dayStart + connection.departureSeconds;
+    if (departure > end || (best.destination !== null && departure >= best.destination.arrival)) {
+      break;
+    }
+
+    if (!isRunning(connection, stream)) continue;
+
+    const runKey = `${stream.serviceDate}|${connection.trip.id}`;
+    let board = boardings.get(runKey);
+    if (board === undefined) {
+      const readyAt = ready.get(connection.fromStopId);
+      if (readyAt === undefined || readyAt > departure) continue;
+
+      board = { connection, day: stream };
+      boardings.set(runKey, board);
+    }
+
+    const arrival = stream.dayStart + connection.arrivalSeconds;
+    const label: StopLabel = { kind: 'transit', board, alight: { connection, day: stream } };
+    reachDestination(connection.toStopId, arrival, label);
+
+    const readyAt = arrival + minTransferSeconds;
+    if (readyAt >= (ready.get(connection.toStopId) ?? Infinity)) continue;
+
+    ready.set(connection.toStopId, readyAt);
+    labels.set(connection.toStopId, label);
+
+    for (const footpath of network.footpaths.get(connection.toStopId) ?? []) {
+      if (!footpath.linked && footpath.distanceMeters > maxWalkMeters) continue;
+
+      const walkSeconds = Math.ceil(footpath.distanceMeters / walkSpeed);
+      const walkReady = arrival + Math.max(walkSeconds, minTransferSeconds);
+      if (walkReady >= (ready.get(footpath.toStopId) ?? Infinity)) continue;
+
+      ready.set(footpath.toStopId, walkReady);
+      labels.set(footpath.toStopId, {
+        kind: 'walk',
+        fromStopId: connection.toStopId,
+        departure: arrival,
+        arrival: arrival + walkSeconds,
+        distanceMeters: footpath.distanceMeters,
+      });
+    }
+  }
+
+  return best.destination !== null
+    ? buildJourney(network, best.destination, labels, { from, to, departAt: start })
+    : null;
+}
@@ -0,0 +1,208 @@
+/**
+ * Multi-feed transit network
+ * @module planner/multi-feed
+ *
+ * Each city publishes its own GTFS feed, and the national `intercity` feed
+ * is separate again. IDs are only unique within a feed, so a merged network
+ * prefixes every stop, trip and route ID with its city (`vilnius:0701`).
+ * Feeds share no stops either: the same bus station appears once per feed,
+ * often under slightly different names and coordinates. Stops are linked
+ * across feeds when they are within walking distance, or when their names
+ * match and they are close enough to be the same station.
+ */
+
+import type { Stop } from '../types.js';
+import type { ScheduleIndex } from '../schedule/schedule-index.js';
+import {
+  buildConnections,
+  buildFootpaths,
+  createTransitNetwork,
+  DEFAULT_MAX_TRANSFER_METERS,
+  type Connection,
+  type Footpath,
+  type TransitNetwork,
+  type TransitNetworkOptions,
+} from './network.js';
+import { haversineDistance, foldText } from '../utils/index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Schedule and stops of one feed.
+ */
+export interface FeedSource {
+  /** City the feed belongs to, used as the ID namespace */
+  readonly city: string;
+  /** Schedule index of the feed */
+  readonly schedule: ScheduleIndex;
+  /** All stops of the feed */
+  readonly stops: readonly Stop[];
+}
+
+/**
+ * Options for building a multi-feed network.
+ */
+export interface MultiFeedNetworkOptions extends TransitNetworkOptions {
+  /**
+   * Maximum distance between stops of different feeds with matching names
+   * for them to be linked as the same station (default: 1000 m)
+   */
+  maxNameLinkMeters?: number;
+}
+
+const DEFAULT_MAX_NAME_LINK_METERS = 1000;
+
+/** Separator between the city and the feed-local ID */
+export const FEED_ID_SEPARATOR = ':';
+
+// =============================================================================
+// Namespaced IDs
+// =============================================================================
+
+/**
+ * Namespace a feed-local ID with its city.
+ *
+ * @example
+ * toFeedId('vilnius', '0701') // => 'vilnius:0701'
+ */
+export function toFeedId(city: string, id: string): string {
+  return `${city}${FEED_ID_SEPARATOR}${id}`;
+}
+
+/**
+ * Split a namespaced ID into its city and feed-local ID.
+ *
+ * @returns City and ID, or null if the ID is not namespaced
+ */
+export function fromFeedId(feedId: string): { city: string; id: string } | null {
+  const index = feedId.indexOf(FEED_ID_SEPARATOR);
+  if (index <= 0) {
+    return null;
+  }
+  return { city: feedId.slice(0, index), id: feedId.slice(index + 1) };
+}
+
+// =============================================================================
+// Stop Linking
+// =============================================================================
+
+/**
+ * The full normalized name and its suffixes of at least two words,
+ * longest first. "vilniaus autobusu stotis" matches a stop named
+ * "autobusu stotis", but "zirmunu mokykla" does not match "mokykla".
+ */
+function nameSuffixes(normalized: string): string[] {
+  const words = normalized.split(' ');
+  const suffixes = [normalized];
+  for (let i = 1; i <= words.length - 2; i++) {
+    suffixes.push(words.slice(i).join(' '));
+  }
+  return suffixes;
+}
+
+/**
+ * Link stops of different feeds whose names match and that lie within
+ * `maxMeters` of each other. One name matches another if it is equal to
+ * it or ends with it as at least two whole words. Pairs that already have
+ * a footpath are not linked again.
+ *
+ * @param stops - Namespaced stops of all feeds
+ * @param maxMeters - Maximum distance between linked stops
+ * @param footpaths - Footpaths to add the links to (both directions)
+ */
+export function linkStopsByName(
+  stops: readonly Stop[],
+  maxMeters: number,
+  footpaths: Map<string, Footpath[]>
+): void {
+  const byName = new Map<string, Stop[]>();
+  for (const stop of stops) {
+    const name = foldText(stop.name);
+    if (name === '') continue;
+
+    const existing = byName.get(name);
+    if (existing !== undefined) {
+      existing.push(stop);
+    } else {
+      byName.set(name, [stop]);
+    }
+  }
+
+  const linked = new Set<string>();
+  const add = (from: Stop, to: Stop, distanceMeters: number): void => {
+    const existing = footpaths.get(from.id);
+    const footpath: Footpath = { toStopId: to.id, distanceMeters, linked: true };
+    if (existing !== undefined) {
+      existing.push(footpath);
+    } else {
+      footpaths.set(from.id, [footpath]);
+    }
+  };
+
+  for (const stop of stops) {
+    const city = fromFeedId(stop.id)?.city;
+
+    for (const suffix of nameSuffixes(foldText(stop.name))) {
+      for (const other of byName.get(suffix) ?? []) {
+        if (fromFeedId(other.id)?.city === city) continue;
+
+        const key = stop.id < other.id ? `${stop.id}|${other.id}` : `${other.id}|${stop.id}`;
+        if (linked.has(key)) continue;
+        if (footpaths.get(stop.id)?.some(f => f.toStopId === other.id) === true) continue;
+
+        const distance = haversineDistance(stop.latitude, stop.longitude, other.latitude, other.longitude);
+        if (distance > maxMeters) continue;
+
+        linked.add(key);
+        add(stop, other, distance);
+        add(other, stop, distance);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Build one transit network from several feeds.
+ *
+ * Stop, trip and route IDs are namespaced with `toFeedId()`. Stops of any
+ * feed within `maxTransferMeters` are connected by walking transfers, and
+ * stops of different feeds with matching names within `maxNameLinkMeters`
+ * are linked regardless of the walking limit.
+ *
+ * @param feeds - Feeds to merge
+ * @param options - Network options
+ * @returns Network ready for journey planning with namespaced IDs
+ */
+export function buildMultiFeedNetwork(
+  feeds: readonly FeedSource[],
+  options: MultiFeedNetworkOptions = {}
+): TransitNetwork {
+  const {
+    maxTransferMeters = DEFAULT_MAX_TRANSFER_METERS,
+    maxNameLinkMeters = DEFAULT_MAX_NAME_LINK_METERS,
+  } = options;
+
+  const stops: Stop[] = [];
+  const connections: Connection[] = [];
+
+  for (const feed of feeds) {
+    const prefix = toFeedId(feed.city, '');
+    for (const stop of feed.stops) {
+      stops.push({ ...stop, id: prefix + stop.id });
+    }
+    for (const connection of buildConnections(feed.schedule, prefix)) {
+      connections.push(connection);
+    }
+  }
+
+  const footpaths = buildFootpaths(stops, maxTransferMeters);
+  linkStopsByName(stops, maxNameLinkMeters, footpaths);
+
+  return createTransitNetwork(stops, connections, footpaths);
+}
@@ -0,0 +1,231 @@
+/**
+ * Transit network for journey planning
+ * @module planner/network
+ *
+ * Flattens cached GTFS trips into elementary connections (one per pair of
+ * consecutive stops of a trip) sorted by departure time, which is the
+ * input the Connection Scan Algorithm walks through. Walking transfers
+ * between nearby stops are computed once, since they do not depend on
+ * the query.
+ */
+
+import type { Route, Stop } from '../types.js';
+import type { ScheduleIndex } from '../schedule/schedule-index.js';
+import type { ServiceCalendar } from '../schedule/service-calendar.js';
+import {
+  parseGtfsTime,
+  buildSpatialIndex,
+  findWithinRadius,
+  type SpatialIndex,
+} from '../utils/index.js';
+
+// =============================================================================
+// Network Types
+// =============================================================================
+
+/**
+ * A trip as seen by the planner.
+ */
+export interface NetworkTrip {
+  /** GTFS trip ID */
+  readonly id: string;
+  /** GTFS route ID */
+  readonly routeId: string;
+  /** Route the trip belongs to, if known */
+  readonly route: Route | undefined;
+  /** Service ID, resolved against `calendar` */
+  readonly serviceId: string;
+  /** Trip headsign */
+  readonly headsign: string;
+  /** Service calendar of the feed the trip comes from */
+  readonly calendar: ServiceCalendar;
+}
+
+/**
+ * A vehicle going from one stop to the next without stopping in between.
+ */
+export interface Connection {
+  /** Trip making the connection */
+  readonly trip: NetworkTrip;
+  /** Stop the connection departs from */
+  readonly fromStopId: string;
+  /** Stop the connection arrives at */
+  readonly toStopId: string;
+  /** Departure in seconds since service day start */
+  readonly departureSeconds: number;
+  /** Arrival in seconds since service day start */
+  readonly arrivalSeconds: number;
+  /** Headsign shown at the departure stop */
+  readonly headsign: string;
+}
+
+/**
+ * A walking transfer between two stops.
+ */
+export interface Footpath {
+  /** Stop the walk leads to */
+  readonly toStopId: string;
+  /** Straight-line distance in meters */
+  readonly distanceMeters: number;
+  /**
+   * Whether the stops were explicitly linked (e.g. the same station in two
+   * feeds). Linked footpaths are not subject to the walking distance limit.
+   */
+  readonly linked: boolean;
+}
+
+/**
+ * Connections, stops and walking transfers of one or more feeds.
+ */
+export interface TransitNetwork {
+  /** Stops keyed by stop ID */
+  readonly stops: Map<string, Stop>;
+  /** Spatial index of the stops, for coordinate endpoints */
+  readonly stopIndex: SpatialIndex<Stop>;
+  /** All connections sorted by departure seconds */
+  readonly connections: readonly Connection[];
+  /** Walking transfers keyed by origin stop ID */
+  readonly footpaths: Map<string, Footpath[]>;
+  /** Largest arrival time of any connection, in seconds since service day start */
+  readonly maxArrivalSeconds: number;
+}
+
+/**
+ * Options for building a transit network.
+ */
+export interface TransitNetworkOptions {
+  /** Maximum walking distance between two stops for a transfer (default: 400 m) */
+  maxTransferMeters?: number;
+}
+
+export const DEFAULT_MAX_TRANSFER_METERS = 400;
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Build connections from the stop times of a schedule index.
+ *
+ * @param index - Schedule index of a feed
+ * @param idPrefix - Prefix for trip, route and stop IDs, to keep IDs of
+ *   several feeds apart in one network (default: none)
+ * @returns Connections in trip order (unsorted)
+ */
+export function buildConnections(index: ScheduleIndex, idPrefix = ''): Connection[] {
+  const connections: Connection[] = [];
+
+  for (const [tripId, stopTimes] of index.stopTimesByTrip) {
+    const trip = index.trips.get(tripId);
+    if (trip === undefined) continue;
+
+    const networkTrip: NetworkTrip = {
+      id: idPrefix + trip.id,
+      routeId: idPrefix + trip.routeId,
+      route: index.routesById.get(trip.routeId),
+      serviceId: trip.serviceId,
+      headsign: trip.headsign,
+      calendar: index.serviceCalendar,
+    };
+
+    for (let i = 0; i < stopTimes.length - 1; i++) {
+      const from = stopTimes[i];
+      const to = stopTimes[i + 1];
+      if (from === undefined || to === undefined) continue;
+
+      const departureSeconds = parseGtfsTime(from.departureTime);
+      const arrivalSeconds = parseGtfsTime(to.arrivalTime) ?? parseGtfsTime(to.departureTime);
+      if (departureSeconds === null || arrivalSeconds === null || arrivalSeconds < departureSeconds) {
+        continue;
+      }
+
+      connections.push({
+        trip: networkTrip,
+        fromStopId: idPrefix + from.stopId,
+        toStopId: idPrefix + to.stopId,
+        departureSeconds,
+        arrivalSeconds,
+        headsign: from.headsign !== null && from.headsign !== '' ? from.headsign : trip.headsign,
+      });
+    }
+  }
+
+  return connections;
+}
+
+/**
+ * Find walking transfers between all pairs of stops within a distance.
+ *
+ * @param stops - Stops to connect
+ * @param maxMeters - Maximum walking distance
+ * @returns Footpaths keyed by origin stop ID (in both directions)
+ */
+export function buildFootpaths(stops: readonly Stop[], maxMeters: number): Map<string, Footpath[]> {
+  const footpaths = new Map<string, Footpath[]>();
+  const index = buildSpatialIndex(stops, Math.max(maxMeters, 1));
+
+  for (const stop of stops) {
+    const nearby = findWithinRadius(index, stop.latitude, stop.longitude, maxMeters)
+      .filter(({ item }) => item.id !== stop.id)
+      .map(({ item, distanceMeters }): Footpath => ({ toStopId: item.id, distanceMeters, linked: false }));
+
+    if (nearby.length > 0) {
+      footpaths.set(stop.id, nearby);
+    }
+  }
+
+  return footpaths;
+}
+
+/**
+ * Build a transit network from the schedule and stops of a city.
+ *
+ * @param index - Schedule index of the city
+ * @param stops - All stops of the city
+ * @param options - Network options
+ * @returns Network ready for journey planning
+ */
+export function buildTransitNetwork(
+  index: ScheduleIndex,
+  stops: readonly Stop[],
+  options: TransitNetworkOptions = {}
+): TransitNetwork {
+  const { maxTransferMeters = DEFAULT_MAX_TRANSFER_METERS } = options;
+
+  return createTransitNetwork(
+    stops,
+    buildConnections(index),
+    buildFootpaths(stops, maxTransferMeters)
+  );
+}
+
+/**
+ * Assemble a network from its parts, sorting connections by departure.
+ *
+ * @param stops - All stops referenced by connections
+ * @param connections - Connections in any order
+ * @param footpaths - Walking transfers keyed by origin stop ID
+ * @returns Transit network
+ */
+export function createTransitNetwork(
+  stops: readonly Stop[],
+  connections: Connection[],
+  footpaths: Map<string, Footpath[]>
+): TransitNetwork {
+  connections.sort((a, b) => a.departureSeconds - b.departureSeconds);
+
+  let maxArrivalSeconds = 0;
+  for (const connection of connections) {
+    if (connection.arrivalSeconds > maxArrivalSeconds) {
+      maxArrivalSeconds = connection.arrivalSeconds;
+    }
+  }
+
+  return {
+    stops: new Map(stops.map(stop => [stop.id, stop])),
+    stopIndex: buildSpatialIndex(stops),
+    connections,
+    footpaths,
+    maxArrivalSeconds,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Vehicle recording module exports
+ * @module recorder
+ */
+
+export {
+  VehicleRecorder,
+  type RecordVehiclesOptions,
+  type VehicleRecorderEvents,
+} from './recorder.js';
+
+export {
+  MemoryVehicleStore,
+  type VehicleStore,
+  type RecordingQuery,
+  type MemoryVehicleStoreOptions,
+} from './store.js';
+
+export {
+  NdjsonVehicleStore,
+  type NdjsonVehicleStoreOptions,
+} from './ndjson-store.js';
+
+export {
+  SqliteVehicleStore,
+  type SqliteDatabase,
+  type SqliteStatement,
+  type SqliteValue,
+  type SqliteVehicleStoreOptions,
+} from './sqlite-store.js';
@@ -0,0 +1,182 @@
+/**
+ * Newline-delimited JSON vehicle store
+ * @module recorder/ndjson-store
+ *
+ * Appends one snapshot per line to a file per city and Lithuanian
+ * calendar day: `<directory>/<city>/<YYYY-MM-DD>.ndjson`. Daily files
+ * are easy to rotate, archive and process with line-oriented tools.
+ */
+
+import { createReadStream, existsSync } from 'node:fs';
+import { appendFile, mkdir, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { RecordedSnapshot } from '../types.js';
+import { recordedSnapshotSchema, safeParse } from '../schemas.js';
+import { getLithuanianDate } from '../utils/index.js';
+import { compareSnapshots, matchesQuery, type RecordingQuery, type VehicleStore } from './store.js';
+
+/**
+ * Options for the NDJSON vehicle store.
+ */
+export interface NdjsonVehicleStoreOptions {
+  /** Directory holding one subdirectory of daily files per city */
+  directory: string;
+}
+
+const FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.ndjson$/;
+
+/**
+ * Parse one line of a daily file. Lines that do not parse, such as one
+ * cut short by a crash during writing, give null.
+ */
+function parseLine(line: string): RecordedSnapshot | null {
+  if (line.trim() === '') return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  return safeParse(recordedSnapshotSchema, data);
+}
+
+/**
+ * Stream the snapshots of a daily file that match a query, line by line.
+ */
+async function* readFileSnapshots(
+  path: string,
+  query: RecordingQuery
+): AsyncGenerator<RecordedSnapshot, void, undefined> {
+  const input = createReadStream(path, { encoding: 'utf-8' });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      const snapshot = parseLine(line);
+      if (snapshot !== null && matchesQuery(snapshot, query)) {
+        yield snapshot;
+      }
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+/**
+ * Merge snapshot streams that are each in recording order into one
+ * stream in recording order, holding one snapshot per stream at a time.
+ */
+async function* mergeSnapshots(
+  sources: AsyncGenerator<RecordedSnapshot, void, undefined>[]
+): AsyncGenerator<RecordedSnapshot, void, undefined> {
+  const heads: { source: AsyncGenerator<RecordedSnapshot, void, undefined>; snapshot: RecordedSnapshot }[] = [];
+
+  try {
+    for (const source of sources) {
+      const first = await source.next();
+      if (first.done !== true) {
+        heads.push({ source, snapshot: first.value });
+      }
+    }
+
+    while (heads.length > 0) {
+      const head = heads.reduce((min, candidate) =>
+        compareSnapshots(candidate.snapshot, min.snapshot) < 0 ? candidate : min
+      );
+      yield head.snapshot;
+
+      const next = await head.source.next();
+      if (next.done === true) {
+        heads.splice(heads.indexOf(head), 1);
+      } else {
+        head.snapshot = next.value;
+      }
+    }
+  } finally {
+    // Close the files still open when the caller stops early
+    await Promise.all(sources.map(source => source.return(undefined)));
+  }
+}
+
+/**
+ * Records snapshots to daily NDJSON files.
+ *
+ * @example
+ * const store = new NdjsonVehicleStore({ directory: './recordings' });
+ * const recorder = transport.recordVehicles(['vilnius', 'kaunas'], store);
+ */
+export class NdjsonVehicleStore implements VehicleStore {
+  private readonly directory: string;
+  private readonly createdDirs = new Set<string>();
+
+  /**
+   * @param options - Target directory
+   */
+  constructor(options: NdjsonVehicleStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async append(snapshot: RecordedSnapshot): Promise<void> {
+    const cityDir = join(this.directory, snapshot.city);
+    if (!this.createdDirs.has(cityDir)) {
+      await mkdir(cityDir, { recursive: true });
+      this.createdDirs.add(cityDir);
+    }
+
+    const file = join(cityDir, `${getLithuanianDate(snapshot.recordedAt)}.ndjson`);
+    await appendFile(file, JSON.stringify(snapshot) + '\n');
+  }
+
+  async *read(query: RecordingQuery = {}): AsyncGenerator<RecordedSnapshot, void, undefined> {
+    const files = await this.listFiles(query);
+    const dates = [...new Set(files.map(file => file.date))].sort();
+
+    // Each file is in append order, so the cities' files of a day are
+    // merged as they are read, one day at a time
+    for (const date of dates) {
+      const sources = files
+        .filter(file => file.date === date)
+        .map(file => readFileSnapshots(file.path, query));
+      yield* mergeSnapshots(sources);
+    }
+  }
+
+  /**
+   * List daily files that may hold snapshots matching the query.
+   */
+  private async listFiles(query: RecordingQuery): Promise<{ date: string; path: string }[]> {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+
+    const cities = query.city !== undefined
+      ? [query.city]
+      : (await readdir(this.directory, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name);
+
+    // Files are named by local date, so the day of each bound is included
+    const fromDate = query.from !== undefined ? getLithuanianDate(query.from) : null;
+    const toDate = query.to !== undefined ? getLithuanianDate(query.to) : null;
+
+    const files: { date: string; path: string }[] = [];
+    for (const city of cities) {
+      const cityDir = join(this.directory, city);
+      if (!existsSync(cityDir)) continue;
+
+      for (const name of await readdir(cityDir)) {
+        const date = FILE_PATTERN.exec(name)?.[1];
+        if (date === undefined) continue;
+        if (fromDate !== null && date < fromDate) continue;
+        if (toDate !== null && date > toDate) continue;
+        files.push({ date, path: join(cityDir, name) });
+      }
+    }
+
+    return files;
+  }
+}
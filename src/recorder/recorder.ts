@@ -0,0 +1,208 @@
+/**
+ * Vehicle position recorder
+ * @module recorder/recorder
+ *
+ * Polls the GPS streams of several cities on a fixed interval and appends
+ * each snapshot to a vehicle store. A city whose poll fails is skipped
+ * until the next interval; a store that fails to write stops recording.
+ */
+
+import { EventEmitter } from 'node:events';
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { RecordedSnapshot, Vehicle } from '../types.js';
+import type { VehicleSnapshot } from '../live/vehicle-watcher.js';
+import { mapSettledWithConcurrency } from '../utils/index.js';
+import type { VehicleStore } from './store.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for recording vehicles.
+ */
+export interface RecordVehiclesOptions {
+  /** Polling interval in milliseconds (default: 30 seconds) */
+  intervalMs?: number;
+
+  /** Maximum number of cities polled at the same time (default: 4) */
+  concurrency?: number;
+
+  /** Signal to stop recording */
+  signal?: AbortSignal;
+}
+
+/**
+ * Events emitted by a VehicleRecorder.
+ */
+export interface VehicleRecorderEvents {
+  /** A snapshot was written to the store */
+  record: [snapshot: RecordedSnapshot];
+  /** Polling a city or writing its snapshot failed */
+  error: [error: Error, city: string];
+  /** The recorder stopped */
+  end: [];
+}
+
+const DEFAULT_INTERVAL_MS = 30_000;
+const DEFAULT_CONCURRENCY = 4;
+
+// =============================================================================
+// Recorder
+// =============================================================================
+
+/**
+ * Records vehicle snapshots of several cities into a store.
+ *
+ * Recording starts on construction and runs until `stop()` is called,
+ * the abort signal fires, or the store fails. A snapshot whose newest
+ * vehicle measurement is not newer than that of the last recorded one of
+ * the city (an unchanged or lagging payload, whatever its Date header) is
+ * not written again; neither is an empty snapshot after an empty one.
+ */
+export class VehicleRecorder extends EventEmitter<VehicleRecorderEvents> {
+  /** Cities being recorded */
+  readonly cities: readonly string[];
+
+  private readonly controller = new AbortController();
+  private readonly intervalMs: number;
+  private readonly concurrency: number;
+  /** Newest measurement of the last recorded snapshot per city; null if it had no vehicles */
+  private readonly lastMeasuredAt = new Map<string, number | null>();
+  private readonly finished: Promise<void>;
+  private stopped = false;
+  private recorded = 0;
+  private readonly signal: AbortSignal | undefined;
+  private readonly onAbort = (): void => { void this.stop(); };
+
+  /**
+   * @param cities - Cities to record (duplicates are recorded once)
+   * @param poll - Fetches the current vehicles and server time of a city
+   * @param store - Store receiving the snapshots
+   * @param options - Recording options
+   */
+  constructor(
+    cities: readonly string[],
+    private readonly poll: (city: string) => Promise<VehicleSnapshot>,
+    readonly store: VehicleStore,
+    options: RecordVehiclesOptions = {}
+  ) {
+    super();
+    this.cities = [...new Set(cities)];
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+
+    this.signal = options.signal;
+    if (this.signal?.aborted === true) {
+      // Nothing is running yet; 'end' is deferred so listeners attached
+      // right after construction still receive it
+      this.finished = Promise.resolve();
+      this.stopped = true;
+      queueMicrotask(() => {
+        this.emit('end');
+      });
+    } else {
+      this.signal?.addEventListener('abort', this.onAbort, { once: true });
+      this.finished = this.run();
+    }
+  }
+
+  /** Number of snapshots written so far */
+  get recordedCount(): number {
+    return this.recorded;
+  }
+
+  /** Whether the recorder has stopped */
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Stop recording. The returned promise resolves once a write in
+   * progress has finished, after which the store can be closed safely.
+   */
+  stop(): Promise<void> {
+    if (!this.stopped) {
+      this.stopped = true;
+      this.signal?.removeEventListener('abort', this.onAbort);
+      this.controller.abort();
+      this.emit('end');
+    }
+    return this.finished;
+  }
+
+  private async run(): Promise<void> {
+    while (!this.stopped) {
+      await this.recordOnce();
+
+      try {
+        await sleep(this.intervalMs, undefined, { signal: this.controller.signal });
+      } catch {
+        // Aborted - loop condition ends the run
+      }
+    }
+  }
+
+  /**
+   * Poll every city and write the new snapshots.
+   */
+  private async recordOnce(): Promise<void> {
+    const results = await mapSettledWithConcurrency(this.cities, this.concurrency, this.poll);
+
+    for (const [index, city] of this.cities.entries()) {
+      const result = results[index];
+      if (this.stopped || result === undefined) return;
+
+      if (result.status === 'rejected') {
+        this.reportError(result.reason, city);
+        continue;
+      }
+
+      const { vehicles, serverTime: recordedAt } = result.value;
+      const measuredAt = newestMeasurement(vehicles);
+      if (!isNewerMeasurement(measuredAt, this.lastMeasuredAt.get(city))) continue;
+
+      const snapshot: RecordedSnapshot = { city, recordedAt, vehicles };
+      try {
+        await this.store.append(snapshot);
+      } catch (error) {
+        this.reportError(error, city);
+        void this.stop();
+        return;
+      }
+
+      this.lastMeasuredAt.set(city, measuredAt);
+      this.recorded++;
+      this.emit('record', snapshot);
+    }
+  }
+
+  private reportError(error: unknown, city: string): void {
+    // Without listeners an 'error' event would throw; recording carries on instead
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error instanceof Error ? error : new Error(String(error)), city);
+    }
+  }
+}
+
+/**
+ * Newest measurement time of a set of vehicles in ms, or null if there are none.
+ */
+function newestMeasurement(vehicles: readonly Vehicle[]): number | null {
+  let newest: number | null = null;
+  for (const vehicle of vehicles) {
+    const time = vehicle.measuredAt.getTime();
+    if (newest === null || time > newest) newest = time;
+  }
+  return newest;
+}
+
+/**
+ * Whether a snapshot's newest measurement differs from the last recorded
+ * one: later, or the first after an empty snapshot or vice versa.
+ */
+function isNewerMeasurement(measuredAt: number | null, previous: number | null | undefined): boolean {
+  if (previous === undefined) return true;
+  if (measuredAt === null) return previous !== null;
+  return previous === null || measuredAt > previous;
+}
@@ -0,0 +1,239 @@
+/**
+ * SQLite vehicle store
+ * @module recorder/sqlite-store
+ *
+ * Records snapshots into two tables: `vehicle_snapshots` with one row
+ * per poll and `vehicle_positions` with one row per vehicle, so recordings
+ * can be queried with plain SQL. The SDK does not depend on a SQLite
+ * driver; pass an open database from `better-sqlite3` or `node:sqlite`
+ * (Node 22+), which both satisfy the `SqliteDatabase` interface.
+ */
+
+import type { RecordedSnapshot, Vehicle } from '../types.js';
+import {
+  safeParse,
+  sqlitePositionRowSchema,
+  sqliteSnapshotRowSchema,
+  type SqlitePositionRow,
+} from '../schemas.js';
+import { toAsyncIterable, type RecordingQuery, type VehicleStore } from './store.js';
+
+// =============================================================================
+// Database Adapter
+// =============================================================================
+
+/** Value bound to a statement parameter */
+export type SqliteValue = string | number | null;
+
+/**
+ * Prepared statement of a synchronous SQLite driver.
+ */
+export interface SqliteStatement {
+  /** Execute the statement */
+  run(...params: SqliteValue[]): unknown;
+
+  /** Execute the statement and return all result rows as objects */
+  all(...params: SqliteValue[]): unknown[];
+}
+
+/**
+ * Open database of a synchronous SQLite driver.
+ */
+export interface SqliteDatabase {
+  /** Execute one or more statements without parameters */
+  exec(sql: string): unknown;
+
+  /** Prepare a statement */
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Options for the SQLite vehicle store.
+ */
+export interface SqliteVehicleStoreOptions {
+  /** Close the database when the store is closed (default: false) */
+  closeDatabase?: boolean;
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS vehicle_snapshots (
+  id INTEGER PRIMARY KEY,
+  city TEXT NOT NULL,
+  recorded_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS vehicle_snapshots_time ON vehicle_snapshots (recorded_at, city);
+CREATE TABLE IF NOT EXISTS vehicle_positions (
+  snapshot_id INTEGER NOT NULL REFERENCES vehicle_snapshots (id),
+  vehicle_id TEXT NOT NULL,
+  vehicle_number TEXT NOT NULL,
+  route TEXT NOT NULL,
+  type TEXT NOT NULL,
+  latitude REAL NOT NULL,
+  longitude REAL NOT NULL,
+  bearing REAL NOT NULL,
+  speed REAL NOT NULL,
+  destination TEXT,
+  delay_seconds INTEGER,
+  trip_id TEXT,
+  gtfs_trip_id TEXT,
+  next_stop_id TEXT,
+  arrival_time_seconds INTEGER,
+  is_stale INTEGER NOT NULL,
+  measured_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS vehicle_positions_snapshot ON vehicle_positions (snapshot_id);
+`;
+
+function toVehicle(row: SqlitePositionRow): Vehicle {
+  return {
+    id: row.vehicle_id,
+    vehicleNumber: row.vehicle_number,
+    route: row.route,
+    type: row.type,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    bearing: row.bearing,
+    speed: row.speed,
+    destination: row.destination,
+    delaySeconds: row.delay_seconds,
+    tripId: row.trip_id,
+    gtfsTripId: row.gtfs_trip_id,
+    nextStopId: row.next_stop_id,
+    arrivalTimeSeconds: row.arrival_time_seconds,
+    isStale: row.is_stale !== 0,
+    measuredAt: new Date(row.measured_at),
+  };
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+/**
+ * Records snapshots into a SQLite database.
+ *
+ * @example
+ * import Database from 'better-sqlite3';
+ *
+ * const store = new SqliteVehicleStore(new Database('recordings.db'));
+ * const recorder = transport.recordVehicles(['vilnius'], store);
+ */
+export class SqliteVehicleStore implements VehicleStore {
+  private readonly insertSnapshot: SqliteStatement;
+  private readonly insertPosition: SqliteStatement;
+  private readonly selectPositions: SqliteStatement;
+  private readonly closeDatabase: boolean;
+
+  /**
+   * Create the tables if they do not exist.
+   *
+   * @param db - Open database
+   * @param options - Store options
+   */
+  constructor(
+    private readonly db: SqliteDatabase & { close?(): unknown },
+    options: SqliteVehicleStoreOptions = {}
+  ) {
+    this.closeDatabase = options.closeDatabase ?? false;
+    db.exec(SCHEMA);
+
+    this.insertSnapshot = db.prepare('INSERT INTO vehicle_snapshots (city, recorded_at) VALUES (?, ?) RETURNING id');
+    this.insertPosition = db.prepare(
+      'INSERT INTO vehicle_positions VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    this.selectPositions = db.prepare('SELECT * FROM vehicle_positions WHERE snapshot_id = ? ORDER BY rowid');
+  }
+
+  append(snapshot: RecordedSnapshot): Promise<void> {
+    this.db.exec('BEGIN');
+    try {
+      const [inserted] = this.insertSnapshot.all(snapshot.city, snapshot.recordedAt.getTime());
+      const snapshotId = safeParse(sqliteSnapshotRowSchema.pick({ id: true }), inserted)?.id ?? null;
+      for (const v of snapshot.vehicles) {
+        this.insertPosition.run(
+          snapshotId,
+          v.id,
+          v.vehicleNumber,
+          v.route,
+          v.type,
+          v.latitude,
+          v.longitude,
+          v.bearing,
+          v.speed,
+          v.destination,
+          v.delaySeconds,
+          v.tripId,
+          v.gtfsTripId,
+          v.nextStopId,
+          v.arrivalTimeSeconds,
+          v.isStale ? 1 : 0,
+          v.measuredAt.getTime()
+        );
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+
+    return Promise.resolve();
+  }
+
+  read(query: RecordingQuery = {}): AsyncIterable<RecordedSnapshot> {
+    return toAsyncIterable(this.select(query));
+  }
+
+  close(): Promise<void> {
+    if (this.closeDatabase) {
+      this.db.close?.();
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Query snapshots, loading their positions one snapshot at a time.
+   */
+  private *select(query: RecordingQuery): Generator<RecordedSnapshot, void, undefined> {
+    const conditions: string[] = [];
+    const params: SqliteValue[] = [];
+
+    if (query.city !== undefined) {
+      conditions.push('city = ?');
+      params.push(query.city);
+    }
+    if (query.from !== undefined) {
+      conditions.push('recorded_at >= ?');
+      params.push(query.from.getTime());
+    }
+    if (query.to !== undefined) {
+      conditions.push('recorded_at < ?');
+      params.push(query.to.getTime());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const snapshots = this.db
+      .prepare(`SELECT id, city, recorded_at FROM vehicle_snapshots ${where} ORDER BY recorded_at, city`)
+      .all(...params);
+
+    // Rows that do not match the table schema, such as ones edited by
+    // hand, are skipped like unparsable lines of the NDJSON store
+    for (const data of snapshots) {
+      const row = safeParse(sqliteSnapshotRowSchema, data);
+      if (row === null) continue;
+
+      const vehicles: Vehicle[] = [];
+      for (const position of this.selectPositions.all(row.id)) {
+        const positionRow = safeParse(sqlitePositionRowSchema, position);
+        if (positionRow !== null) {
+          vehicles.push(toVehicle(positionRow));
+        }
+      }
+
+      yield { city: row.city, recordedAt: new Date(row.recorded_at), vehicles };
+    }
+  }
+}
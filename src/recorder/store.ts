@@ -0,0 +1,149 @@
+/**
+ * Vehicle store interface and in-memory store
+ * @module recorder/store
+ *
+ * A vehicle store keeps recorded snapshots and reads them back in time
+ * order. The memory store keeps the latest snapshots of each city in a
+ * fixed-size ring buffer, which suits short debugging windows and tests.
+ */
+
+import type { RecordedSnapshot } from '../types.js';
+
+// =============================================================================
+// Store Interface
+// =============================================================================
+
+/**
+ * Filter for reading recorded snapshots.
+ */
+export interface RecordingQuery {
+  /** Only snapshots of this city */
+  city?: string;
+
+  /** Only snapshots recorded at or after this instant */
+  from?: Date;
+
+  /** Only snapshots recorded before this instant */
+  to?: Date;
+}
+
+/**
+ * Storage for recorded vehicle snapshots.
+ *
+ * Implement this interface to record into other databases. `read()`
+ * must yield snapshots ordered by `recordedAt`.
+ */
+export interface VehicleStore {
+  /** Store a snapshot */
+  append(snapshot: RecordedSnapshot): Promise<void>;
+
+  /** Read stored snapshots matching the query, oldest first */
+  read(query?: RecordingQuery): AsyncIterable<RecordedSnapshot>;
+
+  /** Release resources held by the store */
+  close?(): Promise<void>;
+}
+
+/**
+ * Check whether a snapshot matches a query.
+ */
+export function matchesQuery(snapshot: RecordedSnapshot, query: RecordingQuery): boolean {
+  const time = snapshot.recordedAt.getTime();
+  return (
+    (query.city === undefined || snapshot.city === query.city) &&
+    (query.from === undefined || time >= query.from.getTime()) &&
+    (query.to === undefined || time < query.to.getTime())
+  );
+}
+
+/**
+ * Order snapshots by recording time, then by city.
+ */
+export function compareSnapshots(a: RecordedSnapshot, b: RecordedSnapshot): number {
+  return a.recordedAt.getTime() - b.recordedAt.getTime() || a.city.localeCompare(b.city);
+}
+
+/**
+ * Expose a synchronous iterable through the async iteration protocol.
+ */
+export function toAsyncIterable<T>(items: Iterable<T>): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator]: (): AsyncIterator<T> => {
+      const iterator = items[Symbol.iterator]();
+      return { next: () => Promise.resolve(iterator.next()) };
+    },
+  };
+}
+
+// =============================================================================
+// Memory Store
+// =============================================================================
+
+/**
+ * Options for the in-memory vehicle store.
+ */
+export interface MemoryVehicleStoreOptions {
+  /** Snapshots kept per city; older ones are overwritten (default: 360, one hour at 10 s) */
+  capacity?: number;
+}
+
+const DEFAULT_CAPACITY = 360;
+
+/**
+ * Fixed-size buffer that overwrites its oldest entry when full.
+ */
+interface RingBuffer {
+  readonly items: RecordedSnapshot[];
+  start: number;
+}
+
+/**
+ * Keeps the latest snapshots of each city in memory.
+ *
+ * @example
+ * const store = new MemoryVehicleStore({ capacity: 60 });
+ * const recorder = transport.recordVehicles(['vilnius'], store);
+ */
+export class MemoryVehicleStore implements VehicleStore {
+  private readonly capacity: number;
+  private readonly buffers = new Map<string, RingBuffer>();
+
+  /**
+   * @param options - Buffer size
+   */
+  constructor(options: MemoryVehicleStoreOptions = {}) {
+    this.capacity = Math.max(1, Math.floor(options.capacity ?? DEFAULT_CAPACITY));
+  }
+
+  append(snapshot: RecordedSnapshot): Promise<void> {
+    let buffer = this.buffers.get(snapshot.city);
+    if (buffer === undefined) {
+      buffer = { items: [], start: 0 };
+      this.buffers.set(snapshot.city, buffer);
+    }
+
+    if (buffer.items.length < this.capacity) {
+      buffer.items.push(snapshot);
+    } else {
+      buffer.items[buffer.start] = snapshot;
+      buffer.start = (buffer.start + 1) % this.capacity;
+    }
+
+    return Promise.resolve();
+  }
+
+  read(query: RecordingQuery = {}): AsyncIterable<RecordedSnapshot> {
+    return toAsyncIterable(this.snapshots().filter(snapshot => matchesQuery(snapshot, query)).sort(compareSnapshots));
+  }
+
+  /**
+   * All buffered snapshots, oldest first within each city.
+   */
+  private snapshots(): RecordedSnapshot[] {
+    const snapshots: RecordedSnapshot[] = [];
+    for (const { items, start } of this.buffers.values()) {
+      snapshots.push(...items.slice(start), ...items.slice(0, start));
+    }
+    return snapshots;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Replay module exports
+ * @module replay
+ */
+
+export {
+  ReplaySource,
+  saveReplayPayload,
+  type ReplayOptions,
+  type ReplayPayload,
+} from './replay-source.js';
@@ -0,0 +1,317 @@
+/**
+ * Replay of captured GPS payloads
+ * @module replay/replay-source
+ *
+ * Serves GPS stream payloads captured earlier in place of live requests,
+ * following a virtual clock that can run faster or slower than real time,
+ * be paused and be moved to any instant. Payloads are stored one file per
+ * poll: `<directory>/<city>/<server time in ms since epoch>.<ext>`, for
+ * example `replays/vilnius/1714982400000.txt`.
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { TransportNetworkError } from '../errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for replaying captured payloads.
+ */
+export interface ReplayOptions {
+  /** Directory holding one subdirectory of payload files per city */
+  directory: string;
+
+  /** Instant the replay starts at (default: the earliest captured payload) */
+  start?: Date;
+
+  /** Virtual milliseconds per real millisecond (default: 1) */
+  speed?: number;
+
+  /** Start over from the earliest payload after the latest one (default: false) */
+  loop?: boolean;
+}
+
+/**
+ * A captured payload with the server time of its response.
+ */
+export interface ReplayPayload {
+  /** Raw response body */
+  readonly bytes: Uint8Array;
+
+  /** Server time the payload was captured at */
+  readonly serverTime: Date;
+}
+
+/**
+ * Payload files of one city, sorted by server time.
+ */
+interface CityPayloads {
+  readonly times: number[];
+  readonly paths: string[];
+}
+
+const FILE_PATTERN = /^(\d+)\.[^.]+$/;
+
+// =============================================================================
+// Capture
+// =============================================================================
+
+/**
+ * Save a GPS payload in the layout read by `ReplaySource`.
+ *
+ * @param directory - Replay directory
+ * @param city - City the payload belongs to
+ * @param payload - Raw response body
+ * @param serverTime - Server time of the response (its Date header)
+ * @param extension - File extension (default: 'txt'; use 'pb' for GTFS-Realtime)
+ * @returns Path of the written file
+ *
+ * @example
+ * const response = await fetch('https://www.stops.lt/vilnius/gps_full.txt');
+ * await saveReplayPayload('./replays', 'vilnius', await response.text(),
+ *   new Date(response.headers.get('date') ?? Date.now()));
+ */
+export async function saveReplayPayload(
+  directory: string,
+  city: string,
+  payload: string | Uint8Array,
+  serverTime: Date,
+  extension = 'txt'
+): Promise<string> {
+  const cityDir = join(directory, city);
+  await mkdir(cityDir, { recursive: true });
+
+  const path = join(cityDir, `${String(serverTime.getTime())}.${extension}`);
+  await writeFile(path, payload);
+  return path;
+}
+
+// =============================================================================
+// Replay Source
+// =============================================================================
+
+/**
+ * Serves captured GPS payloads according to a virtual clock.
+ *
+ * Each read returns the latest payload of the city captured at or before
+ * the current virtual time. The directory is listed once, on first use.
+ * Pass the source to `new LtTransport({ replay })` to make `getVehicles()`
+ * and watchers use it instead of the network.
+ *
+ * @example
+ * const replay = new ReplaySource({ directory: './replays', speed: 10 });
+ * const transport = new LtTransport({ replay });
+ *
+ * replay.pause();
+ * replay.seek(new Date('2024-05-06T08:00:00+03:00'));
+ * const vehicles = await transport.getVehicles('vilnius');
+ */
+export class ReplaySource {
+  private readonly directory: string;
+  private readonly loop: boolean;
+  private index: Promise<Map<string, CityPayloads>> | null = null;
+
+  /** Explicit instant the clock counts from; null counts from the earliest payload */
+  private origin: number | null;
+  /** Virtual time elapsed since the origin, as of `realAnchor` */
+  private elapsedMs = 0;
+  private realAnchor = Date.now();
+  private speed: number;
+  private paused = false;
+
+  /**
+   * @param options - Replay directory and clock settings
+   */
+  constructor(options: ReplayOptions) {
+    this.directory = options.directory;
+    this.origin = options.start?.getTime() ?? null;
+    this.speed = options.speed ?? 1;
+    this.loop = options.loop ?? false;
+  }
+
+  /** Whether the clock is paused */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Change the clock speed from now on.
+   *
+   * @param speed - Virtual milliseconds per real millisecond
+   */
+  setSpeed(speed: number): void {
+    this.rebase();
+    this.speed = speed;
+  }
+
+  /** Stop the clock */
+  pause(): void {
+    this.rebase();
+    this.paused = true;
+  }
+
+  /** Restart a paused clock */
+  resume(): void {
+    this.rebase();
+    this.paused = false;
+  }
+
+  /**
+   * Move the clock to an instant.
+   *
+   * @param time - New virtual time
+   */
+  seek(time: Date): void {
+    this.origin = time.getTime();
+    this.elapsedMs = 0;
+    this.realAnchor = Date.now();
+  }
+
+  /**
+   * Move the clock forward (or back, with a negative value).
+   *
+   * @param ms - Virtual milliseconds to skip
+   */
+  advance(ms: number): void {
+    this.rebase();
+    this.elapsedMs += ms;
+  }
+
+  /**
+   * Get the current virtual time.
+   *
+   * @returns Virtual time, wrapped into the captured range when looping
+   */
+  async currentTime(): Promise<Date> {
+    const index = await this.getIndex();
+    return new Date(this.resolveTime(index));
+  }
+
+  /**
+   * List the cities with captured payloads.
+   */
+  async getCities(): Promise<string[]> {
+    return [...(await this.getIndex()).keys()].sort();
+  }
+
+  /**
+   * Read the payload of a city that is current at the virtual time.
+   *
+   * @param city - City identifier
+   * @returns Latest payload captured at or before the virtual time
+   * @throws {TransportNetworkError} If no payload of the city is that old,
+   *   mirroring a missing file on the live server
+   */
+  async read(city: string): Promise<ReplayPayload> {
+    const index = await this.getIndex();
+    const payloads = index.get(city);
+    if (payloads === undefined) {
+      throw new TransportNetworkError(`No replay data for city: ${city}`, city, 404);
+    }
+
+    const time = this.resolveTime(index);
+    const position = latestAtOrBefore(payloads.times, time);
+    const path = payloads.paths[position];
+    const serverTime = payloads.times[position];
+    if (path === undefined || serverTime === undefined) {
+      throw new TransportNetworkError(
+        `No replay data for ${city} before ${new Date(time).toISOString()}`,
+        city,
+        404
+      );
+    }
+
+    const bytes = new Uint8Array(await readFile(path));
+    return { bytes, serverTime: new Date(serverTime) };
+  }
+
+  /**
+   * Fold the real time passed since the anchor into the elapsed time.
+   */
+  private rebase(): void {
+    const now = Date.now();
+    if (!this.paused) {
+      this.elapsedMs += (now - this.realAnchor) * this.speed;
+    }
+    this.realAnchor = now;
+  }
+
+  /**
+   * Current virtual time in ms, given the payload index.
+   */
+  private resolveTime(index: ReadonlyMap<string, CityPayloads>): number {
+    const running = this.paused ? 0 : (Date.now() - this.realAnchor) * this.speed;
+
+    let first = Infinity;
+    let last = -Infinity;
+    for (const { times } of index.values()) {
+      first = Math.min(first, times[0] ?? Infinity);
+      last = Math.max(last, times[times.length - 1] ?? -Infinity);
+    }
+
+    const origin = this.origin ?? (Number.isFinite(first) ? first : Date.now());
+    const time = origin + this.elapsedMs + running;
+
+    if (this.loop && Number.isFinite(first) && time > last) {
+      // The latest payload stays current for one more step before wrapping
+      return first + ((time - first) % (last - first + 1));
+    }
+    return time;
+  }
+
+  private getIndex(): Promise<Map<string, CityPayloads>> {
+    this.index ??= listPayloads(this.directory);
+    return this.index;
+  }
+}
+
+/**
+ * Position of the latest time at or before `time`, or -1 if there is none.
+ */
+function latestAtOrBefore(times: readonly number[], time: number): number {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if ((times[middle] ?? 0) <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low - 1;
+}
+
+/**
+ * List payload files of every city in a replay directory.
+ */
+async function listPayloads(directory: string): Promise<Map<string, CityPayloads>> {
+  const index = new Map<string, CityPayloads>();
+  if (!existsSync(directory)) {
+    return index;
+  }
+
+  const entries = await readdir(directory, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const cityDir = join(directory, entry.name);
+    const files: { time: number; path: string }[] = [];
+    for (const name of await readdir(cityDir)) {
+      const time = FILE_PATTERN.exec(name)?.[1];
+      if (time !== undefined) {
+        files.push({ time: Number(time), path: join(cityDir, name) });
+      }
+    }
+    if (files.length === 0) continue;
+
+    files.sort((a, b) => a.time - b.time);
+    index.set(entry.name, { times: files.map(f => f.time), paths: files.map(f => f.path) });
+  }
+
+  return index;
+}
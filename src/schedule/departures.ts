@@ -0,0 +1,135 @@
+/**
+ * Scheduled departure board queries
+ * @module schedule/departures
+ *
+ * Turns GTFS stop times of the trips running on each service day,
+ * including overnight times past 24:00:00, into absolute departure instants.
+ */
+
+import type { Departure, StopTime } from '../types.js';
+import type { ScheduleIndex } from './schedule-index.js';
+import { getActiveServiceIds } from './service-calendar.js';
+import {
+  parseGtfsTime,
+  getLithuanianDate,
+  addDaysToDate,
+  getServiceDayStart,
+} from '../utils/index.js';
+
+// =============================================================================
+// Query Options
+// =============================================================================
+
+/**
+ * Options for departure board queries.
+ */
+export interface DepartureOptions {
+  /** Earliest departure time to include (default: now) */
+  from?: Date;
+
+  /** Maximum number of departures to return (default: 10) */
+  limit?: number;
+
+  /** Time window after `from` in milliseconds (default: 2 hours) */
+  window?: number;
+
+  /** Include trips that terminate at the stop (default: false) */
+  includeTerminating?: boolean;
+}
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+// =============================================================================
+// Departures
+// =============================================================================
+
+/**
+ * Check whether a stop time is the final stop of its trip.
+ */
+export function isTerminating(index: ScheduleIndex, stopTime: StopTime): boolean {
+  const tripTimes = index.stopTimesByTrip.get(stopTime.tripId);
+  const last = tripTimes?.[tripTimes.length - 1];
+  return last?.sequence === stopTime.sequence;
+}
+
+/**
+ * Find the next scheduled departures from a stop.
+ *
+ * Trips from the previous service day are included so that overnight
+ * departures (e.g. 25:10:00) show up after midnight.
+ *
+ * @param index - Schedule index for the city
+ * @param stopId - GTFS stop ID
+ * @param options - Query options
+ * @returns Departures sorted by scheduled departure time
+ */
+export function findDepartures(
+  index: ScheduleIndex,
+  stopId: string,
+  options: DepartureOptions = {}
+): Departure[] {
+  const {
+    from = new Date(),
+    limit = DEFAULT_LIMIT,
+    window = DEFAULT_WINDOW_MS,
+    includeTerminating = false,
+  } = options;
+
+  const stopTimes = index.stopTimesByStop.get(stopId);
+  if (stopTimes === undefined || stopTimes.length === 0 || limit <= 0) {
+    return [];
+  }
+
+  const fromMs = from.getTime();
+  const untilMs = fromMs + window;
+  const lastDate = getLithuanianDate(new Date(untilMs));
+  const departures: Departure[] = [];
+
+  // Start one day early to catch overnight trips of the previous service day
+  for (
+    let serviceDate = addDaysToDate(getLithuanianDate(from), -1);
+    serviceDate <= lastDate;
+    serviceDate = addDaysToDate(serviceDate, 1)
+  ) {
+    const running = getActiveServiceIds(index.serviceCalendar, serviceDate);
+    if (running.size === 0) continue;
+
+    const dayStartMs = getServiceDayStart(serviceDate).getTime();
+
+    for (const stopTime of stopTimes) {
+      const trip = index.trips.get(stopTime.tripId);
+      if (trip === undefined || !running.has(trip.serviceId)) continue;
+
+      const departureSeconds = parseGtfsTime(stopTime.departureTime);
+      if (departureSeconds === null) continue;
+
+      const departureMs = dayStartMs + departureSeconds * 1000;
+      if (departureMs < fromMs || departureMs >= untilMs) continue;
+
+      if (!includeTerminating && isTerminating(index, stopTime)) continue;
+
+      const arrivalSeconds = parseGtfsTime(stopTime.arrivalTime) ?? departureSeconds;
+      const route = index.routesById.get(trip.routeId);
+
+      departures.push({
+        tripId: trip.id,
+        routeId: trip.routeId,
+        routeShortName: route?.shortName ?? '',
+        type: route?.type ?? 'unknown',
+        headsign: stopTime.headsign !== null && stopTime.headsign !== ''
+          ? stopTime.headsign
+          : trip.headsign,
+        stopId,
+        stopSequence: stopTime.sequence,
+        serviceDate,
+        scheduledArrival: new Date(dayStartMs + arrivalSeconds * 1000),
+        scheduledDeparture: new Date(departureMs),
+      });
+    }
+  }
+
+  departures.sort((a, b) => a.scheduledDeparture.getTime() - b.scheduledDeparture.getTime());
+
+  return departures.slice(0, limit);
+}
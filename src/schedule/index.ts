@@ -0,0 +1,33 @@
+/**
+ * Schedule module exports
+ * @module schedule
+ */
+
+export {
+  buildScheduleIndex,
+  type ScheduleIndex,
+  type ScheduleData,
+} from './schedule-index.js';
+
+export {
+  buildServiceCalendar,
+  resolveServiceDate,
+  getActiveServiceIds,
+  getServiceDaysAt,
+  type ServiceCalendar,
+  type ServiceDay,
+} from './service-calendar.js';
+
+export {
+  findDepartures,
+  type DepartureOptions,
+} from './departures.js';
+
+export { predictArrivals } from './predictions.js';
+
+export {
+  findRoute,
+  buildRouteDetails,
+} from './route-details.js';
+
+export { extractRoutePatterns } from './route-patterns.js';
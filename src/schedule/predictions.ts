@@ -0,0 +1,189 @@
+/**
+ * Real-time arrival predictions for gold-tier cities
+ * @module schedule/predictions
+ *
+ * Vilnius GPS data references the GTFS trip (`ReisoIdGTFS`) and reports
+ * the current schedule deviation (`NuokrypisSekundemis`). This module
+ * applies that delay to the trip's remaining stop times and merges the
+ * result with scheduled-only departures of trips without a live vehicle.
+ */
+
+import type { Departure, PredictedArrival, Vehicle } from '../types.js';
+import type { ScheduleIndex } from './schedule-index.js';
+import { findDepartures, type DepartureOptions } from './departures.js';
+import { parseGtfsTime, getServiceDayStart, PASSED_STOP_TOLERANCE_SECONDS } from '../utils/index.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * How far before `from` to look for scheduled stop times.
+ * A trip scheduled earlier can still arrive later when running late.
+ */
+const LATE_LOOKBACK_MS = 60 * 60 * 1000;
+
+const PASSED_STOP_TOLERANCE_MS = PASSED_STOP_TOLERANCE_SECONDS * 1000;
+
+/**
+ * Slack around a trip's scheduled start and end when deciding whether a
+ * live vehicle is operating a particular service day's run of that trip.
+ */
+const RUN_MATCH_SLACK_MS = 30 * 60 * 1000;
+
+// =============================================================================
+// Predictions
+// =============================================================================
+
+/**
+ * Live vehicle with the fields required for delay propagation.
+ */
+interface LiveTrip {
+  readonly vehicle: Vehicle;
+  readonly delaySeconds: number;
+}
+
+/**
+ * Index live vehicles by GTFS trip ID.
+ * Only fresh vehicles reporting both a trip reference and a delay are used.
+ */
+function indexLiveTrips(vehicles: readonly Vehicle[]): Map<string, LiveTrip> {
+  const live = new Map<string, LiveTrip>();
+
+  for (const vehicle of vehicles) {
+    if (vehicle.isStale || vehicle.gtfsTripId === null || vehicle.delaySeconds === null) {
+      continue;
+    }
+    live.set(vehicle.gtfsTripId, { vehicle, delaySeconds: vehicle.delaySeconds });
+  }
+
+  return live;
+}
+
+/**
+ * Check whether a schedule position falls within the run of a trip
+ * on the departure's service day.
+ */
+function isCurrentRun(index: ScheduleIndex, departure: Departure, schedulePositionMs: number): boolean {
+  const tripTimes = index.stopTimesByTrip.get(departure.tripId);
+  const first = tripTimes?.[0];
+  const last = tripTimes?.[tripTimes.length - 1];
+  if (first === undefined || last === undefined) {
+    return false;
+  }
+
+  const startSeconds = parseGtfsTime(first.departureTime);
+  const endSeconds = parseGtfsTime(last.arrivalTime);
+  if (startSeconds === null || endSeconds === null) {
+    return false;
+  }
+
+  const dayStartMs = getServiceDayStart(departure.serviceDate).getTime();
+  return (
+    schedulePositionMs >= dayStartMs + startSeconds * 1000 - RUN_MATCH_SLACK_MS &&
+    schedulePositionMs <= dayStartMs + endSeconds * 1000 + RUN_MATCH_SLACK_MS
+  );
+}
+
+/**
+ * Build a scheduled-only prediction entry.
+ */
+function toScheduled(departure: Departure): PredictedArrival {
+  return {
+    ...departure,
+    predictedArrival: departure.scheduledArrival,
+    predictedDeparture: departure.scheduledDeparture,
+    delaySeconds: null,
+    isRealtime: false,
+    vehicleId: null,
+  };
+}
+
+/**
+ * Build a real-time prediction entry by shifting the schedule by the live delay.
+ */
+function toRealtime(departure: Departure, live: LiveTrip): PredictedArrival {
+  const delayMs = live.delaySeconds * 1000;
+
+  return {
+    ...departure,
+    predictedArrival: new Date(departure.scheduledArrival.getTime() + delayMs),
+    predictedDeparture: new Date(departure.scheduledDeparture.getTime() + delayMs),
+    delaySeconds: live.delaySeconds,
+    isRealtime: true,
+    vehicleId: live.vehicle.id,
+  };
+}
+
+/**
+ * Predict arrivals at a stop by combining scheduled departures with
+ * live vehicle delays.
+ *
+ * For each live vehicle, the point of the schedule it is currently at is
+ * `measuredAt - delaySeconds`. Stop times of its trip scheduled after that
+ * point are still ahead of the vehicle and get the delay applied; those
+ * before it have been passed and are dropped.
+ *
+ * @param index - Schedule index for the city
+ * @param stopId - GTFS stop ID
+ * @param vehicles - Current vehicle positions for the city
+ * @param options - Query options (applied to predicted times)
+ * @returns Predictions sorted by predicted departure time
+ */
+export function predictArrivals(
+  index: ScheduleIndex,
+  stopId: string,
+  vehicles: readonly Vehicle[],
+  options: DepartureOptions = {}
+): PredictedArrival[] {
+  const {
+    from = new Date(),
+    limit = DEFAULT_LIMIT,
+    window = DEFAULT_WINDOW_MS,
+    includeTerminating = false,
+  } = options;
+
+  const fromMs = from.getTime();
+  const untilMs = fromMs + window;
+
+  const scheduled = findDepartures(index, stopId, {
+    from: new Date(fromMs - LATE_LOOKBACK_MS),
+    window: window + LATE_LOOKBACK_MS,
+    limit: Number.POSITIVE_INFINITY,
+    includeTerminating,
+  });
+
+  const liveTrips = indexLiveTrips(vehicles);
+  const predictions: PredictedArrival[] = [];
+
+  for (const departure of scheduled) {
+    const live = liveTrips.get(departure.tripId);
+    let prediction = toScheduled(departure);
+
+    if (live !== undefined) {
+      const schedulePositionMs = live.vehicle.measuredAt.getTime() - live.delaySeconds * 1000;
+
+      // The same trip ID runs on every service day - the live vehicle
+      // only operates the run its schedule position falls into
+      if (isCurrentRun(index, departure, schedulePositionMs)) {
+        if (departure.scheduledDeparture.getTime() + PASSED_STOP_TOLERANCE_MS < schedulePositionMs) {
+          // Vehicle has already passed this stop
+          continue;
+        }
+        prediction = toRealtime(departure, live);
+      }
+    }
+
+    const predictedMs = prediction.predictedDeparture.getTime();
+    if (predictedMs >= fromMs && predictedMs < untilMs) {
+      predictions.push(prediction);
+    }
+  }
+
+  predictions.sort((a, b) => a.predictedDeparture.getTime() - b.predictedDeparture.getTime());
+
+  return predictions.slice(0, limit);
+}
@@ -0,0 +1,126 @@
+/**
+ * Route details with ordered stops per direction
+ * @module schedule/route-details
+ *
+ * GTFS has no notion of a route's stop list: each trip lists its own stops,
+ * and short-turn or depot trips skip some. The canonical stop list of a
+ * direction is the stop pattern run by the most trips in that direction.
+ */
+
+import type { Route, RouteDetails, RouteDirection, RoutePattern, ShapePoint, Stop, VehicleType } from '../types.js';
+import type { ScheduleIndex } from './schedule-index.js';
+
+// =============================================================================
+// Route Lookup
+// =============================================================================
+
+/**
+ * Find a route by short name (case-insensitive) or route ID.
+ *
+ * Several routes can share a short name (e.g. bus and trolleybus "1");
+ * `type` picks one of them, otherwise the route with the most trips wins.
+ *
+ * @param index - Schedule index for the city
+ * @param routeName - Route short name or route ID
+ * @param type - Vehicle type to disambiguate routes with the same name
+ * @returns Matching route, or null if none
+ */
+export function findRoute(index: ScheduleIndex, routeName: string, type?: VehicleType): Route | null {
+  const name = routeName.toUpperCase();
+  const candidates = [...index.routesById.values()].filter(route =>
+    route.shortName.toUpperCase() === name && (type === undefined || route.type === type)
+  );
+
+  if (candidates.length === 0) {
+    const byId = index.routesById.get(routeName);
+    return byId !== undefined && (type === undefined || byId.type === type) ? byId : null;
+  }
+
+  if (candidates.length === 1) {
+    return candidates[0] ?? null;
+  }
+
+  const tripCounts = new Map<string, number>();
+  for (const trip of index.trips.values()) {
+    tripCounts.set(trip.routeId, (tripCounts.get(trip.routeId) ?? 0) + 1);
+  }
+
+  candidates.sort((a, b) => (tripCounts.get(b.id) ?? 0) - (tripCounts.get(a.id) ?? 0));
+  return candidates[0] ?? null;
+}
+
+// =============================================================================
+// Directions
+// =============================================================================
+
+/**
+ * Build the details of a direction from its patterns.
+ */
+function buildDirection(
+  patterns: readonly RoutePattern[],
+  stopsById: ReadonlyMap<string, Stop>,
+  shapes: ReadonlyMap<string, ShapePoint[]>
+): RouteDirection {
+  // Most trips wins; longer sequences break ties (full runs over short turns)
+  const canonical = [...patterns].sort((a, b) =>
+    b.tripIds.length - a.tripIds.length || b.stopIds.length - a.stopIds.length
+  )[0];
+
+  const stopIds = canonical?.stopIds ?? [];
+  const shapeId = canonical?.shapeIds[0] ?? null;
+
+  return {
+    directionId: canonical?.directionId ?? null,
+    headsign: canonical?.headsigns[0] ?? '',
+    stopIds,
+    stops: stopIds
+      .map(stopId => stopsById.get(stopId))
+      .filter((stop): stop is Stop => stop !== undefined),
+    shapeId,
+    shape: shapeId !== null ? shapes.get(shapeId) ?? [] : [],
+    tripCount: patterns.reduce((sum, pattern) => sum + pattern.tripIds.length, 0),
+  };
+}
+
+/**
+ * Build the details of a route: its directions with canonical stop
+ * sequences and representative shapes.
+ *
+ * Patterns are grouped by `directionId`; feeds that do not set it are
+ * grouped by headsign instead.
+ *
+ * @param route - Route to describe
+ * @param patterns - Stop patterns of the route (see `extractRoutePatterns()`)
+ * @param stops - All stops of the city
+ * @param shapes - Shape points grouped by shape ID
+ * @returns Route details with directions ordered by direction ID, then trip count
+ */
+export function buildRouteDetails(
+  route: Route,
+  patterns: readonly RoutePattern[],
+  stops: readonly Stop[],
+  shapes: ReadonlyMap<string, ShapePoint[]>
+): RouteDetails {
+  const byDirection = new Map<string, RoutePattern[]>();
+  for (const pattern of patterns) {
+    const key = pattern.directionId !== null
+      ? `direction:${String(pattern.directionId)}`
+      : `headsign:${pattern.headsigns[0] ?? ''}`;
+    const group = byDirection.get(key);
+    if (group !== undefined) {
+      group.push(pattern);
+    } else {
+      byDirection.set(key, [pattern]);
+    }
+  }
+
+  const stopsById = new Map(stops.map(stop => [stop.id, stop]));
+  const directions = [...byDirection.values()]
+    .map(group => buildDirection(group, stopsById, shapes))
+    .sort((a, b) =>
+      (a.directionId ?? Infinity) - (b.directionId ?? Infinity) ||
+      b.tripCount - a.tripCount
+    );
+
+  return { route, directions };
+}
@@ -0,0 +1,107 @@
+/**
+ * Route pattern extraction
+ * @module schedule/route-patterns
+ *
+ * Most trips of a route repeat one of a handful of stop sequences: the full
+ * run in each direction plus short turns and depot trips. Grouping trips by
+ * route, direction and exact stop sequence yields those patterns, which
+ * route diagrams, timetables and planners build on instead of walking every
+ * trip's stop times.
+ */
+
+import type { RoutePattern, StopTime, Trip } from '../types.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Distinct values ordered by frequency (first seen wins ties).
+ */
+function rankByFrequency(values: readonly string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  // Map preserves insertion order, and sort is stable
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+}
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+/**
+ * Group trips into patterns: one per route, direction and stop sequence.
+ *
+ * Patterns of a route are ordered by direction ID (unset last), then by
+ * trip count, so the first pattern of each direction is its main one.
+ * Trips without stop times are skipped.
+ *
+ * @param trips - Trips keyed by trip ID
+ * @param stopTimes - Stop times grouped by trip ID, sorted by sequence
+ * @returns Patterns grouped by route ID
+ *
+ * @example
+ * const patterns = extractRoutePatterns(trips, stopTimes);
+ * for (const pattern of patterns.get('bus4g') ?? []) {
+ *   console.log(pattern.headsigns[0], pattern.stopIds.length, pattern.tripIds.length);
+ * }
+ */
+export function extractRoutePatterns(
+  trips: ReadonlyMap<string, Trip>,
+  stopTimes: ReadonlyMap<string, readonly StopTime[]>
+): Map<string, RoutePattern[]> {
+  interface PatternGroup {
+    readonly directionId: number | null;
+    readonly stopIds: string[];
+    readonly trips: Trip[];
+  }
+
+  const groupsByRoute = new Map<string, Map<string, PatternGroup>>();
+
+  for (const trip of trips.values()) {
+    const times = stopTimes.get(trip.id);
+    if (times === undefined || times.length === 0) continue;
+
+    const stopIds = times.map(stopTime => stopTime.stopId);
+    const key = `${String(trip.directionId)}|${stopIds.join('|')}`;
+
+    let groups = groupsByRoute.get(trip.routeId);
+    if (groups === undefined) {
+      groups = new Map();
+      groupsByRoute.set(trip.routeId, groups);
+    }
+
+    const group = groups.get(key);
+    if (group !== undefined) {
+      group.trips.push(trip);
+    } else {
+      groups.set(key, { directionId: trip.directionId, stopIds, trips: [trip] });
+    }
+  }
+
+  const patterns = new Map<string, RoutePattern[]>();
+
+  for (const [routeId, groups] of groupsByRoute) {
+    const sorted = [...groups.values()].sort((a, b) =>
+      (a.directionId ?? Infinity) - (b.directionId ?? Infinity) ||
+      b.trips.length - a.trips.length ||
+      b.stopIds.length - a.stopIds.length
+    );
+
+    patterns.set(routeId, sorted.map((group, i) => ({
+      id: `${routeId}#${String(i + 1)}`,
+      routeId,
+      directionId: group.directionId,
+      stopIds: group.stopIds,
+      tripIds: group.trips.map(trip => trip.id),
+      headsigns: rankByFrequency(group.trips.map(trip => trip.headsign)),
+      shapeIds: rankByFrequency(
+        group.trips.map(trip => trip.shapeId).filter((id): id is string => id !== null && id !== '')
+      ),
+    })));
+  }
+
+  return patterns;
+}
@@ -0,0 +1,82 @@
+/**
+ * In-memory schedule index built from cached GTFS data
+ * @module schedule/schedule-index
+ * 
+ * The raw cache stores stop times grouped by trip, which is the wrong
+ * shape for stop-centric queries. This module joins trips, routes,
+ * calendars and stop times once so that schedule queries do not have
+ * to scan the full dataset on every call.
+ */
+
+import type { Route, Trip, Calendar, CalendarDate, StopTime } from '../types.js';
+import { buildServiceCalendar, type ServiceCalendar } from './service-calendar.js';
+
+// =============================================================================
+// Schedule Index
+// =============================================================================
+
+/**
+ * Raw GTFS collections needed to build a ScheduleIndex.
+ */
+export interface ScheduleData {
+  /** Trips keyed by trip ID */
+  readonly trips: Map<string, Trip>;
+  /** Routes keyed by short name and/or route ID (as stored in cache) */
+  readonly routes: Map<string, Route>;
+  /** Service calendars keyed by service ID */
+  readonly calendar: Map<string, Calendar>;
+  /** Calendar exceptions */
+  readonly calendarDates: CalendarDate[];
+  /** Stop times grouped by trip ID, sorted by sequence */
+  readonly stopTimes: Map<string, StopTime[]>;
+}
+
+/**
+ * Pre-joined schedule data with stop-centric lookups.
+ */
+export interface ScheduleIndex {
+  /** Trips keyed by trip ID */
+  readonly trips: Map<string, Trip>;
+  /** Routes keyed by route ID only */
+  readonly routesById: Map<string, Route>;
+  /** Service calendar indexed for per-date lookups */
+  readonly serviceCalendar: ServiceCalendar;
+  /** Stop times grouped by trip ID, sorted by sequence */
+  readonly stopTimesByTrip: Map<string, StopTime[]>;
+  /** Stop times grouped by stop ID */
+  readonly stopTimesByStop: Map<string, StopTime[]>;
+}
+
+/**
+ * Build a ScheduleIndex from cached GTFS collections.
+ * 
+ * @param data - Raw GTFS collections
+ * @returns Index with stop-centric lookups
+ */
+export function buildScheduleIndex(data: ScheduleData): ScheduleIndex {
+  // Route cache is keyed by both short name and ID - keep only ID keys
+  const routesById = new Map<string, Route>();
+  for (const route of data.routes.values()) {
+    routesById.set(route.id, route);
+  }
+
+  const stopTimesByStop = new Map<string, StopTime[]>();
+  for (const times of data.stopTimes.values()) {
+    for (const stopTime of times) {
+      const existing = stopTimesByStop.get(stopTime.stopId);
+      if (existing !== undefined) {
+        existing.push(stopTime);
+      } else {
+        stopTimesByStop.set(stopTime.stopId, [stopTime]);
+      }
+    }
+  }
+
+  return {
+    trips: data.trips,
+    routesById,
+    serviceCalendar: buildServiceCalendar(data.calendar, data.calendarDates),
+    stopTimesByTrip: data.stopTimes,
+    stopTimesByStop,
+  };
+}
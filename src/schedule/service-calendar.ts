@@ -0,0 +1,174 @@
+/**
+ * Service day resolution from calendar.txt and calendar_dates.txt
+ * @module schedule/service-calendar
+ *
+ * GTFS splits "which days does a trip run" across two files: weekly
+ * patterns with a validity range (calendar.txt) and per-date exceptions
+ * (calendar_dates.txt) used for public holidays and one-off changes.
+ * Feeds may also define services through calendar_dates alone.
+ *
+ * Service dates are Lithuanian local dates. Trips belonging to a service
+ * date can run past midnight (stop times above 24:00:00), so at any instant
+ * both the current and the previous service day may have running trips.
+ */
+
+import type { Calendar, CalendarDate } from '../types.js';
+import { getLithuanianDate, addDaysToDate, getServiceDayStart } from '../utils/index.js';
+
+// =============================================================================
+// Service Calendar
+// =============================================================================
+
+/**
+ * Calendar data indexed for fast per-date lookups.
+ */
+export interface ServiceCalendar {
+  /** Weekly service patterns keyed by service ID */
+  readonly calendar: Map<string, Calendar>;
+  /** Calendar exceptions grouped by date (YYYY-MM-DD) */
+  readonly exceptionsByDate: Map<string, CalendarDate[]>;
+}
+
+/**
+ * A service day with the services running on it.
+ */
+export interface ServiceDay {
+  /** Service date (YYYY-MM-DD) */
+  readonly serviceDate: string;
+  /** Instant GTFS time 00:00:00 of this service day refers to */
+  readonly dayStart: Date;
+  /** Service IDs running on this service day */
+  readonly serviceIds: Set<string>;
+}
+
+/**
+ * Build a ServiceCalendar from cached calendar data.
+ *
+ * @param calendar - Weekly service patterns (map keyed by service ID, or array)
+ * @param calendarDates - Calendar exceptions
+ * @returns Indexed service calendar
+ */
+export function buildServiceCalendar(
+  calendar: Map<string, Calendar> | readonly Calendar[],
+  calendarDates: readonly CalendarDate[]
+): ServiceCalendar {
+  const calendarMap = calendar instanceof Map
+    ? calendar
+    : new Map(calendar.map(entry => [entry.serviceId, entry]));
+
+  const exceptionsByDate = new Map<string, CalendarDate[]>();
+  for (const exception of calendarDates) {
+    const existing = exceptionsByDate.get(exception.date);
+    if (existing !== undefined) {
+      existing.push(exception);
+    } else {
+      exceptionsByDate.set(exception.date, [exception]);
+    }
+  }
+
+  return { calendar: calendarMap, exceptionsByDate };
+}
+
+// =============================================================================
+// Date Resolution
+// =============================================================================
+
+/**
+ * Day-of-week keys in Date#getUTCDay() order.
+ */
+const WEEKDAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+/**
+ * Pattern for service dates accepted as strings.
+ */
+const SERVICE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Resolve a date argument to a Lithuanian service date.
+ *
+ * @param date - Instant (converted to Lithuanian local date) or YYYY-MM-DD string
+ * @returns Service date in YYYY-MM-DD format
+ * @throws {RangeError} If a string date is not in YYYY-MM-DD format
+ */
+export function resolveServiceDate(date: Date | string): string {
+  if (typeof date !== 'string') {
+    return getLithuanianDate(date);
+  }
+
+  if (!SERVICE_DATE_PATTERN.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    throw new RangeError(`Invalid service date '${date}': expected YYYY-MM-DD`);
+  }
+
+  return date;
+}
+
+/**
+ * Get the service IDs running on a service date.
+ *
+ * A service runs when its weekly pattern includes the weekday and the
+ * date is within its start/end range, unless a 'removed' exception exists
+ * for that date. An 'added' exception makes a service run regardless of
+ * its weekly pattern.
+ *
+ * @param serviceCalendar - Indexed service calendar
+ * @param date - Instant or YYYY-MM-DD service date
+ * @returns Set of running service IDs
+ * @throws {RangeError} If a string date is not in YYYY-MM-DD format
+ */
+export function getActiveServiceIds(serviceCalendar: ServiceCalendar, date: Date | string): Set<string> {
+  const serviceDate = resolveServiceDate(date);
+  const weekday = WEEKDAY_KEYS[new Date(`${serviceDate}T00:00:00Z`).getUTCDay()] ?? 'sunday';
+  const active = new Set<string>();
+
+  for (const calendar of serviceCalendar.calendar.values()) {
+    if (
+      calendar[weekday] &&
+      serviceDate >= calendar.startDate &&
+      serviceDate <= calendar.endDate
+    ) {
+      active.add(calendar.serviceId);
+    }
+  }
+
+  for (const exception of serviceCalendar.exceptionsByDate.get(serviceDate) ?? []) {
+    if (exception.exceptionType === 'added') {
+      active.add(exception.serviceId);
+    } else {
+      active.delete(exception.serviceId);
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Get the service days whose trips may be running at an instant.
+ *
+ * Returns the previous service day(s) before the current one, because
+ * overnight trips from earlier service dates are still running after
+ * midnight.
+ *
+ * @param serviceCalendar - Indexed service calendar
+ * @param instant - Point in time
+ * @param lookbackDays - How many previous service days to include (default: 1)
+ * @returns Service days in chronological order
+ */
+export function getServiceDaysAt(
+  serviceCalendar: ServiceCalendar,
+  instant: Date,
+  lookbackDays = 1
+): ServiceDay[] {
+  const today = getLithuanianDate(instant);
+  const days: ServiceDay[] = [];
+
+  for (let offset = -lookbackDays; offset <= 0; offset++) {
+    const serviceDate = addDaysToDate(today, offset);
+    days.push({
+      serviceDate,
+      dayStart: getServiceDayStart(serviceDate),
+      serviceIds: getActiveServiceIds(serviceCalendar, serviceDate),
+    });
+  }
+
+  return days;
+}
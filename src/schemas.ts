@@ -10,6 +10,8 @@
  */
 
 import { z } from 'zod';
+import type { ReplaySource } from './replay/replay-source.js';
+import type { FetchFunction } from './http/http-client.js';
 
 // =============================================================================
 // Coordinate Validation
@@ -295,7 +297,7 @@ export const liteFormatDescriptorSchema = z.object({
  */
 export const gpsConfigSchema = z.object({
   enabled: z.boolean(),
-  format: z.enum(['full', 'lite']).nullable(),
+  format: z.enum(['full', 'lite', 'gtfs-rt']).nullable(),
   url: z.string().regex(/^https?:\/\/.+/, { message: 'GPS URL must be a valid URL' }).nullable(),
 }).strict();
 
@@ -373,6 +375,28 @@ export const clientConfigSchema = z.object({
 
   /** Whether to filter out stale data */
   filterStale: z.boolean().default(false),
+
+  /** Whether to infer GTFS trips for vehicles without a trip reference */
+  matchTrips: z.boolean().default(false),
+
+  /** Whether to estimate delays for vehicles whose feed has none */
+  estimateDelays: z.boolean().default(false),
+
+  /** Source of captured GPS payloads served instead of live requests */
+  replay: z.custom<ReplaySource>(value => typeof (value as { read?: unknown } | null)?.read === 'function', 'Expected a ReplaySource').optional(),
+
+  /** fetch-compatible function used for HTTP requests */
+  fetch: z.custom<FetchFunction>(value => typeof value === 'function', 'Expected a function').optional(),
+
+  /** Retries of failed requests */
+  retry: z.object({
+    retries: z.number().int().nonnegative().optional(),
+    minDelayMs: z.number().nonnegative().optional(),
+    maxDelayMs: z.number().nonnegative().optional(),
+  }).strict().optional(),
+
+  /** Whether to revalidate repeated requests with ETag / Last-Modified */
+  conditionalRequests: z.boolean().default(true),
   
   /** Custom cities to add to the SDK */
   customCities: z.record(z.string(), cityConfigSchema).optional(),
@@ -412,6 +436,60 @@ export const vehicleSchema = z.object({
 
 export type ValidatedVehicle = z.infer<typeof vehicleSchema>;
 
+// =============================================================================
+// Recorded Snapshot Schema
+// =============================================================================
+
+/**
+ * Schema for a recorded snapshot read back from JSON storage.
+ * Dates are stored as ISO strings and coerced back to Date objects.
+ */
+export const recordedSnapshotSchema = z.object({
+  city: z.string().min(1),
+  recordedAt: z.coerce.date(),
+  vehicles: z.array(vehicleSchema.extend({ measuredAt: z.coerce.date() })),
+});
+
+// =============================================================================
+// SQLite Store Row Schemas
+// =============================================================================
+
+/**
+ * Schema for a row of the SQLite store's `vehicle_snapshots` table.
+ */
+export const sqliteSnapshotRowSchema = z.object({
+  id: z.number().int(),
+  city: z.string().min(1),
+  recorded_at: z.number(),
+});
+
+export type SqliteSnapshotRow = z.infer<typeof sqliteSnapshotRowSchema>;
+
+/**
+ * Schema for a row of the SQLite store's `vehicle_positions` table.
+ * Column constraints follow the parsed Vehicle schema.
+ */
+export const sqlitePositionRowSchema = z.object({
+  vehicle_id: vehicleSchema.shape.id,
+  vehicle_number: vehicleSchema.shape.vehicleNumber,
+  route: vehicleSchema.shape.route,
+  type: vehicleSchema.shape.type,
+  latitude: vehicleSchema.shape.latitude,
+  longitude: vehicleSchema.shape.longitude,
+  bearing: vehicleSchema.shape.bearing,
+  speed: vehicleSchema.shape.speed,
+  destination: vehicleSchema.shape.destination,
+  delay_seconds: vehicleSchema.shape.delaySeconds,
+  trip_id: vehicleSchema.shape.tripId,
+  gtfs_trip_id: vehicleSchema.shape.gtfsTripId,
+  next_stop_id: vehicleSchema.shape.nextStopId,
+  arrival_time_seconds: vehicleSchema.shape.arrivalTimeSeconds,
+  is_stale: z.number().int(),
+  measured_at: z.number(),
+});
+
+export type SqlitePositionRow = z.infer<typeof sqlitePositionRowSchema>;
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
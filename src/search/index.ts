@@ -0,0 +1,11 @@
+/**
+ * Search module exports
+ * @module search
+ */
+
+export {
+  buildStopSearchIndex,
+  searchStops,
+  type StopSearchIndex,
+  type StopSearchOptions,
+} from './stop-search.js';
@@ -0,0 +1,214 @@
+/**
+ * Fuzzy stop name search
+ * @module search/stop-search
+ *
+ * Matches what people type against Lithuanian stop names: without
+ * diacritics ("Zalgirio" finds "Žalgirio"), in any case, with or without
+ * the usual abbreviations ("g." / "gatvė", "st." / "stotis"), while still
+ * typing (prefixes) and with small typos.
+ */
+
+import type { Stop, StopMatch } from '../types.js';
+import { foldText, editDistance } from '../utils/index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for stop search.
+ */
+export interface StopSearchOptions {
+  /** Maximum number of results (default: 10) */
+  limit?: number;
+}
+
+/**
+ * Stops with their names prepared for matching.
+ */
+export interface StopSearchIndex {
+  readonly entries: readonly StopSearchEntry[];
+}
+
+interface StopSearchEntry {
+  readonly stop: Stop;
+  /** Folded name words with abbreviations expanded */
+  readonly words: readonly string[];
+  /** Folded stop code, if any */
+  readonly code: string | null;
+}
+
+/**
+ * Abbreviations used in Lithuanian stop names (folded), with their full words.
+ */
+const ABBREVIATIONS: ReadonlyMap<string, string> = new Map([
+  ['g', 'gatve'],
+  ['pr', 'prospektas'],
+  ['pl', 'plentas'],
+  ['al', 'aleja'],
+  ['skv', 'skveras'],
+  ['st', 'stotis'],
+  ['aut', 'autobusu'],
+  ['gel', 'gelezinkelio'],
+  ['ligon', 'ligonine'],
+  ['poliklin', 'poliklinika'],
+]);
+
+const DEFAULT_LIMIT = 10;
+
+/** Word score for an exact match */
+const EXACT_SCORE = 1;
+/** Word score when the query word starts a name word (still typing) */
+const PREFIX_SCORE = 0.9;
+/** Word score for a whole word with typos, minus 0.1 per extra edit */
+const TYPO_SCORE = 0.7;
+/** Word score for a prefix with a typo */
+const TYPO_PREFIX_SCORE = 0.5;
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Split text into folded words, expanding abbreviations.
+ */
+function toWords(text: string): string[] {
+  const folded = foldText(text);
+  if (folded === '') return [];
+  return folded.split(' ').map(word => ABBREVIATIONS.get(word) ?? word);
+}
+
+/**
+ * Prepare stops for searching.
+ *
+ * @param stops - Stops to search
+ * @returns Search index
+ */
+export function buildStopSearchIndex(stops: readonly Stop[]): StopSearchIndex {
+  return {
+    entries: stops.map(stop => ({
+      stop,
+      words: toWords(stop.name),
+      code: stop.code !== null && stop.code !== '' ? foldText(stop.code) : null,
+    })),
+  };
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Number of typos tolerated in a word of the given length.
+ */
+function maxTypos(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Score how well a query word matches a single name word (0 = no match).
+ */
+function scoreWord(query: string, word: string): number {
+  if (word === query) return EXACT_SCORE;
+  if (word.startsWith(query)) return PREFIX_SCORE;
+
+  const allowed = maxTypos(query.length);
+  if (allowed === 0) return 0;
+
+  const distance = editDistance(query, word, allowed);
+  if (distance <= allowed) {
+    return TYPO_SCORE - (distance - 1) * 0.1;
+  }
+
+  if (word.length > query.length && editDistance(query, word.slice(0, query.length), allowed) <= allowed) {
+    return TYPO_PREFIX_SCORE;
+  }
+
+  return 0;
+}
+
+/**
+ * Score a query word against all words of a name. Abbreviated query words
+ * are tried both as typed and expanded, so "a" still finds "Antakalnio".
+ */
+function scoreQueryWord(raw: string, words: readonly string[]): number {
+  const expanded = ABBREVIATIONS.get(raw);
+  let best = 0;
+
+  for (const word of words) {
+    best = Math.max(best, scoreWord(raw, word));
+    if (expanded !== undefined) {
+      best = Math.max(best, scoreWord(expanded, word));
+    }
+    if (best === EXACT_SCORE) break;
+  }
+
+  return best;
+}
+
+/**
+ * Score a stop against the query words (0 = no match, 1 = exact name).
+ */
+function scoreEntry(entry: StopSearchEntry, queryWords: readonly string[], foldedQuery: string): number {
+  if (entry.code !== null && entry.code === foldedQuery) {
+    return 1;
+  }
+
+  let total = 0;
+  for (const queryWord of queryWords) {
+    const score = scoreQueryWord(queryWord, entry.words);
+    // Every query word has to match
+    if (score === 0) return 0;
+    total += score;
+  }
+
+  const expandedQuery = queryWords.map(word => ABBREVIATIONS.get(word) ?? word);
+  const isExact = expandedQuery.join(' ') === entry.words.join(' ');
+  const startsName = entry.words[0] !== undefined && scoreWord(expandedQuery[0] ?? '', entry.words[0]) >= PREFIX_SCORE;
+
+  return (total / queryWords.length) * 0.85 + (isExact ? 0.1 : 0) + (startsName ? 0.05 : 0);
+}
+
+/**
+ * Search stops by name (or exact stop code), best matches first.
+ *
+ * Every word of the query has to match a word of the stop name exactly,
+ * as a prefix, or with a small typo (one edit from 4 letters, two from 8).
+ * Ties are broken by shorter names first.
+ *
+ * @param index - Stop search index
+ * @param query - Text typed by the user
+ * @param options - Result limit
+ * @returns Matching stops with a relevance `score` between 0 and 1
+ */
+export function searchStops(
+  index: StopSearchIndex,
+  query: string,
+  options: StopSearchOptions = {}
+): StopMatch[] {
+  const { limit = DEFAULT_LIMIT } = options;
+  const foldedQuery = foldText(query);
+  if (foldedQuery === '' || limit <= 0) {
+    return [];
+  }
+
+  const queryWords = foldedQuery.split(' ');
+  const matches: StopMatch[] = [];
+
+  for (const entry of index.entries) {
+    const score = scoreEntry(entry, queryWords, foldedQuery);
+    if (score > 0) {
+      matches.push({ ...entry.stop, score });
+    }
+  }
+
+  matches.sort((a, b) =>
+    b.score - a.score ||
+    a.name.length - b.name.length ||
+    a.name.localeCompare(b.name, 'lt')
+  );
+
+  return matches.slice(0, limit);
+}
@@ -0,0 +1,18 @@
+/**
+ * Timetable module exports
+ * @module timetable
+ */
+
+export {
+  buildStopTimetable,
+  type TimetableOptions,
+  type StopTimetableOptions,
+} from './timetable.js';
+
+export {
+  renderTimetableMarkdown,
+  renderTimetableHtml,
+  DEFAULT_TIMETABLE_LABELS,
+  type TimetableLabels,
+  type TimetableRenderOptions,
+} from './render.js';
@@ -0,0 +1,237 @@
+/**
+ * Timetable renderers
+ * @module timetable/render
+ *
+ * Render a `StopTimetable` as Markdown or as an HTML fragment for printing.
+ * Labels default to English and can be replaced, e.g. with Lithuanian
+ * wording for stop posters.
+ */
+
+import type { StopTimetable, TimetableNote, TimetableSection } from '../types.js';
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+/**
+ * Text used by the renderers.
+ */
+export interface TimetableLabels {
+  /** Title of the workdays section */
+  workdays: string;
+  /** Title of the Saturday section */
+  saturday: string;
+  /** Title of the Sunday section */
+  sunday: string;
+  /** Prefix of specific-dates section titles, followed by the dates */
+  dates: string;
+  /** Prefix of the validity period */
+  validity: string;
+  /** Prefix of the stop name */
+  stop: string;
+  /** Hour column header */
+  hour: string;
+  /** Minutes column header */
+  minutes: string;
+  /** Title of the footnotes */
+  notes: string;
+  /** Shown for sections without departures */
+  noService: string;
+  /** Prefix of `except` notes, followed by the dates */
+  except: string;
+  /** Prefix of `only` notes, followed by the dates */
+  only: string;
+  /** Prefix of `headsign` notes, followed by the destination */
+  headsign: string;
+}
+
+/**
+ * Default English labels.
+ */
+export const DEFAULT_TIMETABLE_LABELS: Readonly<TimetableLabels> = {
+  workdays: 'Workdays',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+  dates: 'On',
+  validity: 'Valid',
+  stop: 'Stop',
+  hour: 'Hour',
+  minutes: 'Minutes',
+  notes: 'Notes',
+  noService: 'No service',
+  except: 'Does not run on',
+  only: 'Runs only on',
+  headsign: 'To',
+};
+
+/**
+ * Options for timetable renderers.
+ */
+export interface TimetableRenderOptions {
+  /** Labels to replace (default: English) */
+  labels?: Partial<TimetableLabels>;
+}
+
+/**
+ * Title of a section.
+ */
+function sectionTitle(section: TimetableSection, labels: TimetableLabels): string {
+  return section.dayType === 'dates'
+    ? `${labels.dates} ${section.dates.join(', ')}`
+    : labels[section.dayType];
+}
+
+/**
+ * Text of a footnote, without its mark.
+ */
+function noteText(note: TimetableNote, labels: TimetableLabels): string {
+  return note.kind === 'headsign'
+    ? `${labels.headsign} ${note.headsign ?? ''}`
+    : `${labels[note.kind]} ${note.dates.join(', ')}`;
+}
+
+/**
+ * Route title: short name and long name.
+ */
+function routeTitle(timetable: StopTimetable): string {
+  return [timetable.route.shortName, timetable.route.longName].filter(part => part !== '').join(' ');
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+/**
+ * Escape characters with a meaning in Markdown tables and inline text.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_|<>[\]]/g, '\\$&');
+}
+
+/**
+ * Render a timetable as Markdown, one hours-by-minutes table per section.
+ * Footnote marks are written as `<sup>` tags.
+ *
+ * @param timetable - Timetable to render
+ * @param options - Label overrides
+ * @returns Markdown document
+ *
+ * @example
+ * const markdown = renderTimetableMarkdown(timetable, { labels: { workdays: 'Darbo dienomis' } });
+ */
+export function renderTimetableMarkdown(timetable: StopTimetable, options: TimetableRenderOptions = {}): string {
+  const labels = { ...DEFAULT_TIMETABLE_LABELS, ...options.labels };
+  const lines: string[] = [
+    `# ${escapeMarkdown(routeTitle(timetable))}`,
+    '',
+    `${labels.stop}: **${escapeMarkdown(timetable.stop.name)}** → ${escapeMarkdown(timetable.headsign)}`,
+    '',
+    `${labels.validity}: ${timetable.validFrom} – ${timetable.validTo}`,
+  ];
+
+  for (const section of timetable.sections) {
+    lines.push('', `## ${escapeMarkdown(sectionTitle(section, labels))}`, '');
+
+    if (section.hours.length === 0) {
+      lines.push(labels.noService);
+      continue;
+    }
+
+    lines.push(`| ${labels.hour} | ${labels.minutes} |`, '| ---: | :--- |');
+    for (const row of section.hours) {
+      const minutes = row.entries.map(entry => {
+        const minute = String(entry.minute).padStart(2, '0');
+        return entry.notes.length > 0 ? `${minute}<sup>${entry.notes.join(',')}</sup>` : minute;
+      });
+      lines.push(`| ${String(row.hour)} | ${minutes.join(' ')} |`);
+    }
+  }
+
+  if (timetable.notes.length > 0) {
+    lines.push('', `**${labels.notes}**`, '');
+    for (const note of timetable.notes) {
+      lines.push(`- <sup>${note.mark}</sup> ${escapeMarkdown(noteText(note, labels))}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// HTML
+// =============================================================================
+
+/**
+ * Escape text for HTML content and attribute values.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a timetable as an HTML fragment.
+ *
+ * The fragment carries `timetable-*` class names and no styles, so it can
+ * be dropped into a print template and styled there.
+ *
+ * @param timetable - Timetable to render
+ * @param options - Label overrides
+ * @returns HTML `<section>` element
+ *
+ * @example
+ * const html = `<!doctype html><html><body>${renderTimetableHtml(timetable)}</body></html>`;
+ */
+export function renderTimetableHtml(timetable: StopTimetable, options: TimetableRenderOptions = {}): string {
+  const labels = { ...DEFAULT_TIMETABLE_LABELS, ...options.labels };
+  const lines: string[] = [
+    '<section class="timetable">',
+    '  <header class="timetable-header">',
+    `    <h1 class="timetable-route">${escapeHtml(routeTitle(timetable))}</h1>`,
+    `    <p class="timetable-stop">${escapeHtml(labels.stop)}: <strong>${escapeHtml(timetable.stop.name)}</strong> → ${escapeHtml(timetable.headsign)}</p>`,
+    `    <p class="timetable-validity">${escapeHtml(labels.validity)}: <time>${timetable.validFrom}</time> – <time>${timetable.validTo}</time></p>`,
+    '  </header>',
+  ];
+
+  for (const section of timetable.sections) {
+    lines.push(
+      `  <table class="timetable-section timetable-${section.dayType}">`,
+      `    <caption>${escapeHtml(sectionTitle(section, labels))}</caption>`
+    );
+
+    if (section.hours.length === 0) {
+      lines.push(`    <tbody><tr><td class="timetable-no-service">${escapeHtml(labels.noService)}</td></tr></tbody>`, '  </table>');
+      continue;
+    }
+
+    lines.push(
+      `    <thead><tr><th scope="col">${escapeHtml(labels.hour)}</th><th scope="col">${escapeHtml(labels.minutes)}</th></tr></thead>`,
+      '    <tbody>'
+    );
+    for (const row of section.hours) {
+      const minutes = row.entries.map(entry => {
+        const minute = String(entry.minute).padStart(2, '0');
+        const marks = entry.notes.length > 0 ? `<sup>${entry.notes.join(',')}</sup>` : '';
+        return `<span class="timetable-minute" title="${escapeHtml(entry.headsign)}">${minute}${marks}</span>`;
+      });
+      lines.push(`      <tr><th scope="row">${String(row.hour)}</th><td>${minutes.join(' ')}</td></tr>`);
+    }
+    lines.push('    </tbody>', '  </table>');
+  }
+
+  if (timetable.notes.length > 0) {
+    lines.push(`  <dl class="timetable-notes" aria-label="${escapeHtml(labels.notes)}">`);
+    for (const note of timetable.notes) {
+      lines.push(`    <dt><sup>${note.mark}</sup></dt><dd>${escapeHtml(noteText(note, labels))}</dd>`);
+    }
+    lines.push('  </dl>');
+  }
+
+  lines.push('</section>');
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,383 @@
+/**
+ * Printable stop timetables
+ * @module timetable/timetable
+ *
+ * A stop poster lists the departures of one route by kind of day rather
+ * than by service ID. Every date of the validity period is resolved against
+ * the service calendar; departures running on most workdays, Saturdays or
+ * Sundays form that day type's table, with footnotes for the dates they
+ * skip or are limited to. Dates whose departures look nothing like their
+ * day type (public holidays running a Sunday schedule, for example) get
+ * sections of their own.
+ */
+
+import type {
+  Route,
+  Stop,
+  StopTimetable,
+  TimetableDayType,
+  TimetableEntry,
+  TimetableHour,
+  TimetableNote,
+  TimetableSection,
+  VehicleType,
+} from '../types.js';
+import type { ScheduleIndex } from '../schedule/schedule-index.js';
+import { getActiveServiceIds, resolveServiceDate } from '../schedule/service-calendar.js';
+import { isTerminating } from '../schedule/departures.js';
+import { parseGtfsTime, addDaysToDate } from '../utils/index.js';
+
+// =============================================================================
+// Options
+// =============================================================================
+
+/**
+ * Options for building a stop timetable.
+ */
+export interface TimetableOptions {
+  /** First date of the validity period (default: today) */
+  from?: Date | string;
+
+  /** Length of the validity period in days (default: 28) */
+  days?: number;
+}
+
+/**
+ * Options for `LtTransport.getStopTimetable()`.
+ */
+export interface StopTimetableOptions extends TimetableOptions {
+  /** Vehicle type, when several routes share the short name */
+  type?: VehicleType;
+}
+
+const DEFAULT_DAYS = 28;
+
+/**
+ * Dates sharing less than this fraction of departures with their day
+ * type's regular schedule get a section of their own.
+ */
+const SPECIAL_DATE_SIMILARITY = 0.5;
+
+/** Regular day types in poster order */
+const REGULAR_DAY_TYPES = ['workdays', 'saturday', 'sunday'] as const;
+
+// =============================================================================
+// Departures
+// =============================================================================
+
+/**
+ * A departure of the route from the stop, independent of date.
+ */
+interface StopDeparture {
+  /** Trip and stop sequence (loop trips can serve a stop twice) */
+  readonly key: string;
+  readonly tripId: string;
+  readonly serviceId: string;
+  readonly departureSeconds: number;
+  readonly headsign: string;
+}
+
+/**
+ * Collect the route's departures from the stop, in time order.
+ */
+function collectDepartures(index: ScheduleIndex, stopId: string, routeId: string): StopDeparture[] {
+  const departures: StopDeparture[] = [];
+
+  for (const stopTime of index.stopTimesByStop.get(stopId) ?? []) {
+    const trip = index.trips.get(stopTime.tripId);
+    if (trip?.routeId !== routeId || isTerminating(index, stopTime)) continue;
+
+    const departureSeconds = parseGtfsTime(stopTime.departureTime);
+    if (departureSeconds === null) continue;
+
+    departures.push({
+      key: `${trip.id}|${String(stopTime.sequence)}`,
+      tripId: trip.id,
+      serviceId: trip.serviceId,
+      departureSeconds,
+      headsign: stopTime.headsign !== null && stopTime.headsign !== ''
+        ? stopTime.headsign
+        : trip.headsign,
+    });
+  }
+
+  return departures.sort((a, b) => a.departureSeconds - b.departureSeconds);
+}
+
+// =============================================================================
+// Day Types
+// =============================================================================
+
+/**
+ * Regular day type of a date.
+ */
+function getDayType(serviceDate: string): (typeof REGULAR_DAY_TYPES)[number] {
+  const weekday = new Date(`${serviceDate}T00:00:00Z`).getUTCDay();
+  if (weekday === 0) return 'sunday';
+  if (weekday === 6) return 'saturday';
+  return 'workdays';
+}
+
+/**
+ * Departures running on more than half of the dates.
+ */
+function findRegular(dates: readonly string[], runningByDate: ReadonlyMap<string, Set<string>>): Set<string> {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    for (const key of runningByDate.get(date) ?? []) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const regular = new Set<string>();
+  for (const [key, count] of counts) {
+    if (count * 2 > dates.length) {
+      regular.add(key);
+    }
+  }
+  return regular;
+}
+
+/**
+ * Jaccard similarity of two departure sets (1 if both are empty).
+ */
+function similarity(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  let shared = 0;
+  for (const key of a) {
+    if (b.has(key)) shared++;
+  }
+  const total = a.size + b.size - shared;
+  return total === 0 ? 1 : shared / total;
+}
+
+// =============================================================================
+// Notes
+// =============================================================================
+
+/**
+ * Footnote mark for a note index: a-z, then aa, ab, ...
+ */
+function noteMark(index: number): string {
+  let mark = '';
+  for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+    mark = String.fromCharCode(97 + (n % 26)) + mark;
+  }
+  return mark;
+}
+
+/**
+ * Get the mark of a footnote, adding the note if it is new.
+ * Marks are assigned in order of first use.
+ */
+function markNote(
+  notes: Map<string, TimetableNote>,
+  kind: TimetableNote['kind'],
+  dates: readonly string[],
+  headsign: string | null
+): string {
+  const key = `${kind}|${dates.join(',')}|${headsign ?? ''}`;
+  let note = notes.get(key);
+  if (note === undefined) {
+    note = { mark: noteMark(notes.size), kind, dates, headsign };
+    notes.set(key, note);
+  }
+  return note.mark;
+}
+
+// =============================================================================
+// Sections
+// =============================================================================
+
+/**
+ * Lay out entries by hour. Overnight departures (24:00:00 and later)
+ * follow the last evening hour.
+ */
+function groupByHour(entries: readonly { departureSeconds: number; entry: TimetableEntry }[]): TimetableHour[] {
+  const hours: { serviceHour: number; hour: number; entries: TimetableEntry[] }[] = [];
+
+  for (const { departureSeconds, entry } of entries) {
+    const serviceHour = Math.floor(departureSeconds / 3600);
+    const last = hours[hours.length - 1];
+    if (last?.serviceHour === serviceHour) {
+      last.entries.push(entry);
+    } else {
+      hours.push({ serviceHour, hour: entry.hour, entries: [entry] });
+    }
+  }
+
+  return hours.map(({ hour, entries: hourEntries }) => ({ hour, entries: hourEntries }));
+}
+
+/**
+ * Build a section from departures and the notes of each.
+ */
+function buildSection(
+  dayType: TimetableDayType,
+  dates: readonly string[],
+  departures: readonly StopDeparture[],
+  mainHeadsign: string,
+  notes: Map<string, TimetableNote>,
+  dateNote: (departure: StopDeparture) => string | null
+): TimetableSection {
+  const entries = departures.map(departure => {
+    const hour = Math.floor(departure.departureSeconds / 3600) % 24;
+    const minute = Math.floor((departure.departureSeconds % 3600) / 60);
+    const marks: string[] = [];
+
+    const dateMark = dateNote(departure);
+    if (dateMark !== null) {
+      marks.push(dateMark);
+    }
+    if (departure.headsign !== mainHeadsign) {
+      marks.push(markNote(notes, 'headsign', [], departure.headsign));
+    }
+
+    return {
+      departureSeconds: departure.departureSeconds,
+      entry: {
+        tripId: departure.tripId,
+        time: `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
+        hour,
+        minute,
+        headsign: departure.headsign,
+        notes: marks,
+      },
+    };
+  });
+
+  return { dayType, dates, hours: groupByHour(entries) };
+}
+
+// =============================================================================
+// Timetable
+// =============================================================================
+
+/**
+ * Build the printable timetable of a route at a stop.
+ *
+ * Each regular day type (workdays, Saturday, Sunday) lists the departures
+ * running on any of its dates; departures that do not run on all of them
+ * carry an `except` or `only` footnote, whichever lists fewer dates.
+ * Dates that share less than half of their departures with their day type
+ * are split into `dates` sections, one per distinct schedule. Departures
+ * to a destination other than the main headsign carry a `headsign` note.
+ * Departures from the last stop of a trip are left out.
+ *
+ * @param index - Schedule index for the city
+ * @param stop - Stop the timetable is for
+ * @param route - Route the timetable is for
+ * @param options - Validity period
+ * @returns Timetable with sections in poster order and their footnotes
+ * @throws {RangeError} If `options.from` is a string not in YYYY-MM-DD format
+ */
+export function buildStopTimetable(
+  index: ScheduleIndex,
+  stop: Stop,
+  route: Route,
+  options: TimetableOptions = {}
+): StopTimetable {
+  const { from = new Date(), days = DEFAULT_DAYS } = options;
+
+  const validFrom = resolveServiceDate(from);
+  const dates = Array.from({ length: Math.max(1, Math.floor(days)) }, (_, i) => addDaysToDate(validFrom, i));
+  const departures = collectDepartures(index, stop.id, route.id);
+
+  const runningByDate = new Map<string, Set<string>>();
+  for (const date of dates) {
+    const services = getActiveServiceIds(index.serviceCalendar, date);
+    runningByDate.set(date, new Set(
+      departures.filter(departure => services.has(departure.serviceId)).map(departure => departure.key)
+    ));
+  }
+
+  // Main headsign: most common among departures running in the period
+  const headsignCounts = new Map<string, number>();
+  for (const departure of departures) {
+    if (dates.some(date => runningByDate.get(date)?.has(departure.key) === true)) {
+      headsignCounts.set(departure.headsign, (headsignCounts.get(departure.headsign) ?? 0) + 1);
+    }
+  }
+  const mainHeadsign = [...headsignCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+
+  const notes = new Map<string, TimetableNote>();
+  const sections: TimetableSection[] = [];
+  const specialDates: string[] = [];
+
+  for (const dayType of REGULAR_DAY_TYPES) {
+    const typeDates = dates.filter(date => getDayType(date) === dayType);
+    if (typeDates.length === 0) continue;
+
+    const initial = findRegular(typeDates, runningByDate);
+    const special = new Set(typeDates.filter(date =>
+      similarity(runningByDate.get(date) ?? new Set(), initial) < SPECIAL_DATE_SIMILARITY
+    ));
+    specialDates.push(...special);
+
+    const regularDates = typeDates.filter(date => !special.has(date));
+    if (regularDates.length === 0) continue;
+
+    const runDates = new Map<string, string[]>();
+    for (const date of regularDates) {
+      for (const key of runningByDate.get(date) ?? []) {
+        const existing = runDates.get(key);
+        if (existing !== undefined) {
+          existing.push(date);
+        } else {
+          runDates.set(key, [date]);
+        }
+      }
+    }
+
+    sections.push(buildSection(
+      dayType,
+      regularDates,
+      departures.filter(departure => runDates.has(departure.key)),
+      mainHeadsign,
+      notes,
+      departure => {
+        const running = runDates.get(departure.key) ?? [];
+        if (running.length === regularDates.length) {
+          return null;
+        }
+        const skipped = regularDates.filter(date => !running.includes(date));
+        return running.length <= skipped.length
+          ? markNote(notes, 'only', running, null)
+          : markNote(notes, 'except', skipped, null);
+      }
+    ));
+  }
+
+  // Specific dates, one section per distinct set of departures
+  const bySchedule = new Map<string, string[]>();
+  for (const date of specialDates.sort()) {
+    const key = [...(runningByDate.get(date) ?? [])].sort().join(',');
+    const existing = bySchedule.get(key);
+    if (existing !== undefined) {
+      existing.push(date);
+    } else {
+      bySchedule.set(key, [date]);
+    }
+  }
+
+  for (const scheduleDates of bySchedule.values()) {
+    const running = runningByDate.get(scheduleDates[0] ?? '') ?? new Set();
+    sections.push(buildSection(
+      'dates',
+      scheduleDates,
+      departures.filter(departure => running.has(departure.key)),
+      mainHeadsign,
+      notes,
+      () => null
+    ));
+  }
+
+  return {
+    stop,
+    route,
+    headsign: mainHeadsign,
+    validFrom,
+    validTo: dates[dates.length - 1] ?? validFrom,
+    sections,
+    notes: [...notes.values()],
+  };
+}
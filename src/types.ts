@@ -82,7 +82,11 @@ export interface Vehicle {
   /** Destination/terminus name, if available */
   readonly destination: string | null;
 
-  /** Delay in seconds (positive = late, negative = early), if available */
+  /**
+   * Delay in seconds (positive = late, negative = early), if available.
+   * Estimated from the vehicle's position when `estimateDelays` is enabled
+   * and the source does not report it.
+   */
   readonly delaySeconds: number | null;
 
   /** Trip identifier from source system, if available */
@@ -306,6 +310,540 @@ export interface StopTime {
   readonly headsign: string | null;
 }
 
+// =============================================================================
+// Schedule Query Types
+// =============================================================================
+
+/**
+ * A scheduled departure from a stop, resolved against the service calendar.
+ */
+export interface Departure {
+  /** Trip making this departure */
+  readonly tripId: string;
+
+  /** Route the trip belongs to */
+  readonly routeId: string;
+
+  /** Route short name (e.g., "4G"), or empty string if route is unknown */
+  readonly routeShortName: string;
+
+  /** Type of vehicle serving the route */
+  readonly type: VehicleType;
+
+  /** Headsign shown at this stop (stop-level override or trip headsign) */
+  readonly headsign: string;
+
+  /** Stop the departure is made from */
+  readonly stopId: string;
+
+  /** Order of this stop in the trip */
+  readonly stopSequence: number;
+
+  /** GTFS service date the trip belongs to (YYYY-MM-DD) */
+  readonly serviceDate: string;
+
+  /** Scheduled arrival at the stop */
+  readonly scheduledArrival: Date;
+
+  /** Scheduled departure from the stop */
+  readonly scheduledDeparture: Date;
+}
+
+/**
+ * A departure with a real-time prediction applied when a live vehicle
+ * is serving the trip. Scheduled-only entries have `isRealtime: false`
+ * and predicted times equal to scheduled times.
+ */
+export interface PredictedArrival extends Departure {
+  /** Predicted arrival at the stop */
+  readonly predictedArrival: Date;
+
+  /** Predicted departure from the stop */
+  readonly predictedDeparture: Date;
+
+  /** Live delay applied to the schedule (positive = late), null if scheduled-only */
+  readonly delaySeconds: number | null;
+
+  /** Whether the prediction is based on a live vehicle */
+  readonly isRealtime: boolean;
+
+  /** ID of the live vehicle serving the trip, if any */
+  readonly vehicleId: string | null;
+}
+
+// =============================================================================
+// Route Detail Types
+// =============================================================================
+
+/**
+ * A distinct stop sequence of a route and the trips that run it.
+ * Computed once per sync and cached alongside the GTFS data.
+ */
+export interface RoutePattern {
+  /** Pattern identifier, unique within the city (`<routeId>#<n>`) */
+  readonly id: string;
+
+  /** Route this pattern belongs to */
+  readonly routeId: string;
+
+  /** Direction of the pattern's trips, or null if the feed does not set one */
+  readonly directionId: number | null;
+
+  /** Stop IDs in travel order */
+  readonly stopIds: readonly string[];
+
+  /** Trips running this stop sequence */
+  readonly tripIds: readonly string[];
+
+  /** Distinct headsigns of the trips, most common first */
+  readonly headsigns: readonly string[];
+
+  /** Distinct shape IDs of the trips, most common first */
+  readonly shapeIds: readonly string[];
+}
+
+/**
+ * One direction of a route with its canonical stop sequence.
+ */
+export interface RouteDirection {
+  /** GTFS direction ID, or null if the feed does not set one */
+  readonly directionId: number | null;
+
+  /** Most common headsign of the direction's trips */
+  readonly headsign: string;
+
+  /** Stop IDs of the most common stop sequence, in travel order */
+  readonly stopIds: readonly string[];
+
+  /** Stops of `stopIds` that exist in the feed, in travel order */
+  readonly stops: readonly Stop[];
+
+  /** Shape most used by trips with this stop sequence, if any */
+  readonly shapeId: string | null;
+
+  /** Points of the representative shape (empty if none) */
+  readonly shape: readonly ShapePoint[];
+
+  /** Number of trips running in this direction */
+  readonly tripCount: number;
+}
+
+/**
+ * A route with its directions, as needed for a route page.
+ */
+export interface RouteDetails {
+  /** The route */
+  readonly route: Route;
+
+  /** Directions of the route, by direction ID (busiest first when unset) */
+  readonly directions: readonly RouteDirection[];
+}
+
+// =============================================================================
+// Timetable Types
+// =============================================================================
+
+/**
+ * Kind of days a timetable section applies to.
+ * `dates` sections cover specific dates that run a schedule of their own
+ * (e.g. public holidays).
+ */
+export type TimetableDayType = 'workdays' | 'saturday' | 'sunday' | 'dates';
+
+/**
+ * One departure in a printed timetable.
+ */
+export interface TimetableEntry {
+  /** Trip making this departure */
+  readonly tripId: string;
+
+  /** Local departure time (HH:MM, 00-23) */
+  readonly time: string;
+
+  /** Hour of the departure (0-23) */
+  readonly hour: number;
+
+  /** Minute of the departure (0-59) */
+  readonly minute: number;
+
+  /** Headsign shown at this stop */
+  readonly headsign: string;
+
+  /** Marks of the footnotes that apply to this departure */
+  readonly notes: readonly string[];
+}
+
+/**
+ * Departures of one hour, for the hours-by-minutes layout.
+ */
+export interface TimetableHour {
+  /** Hour (0-23) */
+  readonly hour: number;
+
+  /** Departures within the hour, by minute */
+  readonly entries: readonly TimetableEntry[];
+}
+
+/**
+ * Departures of a timetable for one kind of day.
+ */
+export interface TimetableSection {
+  /** Kind of days this section applies to */
+  readonly dayType: TimetableDayType;
+
+  /** Dates within the validity period the section applies to (YYYY-MM-DD) */
+  readonly dates: readonly string[];
+
+  /** Departures by hour, in service order (empty if there is no service) */
+  readonly hours: readonly TimetableHour[];
+}
+
+/**
+ * A timetable footnote.
+ *
+ * - `except`: the departure does not run on `dates`
+ * - `only`: the departure runs only on `dates`
+ * - `headsign`: the departure goes to `headsign` instead of the main destination
+ */
+export interface TimetableNote {
+  /** Mark referencing the note from entries (`a`, `b`, ...) */
+  readonly mark: string;
+
+  /** Kind of note */
+  readonly kind: 'except' | 'only' | 'headsign';
+
+  /** Dates the note refers to (YYYY-MM-DD, empty for headsign notes) */
+  readonly dates: readonly string[];
+
+  /** Destination for headsign notes, otherwise null */
+  readonly headsign: string | null;
+}
+
+/**
+ * Timetable of one route at one stop, as printed on stop posters.
+ */
+export interface StopTimetable {
+  /** The stop */
+  readonly stop: Stop;
+
+  /** The route */
+  readonly route: Route;
+
+  /** Most common headsign of the departures */
+  readonly headsign: string;
+
+  /** First date of the validity period (YYYY-MM-DD) */
+  readonly validFrom: string;
+
+  /** Last date of the validity period (YYYY-MM-DD) */
+  readonly validTo: string;
+
+  /** Sections by day type: workdays, Saturday, Sunday, then specific dates */
+  readonly sections: readonly TimetableSection[];
+
+  /** Footnotes referenced by entries */
+  readonly notes: readonly TimetableNote[];
+}
+
+// =============================================================================
+// Analytics Types
+// =============================================================================
+
+/**
+ * Headway statistics of the departures within a time band.
+ * A headway is the time since the previous departure, which may fall in
+ * the previous band.
+ */
+export interface HeadwayStats {
+  /** Name of the time band */
+  readonly band: string;
+
+  /** Departures within the band */
+  readonly departures: number;
+
+  /** Departures per hour of the band */
+  readonly departuresPerHour: number;
+
+  /** Mean headway in seconds, or null without a preceding departure */
+  readonly meanHeadwaySeconds: number | null;
+
+  /** Median headway in seconds, or null without a preceding departure */
+  readonly medianHeadwaySeconds: number | null;
+
+  /** Shortest headway in seconds, or null without a preceding departure */
+  readonly minHeadwaySeconds: number | null;
+
+  /** Longest headway in seconds, or null without a preceding departure */
+  readonly maxHeadwaySeconds: number | null;
+}
+
+/**
+ * Scheduled headways of a route direction at its reference stop.
+ */
+export interface ScheduledHeadways {
+  /** Route ID */
+  readonly routeId: string;
+
+  /** Route short name (e.g., "4G") */
+  readonly routeShortName: string;
+
+  /** Direction ID, or null if the feed does not set one */
+  readonly directionId: number | null;
+
+  /** Stop the departures are counted at */
+  readonly stopId: string;
+
+  /** Service date (YYYY-MM-DD) */
+  readonly serviceDate: string;
+
+  /** Statistics per time band, in band order */
+  readonly bands: readonly HeadwayStats[];
+}
+
+/**
+ * A vehicle passing a stop, detected from recorded positions.
+ */
+export interface StopPass {
+  /** Tracking ID of the vehicle */
+  readonly vehicleId: string;
+
+  /** Vehicle number as displayed on the vehicle */
+  readonly vehicleNumber: string;
+
+  /** Route short name the vehicle was serving */
+  readonly route: string;
+
+  /** Destination the vehicle was showing, if available */
+  readonly destination: string | null;
+
+  /** Estimated time of the closest approach to the stop */
+  readonly passedAt: Date;
+
+  /** Closest estimated distance to the stop in meters */
+  readonly distanceMeters: number;
+}
+
+/**
+ * Observed headways of a route at a stop.
+ */
+export interface ObservedHeadways {
+  /** Route short name */
+  readonly route: string;
+
+  /** Destination of the vehicles, or null when unknown */
+  readonly destination: string | null;
+
+  /** Stop the passes are counted at */
+  readonly stopId: string;
+
+  /** Statistics per time band, in band order */
+  readonly bands: readonly HeadwayStats[];
+}
+
+/**
+ * Two consecutive vehicles of a route direction spaced irregularly.
+ *
+ * - `bunching`: the vehicles are closer together than the threshold
+ * - `gap`: the vehicles are much further apart than is usual for the direction
+ */
+export interface SpacingAlert {
+  /** Kind of irregularity */
+  readonly kind: 'bunching' | 'gap';
+
+  /** Route short name */
+  readonly route: string;
+
+  /** Type of vehicle serving the route */
+  readonly type: VehicleType;
+
+  /** Direction ID of the path the vehicles were placed on, or null if unset */
+  readonly directionId: number | null;
+
+  /** Headsign of the direction */
+  readonly headsign: string;
+
+  /** Vehicle further along the route */
+  readonly leader: Vehicle;
+
+  /** Vehicle behind it */
+  readonly follower: Vehicle;
+
+  /** Distance between the vehicles along the route path, in meters */
+  readonly distanceMeters: number;
+
+  /** Median of the direction's other spacings between consecutive vehicles, in meters */
+  readonly medianDistanceMeters: number;
+}
+
+// =============================================================================
+// Recording Types
+// =============================================================================
+
+/**
+ * Vehicles of one city captured by a single poll, as kept by a vehicle store.
+ */
+export interface RecordedSnapshot {
+  /** City the vehicles belong to */
+  readonly city: string;
+
+  /** Server time of the poll */
+  readonly recordedAt: Date;
+
+  /** Vehicles returned by the poll (may be empty) */
+  readonly vehicles: Vehicle[];
+}
+
+// =============================================================================
+// Geospatial Query Types
+// =============================================================================
+
+/**
+ * A stop found by a nearby query, with its distance from the query position.
+ */
+export interface NearbyStop extends Stop {
+  /** Great-circle distance from the query position in meters */
+  readonly distanceMeters: number;
+}
+
+/**
+ * A vehicle found by a nearby query, with its position relative to the query position.
+ */
+export interface NearbyVehicle extends Vehicle {
+  /** Great-circle distance from the query position in meters */
+  readonly distanceMeters: number;
+
+  /** Bearing from the query position to the vehicle (0-359, 0 = North) */
+  readonly bearingFromPosition: number;
+}
+
+/**
+ * Options for nearby stop queries.
+ */
+export interface NearbyStopsOptions {
+  /** Search radius in meters (default: 500) */
+  radiusMeters?: number;
+
+  /** Maximum number of stops to return (default: 10) */
+  limit?: number;
+}
+
+// =============================================================================
+// Search Types
+// =============================================================================
+
+/**
+ * A stop found by a name search.
+ */
+export interface StopMatch extends Stop {
+  /** Relevance between 0 and 1 (1 = exact name or stop code) */
+  readonly score: number;
+}
+
+// =============================================================================
+// Journey Planning Types
+// =============================================================================
+
+/**
+ * Start, end or transfer point of a journey leg.
+ */
+export interface JourneyPlace {
+  /** Stop ID, or null for a coordinate given by the caller */
+  readonly stopId: string | null;
+
+  /** Stop name, or empty string for a coordinate */
+  readonly name: string;
+
+  /** Latitude in WGS84 decimal degrees */
+  readonly latitude: number;
+
+  /** Longitude in WGS84 decimal degrees */
+  readonly longitude: number;
+}
+
+/**
+ * A walk between two places (to the first stop, between stops, or from the last stop).
+ */
+export interface WalkLeg {
+  readonly mode: 'walk';
+
+  /** Where the walk starts */
+  readonly from: JourneyPlace;
+
+  /** Where the walk ends */
+  readonly to: JourneyPlace;
+
+  /** When the walk starts */
+  readonly departure: Date;
+
+  /** When the walk ends */
+  readonly arrival: Date;
+
+  /** Straight-line walking distance in meters */
+  readonly distanceMeters: number;
+}
+
+/**
+ * A ride on a single trip.
+ */
+export interface TransitLeg {
+  readonly mode: 'transit';
+
+  /** Stop where the trip is boarded */
+  readonly from: JourneyPlace;
+
+  /** Stop where the trip is left */
+  readonly to: JourneyPlace;
+
+  /** Scheduled departure from the boarding stop */
+  readonly departure: Date;
+
+  /** Scheduled arrival at the alighting stop */
+  readonly arrival: Date;
+
+  /** Trip being ridden */
+  readonly tripId: string;
+
+  /** Route the trip belongs to */
+  readonly routeId: string;
+
+  /** Route short name (e.g., "4G"), or empty string if route is unknown */
+  readonly routeShortName: string;
+
+  /** Type of vehicle serving the route */
+  readonly type: VehicleType;
+
+  /** Headsign shown at the boarding stop */
+  readonly headsign: string;
+
+  /** GTFS service date the trip belongs to (YYYY-MM-DD) */
+  readonly serviceDate: string;
+}
+
+/**
+ * A leg of a journey.
+ */
+export type JourneyLeg = WalkLeg | TransitLeg;
+
+/**
+ * An earliest-arrival journey between two places.
+ */
+export interface Journey {
+  /** When the journey starts (first leg departure) */
+  readonly departure: Date;
+
+  /** When the destination is reached */
+  readonly arrival: Date;
+
+  /** Total duration in seconds */
+  readonly durationSeconds: number;
+
+  /** Number of changes between trips */
+  readonly transfers: number;
+
+  /** Legs in travel order */
+  readonly legs: readonly JourneyLeg[];
+}
+
 // =============================================================================
 // Sync Result Types
 // =============================================================================
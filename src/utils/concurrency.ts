@@ -0,0 +1,46 @@
+/**
+ * Concurrency helpers for batched network operations
+ * @module utils/concurrency
+ */
+
+/**
+ * Result of a task run by `mapSettledWithConcurrency`.
+ */
+export type SettledResult<R> =
+  | { readonly status: 'fulfilled'; readonly value: R }
+  | { readonly status: 'rejected'; readonly reason: unknown };
+
+/**
+ * Run an async task for each item with at most `limit` tasks in flight.
+ * Like `Promise.allSettled`, failures do not stop other tasks.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent tasks (minimum 1; 1 if NaN, no limit if Infinity)
+ * @param task - Async task for a single item
+ * @returns Settled results in the order of `items`
+ */
+export async function mapSettledWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<SettledResult<R>[]> {
+  const results = new Array<SettledResult<R>>(items.length);
+  const workerCount = Math.min(items.length, Number.isNaN(limit) ? 1 : Math.max(1, Math.floor(limit)));
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index] as T;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(item) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
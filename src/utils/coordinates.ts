@@ -3,6 +3,20 @@
  * @module utils/coordinates
  */
 
+/**
+ * A latitude/longitude rectangle in WGS84 decimal degrees.
+ */
+export interface BoundingBox {
+  /** Minimum latitude (southern edge) */
+  readonly latMin: number;
+  /** Maximum latitude (northern edge) */
+  readonly latMax: number;
+  /** Minimum longitude (western edge) */
+  readonly lonMin: number;
+  /** Maximum longitude (eastern edge) */
+  readonly lonMax: number;
+}
+
 /**
  * Lithuania's geographic bounding box in WGS84 decimal degrees.
  * Used to validate coordinates are within expected range.
@@ -50,11 +64,23 @@ export function normalizeCoordinate(raw: number): number {
  * isValidLithuaniaCoord(48.856, 2.352)  // => false (Paris)
  */
 export function isValidLithuaniaCoord(lat: number, lon: number): boolean {
+  return isWithinBounds(lat, lon, LITHUANIA_BOUNDS);
+}
+
+/**
+ * Check if coordinates fall within a bounding box (edges inclusive).
+ * 
+ * @param lat - Latitude in WGS84 decimal degrees
+ * @param lon - Longitude in WGS84 decimal degrees
+ * @param bounds - Bounding box to test against
+ * @returns true if coordinates are within the box
+ */
+export function isWithinBounds(lat: number, lon: number, bounds: BoundingBox): boolean {
   return (
-    lat >= LITHUANIA_BOUNDS.latMin &&
-    lat <= LITHUANIA_BOUNDS.latMax &&
-    lon >= LITHUANIA_BOUNDS.lonMin &&
-    lon <= LITHUANIA_BOUNDS.lonMax
+    lat >= bounds.latMin &&
+    lat <= bounds.latMax &&
+    lon >= bounds.lonMin &&
+    lon <= bounds.lonMax
   );
 }
 
@@ -110,3 +136,70 @@ export function normalizeSpeed(speed: number): number {
   }
   return speed;
 }
+
+// =============================================================================
+// Distance & Bearing
+// =============================================================================
+
+/**
+ * Mean Earth radius in meters (IUGG).
+ */
+export const EARTH_RADIUS_METERS = 6_371_008.8;
+
+/**
+ * Convert degrees to radians.
+ */
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Calculate the great-circle distance between two points using the haversine formula.
+ * 
+ * @param lat1 - Latitude of first point in WGS84 decimal degrees
+ * @param lon1 - Longitude of first point in WGS84 decimal degrees
+ * @param lat2 - Latitude of second point in WGS84 decimal degrees
+ * @param lon2 - Longitude of second point in WGS84 decimal degrees
+ * @returns Distance in meters
+ * 
+ * @example
+ * haversineDistance(54.6872, 25.2797, 54.8985, 23.9036) // => ~90 km (Vilnius → Kaunas)
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Calculate the initial bearing from one point to another.
+ * 
+ * @param lat1 - Latitude of start point in WGS84 decimal degrees
+ * @param lon1 - Longitude of start point in WGS84 decimal degrees
+ * @param lat2 - Latitude of end point in WGS84 decimal degrees
+ * @param lon2 - Longitude of end point in WGS84 decimal degrees
+ * @returns Bearing in degrees (0-359, 0 = North)
+ */
+export function calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return normalizeBearing((Math.atan2(y, x) * 180) / Math.PI);
+}
+
+/**
+ * Get the smallest angle between two bearings.
+ * 
+ * @param a - First bearing in degrees
+ * @param b - Second bearing in degrees
+ * @returns Angle difference in degrees (0-180)
+ */
+export function bearingDifference(a: number, b: number): number {
+  const diff = Math.abs(normalizeBearing(a) - normalizeBearing(b));
+  return diff > 180 ? 360 - diff : diff;
+}
@@ -6,12 +6,28 @@
 export {
   normalizeCoordinate,
   isValidLithuaniaCoord,
+  isWithinBounds,
   normalizeAndValidateCoordinates,
   normalizeBearing,
   normalizeSpeed,
+  haversineDistance,
+  calculateBearing,
+  bearingDifference,
   LITHUANIA_BOUNDS,
+  EARTH_RADIUS_METERS,
+  type BoundingBox,
 } from './coordinates.js';
 
+export {
+  preparePolyline,
+  projectOntoSegments,
+  projectOntoPolyline,
+  findPolylineMatches,
+  type GeoPoint,
+  type PreparedPolyline,
+  type PolylineProjection,
+} from './polyline.js';
+
 export {
   repairMojibake,
   hasMojibake,
@@ -26,4 +42,27 @@ export {
   isDataStale,
   parseTimeSeconds,
   getCurrentSecondsFromMidnight,
+  parseGtfsTime,
+  getLithuanianDate,
+  addDaysToDate,
+  getServiceDayStart,
+  LITHUANIA_TIMEZONE,
+  PASSED_STOP_TOLERANCE_SECONDS,
 } from './time.js';
+
+export {
+  mapSettledWithConcurrency,
+  type SettledResult,
+} from './concurrency.js';
+
+export {
+  buildSpatialIndex,
+  findWithinRadius,
+  type SpatialIndex,
+  type NearbyResult,
+} from './spatial-index.js';
+
+export {
+  foldText,
+  editDistance,
+} from './text.js';
@@ -0,0 +1,211 @@
+/**
+ * Polyline projection utilities for shapes and stop sequences
+ * @module utils/polyline
+ * 
+ * Projects positions onto GTFS shapes to measure how far along a path
+ * a vehicle is. Distances are in meters; projection uses a local
+ * equirectangular approximation, which is accurate to well under a
+ * meter at city scale in Lithuania's latitudes.
+ */
+
+import { EARTH_RADIUS_METERS, haversineDistance, calculateBearing } from './coordinates.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A point with WGS84 coordinates (compatible with Stop and ShapePoint).
+ */
+export interface GeoPoint {
+  readonly latitude: number;
+  readonly longitude: number;
+}
+
+/**
+ * Polyline with precomputed cumulative distances.
+ */
+export interface PreparedPolyline {
+  /** Points along the path */
+  readonly points: readonly GeoPoint[];
+  /** Distance from the first point to each point, in meters */
+  readonly cumulativeDistances: readonly number[];
+  /** Total path length in meters */
+  readonly length: number;
+}
+
+/**
+ * Result of projecting a position onto a polyline.
+ */
+export interface PolylineProjection {
+  /** Distance along the polyline to the projected point, in meters */
+  readonly distanceAlong: number;
+  /** Perpendicular distance from the position to the polyline, in meters */
+  readonly distanceFromLine: number;
+  /** Index of the segment the position projects onto */
+  readonly segmentIndex: number;
+  /** Bearing of that segment in degrees (0-359) */
+  readonly segmentBearing: number;
+}
+
+// =============================================================================
+// Preparation
+// =============================================================================
+
+/**
+ * Prepare a polyline for repeated projections.
+ * 
+ * @param points - Ordered points along the path
+ * @returns Polyline with cumulative distances
+ */
+export function preparePolyline(points: readonly GeoPoint[]): PreparedPolyline {
+  const cumulativeDistances: number[] = [];
+  let total = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const prev = points[i - 1];
+    const point = points[i];
+    if (prev !== undefined && point !== undefined) {
+      total += haversineDistance(prev.latitude, prev.longitude, point.latitude, point.longitude);
+    }
+    cumulativeDistances.push(total);
+  }
+
+  return { points, cumulativeDistances, length: total };
+}
+
+// =============================================================================
+// Projection
+// =============================================================================
+
+/**
+ * Project a position onto every segment of a polyline.
+ * 
+ * @param polyline - Prepared polyline
+ * @param latitude - Position latitude
+ * @param longitude - Position longitude
+ * @returns One projection per segment (a single one for one-point polylines)
+ */
+export function projectOntoSegments(
+  polyline: PreparedPolyline,
+  latitude: number,
+  longitude: number
+): PolylineProjection[] {
+  const { points, cumulativeDistances } = polyline;
+  const metersPerDegLat = (Math.PI / 180) * EARTH_RADIUS_METERS;
+  const metersPerDegLon = metersPerDegLat * Math.cos((latitude * Math.PI) / 180);
+  const projections: PolylineProjection[] = [];
+
+  const first = points[0];
+  if (first === undefined) {
+    return projections;
+  }
+
+  if (points.length === 1) {
+    projections.push({
+      distanceAlong: 0,
+      distanceFromLine: haversineDistance(latitude, longitude, first.latitude, first.longitude),
+      segmentIndex: 0,
+      segmentBearing: 0,
+    });
+    return projections;
+  }
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (a === undefined || b === undefined) continue;
+
+    // Local planar coordinates relative to the position
+    const ax = (a.longitude - longitude) * metersPerDegLon;
+    const ay = (a.latitude - latitude) * metersPerDegLat;
+    const bx = (b.longitude - longitude) * metersPerDegLon;
+    const by = (b.latitude - latitude) * metersPerDegLat;
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSq)) : 0;
+
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    const segmentStart = cumulativeDistances[i] ?? 0;
+    const segmentEnd = cumulativeDistances[i + 1] ?? segmentStart;
+
+    projections.push({
+      distanceAlong: segmentStart + t * (segmentEnd - segmentStart),
+      distanceFromLine: Math.sqrt(px * px + py * py),
+      segmentIndex: i,
+      segmentBearing: calculateBearing(a.latitude, a.longitude, b.latitude, b.longitude),
+    });
+  }
+
+  return projections;
+}
+
+/**
+ * Project a position onto the nearest point of a polyline.
+ * 
+ * @param polyline - Prepared polyline
+ * @param latitude - Position latitude
+ * @param longitude - Position longitude
+ * @returns Nearest projection, or null for an empty polyline
+ */
+export function projectOntoPolyline(
+  polyline: PreparedPolyline,
+  latitude: number,
+  longitude: number
+): PolylineProjection | null {
+  let best: PolylineProjection | null = null;
+
+  for (const projection of projectOntoSegments(polyline, latitude, longitude)) {
+    if (best === null || projection.distanceFromLine < best.distanceFromLine) {
+      best = projection;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find all distinct places where a position lies near a polyline.
+ * 
+ * Paths that pass the same place twice (loops, out-and-back termini)
+ * produce one match per pass. Consecutive nearby segments are collapsed
+ * into their closest projection.
+ * 
+ * @param polyline - Prepared polyline
+ * @param latitude - Position latitude
+ * @param longitude - Position longitude
+ * @param maxDistance - Maximum distance from the line in meters
+ * @returns Matches ordered by distance along the polyline
+ */
+export function findPolylineMatches(
+  polyline: PreparedPolyline,
+  latitude: number,
+  longitude: number,
+  maxDistance: number
+): PolylineProjection[] {
+  const matches: PolylineProjection[] = [];
+  let current: PolylineProjection | null = null;
+
+  for (const projection of projectOntoSegments(polyline, latitude, longitude)) {
+    if (projection.distanceFromLine > maxDistance) {
+      if (current !== null) {
+        matches.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current === null || projection.distanceFromLine < current.distanceFromLine) {
+      current = projection;
+    }
+  }
+
+  if (current !== null) {
+    matches.push(current);
+  }
+
+  return matches;
+}
@@ -0,0 +1,155 @@
+/**
+ * Grid-based spatial index for radius queries
+ * @module utils/spatial-index
+ *
+ * Buckets points into square cells of roughly equal size in meters, so a
+ * radius query only measures the points of the cells overlapping the
+ * search circle instead of the whole dataset. A uniform grid suits stop
+ * data well: stops are dense in cities and sparse in between, and the
+ * index is built once per dataset.
+ */
+
+import { haversineDistance } from './coordinates.js';
+import type { GeoPoint } from './polyline.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Points bucketed into a uniform grid.
+ */
+export interface SpatialIndex<T extends GeoPoint> {
+  /** Points keyed by cell (`row:column`) */
+  readonly cells: Map<string, T[]>;
+  /** Cell height in degrees of latitude */
+  readonly cellLatDegrees: number;
+  /** Cell width in degrees of longitude (at the reference latitude) */
+  readonly cellLonDegrees: number;
+  /** Number of indexed points */
+  readonly size: number;
+}
+
+/**
+ * A point found by a radius query.
+ */
+export interface NearbyResult<T extends GeoPoint> {
+  readonly item: T;
+  /** Great-circle distance from the query position, in meters */
+  readonly distanceMeters: number;
+}
+
+/** Meters per degree of latitude */
+const METERS_PER_DEGREE = 111_320;
+
+const DEFAULT_CELL_SIZE_METERS = 250;
+
+// =============================================================================
+// Building
+// =============================================================================
+
+/**
+ * Meters per degree of longitude at a latitude.
+ */
+function metersPerLonDegree(latitude: number): number {
+  return METERS_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+}
+
+/**
+ * Build a spatial index over points.
+ *
+ * @param items - Points to index (e.g. stops)
+ * @param cellSizeMeters - Approximate cell edge length (default: 250 m)
+ * @returns Spatial index
+ */
+export function buildSpatialIndex<T extends GeoPoint>(
+  items: readonly T[],
+  cellSizeMeters = DEFAULT_CELL_SIZE_METERS
+): SpatialIndex<T> {
+  // Cells are sized for the northernmost point so they are never narrower than requested
+  let maxAbsLatitude = 0;
+  for (const item of items) {
+    maxAbsLatitude = Math.max(maxAbsLatitude, Math.abs(item.latitude));
+  }
+
+  const cellLatDegrees = cellSizeMeters / METERS_PER_DEGREE;
+  const cellLonDegrees = cellSizeMeters / metersPerLonDegree(maxAbsLatitude);
+  const cells = new Map<string, T[]>();
+
+  for (const item of items) {
+    const key = `${String(Math.floor(item.latitude / cellLatDegrees))}:${String(Math.floor(item.longitude / cellLonDegrees))}`;
+    const existing = cells.get(key);
+    if (existing !== undefined) {
+      existing.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+  }
+
+  return { cells, cellLatDegrees, cellLonDegrees, size: items.length };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Find indexed points within a radius, nearest first.
+ *
+ * @param index - Spatial index
+ * @param latitude - Query latitude in WGS84 decimal degrees
+ * @param longitude - Query longitude in WGS84 decimal degrees
+ * @param radiusMeters - Search radius in meters
+ * @param limit - Maximum number of results (default: unlimited)
+ * @returns Points with their distance, sorted by distance
+ */
+export function findWithinRadius<T extends GeoPoint>(
+  index: SpatialIndex<T>,
+  latitude: number,
+  longitude: number,
+  radiusMeters: number,
+  limit = Infinity
+): NearbyResult<T>[] {
+  if (index.size === 0 || radiusMeters < 0 || limit <= 0) {
+    return [];
+  }
+
+  const latDelta = radiusMeters / METERS_PER_DEGREE;
+  // Widest longitude span of the circle is at its pole-side edge
+  const lonDelta = radiusMeters / metersPerLonDegree(Math.abs(latitude) + latDelta);
+
+  const minRow = Math.floor((latitude - latDelta) / index.cellLatDegrees);
+  const maxRow = Math.floor((latitude + latDelta) / index.cellLatDegrees);
+  const minCol = Math.floor((longitude - lonDelta) / index.cellLonDegrees);
+  const maxCol = Math.floor((longitude + lonDelta) / index.cellLonDegrees);
+
+  const results: NearbyResult<T>[] = [];
+  const collect = (cell: readonly T[]): void => {
+    for (const item of cell) {
+      const distanceMeters = haversineDistance(latitude, longitude, item.latitude, item.longitude);
+      if (distanceMeters <= radiusMeters) {
+        results.push({ item, distanceMeters });
+      }
+    }
+  };
+
+  // For very large radii, visiting the occupied cells is cheaper than probing empty ones
+  if ((maxRow - minRow + 1) * (maxCol - minCol + 1) > index.cells.size) {
+    for (const cell of index.cells.values()) {
+      collect(cell);
+    }
+  } else {
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const cell = index.cells.get(`${String(row)}:${String(col)}`);
+        if (cell !== undefined) {
+          collect(cell);
+        }
+      }
+    }
+  }
+
+  results.sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return results.length > limit ? results.slice(0, limit) : results;
+}
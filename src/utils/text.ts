@@ -0,0 +1,76 @@
+/**
+ * Text comparison utilities for Lithuanian names
+ * @module utils/text
+ */
+
+/**
+ * Fold text for comparison: strip diacritics (ą→a, č→c, ė→e, ...),
+ * lowercase, and turn punctuation into single spaces.
+ *
+ * @param text - Text to fold
+ * @returns Folded text with single spaces between words
+ *
+ * @example
+ * foldText('Žalgirio g.') // => 'zalgirio g'
+ * foldText('Autobusų stotis (A.S.)') // => 'autobusu stotis a s'
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions
+ * and swaps of adjacent characters each count as one edit).
+ * Stops early once the distance exceeds `max`.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @param max - Largest distance of interest
+ * @returns Edit distance, or `max + 1` if it exceeds `max`
+ *
+ * @example
+ * editDistance('zalgirio', 'zalgrio', 2) // => 1
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previousPrevious[j - 2] ?? 0) + 1);
+      }
+
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length] ?? max + 1, max + 1);
+}
@@ -26,11 +26,11 @@ const DEFAULT_STALE_THRESHOLD_MS = 5 * 60 * 1000;
  *   - Monday 00:00 + 90000s = Tuesday 01:00
  * 
  * @param seconds - Seconds from midnight (can exceed 86400)
+ * @param reference - Instant whose day the seconds belong to (default: now)
  * @returns Date object representing the measurement time
  */
-export function secondsFromMidnightToDate(seconds: number): Date {
-  const now = new Date();
-  const baseMidnight = new Date(now);
+export function secondsFromMidnightToDate(seconds: number, reference: Date = new Date()): Date {
+  const baseMidnight = new Date(reference);
   baseMidnight.setHours(0, 0, 0, 0);
 
   // If seconds >= 86400, this is a "night owl" trip from previous service day.
@@ -64,14 +64,15 @@ export function dateToSecondsFromMidnight(date: Date): number {
  * 
  * @param measuredAt - When the data was measured
  * @param thresholdMs - Stale threshold in milliseconds (default: 5 minutes)
+ * @param now - Instant to measure the age at (default: now)
  * @returns true if data is stale
  */
 export function isDataStale(
   measuredAt: Date,
-  thresholdMs: number = DEFAULT_STALE_THRESHOLD_MS
+  thresholdMs: number = DEFAULT_STALE_THRESHOLD_MS,
+  now: Date = new Date()
 ): boolean {
-  const now = Date.now();
-  const age = now - measuredAt.getTime();
+  const age = now.getTime() - measuredAt.getTime();
   
   // Negative age means measurement is in the future - likely a prediction, not stale
   if (age < 0) {
@@ -110,3 +111,130 @@ export function getCurrentSecondsFromMidnight(): number {
   const now = new Date();
   return dateToSecondsFromMidnight(now);
 }
+
+// =============================================================================
+// GTFS Service Day Helpers
+// =============================================================================
+
+/**
+ * Tolerance when deciding whether a vehicle has already passed a stop.
+ * Absorbs GPS reporting lag around the stop itself.
+ */
+export const PASSED_STOP_TOLERANCE_SECONDS = 30;
+
+/**
+ * IANA timezone used by all Lithuanian GTFS feeds.
+ */
+export const LITHUANIA_TIMEZONE = 'Europe/Vilnius';
+
+/**
+ * Formatter producing Lithuanian wall-clock parts for an instant.
+ */
+const LITHUANIA_PARTS_FORMATTER = new Intl.DateTimeFormat('en-CA', {
+  timeZone: LITHUANIA_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+/**
+ * Wall-clock date and time parts in Lithuania.
+ */
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Get Lithuanian wall-clock parts for an instant.
+ */
+function getLithuanianParts(date: Date): LocalParts {
+  const parts: LocalParts = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+  
+  for (const part of LITHUANIA_PARTS_FORMATTER.formatToParts(date)) {
+    if (part.type in parts) {
+      parts[part.type as keyof LocalParts] = parseInt(part.value, 10);
+    }
+  }
+  
+  return parts;
+}
+
+/**
+ * Get the Lithuanian UTC offset (in ms) in effect at an instant.
+ */
+function getLithuanianOffsetMs(date: Date): number {
+  const parts = getLithuanianParts(date);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Parse a GTFS time string (H:MM:SS or HH:MM:SS) to seconds.
+ * Values can exceed 24:00:00 for trips running past midnight.
+ * 
+ * @param value - GTFS time string
+ * @returns Seconds since service day start, or null if invalid
+ * 
+ * @example
+ * parseGtfsTime('06:05:30') // => 21930
+ * parseGtfsTime('25:10:00') // => 90600
+ */
+export function parseGtfsTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2}):(\d{2})$/.exec(value.trim());
+  
+  if (!match) {
+    return null;
+  }
+  
+  const [, hours = '', minutes = '', seconds = ''] = match;
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+}
+
+/**
+ * Get the Lithuanian local calendar date for an instant.
+ * 
+ * @param date - Instant to convert
+ * @returns Local date in YYYY-MM-DD format
+ */
+export function getLithuanianDate(date: Date): string {
+  const { year, month, day } = getLithuanianParts(date);
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date.
+ * 
+ * @param serviceDate - Date in YYYY-MM-DD format
+ * @param days - Days to add (can be negative)
+ * @returns Shifted date in YYYY-MM-DD format
+ */
+export function addDaysToDate(serviceDate: string, days: number): string {
+  const [year = 0, month = 1, day = 1] = serviceDate.split('-').map(part => parseInt(part, 10));
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the start instant of a GTFS service day in Lithuania.
+ * 
+ * GTFS measures stop times from "noon minus 12h" of the service date,
+ * which equals local midnight except on daylight saving transition days.
+ * 
+ * @param serviceDate - Service date in YYYY-MM-DD format
+ * @returns Instant that GTFS time 00:00:00 refers to
+ */
+export function getServiceDayStart(serviceDate: string): Date {
+  const [year = 0, month = 1, day = 1] = serviceDate.split('-').map(part => parseInt(part, 10));
+  const noonAsUtc = Date.UTC(year, month - 1, day, 12);
+  const noon = noonAsUtc - getLithuanianOffsetMs(new Date(noonAsUtc));
+  return new Date(noon - 12 * 3600 * 1000);
+}